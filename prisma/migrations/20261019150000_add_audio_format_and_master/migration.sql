@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Audio" ADD COLUMN "masterFilePath" TEXT;
+ALTER TABLE "Audio" ADD COLUMN "format" TEXT NOT NULL DEFAULT 'mp3';
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Audio" ADD COLUMN "duration" REAL;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_UploadSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "fileName" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "audioId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "UploadSession_audioId_fkey" FOREIGN KEY ("audioId") REFERENCES "Audio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "UploadSession_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_UploadSession" ("createdAt", "createdById", "description", "fileName", "fileSize", "id", "name", "updatedAt") SELECT "createdAt", "createdById", "description", "fileName", "fileSize", "id", "name", "updatedAt" FROM "UploadSession";
+DROP TABLE "UploadSession";
+ALTER TABLE "new_UploadSession" RENAME TO "UploadSession";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
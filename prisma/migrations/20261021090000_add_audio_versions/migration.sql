@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "Audio" ADD COLUMN "currentVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AudioVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "audioId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "note" TEXT,
+    "originalFileName" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "masterFilePath" TEXT,
+    "format" TEXT NOT NULL DEFAULT 'mp3',
+    "duration" REAL,
+    "processingStatus" TEXT NOT NULL DEFAULT 'processing',
+    "createdById" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deletedAt" DATETIME,
+    CONSTRAINT "AudioVersion_audioId_fkey" FOREIGN KEY ("audioId") REFERENCES "Audio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AudioVersion_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AudioVersion_audioId_number_key" ON "AudioVersion"("audioId", "number");
+
+-- Keep the current file of every existing audio as its first version
+INSERT INTO "AudioVersion" ("id", "audioId", "number", "originalFileName", "filePath", "masterFilePath", "format", "duration", "processingStatus", "createdById", "createdAt")
+SELECT lower(hex(randomblob(12))), "id", 1, "originalFileName", "filePath", "masterFilePath", "format", "duration", "processingStatus", "createdById", "createdAt" FROM "Audio";
+UPDATE "Audio" SET "currentVersionId" = (SELECT "id" FROM "AudioVersion" WHERE "AudioVersion"."audioId" = "Audio"."id" AND "AudioVersion"."number" = 1);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Job" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "audioId" TEXT,
+    "versionId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "error" TEXT,
+    "runAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Job_audioId_fkey" FOREIGN KEY ("audioId") REFERENCES "Audio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Job_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "AudioVersion" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Job" ("attempts", "audioId", "createdAt", "error", "finishedAt", "id", "maxAttempts", "runAt", "startedAt", "status", "type", "updatedAt", "versionId") SELECT "attempts", "audioId", "createdAt", "error", "finishedAt", "id", "maxAttempts", "runAt", "startedAt", "status", "type", "updatedAt", (SELECT "currentVersionId" FROM "Audio" WHERE "Audio"."id" = "Job"."audioId") FROM "Job";
+DROP TABLE "Job";
+ALTER TABLE "new_Job" RENAME TO "Job";
+CREATE INDEX "Job_status_runAt_idx" ON "Job"("status", "runAt");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Marker" ADD COLUMN "notes" TEXT;
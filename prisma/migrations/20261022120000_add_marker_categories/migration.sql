@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "MarkerCategory" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#3b82f6',
+    "icon" TEXT NOT NULL DEFAULT 'tag',
+    "audioId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MarkerCategory_audioId_fkey" FOREIGN KEY ("audioId") REFERENCES "Audio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "MarkerCategory_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Marker" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "label" TEXT NOT NULL,
+    "timestamp" REAL NOT NULL,
+    "endTimestamp" REAL,
+    "color" TEXT NOT NULL DEFAULT '#3b82f6',
+    "notes" TEXT,
+    "audioId" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Marker_audioId_fkey" FOREIGN KEY ("audioId") REFERENCES "Audio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Marker_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "MarkerCategory" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Marker" ("audioId", "color", "createdAt", "endTimestamp", "id", "label", "notes", "timestamp", "updatedAt") SELECT "audioId", "color", "createdAt", "endTimestamp", "id", "label", "notes", "timestamp", "updatedAt" FROM "Marker";
+DROP TABLE "Marker";
+ALTER TABLE "new_Marker" RENAME TO "Marker";
+CREATE UNIQUE INDEX "Marker_audioId_timestamp_key" ON "Marker"("audioId", "timestamp");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
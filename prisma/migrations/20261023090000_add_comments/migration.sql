@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Audio" ADD COLUMN "allowAnonymousComments" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "Comment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "content" TEXT NOT NULL,
+    "timestamp" REAL,
+    "endTimestamp" REAL,
+    "audioId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "authorId" TEXT,
+    "authorName" TEXT,
+    "resolvedAt" DATETIME,
+    "editedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Comment_audioId_fkey" FOREIGN KEY ("audioId") REFERENCES "Audio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Comment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Comment" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Comment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Comment_audioId_parentId_idx" ON "Comment"("audioId", "parentId");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "PrivateMarker" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "label" TEXT NOT NULL,
+    "timestamp" REAL NOT NULL,
+    "endTimestamp" REAL,
+    "color" TEXT NOT NULL DEFAULT '#3b82f6',
+    "notes" TEXT,
+    "audioId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "PrivateMarker_audioId_fkey" FOREIGN KEY ("audioId") REFERENCES "Audio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PrivateMarker_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "PrivateMarker_userId_audioId_idx" ON "PrivateMarker"("userId", "audioId");
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "AudioCollaborator" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "audioId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "userId" TEXT,
+    "role" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "AudioCollaborator_audioId_fkey" FOREIGN KEY ("audioId") REFERENCES "Audio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AudioCollaborator_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "PlaylistCollaborator" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "playlistId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "userId" TEXT,
+    "role" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PlaylistCollaborator_playlistId_fkey" FOREIGN KEY ("playlistId") REFERENCES "Playlist" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PlaylistCollaborator_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AudioCollaborator_userId_idx" ON "AudioCollaborator"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AudioCollaborator_audioId_email_key" ON "AudioCollaborator"("audioId", "email");
+
+-- CreateIndex
+CREATE INDEX "PlaylistCollaborator_userId_idx" ON "PlaylistCollaborator"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlaylistCollaborator_playlistId_email_key" ON "PlaylistCollaborator"("playlistId", "email");
@@ -0,0 +1,90 @@
+-- CreateTable
+CREATE TABLE "Team" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "TeamMember" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "teamId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TeamMember_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TeamMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Audio" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "originalFileName" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "masterFilePath" TEXT,
+    "format" TEXT NOT NULL DEFAULT 'mp3',
+    "processingStatus" TEXT NOT NULL DEFAULT 'ready',
+    "duration" REAL,
+    "currentVersionId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "teamId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "deletedAt" DATETIME,
+    "isPublic" BOOLEAN NOT NULL DEFAULT true,
+    "allowAnonymousComments" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "Audio_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Audio_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Audio" ("allowAnonymousComments", "createdAt", "createdById", "currentVersionId", "deletedAt", "description", "duration", "filePath", "format", "id", "isPublic", "masterFilePath", "name", "originalFileName", "processingStatus", "updatedAt") SELECT "allowAnonymousComments", "createdAt", "createdById", "currentVersionId", "deletedAt", "description", "duration", "filePath", "format", "id", "isPublic", "masterFilePath", "name", "originalFileName", "processingStatus", "updatedAt" FROM "Audio";
+DROP TABLE "Audio";
+ALTER TABLE "new_Audio" RENAME TO "Audio";
+CREATE INDEX "Audio_teamId_idx" ON "Audio"("teamId");
+CREATE TABLE "new_Playlist" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isPublic" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT NOT NULL,
+    "teamId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "deletedAt" DATETIME,
+    CONSTRAINT "Playlist_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Playlist_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Playlist" ("createdAt", "createdById", "deletedAt", "description", "id", "isPublic", "name", "updatedAt") SELECT "createdAt", "createdById", "deletedAt", "description", "id", "isPublic", "name", "updatedAt" FROM "Playlist";
+DROP TABLE "Playlist";
+ALTER TABLE "new_Playlist" RENAME TO "Playlist";
+CREATE INDEX "Playlist_teamId_idx" ON "Playlist"("teamId");
+CREATE TABLE "new_UploadSession" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "fileName" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "audioId" TEXT,
+    "teamId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "UploadSession_audioId_fkey" FOREIGN KEY ("audioId") REFERENCES "Audio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "UploadSession_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "UploadSession_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_UploadSession" ("audioId", "createdAt", "createdById", "description", "fileName", "fileSize", "id", "name", "updatedAt") SELECT "audioId", "createdAt", "createdById", "description", "fileName", "fileSize", "id", "name", "updatedAt" FROM "UploadSession";
+DROP TABLE "UploadSession";
+ALTER TABLE "new_UploadSession" RENAME TO "UploadSession";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "TeamMember_userId_idx" ON "TeamMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TeamMember_teamId_userId_key" ON "TeamMember"("teamId", "userId");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Playlist" ADD COLUMN "feedToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Playlist_feedToken_key" ON "Playlist"("feedToken");
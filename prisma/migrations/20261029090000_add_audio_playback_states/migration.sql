@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "AudioPlaybackState" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "audioId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "pitchSemitones" INTEGER NOT NULL DEFAULT 0,
+    "pitchCents" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AudioPlaybackState_audioId_fkey" FOREIGN KEY ("audioId") REFERENCES "Audio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AudioPlaybackState_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AudioPlaybackState_userId_audioId_key" ON "AudioPlaybackState"("userId", "audioId");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "AudioPlaybackState" ADD COLUMN "position" REAL;
+ALTER TABLE "AudioPlaybackState" ADD COLUMN "positionUpdatedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "AudioPlaybackState_userId_positionUpdatedAt_idx" ON "AudioPlaybackState"("userId", "positionUpdatedAt");
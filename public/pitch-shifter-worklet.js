@@ -0,0 +1,85 @@
+/**
+ * AudioWorklet that shifts the pitch without changing the tempo. Two read
+ * positions move through a short delay line at the pitch ratio; each one is
+ * faded out before it jumps back, while the other one is at full volume.
+ */
+
+// ~46ms at 44.1kHz, long enough for low notes and short enough to not echo
+const GRAIN_SIZE = 2048;
+const BUFFER_SIZE = GRAIN_SIZE * 2;
+
+class PitchShifterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      {
+        name: "ratio",
+        defaultValue: 1,
+        minValue: 0.25,
+        maxValue: 4,
+        automationRate: "k-rate",
+      },
+    ];
+  }
+
+  constructor() {
+    super();
+    this.buffers = [];
+    this.writeIndex = 0;
+    this.phase = 0;
+  }
+
+  /** Sample of the delay line at a fractional delay */
+  read(buffer, delay) {
+    let position = this.writeIndex - delay;
+    if (position < 0) position += BUFFER_SIZE;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const next = (index + 1) % BUFFER_SIZE;
+    return buffer[index] * (1 - fraction) + buffer[next] * fraction;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+
+    while (this.buffers.length < input.length) {
+      this.buffers.push(new Float32Array(BUFFER_SIZE));
+    }
+
+    const ratio = parameters.ratio[0];
+    const phaseStep = (1 - ratio) / GRAIN_SIZE;
+    const frames = input[0].length;
+
+    for (let frame = 0; frame < frames; frame++) {
+      for (let channel = 0; channel < input.length; channel++) {
+        this.buffers[channel][this.writeIndex] = input[channel][frame];
+      }
+
+      const phase = this.phase;
+      const otherPhase = (phase + 0.5) % 1;
+      // sin² and cos² add up to 1, so the crossfade keeps the volume
+      const gain = Math.sin(Math.PI * phase) ** 2;
+      const otherGain = 1 - gain;
+
+      for (let channel = 0; channel < output.length; channel++) {
+        const source = Math.min(channel, input.length - 1);
+        if (ratio === 1) {
+          output[channel][frame] = input[source][frame];
+          continue;
+        }
+        const buffer = this.buffers[source];
+        output[channel][frame] =
+          this.read(buffer, phase * GRAIN_SIZE) * gain +
+          this.read(buffer, otherPhase * GRAIN_SIZE) * otherGain;
+      }
+
+      this.phase = (phase + phaseStep + 1) % 1;
+      this.writeIndex = (this.writeIndex + 1) % BUFFER_SIZE;
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("pitch-shifter", PitchShifterProcessor);
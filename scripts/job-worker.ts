@@ -0,0 +1,29 @@
+/**
+ * Run the background job worker as a separate process.
+ * Usage: pnpm jobs:work
+ *
+ * Set JOB_WORKER_ENABLED="false" for the Next.js server when using this script,
+ * otherwise jobs are processed by both (which is safe, but not necessary).
+ */
+import { existsSync } from "node:fs";
+
+// Unlike Next.js, tsx does not load the .env file; this has to happen
+// before the worker (and with it the env validation) is imported
+if (existsSync(".env")) {
+  process.loadEnvFile(".env");
+}
+
+const { startJobWorker, stopJobWorker } = await import(
+  "../src/lib/jobs/worker"
+);
+
+console.log("🛠️  Job worker started, waiting for jobs...");
+startJobWorker();
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    console.log("Stopping job worker...");
+    stopJobWorker();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { useTranslations } from "next-intl";
+import { Button } from "@heroui/button";
+import { X } from "lucide-react";
+import { api } from "~/trpc/react";
+import {
+  getAudioIdFromBrowserMarkersKey,
+  getBrowserMarkerBatches,
+  getBrowserMarkersKey,
+  parseBrowserMarkers,
+} from "~/lib/privateMarker";
+
+/**
+ * Moves the markers a listener saved in this browser to their account once
+ * they are signed in. Markers of audios they cannot access stay in the
+ * browser. Many markers are sent in several requests, and a failure is shown
+ * instead of being retried unnoticed on every page.
+ */
+export default function BrowserMarkerMigration() {
+  const t = useTranslations("BrowserMarkerMigration");
+  const { data: session } = useSession();
+  const utils = api.useUtils();
+  const importBrowserMarkers =
+    api.privateMarker.importBrowserMarkers.useMutation();
+  const { mutateAsync } = importBrowserMarkers;
+  const migratedUserIdRef = useRef<string | null>(null);
+  const [hasFailed, setHasFailed] = useState(false);
+  const userId = session?.user?.id ?? null;
+
+  useEffect(() => {
+    if (!userId || migratedUserIdRef.current === userId) return;
+    migratedUserIdRef.current = userId;
+
+    const audios = Object.keys(localStorage).flatMap((key) => {
+      const audioId = getAudioIdFromBrowserMarkersKey(key);
+      if (!audioId) return [];
+      return [
+        { audioId, markers: parseBrowserMarkers(localStorage.getItem(key)) },
+      ];
+    });
+    if (audios.length === 0) return;
+
+    const migrate = async () => {
+      const batches = getBrowserMarkerBatches(audios);
+      for (const [index, batch] of batches.entries()) {
+        const { importedAudioIds } = await mutateAsync({ audios: batch });
+        // An audio continued in the next request keeps its markers until then
+        const continued = new Set(
+          batches[index + 1]?.map((audio) => audio.audioId),
+        );
+        for (const audioId of importedAudioIds) {
+          if (!continued.has(audioId)) {
+            localStorage.removeItem(getBrowserMarkersKey(audioId));
+          }
+        }
+      }
+    };
+    migrate()
+      .catch((error: unknown) => {
+        console.error("Error moving browser markers to the account:", error);
+        setHasFailed(true);
+      })
+      .finally(() => void utils.privateMarker.getPrivateMarkers.invalidate());
+  }, [userId, mutateAsync, utils]);
+
+  if (!hasFailed) return null;
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-4 left-4 right-4 z-50 mx-auto flex max-w-xl items-start gap-2 rounded-lg border-2 border-danger-200 bg-white p-4 shadow-lg dark:bg-gray-900"
+    >
+      <p className="flex-1 text-sm">{t("failed")}</p>
+      <Button
+        size="sm"
+        variant="light"
+        isIconOnly
+        onPress={() => setHasFailed(false)}
+        aria-label={t("close")}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
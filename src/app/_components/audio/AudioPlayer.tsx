@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import WaveSurfer from "wavesurfer.js";
 import Timeline from "wavesurfer.js/dist/plugins/timeline.esm.js";
 import RegionsPlugin, {
@@ -14,20 +14,55 @@ import {
   ZoomIn,
   Gauge,
   SquareArrowOutUpRight,
+  Link2,
+  Check,
+  Repeat,
+  Music,
 } from "lucide-react";
 import LoadingOverlay from "../global/LoadingOverlay";
 import VolumeControl from "./VolumeControl";
+import PracticePanel from "./PracticePanel";
 import Link from "next/link";
-import type { AudioMarker } from "~/types/Audio";
+import type { AudioMarker, CommentPin, MarkerCategory } from "~/types/Audio";
 import { formatTime } from "~/lib/time";
 import { isSection } from "~/lib/marker";
+import { filterMarkersByCategory } from "~/lib/markerCategory";
+import { getDeepLinkUrl, type DeepLinkTarget } from "~/lib/deepLink";
+import {
+  getPracticeRange,
+  type PracticeRange,
+  type PracticeSettings,
+} from "~/lib/practice";
+import {
+  getPitchRatio,
+  MAX_PITCH_CENTS,
+  MAX_PITCH_SEMITONES,
+  NO_PITCH_SHIFT,
+  normalizePitch,
+  type Pitch,
+} from "~/lib/pitch";
+import MarkerCategoryLegend from "./marker/MarkerCategoryLegend";
 import { useTranslations } from "next-intl";
 import { useWakeLock } from "./hooks/useWakeLock";
+import { useCopyLink } from "./hooks/useCopyLink";
+import { usePracticeLoop } from "./hooks/usePracticeLoop";
+import { usePitchShift } from "./hooks/usePitchShift";
+import { useMediaSession } from "./hooks/useMediaSession";
 
 const markerIdPrefix = "app-marker-";
+const commentIdPrefix = "app-comment-";
+const practiceRegionId = "app-practice";
 const initialZoomLevel = 20;
 /** Minimum ms between React state updates during playback */
 const TIME_UPDATE_THROTTLE_MS = 250;
+const NO_HIDDEN_CATEGORIES: string[] = [];
+const NO_COMMENT_PINS: CommentPin[] = [];
+const COMMENT_PIN_COLOR = "rgba(245, 165, 36, 0.9)";
+const COMMENT_RANGE_COLOR = "rgba(245, 165, 36, 0.15)";
+const RESOLVED_COMMENT_PIN_COLOR = "rgba(161, 161, 170, 0.6)";
+const PRACTICE_RANGE_COLOR = "rgba(23, 201, 100, 0.2)";
+
+const formatSigned = (value: number) => (value > 0 ? `+${value}` : `${value}`);
 
 interface AudioPlayerProps {
   audioUrl: string;
@@ -38,6 +73,8 @@ interface AudioPlayerProps {
   markers?: AudioMarker[];
   onTimeUpdate?: (time: number) => void;
   onPlayFromFnReady?: (playFrom: (marker: AudioMarker) => void) => void;
+  /** Passes a function that moves the playback position to a time */
+  onSeekFnReady?: (seek: (time: number) => void) => void;
   onSelectedRegionUpdate?: (start: number | null, end: number | null) => void;
   onClearRegionReady?: (clearRegion: () => void) => void;
   onFinish?: () => void;
@@ -47,6 +84,25 @@ interface AudioPlayerProps {
     markerId: string,
     updates: { timestamp: number; endTimestamp?: number | null },
   ) => void;
+  /** Categories shown as legend above the waveform */
+  categories?: MarkerCategory[];
+  /** Markers of these categories are not shown on the waveform */
+  hiddenCategoryIds?: string[];
+  onToggleCategory?: (key: string) => void;
+  onShowAllCategories?: () => void;
+  /** Position to open once the audio is loaded, from a link to the page */
+  deepLink?: DeepLinkTarget | null;
+  /** Comment threads shown as pins on the waveform */
+  commentPins?: CommentPin[];
+  onCommentPinClick?: (commentId: string) => void;
+  /** Pitch shift independent of the tempo, the control is shown with onPitchChange */
+  pitch?: Pitch;
+  onPitchChange?: (pitch: Pitch) => void;
+  /** Playlist the audio is played in, shown on the lock screen */
+  playlistName?: string | null;
+  /** Neighbouring audios for the track keys after the first and last marker */
+  onPreviousTrack?: () => void;
+  onNextTrack?: () => void;
 }
 
 export default function AudioPlayer({
@@ -55,17 +111,34 @@ export default function AudioPlayer({
   audioDescription,
   audioReadOnlyToken,
   peaksUrl,
-  markers = [],
+  markers: allMarkers = [],
   onTimeUpdate,
   onPlayFromFnReady,
+  onSeekFnReady,
   onSelectedRegionUpdate,
   onClearRegionReady,
   onFinish,
   onPlayReady,
   editingMarkerId,
   onMarkerUpdated,
+  categories = [],
+  hiddenCategoryIds = NO_HIDDEN_CATEGORIES,
+  onToggleCategory,
+  onShowAllCategories,
+  deepLink,
+  commentPins = NO_COMMENT_PINS,
+  onCommentPinClick,
+  pitch = NO_PITCH_SHIFT,
+  onPitchChange,
+  playlistName,
+  onPreviousTrack,
+  onNextTrack,
 }: AudioPlayerProps) {
   const t = useTranslations("AudioPlayer");
+  const markers = useMemo(
+    () => filterMarkersByCategory(allMarkers, hiddenCategoryIds),
+    [allMarkers, hiddenCategoryIds],
+  );
 
   // WaveSurfer refs
   const waveformRef = useRef<HTMLDivElement>(null);
@@ -87,6 +160,10 @@ export default function AudioPlayer({
   const [zoomLevel, setZoomLevel] = useState(initialZoomLevel);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [volume, setVolume] = useState(100);
+  const [isPracticeOpen, setIsPracticeOpen] = useState(false);
+  const [practiceRange, setPracticeRange] = useState<PracticeRange | null>(
+    null,
+  );
 
   // Internal refs — keep callback props and markers in refs so the main
   // WaveSurfer useEffect only depends on audioUrl (prevents re-init).
@@ -98,20 +175,30 @@ export default function AudioPlayer({
     onSelectedRegionUpdate,
     onFinish,
     onMarkerUpdated,
+    onCommentPinClick,
   });
   const lastTimeUpdateRef = useRef(0);
+  const appliedDeepLinkRef = useRef<DeepLinkTarget | null>(null);
+  const { copiedKey, copyLink } = useCopyLink();
+  const practice = usePracticeLoop(wavesurfer, setPlaybackRate);
+  const practiceRef = useRef(practice);
+  const isPracticing = !!practice.progress && !practice.progress.isFinished;
 
   markersRef.current = markers;
+  practiceRef.current = practice;
   callbacksRef.current = {
     onTimeUpdate,
     onSelectedRegionUpdate,
     onFinish,
     onMarkerUpdated,
+    onCommentPinClick,
   };
 
   // Keep screen awake during playback
   useWakeLock(isPlaying);
 
+  usePitchShift(wavesurfer, isReady, getPitchRatio(pitch));
+
   // Track when component has mounted (after hydration completes)
   useEffect(() => {
     setMounted(true);
@@ -185,6 +272,51 @@ export default function AudioPlayer({
     [],
   );
 
+  const syncRegionsToComments = useCallback((list: CommentPin[]) => {
+    if (!regionsPlugin.current || !wavesurfer.current) return;
+
+    const existing = regionsPlugin.current.getRegions();
+    const wanted = new Set(list.map((pin) => commentIdPrefix + pin.id));
+
+    existing.forEach((r) => {
+      if (r.id.startsWith(commentIdPrefix) && !wanted.has(r.id)) r.remove();
+    });
+
+    list.forEach((pin) => {
+      const id = commentIdPrefix + pin.id;
+      const end = pin.endTimestamp ?? undefined;
+      const isRange = end !== undefined && end > pin.timestamp;
+      const opts = {
+        start: pin.timestamp,
+        end: isRange ? end : undefined,
+        color: pin.resolved
+          ? RESOLVED_COMMENT_PIN_COLOR
+          : isRange
+            ? COMMENT_RANGE_COLOR
+            : COMMENT_PIN_COLOR,
+        content: "💬",
+        drag: false,
+        resize: false,
+      };
+
+      const found = existing.find((r) => r.id === id);
+      if (found) {
+        found.setOptions(opts);
+      } else {
+        regionsPlugin.current?.addRegion({ id, ...opts });
+      }
+    });
+  }, []);
+
+  /** Selections and sections become the practice range, unless practising */
+  const selectPracticeRange = useCallback((start: number, end: number) => {
+    const progress = practiceRef.current.progress;
+    if (progress && !progress.isFinished) return;
+    const dur = wavesurfer.current?.getDuration() ?? 0;
+    const range = getPracticeRange(start, end, dur);
+    if (range) setPracticeRange(range);
+  }, []);
+
   // ── WaveSurfer initialisation ───────────────────────────────────────
 
   useEffect(() => {
@@ -192,6 +324,8 @@ export default function AudioPlayer({
 
     setIsLoading(true);
     setIsReady(false);
+    practiceRef.current.stop();
+    setPracticeRange(null);
 
     const regions = RegionsPlugin.create();
     regionsPlugin.current = regions;
@@ -199,11 +333,20 @@ export default function AudioPlayer({
     // Region event handlers (use refs so they always see latest callbacks)
     const onRegionDblClick = (region: Region, e: MouseEvent) => {
       e.stopPropagation();
+      if (region.id === practiceRegionId) return;
+      practiceRef.current.stop();
+      if (region.end !== region.start) {
+        selectPracticeRange(region.start, region.end);
+      }
       activeRegionId.current = region.id;
       region.play();
     };
 
     const onRegionOut = (region: Region) => {
+      if (region.id === practiceRegionId) {
+        practiceRef.current.handleRangeEnd();
+        return;
+      }
       if (
         activeRegionId.current === region.id &&
         region.end !== region.start &&
@@ -216,6 +359,10 @@ export default function AudioPlayer({
     const onRegionUpdated = (region: Region) => {
       if (region.id === selectionRegionId.current) {
         callbacksRef.current.onSelectedRegionUpdate?.(region.start, region.end);
+        selectPracticeRange(region.start, region.end);
+      }
+      if (region.id === practiceRegionId) {
+        selectPracticeRange(region.start, region.end);
       }
       if (region.id.startsWith(markerIdPrefix)) {
         const markerId = region.id.replace(markerIdPrefix, "");
@@ -230,8 +377,21 @@ export default function AudioPlayer({
       }
     };
 
+    const onRegionClicked = (region: Region) => {
+      if (region.id.startsWith(commentIdPrefix)) {
+        callbacksRef.current.onCommentPinClick?.(
+          region.id.replace(commentIdPrefix, ""),
+        );
+      }
+    };
+
     const onRegionCreated = (region: Region) => {
-      if (region.id.startsWith(markerIdPrefix)) return;
+      if (
+        region.id.startsWith(markerIdPrefix) ||
+        region.id.startsWith(commentIdPrefix) ||
+        region.id === practiceRegionId
+      )
+        return;
       // Replace previous selection
       if (selectionRegionId.current) {
         const prev = regions
@@ -241,12 +401,14 @@ export default function AudioPlayer({
       }
       selectionRegionId.current = region.id;
       callbacksRef.current.onSelectedRegionUpdate?.(region.start, region.end);
+      selectPracticeRange(region.start, region.end);
     };
 
     regions.on("region-double-clicked", onRegionDblClick);
     regions.on("region-out", onRegionOut);
     regions.on("region-updated", onRegionUpdated);
     regions.on("region-created", onRegionCreated);
+    regions.on("region-clicked", onRegionClicked);
 
     // Create WaveSurfer with pre-computed peaks for fast rendering.
     // Peaks are fetched from the server (generated during upload), providing
@@ -282,6 +444,12 @@ export default function AudioPlayer({
     };
 
     const onWsFinish = () => {
+      // A practice range up to the end of the audio repeats instead
+      const progress = practiceRef.current.progress;
+      if (progress && !progress.isFinished) {
+        practiceRef.current.handleRangeEnd();
+        return;
+      }
       setIsPlaying(false);
       setCurrentTime(ws.getDuration());
       callbacksRef.current.onFinish?.();
@@ -330,6 +498,7 @@ export default function AudioPlayer({
       regions.un("region-out", onRegionOut);
       regions.un("region-updated", onRegionUpdated);
       regions.un("region-created", onRegionCreated);
+      regions.un("region-clicked", onRegionClicked);
       if (ws.isPlaying()) ws.pause();
       ws.un("play", onPlay);
       ws.un("pause", onPause);
@@ -352,6 +521,37 @@ export default function AudioPlayer({
     }
   }, [markers, isReady, syncRegionsToMarkers, editingMarkerId]);
 
+  useEffect(() => {
+    if (isReady && wavesurfer.current && regionsPlugin.current) {
+      syncRegionsToComments(commentPins);
+    }
+  }, [commentPins, isReady, syncRegionsToComments]);
+
+  useEffect(() => {
+    const regions = regionsPlugin.current;
+    if (!isReady || !regions) return;
+    const existing = regions
+      .getRegions()
+      .find((r) => r.id === practiceRegionId);
+    if (!isPracticeOpen || !practiceRange) {
+      existing?.remove();
+      return;
+    }
+    const opts = {
+      start: practiceRange.start,
+      end: practiceRange.end,
+      color: PRACTICE_RANGE_COLOR,
+      content: t("practice.regionLabel"),
+      drag: !isPracticing,
+      resize: !isPracticing,
+    };
+    if (existing) {
+      existing.setOptions(opts);
+    } else {
+      regions.addRegion({ id: practiceRegionId, ...opts });
+    }
+  }, [isReady, isPracticeOpen, practiceRange, isPracticing, t]);
+
   // Seek to marker being edited
   useEffect(() => {
     if (isReady && wavesurfer.current && editingMarkerId) {
@@ -364,21 +564,65 @@ export default function AudioPlayer({
     }
   }, [editingMarkerId, isReady, markers]);
 
-  // ── Expose imperative handles to parent ─────────────────────────────
+  // Open the position of a link once; markers may still be loading
+  useEffect(() => {
+    const ws = wavesurfer.current;
+    if (!isReady || !ws || !deepLink || appliedDeepLinkRef.current === deepLink)
+      return;
+    const dur = ws.getDuration();
+    if (dur <= 0) return;
 
-  const playFrom = useCallback((marker: AudioMarker) => {
-    if (!wavesurfer.current) return;
-    const region = regionsPlugin.current
-      ?.getRegions()
-      .find((r) => r.id === markerIdPrefix + marker.id);
-    if (region) {
-      activeRegionId.current = region.id;
-      region.play();
+    let time: number;
+    if (deepLink.type === "time") {
+      time = Math.min(deepLink.time, dur);
     } else {
-      wavesurfer.current.seekTo(
-        marker.timestamp / wavesurfer.current.getDuration(),
-      );
+      const marker = allMarkers.find((m) => m.id === deepLink.markerId);
+      if (!marker) return;
+      time = marker.timestamp;
+      // Playing the section from its start loops it like a double click
+      if (deepLink.loop && isSection(marker)) {
+        activeRegionId.current = markerIdPrefix + marker.id;
+      }
     }
+
+    appliedDeepLinkRef.current = deepLink;
+    ws.seekTo(time / dur);
+    setCurrentTime(time);
+    callbacksRef.current.onTimeUpdate?.(time);
+  }, [deepLink, isReady, allMarkers]);
+
+  // ── Expose imperative handles to parent ─────────────────────────────
+
+  const playFrom = useCallback(
+    (marker: AudioMarker) => {
+      if (!wavesurfer.current) return;
+      const region = regionsPlugin.current
+        ?.getRegions()
+        .find((r) => r.id === markerIdPrefix + marker.id);
+      if (region) {
+        practiceRef.current.stop();
+        if (isSection(marker)) selectPracticeRange(region.start, region.end);
+        activeRegionId.current = region.id;
+        region.play();
+      } else {
+        wavesurfer.current.seekTo(
+          marker.timestamp / wavesurfer.current.getDuration(),
+        );
+      }
+    },
+    [selectPracticeRange],
+  );
+
+  const seek = useCallback((time: number) => {
+    const ws = wavesurfer.current;
+    if (!ws) return;
+    const dur = ws.getDuration();
+    if (dur <= 0) return;
+    activeRegionId.current = null;
+    const clamped = Math.min(Math.max(time, 0), dur);
+    ws.seekTo(clamped / dur);
+    setCurrentTime(clamped);
+    callbacksRef.current.onTimeUpdate?.(clamped);
   }, []);
 
   const clearSelectionRegion = useCallback(() => {
@@ -396,6 +640,10 @@ export default function AudioPlayer({
     if (isReady && onPlayFromFnReady) onPlayFromFnReady(playFrom);
   }, [isReady, playFrom, onPlayFromFnReady]);
 
+  useEffect(() => {
+    if (isReady && onSeekFnReady) onSeekFnReady(seek);
+  }, [isReady, seek, onSeekFnReady]);
+
   useEffect(() => {
     if (isReady && onPlayReady) {
       onPlayReady(() => {
@@ -446,12 +694,41 @@ export default function AudioPlayer({
 
   const handleStop = useCallback(() => {
     if (!wavesurfer.current) return;
+    practiceRef.current.stop();
     wavesurfer.current.stop();
     activeRegionId.current = null;
     setIsPlaying(false);
     setCurrentTime(0);
   }, []);
 
+  // The Open Graph image shows the waveform, private audios get the generic card
+  const mediaArtwork = useMemo(
+    () => [
+      {
+        src: `/audios/${audioReadOnlyToken}/listen/opengraph-image`,
+        sizes: "1200x630",
+        type: "image/png",
+      },
+      { src: "/audio-marker-logo.svg", sizes: "any", type: "image/svg+xml" },
+    ],
+    [audioReadOnlyToken],
+  );
+
+  useMediaSession({
+    wavesurfer,
+    isReady,
+    isPlaying,
+    playbackRate,
+    title: audioName,
+    album: playlistName,
+    artwork: mediaArtwork,
+    markers,
+    seek,
+    onStop: handleStop,
+    onPreviousTrack,
+    onNextTrack,
+  });
+
   const handleZoomChange = useCallback((value: number | number[]) => {
     const zoom = Array.isArray(value) ? value[0] : value;
     if (typeof zoom === "number") {
@@ -482,11 +759,69 @@ export default function AudioPlayer({
     wavesurfer.current?.setPlaybackRate(1);
   }, []);
 
+  const handlePitchChange = useCallback(
+    (update: Partial<Pitch>) => {
+      onPitchChange?.(normalizePitch({ ...pitch, ...update }));
+    },
+    [pitch, onPitchChange],
+  );
+
   const handleVolumeChange = useCallback((vol: number) => {
     setVolume(vol);
     wavesurfer.current?.setVolume(vol / 100);
   }, []);
 
+  const handleTogglePractice = useCallback(() => {
+    practiceRef.current.stop();
+    setIsPracticeOpen((open) => !open);
+  }, []);
+
+  const handleSetPracticeStart = useCallback(() => {
+    const ws = wavesurfer.current;
+    if (!ws) return;
+    const time = ws.getCurrentTime();
+    const dur = ws.getDuration();
+    setPracticeRange(
+      (prev) =>
+        getPracticeRange(time, prev && prev.end > time ? prev.end : dur, dur) ??
+        prev,
+    );
+  }, []);
+
+  const handleSetPracticeEnd = useCallback(() => {
+    const ws = wavesurfer.current;
+    if (!ws) return;
+    const time = ws.getCurrentTime();
+    setPracticeRange(
+      (prev) =>
+        getPracticeRange(
+          prev && prev.start < time ? prev.start : 0,
+          time,
+          ws.getDuration(),
+        ) ?? prev,
+    );
+  }, []);
+
+  const handlePracticeStart = useCallback(
+    (settings: PracticeSettings) => {
+      if (!practiceRange) return;
+      activeRegionId.current = null;
+      practice.start(practiceRange, settings);
+    },
+    [practiceRange, practice.start],
+  );
+
+  const handleCopyTimeLink = useCallback(() => {
+    const time = wavesurfer.current?.getCurrentTime() ?? 0;
+    void copyLink(
+      "time",
+      getDeepLinkUrl(window.location.origin, audioReadOnlyToken, {
+        type: "time",
+        time,
+      }),
+    );
+  }, [audioReadOnlyToken, copyLink]);
+
   // ── Render ──────────────────────────────────────────────────────────
 
   return (
@@ -528,6 +863,16 @@ export default function AudioPlayer({
         </div>
       </div>
 
+      {categories.length > 0 && onToggleCategory && (
+        <MarkerCategoryLegend
+          categories={categories}
+          markers={allMarkers}
+          hiddenCategoryIds={hiddenCategoryIds}
+          onToggleCategory={onToggleCategory}
+          onShowAll={() => onShowAllCategories?.()}
+        />
+      )}
+
       {/* Waveform — CSS containment isolates it from layout thrashing */}
       <div
         ref={waveformRef}
@@ -598,6 +943,68 @@ export default function AudioPlayer({
         </div>
       </div>
 
+      {/* Pitch Controls */}
+      {onPitchChange && (
+        <div className="mb-4 flex flex-col gap-4 sm:flex-row">
+          <div className="flex flex-1 items-center gap-3">
+            <div
+              onDoubleClick={() => onPitchChange(NO_PITCH_SHIFT)}
+              className="flex cursor-pointer items-center gap-1 select-none"
+              title={t("pitch.resetTitle")}
+            >
+              <Music size={16} className="text-default-500" />
+              <span className="text-default-500 min-w-12 text-sm">
+                {t("pitch.label")}
+              </span>
+            </div>
+            <Slider
+              size="sm"
+              step={1}
+              minValue={-MAX_PITCH_SEMITONES}
+              maxValue={MAX_PITCH_SEMITONES}
+              value={pitch.semitones}
+              onChange={(value) =>
+                handlePitchChange({
+                  semitones: Array.isArray(value) ? value[0] : value,
+                })
+              }
+              className="flex-1"
+              color="primary"
+              isDisabled={isLoading}
+              aria-label={t("pitch.semitonesAriaLabel")}
+            />
+            <span className="text-default-500 min-w-8 text-xs">
+              {t("pitch.semitones", { value: formatSigned(pitch.semitones) })}
+            </span>
+          </div>
+
+          <div className="flex flex-1 items-center gap-3">
+            <span className="text-default-500 min-w-12 text-sm">
+              {t("pitch.fineLabel")}
+            </span>
+            <Slider
+              size="sm"
+              step={1}
+              minValue={-MAX_PITCH_CENTS}
+              maxValue={MAX_PITCH_CENTS}
+              value={pitch.cents}
+              onChange={(value) =>
+                handlePitchChange({
+                  cents: Array.isArray(value) ? value[0] : value,
+                })
+              }
+              className="flex-1"
+              color="primary"
+              isDisabled={isLoading}
+              aria-label={t("pitch.centsAriaLabel")}
+            />
+            <span className="text-default-500 min-w-8 text-xs">
+              {t("pitch.cents", { value: formatSigned(pitch.cents) })}
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Time Display */}
       <div className="text-default-500 flex justify-between text-sm">
         <span>{formatTime(currentTime)}</span>
@@ -633,7 +1040,49 @@ export default function AudioPlayer({
           onVolumeChange={handleVolumeChange}
           isDisabled={isLoading}
         />
+
+        <Button
+          isIconOnly
+          size="lg"
+          color={copiedKey === "time" ? "success" : "default"}
+          variant="flat"
+          onPress={handleCopyTimeLink}
+          isDisabled={isLoading}
+          aria-label={t("controls.copyLink")}
+          title={
+            copiedKey === "time"
+              ? t("controls.linkCopied")
+              : t("controls.copyLinkTitle", { time: formatTime(currentTime) })
+          }
+          startContent={
+            copiedKey === "time" ? <Check size={24} /> : <Link2 size={24} />
+          }
+        />
+
+        <Button
+          isIconOnly
+          size="lg"
+          color={isPracticeOpen ? "primary" : "default"}
+          variant="flat"
+          onPress={handleTogglePractice}
+          isDisabled={isLoading}
+          aria-label={t("practice.toggle")}
+          title={t("practice.toggle")}
+          startContent={<Repeat size={24} />}
+        />
       </div>
+
+      {isPracticeOpen && (
+        <PracticePanel
+          range={practiceRange}
+          progress={practice.progress}
+          isDisabled={isLoading || !isReady}
+          onSetStart={handleSetPracticeStart}
+          onSetEnd={handleSetPracticeEnd}
+          onStart={handlePracticeStart}
+          onStop={practice.stop}
+        />
+      )}
     </div>
   );
 }
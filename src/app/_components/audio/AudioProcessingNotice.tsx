@@ -0,0 +1,51 @@
+"use client";
+
+import { useEffect } from "react";
+import { Card, CardBody, Spinner } from "@heroui/react";
+import { AlertTriangle } from "lucide-react";
+import { useTranslations } from "next-intl";
+import type { AudioProcessingStatus } from "~/types/Audio";
+
+/** Interval for checking whether the processing has finished */
+const POLL_INTERVAL_MS = 5000;
+
+interface AudioProcessingNoticeProps {
+  status: Exclude<AudioProcessingStatus, "ready">;
+  /** Reload the audio, called periodically while it is processing */
+  onPoll: () => void;
+}
+
+/**
+ * Shown instead of the player while an uploaded audio is converted
+ * by the background jobs, or when the conversion failed.
+ */
+export function AudioProcessingNotice({
+  status,
+  onPoll,
+}: AudioProcessingNoticeProps) {
+  const t = useTranslations("AudioProcessingNotice");
+
+  useEffect(() => {
+    if (status !== "processing") return;
+    const interval = setInterval(onPoll, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [status, onPoll]);
+
+  return (
+    <Card className="w-full max-w-3xl">
+      <CardBody className="flex flex-row items-center gap-4 p-6">
+        {status === "processing" ? (
+          <Spinner size="md" />
+        ) : (
+          <AlertTriangle className="text-danger shrink-0" size={28} />
+        )}
+        <div>
+          <p className="font-semibold">{t(`${status}.title`)}</p>
+          <p className="text-sm text-default-500">
+            {t(`${status}.description`)}
+          </p>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import { useState } from "react";
+import { Button, Chip, Input, Switch } from "@heroui/react";
+import { Play, Repeat, Square } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { formatTime } from "~/lib/time";
+import {
+  DEFAULT_PRACTICE_SETTINGS,
+  type PracticeRange,
+  type PracticeSettings,
+} from "~/lib/practice";
+import type { PracticeProgress } from "./hooks/usePracticeLoop";
+
+interface PracticePanelProps {
+  range: PracticeRange | null;
+  progress: PracticeProgress | null;
+  isDisabled?: boolean;
+  /** Set A or B to the playback position */
+  onSetStart: () => void;
+  onSetEnd: () => void;
+  onStart: (settings: PracticeSettings) => void;
+  onStop: () => void;
+}
+
+/** Form values as typed, rates are in percent */
+type PracticeForm = Record<
+  | "repetitions"
+  | "startRate"
+  | "endRate"
+  | "rateStep"
+  | "gapSeconds"
+  | "countInBeats"
+  | "bpm",
+  string
+>;
+
+const toPercent = (rate: number) => String(Math.round(rate * 100));
+
+const INITIAL_FORM: PracticeForm = {
+  repetitions: String(DEFAULT_PRACTICE_SETTINGS.repetitions),
+  startRate: toPercent(DEFAULT_PRACTICE_SETTINGS.startRate),
+  endRate: toPercent(DEFAULT_PRACTICE_SETTINGS.endRate),
+  rateStep: toPercent(DEFAULT_PRACTICE_SETTINGS.rateStep),
+  gapSeconds: String(DEFAULT_PRACTICE_SETTINGS.gapSeconds),
+  countInBeats: String(DEFAULT_PRACTICE_SETTINGS.countInBeats),
+  bpm: String(DEFAULT_PRACTICE_SETTINGS.bpm),
+};
+
+/** Read a form field, falling back for empty or invalid input */
+function readNumber(value: string, min: number, max: number, fallback: number) {
+  const number = Number.parseFloat(value);
+  if (!Number.isFinite(number)) return fallback;
+  return Math.min(Math.max(number, min), max);
+}
+
+function toSettings(
+  form: PracticeForm,
+  speedTrainer: boolean,
+): PracticeSettings {
+  const defaults = DEFAULT_PRACTICE_SETTINGS;
+  return {
+    repetitions: Math.round(
+      readNumber(form.repetitions, 0, 100, defaults.repetitions),
+    ),
+    speedTrainer,
+    startRate:
+      readNumber(form.startRate, 25, 200, defaults.startRate * 100) / 100,
+    endRate: readNumber(form.endRate, 25, 200, defaults.endRate * 100) / 100,
+    rateStep: readNumber(form.rateStep, 1, 100, defaults.rateStep * 100) / 100,
+    gapSeconds: readNumber(form.gapSeconds, 0, 30, defaults.gapSeconds),
+    countInBeats: Math.round(
+      readNumber(form.countInBeats, 0, 16, defaults.countInBeats),
+    ),
+    bpm: readNumber(form.bpm, 20, 300, defaults.bpm),
+  };
+}
+
+/** Settings and repetition counter of the practice loop */
+export default function PracticePanel({
+  range,
+  progress,
+  isDisabled,
+  onSetStart,
+  onSetEnd,
+  onStart,
+  onStop,
+}: PracticePanelProps) {
+  const t = useTranslations("AudioPlayer.practice");
+  const [form, setForm] = useState<PracticeForm>(INITIAL_FORM);
+  const [speedTrainer, setSpeedTrainer] = useState(
+    DEFAULT_PRACTICE_SETTINGS.speedTrainer,
+  );
+
+  const isRunning = !!progress && !progress.isFinished;
+
+  const field = (key: keyof PracticeForm, step: string, unit?: string) => (
+    <Input
+      type="number"
+      step={step}
+      min="0"
+      size="sm"
+      label={t(`fields.${key}`)}
+      value={form[key]}
+      onValueChange={(value) => setForm((prev) => ({ ...prev, [key]: value }))}
+      isDisabled={isRunning}
+      endContent={
+        unit && <span className="text-small text-default-400">{unit}</span>
+      }
+    />
+  );
+
+  const status = () => {
+    if (!progress) return null;
+    if (progress.isFinished) {
+      return t("finished", { count: progress.repetition });
+    }
+    const repetition =
+      progress.settings.repetitions > 0
+        ? t("repetitionOf", {
+            current: progress.repetition,
+            total: progress.settings.repetitions,
+          })
+        : t("repetition", { current: progress.repetition });
+    return progress.isCountingIn
+      ? `${repetition} · ${t("countingIn")}`
+      : repetition;
+  };
+
+  return (
+    <div className="border-default-200 mt-4 space-y-3 rounded-lg border p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Repeat size={16} className="text-primary" />
+          <span className="text-sm font-semibold">{t("title")}</span>
+        </div>
+        {progress && (
+          <Chip
+            size="sm"
+            variant="flat"
+            color={progress.isFinished ? "success" : "primary"}
+          >
+            {status()}
+            {progress.rate !== null && ` · ${toPercent(progress.rate)}%`}
+          </Chip>
+        )}
+      </div>
+
+      <p className="text-default-500 text-xs">{t("hint")}</p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant="flat"
+          onPress={onSetStart}
+          isDisabled={isDisabled || isRunning}
+        >
+          {t("setStart")}
+        </Button>
+        <Button
+          size="sm"
+          variant="flat"
+          onPress={onSetEnd}
+          isDisabled={isDisabled || isRunning}
+        >
+          {t("setEnd")}
+        </Button>
+        <span className="text-default-500 text-sm">
+          {range
+            ? t("range", {
+                start: formatTime(range.start),
+                end: formatTime(range.end),
+              })
+            : t("noRange")}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        {field("repetitions", "1")}
+        {field("gapSeconds", "0.5", "s")}
+        {field("countInBeats", "1")}
+        {field("bpm", "1")}
+      </div>
+      <p className="text-default-400 text-xs">{t("repetitionsDescription")}</p>
+
+      <Switch
+        size="sm"
+        isSelected={speedTrainer}
+        onValueChange={setSpeedTrainer}
+        isDisabled={isRunning}
+      >
+        {t("speedTrainer")}
+      </Switch>
+      {speedTrainer && (
+        <div className="grid grid-cols-3 gap-2">
+          {field("startRate", "5", "%")}
+          {field("endRate", "5", "%")}
+          {field("rateStep", "5", "%")}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        {isRunning ? (
+          <Button
+            size="sm"
+            color="danger"
+            variant="flat"
+            startContent={<Square size={14} />}
+            onPress={onStop}
+          >
+            {t("stop")}
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            color="primary"
+            startContent={<Play size={14} />}
+            onPress={() => onStart(toSettings(form, speedTrainer))}
+            isDisabled={isDisabled || !range}
+          >
+            {t("start")}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
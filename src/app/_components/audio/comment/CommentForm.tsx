@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { Button, Input, Textarea } from "@heroui/react";
+import { useTranslations } from "next-intl";
+import {
+  MAX_COMMENT_AUTHOR_NAME_LENGTH,
+  MAX_COMMENT_LENGTH,
+} from "~/lib/comment";
+
+interface CommentFormProps {
+  /** Shows a name field for listeners without account */
+  askForName: boolean;
+  submitLabel: string;
+  onSubmit: (content: string, authorName: string) => void;
+  onCancel?: () => void;
+  isSubmitting: boolean;
+  error?: string;
+  initialContent?: string;
+  placeholder?: string;
+  /** Shown before the buttons, e.g. the time of a new comment */
+  startContent?: React.ReactNode;
+}
+
+/** Text of a new comment, a reply or an edited comment */
+export function CommentForm({
+  askForName,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  isSubmitting,
+  error,
+  initialContent = "",
+  placeholder,
+  startContent,
+}: CommentFormProps) {
+  const t = useTranslations("CommentForm");
+  const [content, setContent] = useState(initialContent);
+  const [authorName, setAuthorName] = useState("");
+
+  const canSubmit =
+    content.trim().length > 0 && (!askForName || authorName.trim().length > 0);
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit(content.trim(), authorName.trim());
+    // The text is kept until the parent closes the form, so a failed
+    // request can be retried
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {askForName && (
+        <Input
+          size="sm"
+          label={t("name")}
+          value={authorName}
+          onValueChange={setAuthorName}
+          maxLength={MAX_COMMENT_AUTHOR_NAME_LENGTH}
+        />
+      )}
+      <Textarea
+        size="sm"
+        minRows={2}
+        placeholder={placeholder ?? t("placeholder")}
+        value={content}
+        onValueChange={setContent}
+        maxLength={MAX_COMMENT_LENGTH}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+      />
+      {error && <p className="text-danger text-sm">{error}</p>}
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">{startContent}</div>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button size="sm" variant="light" onPress={onCancel}>
+              {t("cancel")}
+            </Button>
+          )}
+          <Button
+            size="sm"
+            color="primary"
+            isDisabled={!canSubmit}
+            isLoading={isSubmitting}
+            onPress={handleSubmit}
+          >
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardBody, CardHeader, Chip, Switch } from "@heroui/react";
+import { MessageSquare } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { api } from "~/trpc/react";
+import { sortCommentThreads } from "~/lib/comment";
+import { formatTime } from "~/lib/time";
+import { CommentForm } from "./CommentForm";
+import { CommentThread } from "./CommentThread";
+
+interface CommentPanelProps {
+  audioId: string;
+  /** Position of the player, new comments are placed there */
+  currentTime: number;
+  /** Region selected on the waveform, new comments refer to it when set */
+  selectedRegion?: { start: number | null; end: number | null } | null;
+  onSeek?: (time: number) => void;
+  /** Thread whose pin was clicked on the waveform */
+  activeThreadId?: string | null;
+  className?: string;
+}
+
+/** Timestamped comment threads of an audio with a form for new comments */
+export function CommentPanel({
+  audioId,
+  currentTime,
+  selectedRegion,
+  onSeek,
+  activeThreadId,
+  className = "w-full max-w-xl",
+}: CommentPanelProps) {
+  const t = useTranslations("CommentPanel");
+  const utils = api.useUtils();
+  const [showResolved, setShowResolved] = useState(false);
+  // Remounts the form to clear it after a comment was added
+  const [formKey, setFormKey] = useState(0);
+
+  const { data, error: loadError } = api.comment.getComments.useQuery({
+    audioId,
+  });
+
+  const createComment = api.comment.createComment.useMutation({
+    onSuccess: () => {
+      setFormKey((key) => key + 1);
+      void utils.comment.getComments.invalidate({ audioId });
+    },
+  });
+
+  const activeThreadIsResolved = data?.threads.some(
+    (thread) => thread.id === activeThreadId && thread.resolvedAt !== null,
+  );
+
+  // Resolved threads are hidden by default, show the one whose pin was clicked
+  useEffect(() => {
+    if (activeThreadIsResolved) setShowResolved(true);
+  }, [activeThreadIsResolved]);
+
+  useEffect(() => {
+    if (!activeThreadId) return;
+    document
+      .getElementById(`comment-${activeThreadId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [activeThreadId, showResolved]);
+
+  if (loadError) return null;
+
+  const threads = data?.threads ?? [];
+  const visibleThreads = sortCommentThreads(threads, showResolved);
+  const openCount = threads.filter((thread) => !thread.resolvedAt).length;
+  const resolvedCount = threads.length - openCount;
+
+  const range =
+    selectedRegion?.start != null &&
+    selectedRegion.end != null &&
+    selectedRegion.end > selectedRegion.start
+      ? { start: selectedRegion.start, end: selectedRegion.end }
+      : null;
+  const askForName = !data?.isSignedIn;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-col items-start">
+        <div className="flex flex-row items-center gap-2 pb-2">
+          <MessageSquare size={20} className="text-primary" />
+          <h3 className="text-lg font-semibold">{t("title")}</h3>
+          <Chip size="sm" variant="flat" color="primary">
+            {openCount}
+          </Chip>
+        </div>
+        <p className="text-small text-default-500">{t("subtitle")}</p>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        {data?.canComment ? (
+          <CommentForm
+            key={formKey}
+            askForName={askForName}
+            submitLabel={t("submit")}
+            onSubmit={(content, authorName) =>
+              createComment.mutate({
+                audioId,
+                timestamp: range?.start ?? currentTime,
+                endTimestamp: range?.end ?? null,
+                content,
+                authorName: authorName || undefined,
+              })
+            }
+            isSubmitting={createComment.isPending}
+            error={createComment.error?.message}
+            startContent={
+              <span className="text-xs text-default-500">
+                {range
+                  ? t("atRange", {
+                      start: formatTime(range.start),
+                      end: formatTime(range.end),
+                    })
+                  : t("atTime", { time: formatTime(currentTime) })}
+              </span>
+            }
+          />
+        ) : (
+          data && (
+            <p className="text-sm text-default-500">{t("signInToComment")}</p>
+          )
+        )}
+
+        {resolvedCount > 0 && (
+          <Switch
+            size="sm"
+            isSelected={showResolved}
+            onValueChange={setShowResolved}
+          >
+            {t("showResolved", { count: resolvedCount })}
+          </Switch>
+        )}
+
+        {visibleThreads.length > 0 ? (
+          <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+            {visibleThreads.map((thread) => (
+              <CommentThread
+                key={thread.id}
+                audioId={audioId}
+                thread={thread}
+                askForName={askForName}
+                canReply={!!data?.canComment}
+                isActive={thread.id === activeThreadId}
+                onSeek={onSeek}
+              />
+            ))}
+          </div>
+        ) : (
+          data && <p className="text-sm text-default-500">{t("empty")}</p>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
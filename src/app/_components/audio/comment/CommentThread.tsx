@@ -0,0 +1,258 @@
+"use client";
+
+import { useState } from "react";
+import { Button, Chip } from "@heroui/react";
+import {
+  CheckCircle2,
+  Clock,
+  Pencil,
+  Reply,
+  RotateCcw,
+  Trash2,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { api, type RouterOutputs } from "~/trpc/react";
+import { formatTime } from "~/lib/time";
+import { CommentForm } from "./CommentForm";
+
+type CommentThreadData =
+  RouterOutputs["comment"]["getComments"]["threads"][number];
+type CommentData = Omit<CommentThreadData, "replies">;
+
+interface CommentThreadProps {
+  audioId: string;
+  thread: CommentThreadData;
+  /** Listeners without account have to give a name */
+  askForName: boolean;
+  canReply: boolean;
+  /** Highlights the thread, e.g. after its pin was clicked */
+  isActive?: boolean;
+  onSeek?: (time: number) => void;
+}
+
+/** A comment at a time of the audio with its replies */
+export function CommentThread({
+  audioId,
+  thread,
+  askForName,
+  canReply,
+  isActive = false,
+  onSeek,
+}: CommentThreadProps) {
+  const t = useTranslations("CommentThread");
+  const utils = api.useUtils();
+  const [isReplying, setIsReplying] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const invalidate = () => {
+    void utils.comment.getComments.invalidate({ audioId });
+  };
+
+  const replyToComment = api.comment.replyToComment.useMutation({
+    onSuccess: () => {
+      setIsReplying(false);
+      invalidate();
+    },
+  });
+  const updateComment = api.comment.updateComment.useMutation({
+    onSuccess: () => {
+      setEditingId(null);
+      invalidate();
+    },
+  });
+  const deleteComment = api.comment.deleteComment.useMutation({
+    onSuccess: invalidate,
+  });
+  const setCommentResolved = api.comment.setCommentResolved.useMutation({
+    onSuccess: invalidate,
+  });
+
+  const handleDelete = (comment: CommentData) => {
+    const isThread = comment.id === thread.id;
+    if (
+      confirm(
+        isThread && thread.replies.length > 0
+          ? t("confirmDeleteThread", { count: thread.replies.length })
+          : t("confirmDelete"),
+      )
+    ) {
+      deleteComment.mutate({ id: comment.id });
+    }
+  };
+
+  const error =
+    deleteComment.error?.message ?? setCommentResolved.error?.message;
+
+  const renderComment = (comment: CommentData) => (
+    <div key={comment.id} className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-default-500">
+        <span className="font-medium text-default-700">
+          {comment.authorName ?? t("unknownAuthor")}
+        </span>
+        {comment.isAudioOwner && (
+          <Chip size="sm" variant="flat" color="primary">
+            {t("owner")}
+          </Chip>
+        )}
+        {comment.isAnonymous && (
+          <Chip size="sm" variant="flat">
+            {t("guest")}
+          </Chip>
+        )}
+        <span suppressHydrationWarning={true}>
+          {new Date(comment.createdAt).toLocaleString()}
+        </span>
+        {comment.editedAt && <span>{t("edited")}</span>}
+      </div>
+
+      {editingId === comment.id ? (
+        <CommentForm
+          askForName={false}
+          initialContent={comment.content}
+          submitLabel={t("save")}
+          onSubmit={(content) =>
+            updateComment.mutate({ id: comment.id, content })
+          }
+          onCancel={() => setEditingId(null)}
+          isSubmitting={updateComment.isPending}
+          error={updateComment.error?.message}
+        />
+      ) : (
+        <p className="text-sm whitespace-pre-wrap break-words">
+          {comment.content}
+        </p>
+      )}
+
+      {editingId !== comment.id && (comment.canEdit || comment.canDelete) && (
+        <div className="flex gap-1">
+          {comment.canEdit && (
+            <Button
+              size="sm"
+              variant="light"
+              isIconOnly
+              onPress={() => {
+                updateComment.reset();
+                setEditingId(comment.id);
+              }}
+              startContent={<Pencil size={12} />}
+              title={t("edit")}
+            />
+          )}
+          {comment.canDelete && (
+            <Button
+              size="sm"
+              variant="light"
+              color="danger"
+              isIconOnly
+              onPress={() => handleDelete(comment)}
+              isLoading={
+                deleteComment.isPending &&
+                deleteComment.variables?.id === comment.id
+              }
+              startContent={<Trash2 size={12} />}
+              title={t("delete")}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const timestamp = thread.timestamp ?? 0;
+  const isResolved = thread.resolvedAt !== null;
+
+  return (
+    <div
+      id={`comment-${thread.id}`}
+      className={`space-y-2 p-3 rounded-lg border-2 ${
+        isActive ? "border-warning" : "border-transparent"
+      } ${isResolved ? "bg-default-50 opacity-70" : "bg-default-100"}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          size="sm"
+          variant="flat"
+          color="warning"
+          startContent={<Clock size={12} />}
+          onPress={() => onSeek?.(timestamp)}
+          title={t("seek")}
+        >
+          {thread.endTimestamp !== null
+            ? `${formatTime(timestamp)} - ${formatTime(thread.endTimestamp)}`
+            : formatTime(timestamp)}
+        </Button>
+        <div className="flex items-center gap-1">
+          {isResolved && (
+            <Chip size="sm" variant="flat" color="success">
+              {t("resolved")}
+            </Chip>
+          )}
+          {thread.canResolve && (
+            <Button
+              size="sm"
+              variant="light"
+              color={isResolved ? "default" : "success"}
+              startContent={
+                isResolved ? (
+                  <RotateCcw size={12} />
+                ) : (
+                  <CheckCircle2 size={12} />
+                )
+              }
+              onPress={() =>
+                setCommentResolved.mutate({
+                  id: thread.id,
+                  resolved: !isResolved,
+                })
+              }
+              isLoading={setCommentResolved.isPending}
+            >
+              {isResolved ? t("reopen") : t("resolve")}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {renderComment(thread)}
+
+      {thread.replies.length > 0 && (
+        <div className="space-y-3 pl-4 border-l-2 border-default-200">
+          {thread.replies.map(renderComment)}
+        </div>
+      )}
+
+      {error && <p className="text-danger text-sm">{error}</p>}
+
+      {canReply &&
+        (isReplying ? (
+          <CommentForm
+            askForName={askForName}
+            submitLabel={t("reply")}
+            placeholder={t("replyPlaceholder")}
+            onSubmit={(content, authorName) =>
+              replyToComment.mutate({
+                parentId: thread.id,
+                content,
+                authorName: authorName || undefined,
+              })
+            }
+            onCancel={() => setIsReplying(false)}
+            isSubmitting={replyToComment.isPending}
+            error={replyToComment.error?.message}
+          />
+        ) : (
+          <Button
+            size="sm"
+            variant="light"
+            startContent={<Reply size={12} />}
+            onPress={() => {
+              replyToComment.reset();
+              setIsReplying(true);
+            }}
+          >
+            {t("reply")}
+          </Button>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+"use client";
+
+import { useState } from "react";
+import { Button, Input, Select, SelectItem, Switch } from "@heroui/react";
+import { useTranslations } from "next-intl";
+import { api } from "~/trpc/react";
+import {
+  type BulkMarkerOperation,
+  BulkMarkerError,
+  toBulkMarkerUpdate,
+} from "~/lib/markerBulk";
+import {
+  type MarkerHistoryEntry,
+  getBulkHistoryEntry,
+} from "~/lib/markerHistory";
+import type { AudioMarker, MarkerCategory } from "~/types/Audio";
+
+type OperationType = BulkMarkerOperation["type"];
+
+const OPERATION_TYPES: OperationType[] = [
+  "shift",
+  "scale",
+  "recolor",
+  "relabel",
+  "categorize",
+  "delete",
+];
+
+/** Select key for removing the category */
+const NO_CATEGORY = "none";
+
+interface BulkMarkerActionsProps {
+  audioId: string;
+  selectedMarkerIds: string[];
+  markers: AudioMarker[];
+  categories: MarkerCategory[];
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onHistoryEntry?: (entry: Omit<MarkerHistoryEntry, "id">) => void;
+}
+
+/** Apply one operation to all selected stored markers at once */
+export function BulkMarkerActions({
+  audioId,
+  selectedMarkerIds,
+  markers,
+  categories,
+  onSelectAll,
+  onClearSelection,
+  onHistoryEntry,
+}: BulkMarkerActionsProps) {
+  const t = useTranslations("BulkMarkerActions");
+  const utils = api.useUtils();
+  const [type, setType] = useState<OperationType>("shift");
+  const [offset, setOffset] = useState("0");
+  const [factor, setFactor] = useState("1");
+  const [anchor, setAnchor] = useState("0");
+  const [color, setColor] = useState("#3b82f6");
+  const [find, setFind] = useState("");
+  const [replace, setReplace] = useState("");
+  const [useRegex, setUseRegex] = useState(false);
+  const [categoryId, setCategoryId] = useState(NO_CATEGORY);
+  const [operationError, setOperationError] = useState<string | null>(null);
+
+  const bulkUpdateMarkers = api.marker.bulkUpdateMarkers.useMutation({
+    onSuccess: (_data, { markerIds, operation }) => {
+      void utils.marker.getMarkers.invalidate({ audioId });
+      onHistoryEntry?.(
+        getBulkHistoryEntry(
+          markers.filter((marker) => markerIds.includes(marker.id)),
+          operation,
+        ),
+      );
+      if (type === "delete") {
+        onClearSelection();
+      }
+    },
+  });
+
+  const getOperation = (): BulkMarkerOperation | null => {
+    switch (type) {
+      case "shift": {
+        const value = Number(offset);
+        return Number.isFinite(value) && value !== 0
+          ? { type, offset: value }
+          : null;
+      }
+      case "scale": {
+        const value = Number(factor);
+        const anchorValue = Number(anchor || 0);
+        return Number.isFinite(value) && value > 0 && anchorValue >= 0
+          ? { type, factor: value, anchor: anchorValue }
+          : null;
+      }
+      case "recolor":
+        return { type, color };
+      case "relabel":
+        return find ? { type, find, replace, useRegex } : null;
+      case "categorize":
+        return {
+          type,
+          categoryId: categoryId === NO_CATEGORY ? null : categoryId,
+        };
+      case "delete":
+        return { type };
+    }
+  };
+
+  const operation = getOperation();
+
+  const handleApply = () => {
+    if (!operation) return;
+    if (
+      operation.type === "delete" &&
+      !confirm(t("confirmDelete", { count: selectedMarkerIds.length }))
+    ) {
+      return;
+    }
+    setOperationError(null);
+    try {
+      // Labels are replaced here, the server only receives the new labels
+      const update = toBulkMarkerUpdate(
+        markers.filter((marker) => selectedMarkerIds.includes(marker.id)),
+        operation,
+      );
+      bulkUpdateMarkers.mutate({
+        audioId,
+        markerIds: selectedMarkerIds,
+        operation: update,
+      });
+    } catch (error) {
+      if (!(error instanceof BulkMarkerError)) throw error;
+      bulkUpdateMarkers.reset();
+      setOperationError(error.message);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-medium bg-primary-50 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm font-medium">
+          {t("selected", { count: selectedMarkerIds.length })}
+        </span>
+        <div className="flex gap-1">
+          {selectedMarkerIds.length < markers.length && (
+            <Button size="sm" variant="light" onPress={onSelectAll}>
+              {t("selectAll")}
+            </Button>
+          )}
+          <Button size="sm" variant="light" onPress={onClearSelection}>
+            {t("clearSelection")}
+          </Button>
+        </div>
+      </div>
+
+      <Select
+        label={t("operation")}
+        size="sm"
+        selectedKeys={[type]}
+        onChange={(e) => {
+          if (e.target.value) {
+            setType(e.target.value as OperationType);
+            setOperationError(null);
+            bulkUpdateMarkers.reset();
+          }
+        }}
+      >
+        {OPERATION_TYPES.map((operationType) => (
+          <SelectItem key={operationType}>
+            {t(`operations.${operationType}`)}
+          </SelectItem>
+        ))}
+      </Select>
+
+      {type === "shift" && (
+        <Input
+          type="number"
+          step="0.1"
+          size="sm"
+          label={t("shift.offset")}
+          description={t("shift.description")}
+          value={offset}
+          onValueChange={setOffset}
+          endContent={<span className="text-small text-default-400">s</span>}
+        />
+      )}
+
+      {type === "scale" && (
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            size="sm"
+            label={t("scale.factor")}
+            description={t("scale.description")}
+            value={factor}
+            onValueChange={setFactor}
+          />
+          <Input
+            type="number"
+            step="0.1"
+            min="0"
+            size="sm"
+            label={t("scale.anchor")}
+            value={anchor}
+            onValueChange={setAnchor}
+            endContent={<span className="text-small text-default-400">s</span>}
+          />
+        </div>
+      )}
+
+      {type === "recolor" && (
+        <Input
+          type="color"
+          size="sm"
+          label={t("recolor.color")}
+          value={color}
+          onValueChange={setColor}
+        />
+      )}
+
+      {type === "relabel" && (
+        <>
+          <div className="flex gap-2">
+            <Input
+              size="sm"
+              label={t("relabel.find")}
+              value={find}
+              onValueChange={setFind}
+            />
+            <Input
+              size="sm"
+              label={t("relabel.replace")}
+              value={replace}
+              onValueChange={setReplace}
+            />
+          </div>
+          <Switch size="sm" isSelected={useRegex} onValueChange={setUseRegex}>
+            {t("relabel.useRegex")}
+          </Switch>
+        </>
+      )}
+
+      {type === "categorize" && (
+        <Select
+          label={t("categorize.category")}
+          size="sm"
+          selectedKeys={[categoryId]}
+          onChange={(e) => {
+            if (e.target.value) setCategoryId(e.target.value);
+          }}
+        >
+          {[
+            <SelectItem key={NO_CATEGORY}>{t("categorize.none")}</SelectItem>,
+            ...categories.map((category) => (
+              <SelectItem key={category.id}>{category.name}</SelectItem>
+            )),
+          ]}
+        </Select>
+      )}
+
+      {(operationError ?? bulkUpdateMarkers.error) && (
+        <p className="text-danger text-sm">
+          {operationError ?? bulkUpdateMarkers.error?.message}
+        </p>
+      )}
+
+      {bulkUpdateMarkers.isSuccess && (
+        <p className="text-success text-sm">
+          {t("success", { count: bulkUpdateMarkers.data.count })}
+        </p>
+      )}
+
+      <Button
+        size="sm"
+        color={type === "delete" ? "danger" : "primary"}
+        isDisabled={!operation}
+        isLoading={bulkUpdateMarkers.isPending}
+        onPress={handleApply}
+      >
+        {t("apply", { count: selectedMarkerIds.length })}
+      </Button>
+    </div>
+  );
+}
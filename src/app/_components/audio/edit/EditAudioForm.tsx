@@ -12,9 +12,11 @@ import {
   Textarea,
 } from "@heroui/react";
 import { api } from "~/trpc/react";
-import { Save } from "lucide-react";
+import { Download, FileAudio, Save } from "lucide-react";
 import { UnsavedChangesModal } from "../../global/UnsavedChangesModal";
+import { UploadVersionModal } from "./UploadVersionModal";
 import { useTranslations } from "next-intl";
+import { hasRole } from "~/lib/collaboration";
 
 interface EditAudioFormProps {
   audioId: string;
@@ -26,6 +28,7 @@ export function EditAudioForm({ audioId }: EditAudioFormProps) {
   const [error, setError] = useState<string | null>(null);
   const [isFormDirty, setIsFormDirty] = useState(false);
   const [showModal, setShowModal] = useState(false);
+  const [showVersionModal, setShowVersionModal] = useState(false);
   const [pendingNavigation, setPendingNavigation] = useState<string | null>(
     null,
   );
@@ -34,6 +37,8 @@ export function EditAudioForm({ audioId }: EditAudioFormProps) {
   // Use suspense query to fetch audio details
   const [audio] = api.audio.getUserAudioById.useSuspenseQuery({ id: audioId });
   const t = useTranslations("EditAudioForm");
+  const isOwner = audio.role === "owner";
+  const canChangeVisibility = hasRole(audio.role, "co-owner");
 
   // Setup mutation for updating audio
   const updateAudio = api.audio.updateAudio.useMutation({
@@ -55,7 +60,12 @@ export function EditAudioForm({ audioId }: EditAudioFormProps) {
     const formData = new FormData(form);
     const name = formData.get("name") as string;
     const description = formData.get("description") as string;
-    const isPublic = formData.get("isPublic") !== null;
+    // A disabled switch is not submitted, keep the current visibility then
+    const isPublic = canChangeVisibility
+      ? formData.get("isPublic") !== null
+      : audio.isPublic;
+    const allowAnonymousComments =
+      formData.get("allowAnonymousComments") !== null;
 
     if (!name) {
       setError(t("errors.nameRequired"));
@@ -67,6 +77,7 @@ export function EditAudioForm({ audioId }: EditAudioFormProps) {
       name,
       description: description || undefined,
       isPublic,
+      allowAnonymousComments,
     });
   };
 
@@ -130,15 +141,39 @@ export function EditAudioForm({ audioId }: EditAudioFormProps) {
             defaultSelected={audio.isPublic}
             size="sm"
             color="primary"
+            isDisabled={!canChangeVisibility}
             onChange={handleFormChange}
           >
             {t("fields.isPublic.label")}
           </Switch>
 
+          <Switch
+            name="allowAnonymousComments"
+            defaultSelected={audio.allowAnonymousComments}
+            size="sm"
+            color="primary"
+            onChange={handleFormChange}
+          >
+            {t("fields.allowAnonymousComments.label")}
+          </Switch>
+
           <div className="text-xs text-default-500">
             <p>
               <strong>{t("meta.originalFile")}</strong> {audio.originalFileName}
             </p>
+            <p>
+              <strong>{t("meta.format")}</strong> {audio.format.toUpperCase()}{" "}
+              {isOwner && (
+                <a
+                  href={`/api/audio/${audio.id}/master`}
+                  className="inline-flex items-center gap-1 text-primary hover:underline"
+                  download
+                >
+                  <Download size={12} />
+                  {t("meta.downloadMaster")}
+                </a>
+              )}
+            </p>
             <p suppressHydrationWarning={true}>
               <strong>{t("meta.uploaded")}</strong>{" "}
               {new Date(audio.createdAt).toLocaleString()}
@@ -149,6 +184,20 @@ export function EditAudioForm({ audioId }: EditAudioFormProps) {
             </p>
           </div>
 
+          {isOwner && (
+            <div>
+              <Button
+                size="sm"
+                variant="flat"
+                color="primary"
+                startContent={<FileAudio size={14} />}
+                onPress={() => setShowVersionModal(true)}
+              >
+                {t("actions.uploadNewVersion")}
+              </Button>
+            </div>
+          )}
+
           {error && <p className="text-danger text-sm">{error}</p>}
 
           <div className="flex gap-2 justify-between">
@@ -172,6 +221,12 @@ export function EditAudioForm({ audioId }: EditAudioFormProps) {
           </div>
         </form>
       </CardBody>
+      <UploadVersionModal
+        isOpen={showVersionModal}
+        onClose={() => setShowVersionModal(false)}
+        audioId={audioId}
+        audioName={audio.name}
+      />
       <UnsavedChangesModal
         isOpen={showModal}
         onClose={() => setShowModal(false)}
@@ -1,10 +1,24 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { api } from "~/trpc/react";
 import { StoredMarkerManager } from "./StoredMarkerManager";
 import AudioPlayer from "../AudioPlayer";
-import type { AudioMarker } from "~/types/Audio";
+import type { AudioMarker, AudioProcessingStatus } from "~/types/Audio";
+import { AudioProcessingNotice } from "../AudioProcessingNotice";
+import { getAudioFileUrls } from "~/lib/audioUrl";
+import { AudioVersionList } from "../versions/AudioVersionList";
+import MarkerHistoryPanel from "../marker/MarkerHistoryPanel";
+import { useMarkerHistory } from "~/lib/hooks/useMarkerHistory";
+import { useCategoryVisibility } from "~/lib/hooks/useCategoryVisibility";
+import { useStoredPitch } from "~/lib/hooks/useStoredPitch";
+import { applyCategoryColors } from "~/lib/markerCategory";
+import { MarkerCategoryManager } from "./MarkerCategoryManager";
+import { getCommentPins } from "~/lib/comment";
+import { CommentPanel } from "../comment/CommentPanel";
+import { CollaboratorManager } from "../../global/CollaboratorManager";
+import { ShareLinkManager } from "../../global/ShareLinkManager";
+import { hasRole } from "~/lib/collaboration";
 
 interface EditPageContainerProps {
   audioId: string;
@@ -23,16 +37,71 @@ export function EditPageContainer({ audioId }: EditPageContainerProps) {
     end: number | null;
   }>({ start: null, end: null });
   const [editingMarkerId, setEditingMarkerId] = useState<string | null>(null);
+  const [playingVersionId, setPlayingVersionId] = useState<string | null>(null);
 
   const utils = api.useUtils();
-  const [audio] = api.audio.getUserAudioById.useSuspenseQuery({ id: audioId });
-  const [markers] = api.marker.getMarkers.useSuspenseQuery({ audioId });
+  const [audio, { refetch: refetchAudio }] =
+    api.audio.getUserAudioById.useSuspenseQuery({ id: audioId });
+  const [storedMarkers] = api.marker.getMarkers.useSuspenseQuery({ audioId });
+  const { data: categories = [] } = api.markerCategory.getCategories.useQuery({
+    audioId,
+  });
+  const { hiddenCategoryIds, toggleCategory, showAllCategories } =
+    useCategoryVisibility();
+  const { pitch, setPitch } = useStoredPitch(audioId);
+  const markers = useMemo(
+    () => applyCategoryColors(storedMarkers, categories),
+    [storedMarkers, categories],
+  );
+
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [seekFunction, setSeekFunction] = useState<
+    ((time: number) => void) | null
+  >(null);
+  const { data: comments } = api.comment.getComments.useQuery({ audioId });
+  const commentPins = useMemo(
+    () => getCommentPins(comments?.threads ?? []),
+    [comments],
+  );
 
   const updateMarker = api.marker.updateMarker.useMutation({
     onSuccess: () => {
       void utils.marker.getMarkers.invalidate({ audioId });
     },
   });
+  const createMarker = api.marker.createMarker.useMutation();
+  const deleteMarker = api.marker.deleteMarker.useMutation();
+  const bulkUpdateMarkers = api.marker.bulkUpdateMarkers.useMutation();
+
+  // Undo and redo are saved through the regular marker mutations
+  const history = useMarkerHistory({
+    adapter: {
+      createMarker: async (marker) => {
+        const created = await createMarker.mutateAsync({
+          audioId,
+          label: marker.label,
+          timestamp: marker.timestamp,
+          endTimestamp: marker.endTimestamp,
+          color: marker.color,
+          notes: marker.notes,
+          categoryId: marker.categoryId,
+        });
+        return created.id;
+      },
+      deleteMarker: async (markerId) => {
+        await deleteMarker.mutateAsync({ id: markerId });
+      },
+      updateMarker: async (markerId, fields) => {
+        await updateMarker.mutateAsync({ id: markerId, ...fields });
+      },
+      updateTimes: async (markerIds, operation) => {
+        await bulkUpdateMarkers.mutateAsync({ audioId, markerIds, operation });
+      },
+    },
+    onApplied: () => {
+      void utils.marker.getMarkers.invalidate({ audioId });
+    },
+  });
 
   //for player -> marker manager
   const handleTimeUpdate = useCallback((time: number) => {
@@ -57,6 +126,17 @@ export function EditPageContainer({ audioId }: EditPageContainerProps) {
     [],
   );
 
+  const handleSeekFnReady = useCallback((seek: (time: number) => void) => {
+    setSeekFunction(() => seek);
+  }, []);
+
+  const handleCommentSeek = useCallback(
+    (time: number) => {
+      seekFunction?.(time);
+    },
+    [seekFunction],
+  );
+
   // from marker manager -> player
   const handleMarkerClick = useCallback(
     (marker: AudioMarker) => {
@@ -73,15 +153,51 @@ export function EditPageContainer({ audioId }: EditPageContainerProps) {
       markerId: string,
       updates: { timestamp: number; endTimestamp?: number | null },
     ) => {
-      updateMarker.mutate({
-        id: markerId,
-        timestamp: updates.timestamp,
-        endTimestamp: updates.endTimestamp,
-      });
+      const marker = markers.find((m) => m.id === markerId);
+      updateMarker.mutate(
+        {
+          id: markerId,
+          timestamp: updates.timestamp,
+          endTimestamp: updates.endTimestamp,
+        },
+        {
+          onSuccess: () => {
+            if (!marker) return;
+            history.record({
+              action: "move",
+              subject: marker.label,
+              changes: [
+                {
+                  type: "update",
+                  markerId,
+                  before: {
+                    timestamp: marker.timestamp,
+                    endTimestamp: marker.endTimestamp,
+                  },
+                  after: {
+                    timestamp: updates.timestamp,
+                    endTimestamp: updates.endTimestamp ?? marker.endTimestamp,
+                  },
+                },
+              ],
+            });
+          },
+        },
+      );
     },
-    [updateMarker],
+    [updateMarker, markers, history.record],
   );
 
+  // Another version than the current one can be played for comparison
+  const { audioUrl, peaksUrl } = getAudioFileUrls(
+    audio.id,
+    playingVersionId ?? audio.currentVersionId,
+  );
+
+  const handleProcessingPoll = useCallback(() => {
+    void refetchAudio();
+  }, [refetchAudio]);
+
   // Toggle edit mode for a marker - just toggles state, saving happens immediately on drag
   const handleToggleEdit = useCallback(
     (markerId: string) => {
@@ -96,19 +212,37 @@ export function EditPageContainer({ audioId }: EditPageContainerProps) {
 
   return (
     <div className="w-full flex flex-col items-center mx-auto space-y-6">
-      <AudioPlayer
-        audioUrl={`/api/audio/${audio.id}/file`}
-        peaksUrl={`/api/audio/${audio.id}/peaks`}
-        audioName={audio.name}
-        audioReadOnlyToken={audio.id}
-        markers={markers}
-        onTimeUpdate={handleTimeUpdate}
-        onPlayFromFnReady={handlePlayFromFnReady}
-        onSelectedRegionUpdate={handleSelectedRegionUpdate}
-        onClearRegionReady={handleClearRegionReady}
-        editingMarkerId={editingMarkerId}
-        onMarkerUpdated={handleMarkerUpdated}
-      />
+      {!playingVersionId && audio.processingStatus !== "ready" ? (
+        <AudioProcessingNotice
+          status={
+            audio.processingStatus as Exclude<AudioProcessingStatus, "ready">
+          }
+          onPoll={handleProcessingPoll}
+        />
+      ) : (
+        <AudioPlayer
+          audioUrl={audioUrl}
+          peaksUrl={peaksUrl}
+          audioName={audio.name}
+          audioReadOnlyToken={audio.id}
+          markers={markers}
+          onTimeUpdate={handleTimeUpdate}
+          onPlayFromFnReady={handlePlayFromFnReady}
+          onSelectedRegionUpdate={handleSelectedRegionUpdate}
+          onClearRegionReady={handleClearRegionReady}
+          editingMarkerId={editingMarkerId}
+          onMarkerUpdated={handleMarkerUpdated}
+          categories={categories}
+          hiddenCategoryIds={hiddenCategoryIds}
+          onToggleCategory={toggleCategory}
+          onShowAllCategories={showAllCategories}
+          commentPins={commentPins}
+          onCommentPinClick={setActiveCommentId}
+          onSeekFnReady={handleSeekFnReady}
+          pitch={pitch}
+          onPitchChange={setPitch}
+        />
+      )}
 
       <StoredMarkerManager
         audioId={audioId}
@@ -119,7 +253,38 @@ export function EditPageContainer({ audioId }: EditPageContainerProps) {
         onClearRegion={clearRegionFunction}
         editingMarkerId={editingMarkerId}
         onToggleEdit={handleToggleEdit}
+        duration={audio.duration}
+        onHistoryEntry={history.record}
+        categories={categories}
+        hiddenCategoryIds={hiddenCategoryIds}
       />
+
+      <CommentPanel
+        audioId={audioId}
+        currentTime={currentTime}
+        selectedRegion={selectedRegion}
+        onSeek={handleCommentSeek}
+        activeThreadId={activeCommentId}
+      />
+
+      <MarkerCategoryManager audioId={audioId} categories={categories} />
+
+      <MarkerHistoryPanel history={history} />
+
+      {hasRole(audio.role, "co-owner") && (
+        <>
+          <CollaboratorManager resource="audio" resourceId={audioId} />
+          <ShareLinkManager resource="audio" resourceId={audioId} />
+        </>
+      )}
+
+      {audio.role === "owner" && (
+        <AudioVersionList
+          audioId={audioId}
+          playingVersionId={playingVersionId}
+          onPlayVersion={setPlayingVersionId}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,287 @@
+"use client";
+
+import type React from "react";
+import { useState } from "react";
+import {
+  Button,
+  Chip,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Radio,
+  RadioGroup,
+} from "@heroui/react";
+import { FileUp } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { api } from "~/trpc/react";
+import { formatTime } from "~/lib/time";
+import type { AudioMarker } from "~/types/Audio";
+import {
+  MARKER_IMPORT_EXTENSIONS,
+  MarkerImportError,
+  type MarkerImportMode,
+  type MarkerImportStatus,
+  type ParsedMarkerImport,
+  getMarkerImportStatus,
+  parseMarkerFile,
+} from "~/lib/markerImport";
+
+const STATUS_COLORS: Record<
+  MarkerImportStatus,
+  "success" | "warning" | "default"
+> = {
+  new: "success",
+  conflict: "warning",
+  unchanged: "default",
+};
+
+interface ImportMarkersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  audioId: string;
+  markers: AudioMarker[];
+}
+
+export function ImportMarkersModal({
+  isOpen,
+  onClose,
+  audioId,
+  markers,
+}: ImportMarkersModalProps) {
+  const t = useTranslations("ImportMarkersModal");
+  const utils = api.useUtils();
+  const [parsed, setParsed] = useState<ParsedMarkerImport | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [mode, setMode] = useState<MarkerImportMode>("merge");
+  const [parseError, setParseError] = useState("");
+
+  const importMarkers = api.marker.importMarkers.useMutation({
+    onSuccess: () => {
+      void utils.marker.getMarkers.invalidate({ audioId });
+    },
+  });
+
+  const handleClose = () => {
+    if (importMarkers.isPending) return;
+    setParsed(null);
+    setFileName("");
+    setMode("merge");
+    setParseError("");
+    importMarkers.reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setParsed(null);
+    setParseError("");
+    importMarkers.reset();
+    try {
+      setParsed(parseMarkerFile(await file.text(), file.name));
+    } catch (error) {
+      setParseError(
+        error instanceof MarkerImportError ? error.message : t("readError"),
+      );
+    }
+  };
+
+  const handleImport = () => {
+    if (!parsed) return;
+    importMarkers.mutate({ audioId, mode, markers: parsed.markers });
+  };
+
+  const preview =
+    parsed?.markers.map((marker) => ({
+      marker,
+      status:
+        mode === "replace"
+          ? ("new" as const)
+          : getMarkerImportStatus(markers, marker),
+    })) ?? [];
+  const counts = {
+    new: preview.filter((item) => item.status === "new").length,
+    conflict: preview.filter((item) => item.status === "conflict").length,
+    unchanged: preview.filter((item) => item.status === "unchanged").length,
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      isDismissable={!importMarkers.isPending}
+      size="2xl"
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        <ModalHeader className="flex flex-col gap-1">
+          {t("title")}
+          <span className="text-small font-normal text-default-500">
+            {t("subtitle")}
+          </span>
+        </ModalHeader>
+        <ModalBody>
+          <Input
+            type="file"
+            accept={MARKER_IMPORT_EXTENSIONS.join(",")}
+            onChange={(e) => void handleFileChange(e)}
+            label={t("fileLabel")}
+            labelPlacement="outside"
+            variant="bordered"
+            isDisabled={importMarkers.isPending}
+            description={
+              parsed
+                ? t("detected", {
+                    fileName,
+                    format: t(`formats.${parsed.format}`),
+                    count: parsed.markers.length,
+                  })
+                : t("selectFile")
+            }
+            classNames={{
+              input:
+                "file:mr-4 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-sm file:font-medium file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100 cursor-pointer",
+              inputWrapper: "hover:border-primary-300",
+            }}
+          />
+
+          {parseError && (
+            <Chip
+              color="danger"
+              variant="flat"
+              className="w-full max-w-full justify-center h-auto py-1 whitespace-normal"
+            >
+              {parseError}
+            </Chip>
+          )}
+
+          {parsed && (
+            <>
+              {parsed.skipped > 0 && (
+                <p className="text-small text-warning">
+                  {t("skippedEntries", { count: parsed.skipped })}
+                </p>
+              )}
+
+              <RadioGroup
+                label={t("mode.label")}
+                value={mode}
+                onValueChange={(value) => setMode(value as MarkerImportMode)}
+                isDisabled={importMarkers.isPending}
+                size="sm"
+              >
+                {(["merge", "skip", "replace"] as const).map((option) => (
+                  <Radio
+                    key={option}
+                    value={option}
+                    description={t(`mode.${option}Description`)}
+                  >
+                    {t(`mode.${option}`)}
+                  </Radio>
+                ))}
+              </RadioGroup>
+
+              <div className="flex flex-wrap gap-2 text-small">
+                <Chip size="sm" variant="flat" color="success">
+                  {t("summary.new", { count: counts.new })}
+                </Chip>
+                {counts.conflict > 0 && (
+                  <Chip size="sm" variant="flat" color="warning">
+                    {t("summary.conflict", { count: counts.conflict })}
+                  </Chip>
+                )}
+                {counts.unchanged > 0 && (
+                  <Chip size="sm" variant="flat">
+                    {t("summary.unchanged", { count: counts.unchanged })}
+                  </Chip>
+                )}
+                {mode === "replace" && markers.length > 0 && (
+                  <Chip size="sm" variant="flat" color="danger">
+                    {t("summary.deleted", { count: markers.length })}
+                  </Chip>
+                )}
+              </div>
+
+              <div className="space-y-1 max-h-72 overflow-y-auto">
+                {preview.map(({ marker, status }) => (
+                  <div
+                    key={marker.timestamp}
+                    className="flex items-center gap-2 p-2 bg-default-100 rounded-lg text-sm"
+                  >
+                    {marker.color && (
+                      <div
+                        className="w-3 h-3 rounded-full shrink-0"
+                        style={{ backgroundColor: marker.color }}
+                      />
+                    )}
+                    <span className="font-mono text-xs text-default-500 shrink-0">
+                      {formatTime(marker.timestamp)}
+                      {marker.endTimestamp !== null &&
+                        ` – ${formatTime(marker.endTimestamp)}`}
+                    </span>
+                    <span className="flex-1 truncate">{marker.label}</span>
+                    <Chip
+                      size="sm"
+                      variant="flat"
+                      color={STATUS_COLORS[status]}
+                    >
+                      {t(`status.${status}`)}
+                    </Chip>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {importMarkers.isSuccess && (
+            <Chip
+              color="success"
+              variant="flat"
+              className="w-full max-w-full justify-center h-auto py-1 whitespace-normal"
+            >
+              {t("success", {
+                created: importMarkers.data.created,
+                updated: importMarkers.data.updated,
+              })}
+            </Chip>
+          )}
+
+          {importMarkers.error && (
+            <Chip
+              color="danger"
+              variant="flat"
+              className="w-full max-w-full justify-center h-auto py-1 whitespace-normal"
+            >
+              {importMarkers.error.message}
+            </Chip>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button
+            variant="light"
+            onPress={handleClose}
+            isDisabled={importMarkers.isPending}
+          >
+            {importMarkers.isSuccess ? t("close") : t("cancel")}
+          </Button>
+          {!importMarkers.isSuccess && (
+            <Button
+              color="primary"
+              startContent={!importMarkers.isPending && <FileUp size={16} />}
+              isLoading={importMarkers.isPending}
+              isDisabled={!parsed}
+              onPress={handleImport}
+            >
+              {t("importButton")}
+            </Button>
+          )}
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
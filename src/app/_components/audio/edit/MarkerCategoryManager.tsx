@@ -0,0 +1,247 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Chip,
+  Input,
+  Select,
+  SelectItem,
+  Switch,
+} from "@heroui/react";
+import { Pencil, Plus, Tags, Trash2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { api } from "~/trpc/react";
+import {
+  MARKER_CATEGORY_ICONS,
+  MAX_CATEGORY_NAME_LENGTH,
+  type MarkerCategoryIconName,
+} from "~/lib/markerCategory";
+import type { MarkerCategory } from "~/types/Audio";
+import MarkerCategoryIcon from "../marker/MarkerCategoryIcon";
+
+interface MarkerCategoryManagerProps {
+  audioId: string;
+  categories: MarkerCategory[];
+}
+
+const DEFAULT_COLOR = "#3b82f6";
+
+/** Create, edit and delete the marker categories of an audio or of all audios */
+export function MarkerCategoryManager({
+  audioId,
+  categories,
+}: MarkerCategoryManagerProps) {
+  const t = useTranslations("MarkerCategoryManager");
+  const utils = api.useUtils();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [icon, setIcon] = useState<MarkerCategoryIconName>("tag");
+  const [forAllAudios, setForAllAudios] = useState(false);
+
+  const onSuccess = () => {
+    // User-wide categories are part of the categories of every audio
+    void utils.markerCategory.getCategories.invalidate();
+    resetForm();
+  };
+
+  const createCategory = api.markerCategory.createCategory.useMutation({
+    onSuccess,
+  });
+  const updateCategory = api.markerCategory.updateCategory.useMutation({
+    onSuccess,
+  });
+  const deleteCategory = api.markerCategory.deleteCategory.useMutation({
+    onSuccess: () => {
+      void utils.markerCategory.getCategories.invalidate();
+      void utils.marker.getMarkers.invalidate({ audioId });
+    },
+  });
+
+  const error =
+    createCategory.error ?? updateCategory.error ?? deleteCategory.error;
+  const isSaving = createCategory.isPending || updateCategory.isPending;
+
+  function resetForm() {
+    setEditingId(null);
+    setName("");
+    setColor(DEFAULT_COLOR);
+    setIcon("tag");
+    setForAllAudios(false);
+  }
+
+  const startEditing = (category: MarkerCategory) => {
+    setEditingId(category.id);
+    setName(category.name);
+    setColor(category.color);
+    setIcon(category.icon as MarkerCategoryIconName);
+  };
+
+  const handleSave = () => {
+    if (editingId) {
+      updateCategory.mutate({ id: editingId, name, color, icon });
+    } else {
+      createCategory.mutate({
+        audioId: forAllAudios ? null : audioId,
+        name,
+        color,
+        icon,
+      });
+    }
+  };
+
+  const handleDelete = (category: MarkerCategory) => {
+    if (
+      confirm(
+        t(category.audioId ? "confirmDelete" : "confirmDeleteShared", {
+          name: category.name,
+        }),
+      )
+    ) {
+      deleteCategory.mutate({ id: category.id });
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-xl">
+      <CardHeader className="flex flex-col items-start">
+        <div className="flex flex-row items-center gap-2 pb-2">
+          <Tags size={20} className="text-primary" />
+          <h3 className="text-lg font-semibold">{t("title")}</h3>
+          <Chip size="sm" variant="flat" color="primary">
+            {categories.length}
+          </Chip>
+        </div>
+        <p className="text-small text-default-500">{t("subtitle")}</p>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        {categories.length > 0 && (
+          <div className="space-y-2">
+            {categories.map((category) => (
+              <div
+                key={category.id}
+                className="flex items-center justify-between gap-2 p-2 py-1 bg-default-100 rounded-lg"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <MarkerCategoryIcon
+                    icon={category.icon}
+                    size={16}
+                    style={{ color: category.color }}
+                  />
+                  <span className="text-sm font-medium truncate">
+                    {category.name}
+                  </span>
+                  <Chip size="sm" variant="flat">
+                    {category.audioId ? t("scopeAudio") : t("scopeAll")}
+                  </Chip>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    size="sm"
+                    variant="light"
+                    color="primary"
+                    isIconOnly
+                    onPress={() => startEditing(category)}
+                    title={t("edit")}
+                  >
+                    <Pencil size={14} />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="light"
+                    color="danger"
+                    isIconOnly
+                    isLoading={
+                      deleteCategory.isPending &&
+                      deleteCategory.variables.id === category.id
+                    }
+                    onPress={() => handleDelete(category)}
+                    title={t("delete")}
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <h4 className="text-sm font-medium text-default-600">
+            {editingId ? t("editTitle") : t("createTitle")}
+          </h4>
+          <div className="flex gap-2">
+            <Input
+              size="sm"
+              label={t("name")}
+              value={name}
+              onValueChange={setName}
+              maxLength={MAX_CATEGORY_NAME_LENGTH}
+            />
+            <Input
+              type="color"
+              size="sm"
+              label={t("color")}
+              value={color}
+              onValueChange={setColor}
+              className="w-28"
+            />
+          </div>
+          <Select
+            size="sm"
+            label={t("icon")}
+            selectedKeys={[icon]}
+            onChange={(e) => {
+              if (e.target.value) {
+                setIcon(e.target.value as MarkerCategoryIconName);
+              }
+            }}
+            startContent={<MarkerCategoryIcon icon={icon} size={16} />}
+          >
+            {MARKER_CATEGORY_ICONS.map((iconName) => (
+              <SelectItem
+                key={iconName}
+                startContent={<MarkerCategoryIcon icon={iconName} size={16} />}
+              >
+                {t(`icons.${iconName}`)}
+              </SelectItem>
+            ))}
+          </Select>
+          {!editingId && (
+            <Switch
+              size="sm"
+              isSelected={forAllAudios}
+              onValueChange={setForAllAudios}
+            >
+              {t("forAllAudios")}
+            </Switch>
+          )}
+
+          {error && <p className="text-danger text-sm">{error.message}</p>}
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button size="sm" variant="light" onPress={resetForm}>
+                {t("cancel")}
+              </Button>
+            )}
+            <Button
+              size="sm"
+              color="primary"
+              startContent={editingId ? undefined : <Plus size={14} />}
+              isDisabled={!name.trim()}
+              isLoading={isSaving}
+              onPress={handleSave}
+            >
+              {editingId ? t("save") : t("create")}
+            </Button>
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
@@ -1,13 +1,29 @@
 "use client";
 
-import { Card, CardHeader, Chip, CardBody } from "@heroui/react";
+import { useState } from "react";
+import {
+  Button,
+  Card,
+  CardHeader,
+  Chip,
+  CardBody,
+  Select,
+  SelectItem,
+} from "@heroui/react";
 import { api } from "~/trpc/react";
-import type { AudioMarker } from "~/types/Audio";
-import { Bookmark } from "lucide-react";
+import type { AudioMarker, MarkerCategory } from "~/types/Audio";
+import { AlertTriangle, Bookmark, FileUp, ListChecks } from "lucide-react";
 import AddMarker from "../marker/AddMarker";
 import MarkerList from "../marker/MarkerList";
 import EmptyMarkerList from "../marker/EmptyMarkerList";
+import ExportMarkersButton from "../marker/ExportMarkersButton";
+import MarkerNotesModal from "../marker/MarkerNotesModal";
+import MarkerCategoryIcon from "../marker/MarkerCategoryIcon";
 import { useTranslations } from "next-intl";
+import { isMarkerBeyondEnd } from "~/lib/marker";
+import type { MarkerHistoryEntry } from "~/lib/markerHistory";
+import { ImportMarkersModal } from "./ImportMarkersModal";
+import { BulkMarkerActions } from "./BulkMarkerActions";
 
 interface MarkerManagerProps {
   audioId: string;
@@ -18,8 +34,18 @@ interface MarkerManagerProps {
   onClearRegion?: (() => void) | null;
   editingMarkerId?: string | null;
   onToggleEdit?: (markerId: string) => void;
+  /** Duration of the audio, markers after its end are flagged */
+  duration?: number | null;
+  /** Called with every saved change, to make it undoable */
+  onHistoryEntry?: (entry: Omit<MarkerHistoryEntry, "id">) => void;
+  /** Categories available for the markers of the audio */
+  categories?: MarkerCategory[];
+  /** Category ids, or UNCATEGORIZED_KEY, whose markers are hidden */
+  hiddenCategoryIds?: string[];
 }
 
+const NO_CATEGORY = "none";
+
 export function StoredMarkerManager({
   audioId,
   currentTime,
@@ -29,13 +55,51 @@ export function StoredMarkerManager({
   onClearRegion,
   editingMarkerId,
   onToggleEdit,
+  duration,
+  onHistoryEntry,
+  categories = [],
+  hiddenCategoryIds,
 }: MarkerManagerProps) {
   const utils = api.useUtils();
   const t = useTranslations("StoredMarkers");
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [notesMarker, setNotesMarker] = useState<AudioMarker | null>(null);
+  const [newMarkerCategoryId, setNewMarkerCategoryId] = useState<string | null>(
+    null,
+  );
+  // The category may have been deleted in the meantime
+  const newMarkerCategory = categories.find(
+    (category) => category.id === newMarkerCategoryId,
+  );
+
+  // Deleted markers drop out of the selection
+  const selectedMarkerIds = selectedIds.filter((id) =>
+    markers.some((marker) => marker.id === id),
+  );
+
+  const toggleSelect = (markerId: string) => {
+    setSelectedIds(
+      selectedMarkerIds.includes(markerId)
+        ? selectedMarkerIds.filter((id) => id !== markerId)
+        : [...selectedMarkerIds, markerId],
+    );
+  };
+
+  const toggleSelecting = () => {
+    setIsSelecting(!isSelecting);
+    setSelectedIds([]);
+  };
 
   const createMarker = api.marker.createMarker.useMutation({
-    onSuccess: () => {
+    onSuccess: (marker) => {
       void utils.marker.getMarkers.invalidate({ audioId });
+      onHistoryEntry?.({
+        action: "create",
+        subject: marker.label,
+        changes: [{ type: "create", marker }],
+      });
     },
   });
 
@@ -49,7 +113,9 @@ export function StoredMarkerManager({
       timestamp: startTime,
       endTimestamp: endTime,
       label: label.trim() || t("defaultLabel", { index: markers.length + 1 }),
-      color: `hsl(${Math.random() * 360}, 70%, 50%)`,
+      color:
+        newMarkerCategory?.color ?? `hsl(${Math.random() * 360}, 70%, 50%)`,
+      categoryId: newMarkerCategory?.id,
     });
   };
 
@@ -60,9 +126,55 @@ export function StoredMarkerManager({
   });
 
   const onDeleteMarker = (markerId: string) => {
-    deleteMarker.mutate({ id: markerId });
+    const marker = markers.find((m) => m.id === markerId);
+    deleteMarker.mutate(
+      { id: markerId },
+      {
+        onSuccess: () => {
+          if (!marker) return;
+          onHistoryEntry?.({
+            action: "delete",
+            subject: marker.label,
+            changes: [{ type: "delete", marker }],
+          });
+        },
+      },
+    );
+  };
+
+  const updateNotes = api.marker.updateMarker.useMutation({
+    onSuccess: () => {
+      void utils.marker.getMarkers.invalidate({ audioId });
+    },
+  });
+
+  const saveNotes = (marker: AudioMarker, notes: string) => {
+    updateNotes.mutate(
+      { id: marker.id, notes },
+      {
+        onSuccess: () => {
+          setNotesMarker(null);
+          onHistoryEntry?.({
+            action: "notes",
+            subject: marker.label,
+            changes: [
+              {
+                type: "update",
+                markerId: marker.id,
+                before: { notes: marker.notes ?? null },
+                after: { notes: notes || null },
+              },
+            ],
+          });
+        },
+      },
+    );
   };
 
+  const markersBeyondEnd = markers.filter((marker) =>
+    isMarkerBeyondEnd(marker, duration),
+  ).length;
+
   return (
     <Card className="max-w-xl">
       <CardHeader className="flex flex-col items-start">
@@ -74,6 +186,12 @@ export function StoredMarkerManager({
           </Chip>
         </div>
         <p className="text-small text-default-500">{t("subtitle")}</p>
+        {markersBeyondEnd > 0 && (
+          <p className="flex items-center gap-1 text-small text-warning pt-2">
+            <AlertTriangle size={14} />
+            {t("markersBeyondEnd", { count: markersBeyondEnd })}
+          </p>
+        )}
       </CardHeader>
       <CardBody className="space-y-4">
         {/* Add Stored Marker */}
@@ -85,25 +203,117 @@ export function StoredMarkerManager({
             onClearRegion={onClearRegion}
           />
         </div>
+        {categories.length > 0 && (
+          <Select
+            size="sm"
+            label={t("newMarkerCategory")}
+            selectedKeys={[newMarkerCategory?.id ?? NO_CATEGORY]}
+            onChange={(e) =>
+              setNewMarkerCategoryId(
+                e.target.value && e.target.value !== NO_CATEGORY
+                  ? e.target.value
+                  : null,
+              )
+            }
+          >
+            {[
+              <SelectItem key={NO_CATEGORY}>{t("noCategory")}</SelectItem>,
+              ...categories.map((category) => (
+                <SelectItem
+                  key={category.id}
+                  startContent={
+                    <MarkerCategoryIcon
+                      icon={category.icon}
+                      size={14}
+                      style={{ color: category.color }}
+                    />
+                  }
+                >
+                  {category.name}
+                </SelectItem>
+              )),
+            ]}
+          </Select>
+        )}
+
+        {isSelecting && selectedMarkerIds.length > 0 && (
+          <BulkMarkerActions
+            audioId={audioId}
+            selectedMarkerIds={selectedMarkerIds}
+            markers={markers}
+            onSelectAll={() => setSelectedIds(markers.map((m) => m.id))}
+            onClearSelection={() => setSelectedIds([])}
+            onHistoryEntry={onHistoryEntry}
+            categories={categories}
+          />
+        )}
 
         {/* Markers List */}
         {markers.length > 0 && (
           <div className="space-y-2 max-h-96 overflow-y-auto">
-            <h4 className="text-sm font-medium text-default-600">
-              {t("listTitle")}
-            </h4>
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="text-sm font-medium text-default-600">
+                {t("listTitle")}
+              </h4>
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant={isSelecting ? "solid" : "flat"}
+                  color={isSelecting ? "primary" : "default"}
+                  startContent={<ListChecks size={14} />}
+                  onPress={toggleSelecting}
+                >
+                  {t("select")}
+                </Button>
+                <ExportMarkersButton audioId={audioId} />
+              </div>
+            </div>
             <MarkerList
               markers={markers}
               onMarkerClick={onMarkerClick}
               onRemoveMarker={onDeleteMarker}
               onToggleEdit={onToggleEdit}
               editingMarkerId={editingMarkerId}
+              duration={duration}
+              categories={categories}
+              hiddenCategoryIds={hiddenCategoryIds}
+              linkAudioId={audioId}
+              selectedMarkerIds={isSelecting ? selectedMarkerIds : undefined}
+              onToggleSelect={toggleSelect}
+              onEditNotes={(marker) => {
+                updateNotes.reset();
+                setNotesMarker(marker);
+              }}
             />
           </div>
         )}
 
         {markers.length === 0 && <EmptyMarkerList />}
+
+        <Button
+          size="sm"
+          variant="flat"
+          startContent={<FileUp size={14} />}
+          onPress={() => setShowImportModal(true)}
+        >
+          {t("importMarkers")}
+        </Button>
       </CardBody>
+
+      <ImportMarkersModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        audioId={audioId}
+        markers={markers}
+      />
+
+      <MarkerNotesModal
+        marker={notesMarker}
+        onClose={() => setNotesMarker(null)}
+        onSave={saveNotes}
+        isSaving={updateNotes.isPending}
+        error={updateNotes.error?.message}
+      />
     </Card>
   );
 }
@@ -0,0 +1,330 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Chip,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Progress,
+  Textarea,
+} from "@heroui/react";
+import { Trash2, Upload } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { api } from "~/trpc/react";
+import { SUPPORTED_AUDIO_EXTENSIONS } from "~/lib/audioFormat";
+import {
+  type PendingUpload,
+  discardPendingUpload,
+  fetchPendingUploads,
+  isSameFile,
+  uploadFileResumable,
+} from "~/lib/resumableUpload";
+
+interface UploadVersionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  audioId: string;
+  audioName: string;
+}
+
+export function UploadVersionModal({
+  isOpen,
+  onClose,
+  audioId,
+  audioName,
+}: UploadVersionModalProps) {
+  const t = useTranslations("UploadVersionModal");
+  const utils = api.useUtils();
+  const [file, setFile] = useState<File | null>(null);
+  const [note, setNote] = useState("");
+  const [markerOffset, setMarkerOffset] = useState("0");
+  const [status, setStatus] = useState<
+    "" | "uploading" | "processing" | "success" | "error"
+  >("");
+  const [message, setMessage] = useState("");
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const [maxFileSize, setMaxFileSize] = useState<number | null>(null);
+  const [resumeUpload, setResumeUpload] = useState<PendingUpload | null>(null);
+
+  const isUploading = status === "uploading" || status === "processing";
+
+  const loadPendingUploads = async () => {
+    try {
+      const result = await fetchPendingUploads(audioId);
+      setPendingUploads(result.uploads);
+      setMaxFileSize(result.maxFileSize);
+    } catch (err) {
+      console.error("Failed to load pending uploads:", err);
+    }
+  };
+
+  // Unfinished uploads of a new version (e.g. before a page reload) can be resumed
+  useEffect(() => {
+    if (isOpen) {
+      void loadPendingUploads();
+    }
+  }, [isOpen, audioId]);
+
+  const handleClose = () => {
+    if (isUploading) return;
+    setFile(null);
+    setNote("");
+    setMarkerOffset("0");
+    setStatus("");
+    setMessage("");
+    setUploadProgress(0);
+    setResumeUpload(null);
+    onClose();
+  };
+
+  const handleDiscardUpload = async (upload: PendingUpload) => {
+    try {
+      await discardPendingUpload(upload.id);
+    } catch (err) {
+      console.error("Failed to discard upload:", err);
+    }
+    if (resumeUpload?.id === upload.id) {
+      setResumeUpload(null);
+    }
+    await loadPendingUploads();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    // Validate file extension (the server validates the actual content)
+    const fileExtension = `.${selectedFile.name.split(".").pop()?.toLowerCase()}`;
+    if (!SUPPORTED_AUDIO_EXTENSIONS.includes(fileExtension)) {
+      setStatus("error");
+      setMessage(t("fileInvalidExtension"));
+      setFile(null);
+      return;
+    }
+
+    if (maxFileSize !== null && selectedFile.size > maxFileSize) {
+      setStatus("error");
+      setMessage(
+        t("fileTooLarge", { maxSize: Math.floor(maxFileSize / 1024 / 1024) }),
+      );
+      setFile(null);
+      return;
+    }
+
+    setFile(selectedFile);
+    setStatus("");
+    setResumeUpload(
+      pendingUploads.find((upload) => isSameFile(upload, selectedFile)) ?? null,
+    );
+  };
+
+  const handleUpload = async () => {
+    const offset = Number(markerOffset || 0);
+    if (!file || !Number.isFinite(offset)) {
+      setStatus("error");
+      setMessage(t("uploadInputError"));
+      return;
+    }
+
+    setStatus("uploading");
+    setMessage(t("uploading"));
+    setUploadProgress(0);
+
+    try {
+      const { markersBeyondEnd = 0 } = await uploadFileResumable(file, {
+        name: audioName,
+        // The upload description becomes the note of the version
+        description: note,
+        audioId,
+        markerOffset: offset,
+        resumeUploadId: resumeUpload?.id,
+        onProgress: (uploaded, total) => {
+          setUploadProgress(Math.round((uploaded / total) * 100));
+        },
+        onProcessing: () => {
+          setStatus("processing");
+          setMessage(t("processing"));
+        },
+      });
+
+      setStatus("success");
+      setMessage(
+        markersBeyondEnd > 0
+          ? t("uploadSuccessMarkersBeyondEnd", { count: markersBeyondEnd })
+          : t("uploadSuccess"),
+      );
+      setFile(null);
+      setNote("");
+      setResumeUpload(null);
+      void utils.audio.getUserAudioById.invalidate({ id: audioId });
+      void utils.audioVersion.getAudioVersions.invalidate({ audioId });
+      void utils.marker.getMarkers.invalidate({ audioId });
+    } catch (err) {
+      console.error("Upload error:", err);
+      setStatus("error");
+      setMessage(err instanceof Error ? err.message : t("uploadError"));
+      setUploadProgress(0);
+      // An interrupted upload shows up as pending and can be resumed
+      setResumeUpload(null);
+      void loadPendingUploads();
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      isDismissable={!isUploading}
+      hideCloseButton={isUploading}
+    >
+      <ModalContent>
+        <ModalHeader className="flex flex-col gap-1">
+          {t("title")}
+          <span className="text-small font-normal text-default-500">
+            {t("subtitle")}
+          </span>
+        </ModalHeader>
+        <ModalBody>
+          {pendingUploads.length > 0 && !isUploading && (
+            <div className="flex flex-col gap-2 rounded-medium bg-warning-50 p-3">
+              <p className="text-small font-medium">{t("pendingUploads")}</p>
+              {pendingUploads.map((upload) => (
+                <div
+                  key={upload.id}
+                  className="flex items-center justify-between gap-2"
+                >
+                  <span className="text-small text-default-600 truncate">
+                    {t("pendingUpload", {
+                      fileName: upload.fileName,
+                      progress: Math.floor(
+                        (upload.offset / upload.fileSize) * 100,
+                      ),
+                    })}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="light"
+                    color="danger"
+                    startContent={<Trash2 size={14} />}
+                    onPress={() => void handleDiscardUpload(upload)}
+                  >
+                    {t("discardUpload")}
+                  </Button>
+                </div>
+              ))}
+              <p className="text-tiny text-default-500">
+                {t("pendingUploadsHint")}
+              </p>
+            </div>
+          )}
+
+          <Input
+            type="file"
+            accept={`audio/*,${SUPPORTED_AUDIO_EXTENSIONS.join(",")}`}
+            onChange={handleFileChange}
+            label={t("fileLabel")}
+            labelPlacement="outside"
+            variant="bordered"
+            isRequired
+            isDisabled={isUploading}
+            description={
+              file
+                ? resumeUpload
+                  ? t("resumingFile", { fileName: file.name })
+                  : t("selectedFile", { fileName: file.name })
+                : t("selectFile")
+            }
+            classNames={{
+              input:
+                "file:mr-4 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-sm file:font-medium file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100 cursor-pointer",
+              inputWrapper: "hover:border-primary-300",
+            }}
+          />
+
+          <Textarea
+            label={t("noteLabel")}
+            placeholder={t("notePlaceholder")}
+            value={note}
+            onValueChange={setNote}
+            variant="bordered"
+            labelPlacement="outside"
+            isDisabled={isUploading}
+            maxLength={500}
+            minRows={2}
+          />
+
+          <Input
+            type="number"
+            step="0.1"
+            label={t("markerOffset.label")}
+            description={t("markerOffset.description")}
+            value={markerOffset}
+            onValueChange={setMarkerOffset}
+            variant="bordered"
+            labelPlacement="outside"
+            isDisabled={isUploading}
+            endContent={<span className="text-small text-default-400">s</span>}
+          />
+
+          {status === "uploading" && uploadProgress > 0 && (
+            <Progress
+              value={uploadProgress}
+              color="primary"
+              size="sm"
+              label={t("uploading")}
+              showValueLabel={true}
+              className="w-full"
+            />
+          )}
+
+          {status === "processing" && (
+            <Progress
+              isIndeterminate
+              color="primary"
+              size="sm"
+              label={t("processing")}
+              className="w-full"
+            />
+          )}
+
+          {(status === "success" || status === "error") && (
+            <Chip
+              color={status === "success" ? "success" : "danger"}
+              variant="flat"
+              className="w-full max-w-full justify-center h-auto py-1 whitespace-normal"
+            >
+              {message}
+            </Chip>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button
+            variant="light"
+            onPress={handleClose}
+            isDisabled={isUploading}
+          >
+            {status === "success" ? t("close") : t("cancel")}
+          </Button>
+          {status !== "success" && (
+            <Button
+              color="primary"
+              startContent={!isUploading && <Upload size={16} />}
+              isLoading={isUploading}
+              isDisabled={!file}
+              onPress={() => void handleUpload()}
+            >
+              {resumeUpload ? t("resumeButton") : t("uploadButton")}
+            </Button>
+          )}
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
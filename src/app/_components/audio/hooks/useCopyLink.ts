@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Copies links to the clipboard and remembers which one was copied last
+ * for 2 seconds, to show a confirmation next to the button that copied it.
+ */
+export function useCopyLink() {
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    };
+  }, []);
+
+  const copyLink = useCallback(async (key: string, url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedKey(key);
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+      timeoutRef.current = setTimeout(() => setCopiedKey(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy link:", err);
+    }
+  }, []);
+
+  return { copiedKey, copyLink };
+}
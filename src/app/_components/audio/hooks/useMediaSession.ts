@@ -0,0 +1,166 @@
+import { useEffect, useRef, type RefObject } from "react";
+import type WaveSurfer from "wavesurfer.js";
+import {
+  getMediaPositionState,
+  getNextMarkerTime,
+  getPreviousMarkerTime,
+  MEDIA_SEEK_OFFSET,
+} from "~/lib/mediaSession";
+
+interface MediaSessionOptions {
+  wavesurfer: RefObject<WaveSurfer | null>;
+  isReady: boolean;
+  isPlaying: boolean;
+  playbackRate: number;
+  title: string;
+  /** Name of the playlist the audio is played in */
+  album?: string | null;
+  artwork: MediaImage[];
+  /** Markers the previous and next track actions jump between */
+  markers: { timestamp: number }[];
+  seek: (time: number) => void;
+  onStop: () => void;
+  /** Neighbouring audios, used before the first and after the last marker */
+  onPreviousTrack?: () => void;
+  onNextTrack?: () => void;
+}
+
+/**
+ * Shows the audio on the lock screen and handles hardware media keys through
+ * the Media Session API
+ */
+export function useMediaSession({
+  wavesurfer,
+  isReady,
+  isPlaying,
+  playbackRate,
+  title,
+  album,
+  artwork,
+  markers,
+  seek,
+  onStop,
+  onPreviousTrack,
+  onNextTrack,
+}: MediaSessionOptions) {
+  // Action handlers are registered once and read the latest values
+  const latestRef = useRef({
+    markers,
+    seek,
+    onStop,
+    onPreviousTrack,
+    onNextTrack,
+  });
+  latestRef.current = { markers, seek, onStop, onPreviousTrack, onNextTrack };
+
+  useEffect(() => {
+    if (!isReady || !("mediaSession" in navigator)) return;
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title,
+      album: album ?? undefined,
+      artwork,
+    });
+    return () => {
+      navigator.mediaSession.metadata = null;
+    };
+  }, [isReady, title, album, artwork]);
+
+  useEffect(() => {
+    const ws = wavesurfer.current;
+    if (!isReady || !ws || !("mediaSession" in navigator)) return;
+    navigator.mediaSession.playbackState = isPlaying ? "playing" : "paused";
+    // The browser moves the position on from here while playing
+    const state = getMediaPositionState(
+      ws.getDuration(),
+      ws.getCurrentTime(),
+      playbackRate,
+    );
+    if (state) navigator.mediaSession.setPositionState(state);
+  }, [wavesurfer, isReady, isPlaying, playbackRate]);
+
+  useEffect(() => {
+    const ws = wavesurfer.current;
+    if (!isReady || !ws || !("mediaSession" in navigator)) return;
+    const mediaSession = navigator.mediaSession;
+
+    const seekTo = (time: number) => {
+      latestRef.current.seek(time);
+      const state = getMediaPositionState(
+        ws.getDuration(),
+        ws.getCurrentTime(),
+        ws.getPlaybackRate(),
+      );
+      if (state) mediaSession.setPositionState(state);
+    };
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ["play", () => void ws.play()],
+      ["pause", () => ws.pause()],
+      ["stop", () => latestRef.current.onStop()],
+      [
+        "seekbackward",
+        (details) =>
+          seekTo(
+            ws.getCurrentTime() - (details.seekOffset ?? MEDIA_SEEK_OFFSET),
+          ),
+      ],
+      [
+        "seekforward",
+        (details) =>
+          seekTo(
+            ws.getCurrentTime() + (details.seekOffset ?? MEDIA_SEEK_OFFSET),
+          ),
+      ],
+      [
+        "seekto",
+        (details) => {
+          if (details.seekTime != null) seekTo(details.seekTime);
+        },
+      ],
+      [
+        "previoustrack",
+        () => {
+          const { markers, onPreviousTrack } = latestRef.current;
+          const time = getPreviousMarkerTime(markers, ws.getCurrentTime());
+          if (time !== null) {
+            seekTo(time);
+          } else if (onPreviousTrack) {
+            onPreviousTrack();
+          } else {
+            seekTo(0);
+          }
+        },
+      ],
+      [
+        "nexttrack",
+        () => {
+          const { markers, onNextTrack } = latestRef.current;
+          const time = getNextMarkerTime(markers, ws.getCurrentTime());
+          if (time !== null) {
+            seekTo(time);
+          } else {
+            onNextTrack?.();
+          }
+        },
+      ],
+    ];
+
+    for (const [action, handler] of handlers) {
+      try {
+        mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Not every browser supports every action
+      }
+    }
+
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          mediaSession.setActionHandler(action, null);
+        } catch {
+          // Not every browser supports every action
+        }
+      }
+    };
+  }, [wavesurfer, isReady]);
+}
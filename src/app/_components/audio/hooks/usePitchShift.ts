@@ -0,0 +1,102 @@
+import { useEffect, useRef, type RefObject } from "react";
+import type WaveSurfer from "wavesurfer.js";
+
+const WORKLET_URL = "/pitch-shifter-worklet.js";
+const PROCESSOR_NAME = "pitch-shifter";
+
+interface PitchGraph {
+  media: HTMLMediaElement;
+  node: AudioWorkletNode;
+}
+
+/**
+ * Routes the media element of the player through the pitch shifter worklet.
+ * A media element cannot leave Web Audio again, so the graph is only built
+ * once the pitch is shifted and then kept with a ratio of 1.
+ * @param wavesurfer - The player
+ * @param isReady - Whether the audio of the player is loaded
+ * @param ratio - Frequency ratio, 1 without shift
+ */
+export function usePitchShift(
+  wavesurfer: RefObject<WaveSurfer | null>,
+  isReady: boolean,
+  ratio: number,
+) {
+  const contextRef = useRef<AudioContext | null>(null);
+  const moduleRef = useRef<Promise<void> | null>(null);
+  const graphRef = useRef<PitchGraph | null>(null);
+
+  useEffect(() => {
+    const media = isReady ? wavesurfer.current?.getMediaElement() : null;
+    if (!media) return;
+    // Slower or faster playback keeps the pitch, the worklet changes it
+    media.preservesPitch = true;
+
+    const setRatio = (graph: PitchGraph, context: AudioContext) => {
+      graph.node.parameters
+        .get("ratio")
+        ?.setValueAtTime(ratio, context.currentTime);
+    };
+
+    // Browsers start the context suspended until the user plays
+    let removePlayListener: (() => void) | undefined;
+    const resumeOnPlay = (context: AudioContext) => {
+      const resume = () => void context.resume();
+      media.addEventListener("play", resume);
+      removePlayListener = () => media.removeEventListener("play", resume);
+      if (!media.paused) resume();
+    };
+
+    const graph = graphRef.current;
+    if (graph?.media === media && contextRef.current) {
+      setRatio(graph, contextRef.current);
+      resumeOnPlay(contextRef.current);
+      return () => removePlayListener?.();
+    }
+    if (ratio === 1 || typeof AudioWorkletNode === "undefined") return;
+
+    let cancelled = false;
+    const connect = async () => {
+      contextRef.current ??= new AudioContext();
+      const context = contextRef.current;
+      moduleRef.current ??= context.audioWorklet.addModule(WORKLET_URL);
+      try {
+        await moduleRef.current;
+      } catch (error) {
+        console.warn("Failed to load the pitch shifter:", error);
+        moduleRef.current = null;
+        return;
+      }
+      if (cancelled) return;
+
+      // The node comes first, a failure then leaves the media element as is
+      const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+        outputChannelCount: [2],
+      });
+      const source = context.createMediaElementSource(media);
+      source.connect(node).connect(context.destination);
+      const connected = { media, node };
+      graphRef.current = connected;
+      setRatio(connected, context);
+      resumeOnPlay(context);
+    };
+    connect().catch((error: unknown) => {
+      console.warn("Failed to shift the pitch:", error);
+    });
+
+    return () => {
+      cancelled = true;
+      removePlayListener?.();
+    };
+  }, [wavesurfer, isReady, ratio]);
+
+  useEffect(() => {
+    return () => {
+      void contextRef.current?.close();
+      // The module and the graph belong to the closed context
+      contextRef.current = null;
+      moduleRef.current = null;
+      graphRef.current = null;
+    };
+  }, []);
+}
@@ -0,0 +1,171 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type RefObject,
+} from "react";
+import type WaveSurfer from "wavesurfer.js";
+import {
+  getCountInClicks,
+  getLeadInSeconds,
+  getRepetitionRate,
+  isPracticeFinished,
+  type PracticeRange,
+  type PracticeSettings,
+} from "~/lib/practice";
+
+const CLICK_SECONDS = 0.05;
+const ACCENT_FREQUENCY = 1760;
+const CLICK_FREQUENCY = 880;
+
+export interface PracticeProgress {
+  range: PracticeRange;
+  settings: PracticeSettings;
+  /** Current repetition, starting at 1 */
+  repetition: number;
+  /** Playback rate of the repetition, null keeps the player's rate */
+  rate: number | null;
+  /** Waiting for the gap and count-in before the repetition */
+  isCountingIn: boolean;
+  isFinished: boolean;
+}
+
+/**
+ * Loops an A-B range of the player a number of times. Before each repetition
+ * it pauses for the gap and plays the count-in clicks through Web Audio, then
+ * sets the rate of the speed trainer and plays the range again.
+ * @param wavesurfer - The player
+ * @param onRateChange - Called when the speed trainer changes the rate
+ */
+export function usePracticeLoop(
+  wavesurfer: RefObject<WaveSurfer | null>,
+  onRateChange: (rate: number) => void,
+) {
+  const [progress, setProgress] = useState<PracticeProgress | null>(null);
+  const progressRef = useRef<PracticeProgress | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const onRateChangeRef = useRef(onRateChange);
+  onRateChangeRef.current = onRateChange;
+
+  const update = useCallback((next: PracticeProgress | null) => {
+    progressRef.current = next;
+    setProgress(next);
+  }, []);
+
+  const clearTimer = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  const playClicks = useCallback((clicks: number[]) => {
+    if (clicks.length === 0 || typeof AudioContext === "undefined") return;
+    audioContextRef.current ??= new AudioContext();
+    const context = audioContextRef.current;
+    void context.resume();
+
+    clicks.forEach((offset, beat) => {
+      const at = context.currentTime + offset;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      // The first beat is accented like on a metronome
+      oscillator.frequency.value =
+        beat === 0 ? ACCENT_FREQUENCY : CLICK_FREQUENCY;
+      gain.gain.setValueAtTime(0.4, at);
+      gain.gain.exponentialRampToValueAtTime(0.001, at + CLICK_SECONDS);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(at);
+      oscillator.stop(at + CLICK_SECONDS);
+    });
+  }, []);
+
+  const startRepetition = useCallback(
+    (next: PracticeProgress) => {
+      const ws = wavesurfer.current;
+      if (!ws) return;
+      clearTimer();
+
+      if (ws.isPlaying()) ws.pause();
+      const dur = ws.getDuration();
+      if (dur > 0) ws.seekTo(next.range.start / dur);
+      if (next.rate !== null) {
+        ws.setPlaybackRate(next.rate);
+        onRateChangeRef.current(next.rate);
+      }
+
+      const leadIn = getLeadInSeconds(next.settings);
+      if (leadIn <= 0) {
+        update(next);
+        void ws.play();
+        return;
+      }
+
+      update({ ...next, isCountingIn: true });
+      playClicks(getCountInClicks(next.settings));
+      timerRef.current = window.setTimeout(() => {
+        timerRef.current = null;
+        const current = progressRef.current;
+        if (!current) return;
+        update({ ...current, isCountingIn: false });
+        void wavesurfer.current?.play();
+      }, leadIn * 1000);
+    },
+    [wavesurfer, clearTimer, update, playClicks],
+  );
+
+  const start = useCallback(
+    (range: PracticeRange, settings: PracticeSettings) => {
+      startRepetition({
+        range,
+        settings,
+        repetition: 1,
+        rate: getRepetitionRate(settings, 1),
+        isCountingIn: false,
+        isFinished: false,
+      });
+    },
+    [startRepetition],
+  );
+
+  const stop = useCallback(() => {
+    clearTimer();
+    update(null);
+  }, [clearTimer, update]);
+
+  /** Call when playback leaves the range, starts the next repetition */
+  const handleRangeEnd = useCallback(() => {
+    const current = progressRef.current;
+    const ws = wavesurfer.current;
+    if (!current || !ws || current.isCountingIn || current.isFinished) return;
+    // Seeking away from the range is not the end of a repetition
+    if (ws.getCurrentTime() < current.range.end) return;
+
+    if (isPracticeFinished(current.settings, current.repetition)) {
+      ws.pause();
+      const dur = ws.getDuration();
+      if (dur > 0) ws.seekTo(current.range.start / dur);
+      update({ ...current, isFinished: true });
+      return;
+    }
+
+    const repetition = current.repetition + 1;
+    startRepetition({
+      ...current,
+      repetition,
+      rate: getRepetitionRate(current.settings, repetition),
+    });
+  }, [wavesurfer, update, startRepetition]);
+
+  useEffect(() => {
+    return () => {
+      clearTimer();
+      void audioContextRef.current?.close();
+      audioContextRef.current = null;
+    };
+  }, [clearTimer]);
+
+  return { progress, start, stop, handleRangeEnd };
+}
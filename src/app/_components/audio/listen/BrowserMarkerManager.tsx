@@ -1,15 +1,22 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Card, CardBody, CardHeader, Chip } from "@heroui/react";
 import { FlagTriangleRight } from "lucide-react";
 import type { AudioMarker } from "~/types/Audio";
 import AddMarker from "../marker/AddMarker";
 import MarkerList from "../marker/MarkerList";
 import EmptyMarkerList from "../marker/EmptyMarkerList";
+import ExportMarkersButton from "../marker/ExportMarkersButton";
+import MarkerHistoryPanel from "../marker/MarkerHistoryPanel";
+import MarkerNotesModal from "../marker/MarkerNotesModal";
+import { useMarkerHistory } from "~/lib/hooks/useMarkerHistory";
+import { getBrowserMarkersKey } from "~/lib/privateMarker";
 
 interface MarkerManagerProps {
   audioId: string;
+  /** Name of the audio, used for exported marker files */
+  audioName: string;
   currentTime: number;
   onMarkersChange: (markers: AudioMarker[]) => void;
   onMarkerClick?: (marker: AudioMarker) => void;
@@ -24,10 +31,13 @@ interface MarkerManagerProps {
       updates: { timestamp: number; endTimestamp?: number | null },
     ) => void,
   ) => void;
+  /** Category ids, or UNCATEGORIZED_KEY, whose markers are hidden */
+  hiddenCategoryIds?: string[];
 }
 
 export default function BrowserMarkerManager({
   audioId,
+  audioName,
   currentTime,
   onMarkersChange,
   onMarkerClick,
@@ -36,13 +46,15 @@ export default function BrowserMarkerManager({
   editingMarkerId,
   onToggleEdit,
   onUpdateMarkerReady,
+  hiddenCategoryIds,
 }: MarkerManagerProps) {
   const [markers, setMarkers] = useState<AudioMarker[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
+  const [notesMarker, setNotesMarker] = useState<AudioMarker | null>(null);
 
   // Load markers from localStorage on component mount
   useEffect(() => {
-    const savedMarkers = localStorage.getItem(`audioMarkers_${audioId}`);
+    const savedMarkers = localStorage.getItem(getBrowserMarkersKey(audioId));
     if (savedMarkers) {
       try {
         const parsedMarkers = JSON.parse(savedMarkers) as AudioMarker[];
@@ -58,12 +70,54 @@ export default function BrowserMarkerManager({
   // Save markers to localStorage whenever markers change (only after initial load)
   useEffect(() => {
     if (!isLoaded) return;
-    localStorage.setItem(`audioMarkers_${audioId}`, JSON.stringify(markers));
+    localStorage.setItem(
+      getBrowserMarkersKey(audioId),
+      JSON.stringify(markers),
+    );
     onMarkersChange(markers);
   }, [markers, audioId, onMarkersChange, isLoaded]);
 
+  // Latest markers for recording changes in stable callbacks
+  const markersRef = useRef(markers);
+  markersRef.current = markers;
+
+  const history = useMarkerHistory({
+    adapter: {
+      createMarker: async (marker) => {
+        const id = `marker_${Date.now()}`;
+        setMarkers((prev) =>
+          [...prev, { ...marker, id }].sort(
+            (a, b) => a.timestamp - b.timestamp,
+          ),
+        );
+        return id;
+      },
+      deleteMarker: async (markerId) => {
+        setMarkers((prev) => prev.filter((marker) => marker.id !== markerId));
+      },
+      updateMarker: async (markerId, fields) => {
+        setMarkers((prev) =>
+          prev
+            .map((marker) =>
+              marker.id === markerId ? { ...marker, ...fields } : marker,
+            )
+            .sort((a, b) => a.timestamp - b.timestamp),
+        );
+      },
+    },
+  });
+  const recordHistory = history.record;
+
   const removeMarker = (markerId: string) => {
+    const marker = markers.find((m) => m.id === markerId);
     setMarkers((prev) => prev.filter((marker) => marker.id !== markerId));
+    if (marker) {
+      recordHistory({
+        action: "delete",
+        subject: marker.label,
+        changes: [{ type: "delete", marker }],
+      });
+    }
   };
 
   const updateMarker = React.useCallback(
@@ -71,6 +125,27 @@ export default function BrowserMarkerManager({
       markerId: string,
       updates: { timestamp: number; endTimestamp?: number | null },
     ) => {
+      const marker = markersRef.current.find((m) => m.id === markerId);
+      if (marker) {
+        recordHistory({
+          action: "move",
+          subject: marker.label,
+          changes: [
+            {
+              type: "update",
+              markerId,
+              before: {
+                timestamp: marker.timestamp,
+                endTimestamp: marker.endTimestamp,
+              },
+              after: {
+                timestamp: updates.timestamp,
+                endTimestamp: updates.endTimestamp ?? marker.endTimestamp,
+              },
+            },
+          ],
+        });
+      }
       setMarkers((prev) => {
         if (!prev.some((m) => m.id === markerId)) return prev;
         return prev
@@ -86,7 +161,7 @@ export default function BrowserMarkerManager({
           .sort((a, b) => a.timestamp - b.timestamp);
       });
     },
-    [],
+    [recordHistory],
   );
 
   // Expose updateMarker to parent
@@ -96,6 +171,27 @@ export default function BrowserMarkerManager({
     }
   }, [onUpdateMarkerReady, updateMarker]);
 
+  const saveNotes = (marker: AudioMarker, notes: string) => {
+    setMarkers((prev) =>
+      prev.map((m) =>
+        m.id === marker.id ? { ...m, notes: notes || null } : m,
+      ),
+    );
+    recordHistory({
+      action: "notes",
+      subject: marker.label,
+      changes: [
+        {
+          type: "update",
+          markerId: marker.id,
+          before: { notes: marker.notes ?? null },
+          after: { notes: notes || null },
+        },
+      ],
+    });
+    setNotesMarker(null);
+  };
+
   const handleToggleEdit = (markerId: string) => {
     onToggleEdit?.(markerId);
   };
@@ -116,51 +212,71 @@ export default function BrowserMarkerManager({
     setMarkers((prev) =>
       [...prev, newMarker].sort((a, b) => a.timestamp - b.timestamp),
     );
+    recordHistory({
+      action: "create",
+      subject: newMarker.label,
+      changes: [{ type: "create", marker: newMarker }],
+    });
   };
 
   return (
-    <Card className="w-full">
-      <CardHeader className="flex flex-col items-start">
-        <div className="flex flex-row items-center gap-2 pb-2">
-          <FlagTriangleRight size={20} className="text-primary" />
-          <h3 className="text-lg font-semibold">Browser Audio Markers</h3>
-          <Chip size="sm" variant="flat" color="primary">
-            {markers.length}
-          </Chip>
-        </div>
-        <p className="text-small text-default-500">
-          This Markers are only available in this browser.
-        </p>
-      </CardHeader>
-      <CardBody className="space-y-4">
-        {/* Add Custom Marker */}
-        <div className="flex gap-2">
-          <AddMarker
-            currentTime={currentTime}
-            onAddMarker={addMarkerAtCurrentTime}
-            selectedRegion={selectedRegion ?? undefined}
-            onClearRegion={onClearRegion}
-          />
-        </div>
-
-        {/* Markers List */}
-        {markers.length > 0 && (
-          <div className="space-y-2 max-h-96 overflow-y-auto">
-            <h4 className="text-sm font-medium text-default-600">
-              Saved Markers:
-            </h4>
-            <MarkerList
-              markers={markers}
-              onMarkerClick={onMarkerClick}
-              onRemoveMarker={removeMarker}
-              onToggleEdit={handleToggleEdit}
-              editingMarkerId={editingMarkerId}
+    <>
+      <Card className="w-full">
+        <CardHeader className="flex flex-col items-start">
+          <div className="flex flex-row items-center gap-2 pb-2">
+            <FlagTriangleRight size={20} className="text-primary" />
+            <h3 className="text-lg font-semibold">Browser Audio Markers</h3>
+            <Chip size="sm" variant="flat" color="primary">
+              {markers.length}
+            </Chip>
+          </div>
+          <p className="text-small text-default-500">
+            This Markers are only available in this browser.
+          </p>
+        </CardHeader>
+        <CardBody className="space-y-4">
+          {/* Add Custom Marker */}
+          <div className="flex gap-2">
+            <AddMarker
+              currentTime={currentTime}
+              onAddMarker={addMarkerAtCurrentTime}
+              selectedRegion={selectedRegion ?? undefined}
+              onClearRegion={onClearRegion}
             />
           </div>
-        )}
 
-        {markers.length === 0 && <EmptyMarkerList />}
-      </CardBody>
-    </Card>
+          {/* Markers List */}
+          {markers.length > 0 && (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              <div className="flex items-center justify-between gap-2">
+                <h4 className="text-sm font-medium text-default-600">
+                  Saved Markers:
+                </h4>
+                <ExportMarkersButton markers={markers} audioName={audioName} />
+              </div>
+              <MarkerList
+                markers={markers}
+                onMarkerClick={onMarkerClick}
+                onRemoveMarker={removeMarker}
+                onToggleEdit={handleToggleEdit}
+                editingMarkerId={editingMarkerId}
+                onEditNotes={setNotesMarker}
+                hiddenCategoryIds={hiddenCategoryIds}
+              />
+            </div>
+          )}
+
+          {markers.length === 0 && <EmptyMarkerList />}
+        </CardBody>
+
+        <MarkerNotesModal
+          marker={notesMarker}
+          onClose={() => setNotesMarker(null)}
+          onSave={saveNotes}
+        />
+      </Card>
+
+      <MarkerHistoryPanel history={history} className="w-full" />
+    </>
   );
 }
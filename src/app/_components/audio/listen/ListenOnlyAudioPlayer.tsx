@@ -3,14 +3,39 @@
 import { useState, useCallback, useMemo, useEffect } from "react";
 import AudioPlayer from "../AudioPlayer";
 import BrowserMarkerManager from "./BrowserMarkerManager";
-import type { AudioMarker } from "~/types/Audio";
+import PrivateMarkerManager from "./PrivateMarkerManager";
+import type { AudioMarker, AudioProcessingStatus } from "~/types/Audio";
+import { skipToken } from "@tanstack/react-query";
 import { api } from "~/trpc/react";
 import StoredMarkers from "./StoredMarkers";
+import MarkerNotesPanel from "./MarkerNotesPanel";
 import { useIncrementListenCount } from "~/lib/hooks/useIncrementListenCount";
 import { AutoplayCountdownModal } from "./AutoplayCountdownModal";
+import { ResumePrompt } from "./ResumePrompt";
 import { PlaylistNavigation } from "./PlaylistNavigation";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useSession } from "next-auth/react";
+import { AudioProcessingNotice } from "../AudioProcessingNotice";
+import { AudioVersionList } from "../versions/AudioVersionList";
+import { getAudioFileUrls } from "~/lib/audioUrl";
+import { useCategoryVisibility } from "~/lib/hooks/useCategoryVisibility";
+import { useStoredPitch } from "~/lib/hooks/useStoredPitch";
+import { useResumePosition } from "~/lib/hooks/useResumePosition";
+import {
+  applyCategoryColors,
+  filterMarkersByCategory,
+} from "~/lib/markerCategory";
+import { parseDeepLink, type DeepLinkTarget } from "~/lib/deepLink";
+import { getCommentPins } from "~/lib/comment";
+import { CommentPanel } from "../comment/CommentPanel";
+import { getPlaylistEmbedAudioPath } from "~/lib/embed";
+import { getPlaylistNeighbors } from "~/lib/mediaSession";
+
+interface EmbedPlayerOptions {
+  /** The embedded playlist, null when a single audio is embedded */
+  playlistId: string | null;
+  showMarkerList: boolean;
+}
 
 interface AudioPlayerWithMarkersProps {
   audioUrl: string;
@@ -19,6 +44,15 @@ interface AudioPlayerWithMarkersProps {
   audioDescription?: string | null;
   audioReadOnlyToken: string;
   audioId: string;
+  processingStatus?: AudioProcessingStatus;
+  /** Show the version history, only for the creator of the audio */
+  canSwitchVersions?: boolean;
+  /** Private markers can be turned into stored markers by the creator */
+  canPromoteMarkers?: boolean;
+  /** Listeners may add their own markers, not with view-only share links */
+  canAddMarkers?: boolean;
+  /** Minimal player for the embed pages, without markers and comments of the listener */
+  embed?: EmbedPlayerOptions;
 }
 
 export default function ListenOnlyAudioPlayer({
@@ -28,17 +62,39 @@ export default function ListenOnlyAudioPlayer({
   audioDescription,
   audioReadOnlyToken,
   audioId,
+  processingStatus = "ready",
+  canSwitchVersions = false,
+  canPromoteMarkers = false,
+  canAddMarkers = true,
+  embed,
 }: AudioPlayerWithMarkersProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const playlistId = searchParams.get("playlistId");
+  const isEmbed = !!embed;
+  const showMarkerList = embed?.showMarkerList ?? true;
+  const playlistId = embed ? embed.playlistId : searchParams.get("playlistId");
   const autoplayParam = searchParams.get("autoplay") === "true";
-  const { data: session } = useSession();
+  const { data: session, status: sessionStatus } = useSession();
 
   const [markers, setMarkers] = useState<AudioMarker[]>([]);
-  const { data: storedMarkers = [] } = api.marker.getMarkers.useQuery({
+  const { data: storedMarkerData } = api.marker.getMarkers.useQuery({
+    audioId,
+  });
+  const { data: categories = [] } = api.markerCategory.getCategories.useQuery({
     audioId,
   });
+  const { hiddenCategoryIds, toggleCategory, showAllCategories } =
+    useCategoryVisibility();
+  const { pitch, setPitch } = useStoredPitch(audioId);
+  // Embeds are played on other sites, they do not remember the position
+  const { resumePosition, savePosition } = useResumePosition(audioId, !isEmbed);
+  const [dismissedResumeId, setDismissedResumeId] = useState<string | null>(
+    null,
+  );
+  const storedMarkers = useMemo(
+    () => applyCategoryColors(storedMarkerData ?? [], categories),
+    [storedMarkerData, categories],
+  );
   const [currentTime, setCurrentTime] = useState(0);
   const [playFromFunction, setPlayFromFunction] = useState<
     ((marker: AudioMarker) => void) | null
@@ -61,7 +117,21 @@ export default function ListenOnlyAudioPlayer({
     !!playlistId && autoplayParam,
   );
   const [autoplayEnabled, setAutoplayEnabled] = useState(autoplayParam);
+  const [deepLink, setDeepLink] = useState<DeepLinkTarget | null>(null);
   const [editingMarkerId, setEditingMarkerId] = useState<string | null>(null);
+  const [playingVersionId, setPlayingVersionId] = useState<string | null>(null);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [seekFunction, setSeekFunction] = useState<
+    ((time: number) => void) | null
+  >(null);
+  const { data: comments } = api.comment.getComments.useQuery(
+    { audioId },
+    { enabled: !isEmbed },
+  );
+  const commentPins = useMemo(
+    () => getCommentPins(comments?.threads ?? []),
+    [comments],
+  );
   const [updateBrowserMarker, setUpdateBrowserMarker] = useState<
     | ((
         markerId: string,
@@ -71,17 +141,25 @@ export default function ListenOnlyAudioPlayer({
   >(null);
 
   // Fetch playlist data - use user's playlist if logged in, otherwise use public playlist
-  const { data: playlistFromUser } = api.playlist.getUserPlaylistById.useQuery(
-    { id: playlistId! },
-    { enabled: !!playlistId && !!session },
-  );
+  const { data: playlistFromUser, isError: isUserPlaylistError } =
+    api.playlist.getUserPlaylistById.useQuery(
+      playlistId && session ? { id: playlistId } : skipToken,
+      { retry: false },
+    );
 
+  // Public playlists of other users have no role of the signed-in user
+  const isPublicPlaylist = !session || isUserPlaylistError;
   const { data: playlistPublic } = api.playlist.getPublicPlaylistById.useQuery(
-    { id: playlistId! },
-    { enabled: !!playlistId && !session },
+    playlistId && isPublicPlaylist ? { id: playlistId } : skipToken,
   );
 
-  const playlist = session ? playlistFromUser : playlistPublic;
+  const playlist = isPublicPlaylist ? playlistPublic : playlistFromUser;
+
+  // Position from ?t=, ?marker=, ?section= or #t=, the hash is only known
+  // in the browser
+  useEffect(() => {
+    setDeepLink(parseDeepLink(searchParams, window.location.hash));
+  }, [searchParams]);
 
   // Find next audio in playlist
   useEffect(() => {
@@ -109,6 +187,11 @@ export default function ListenOnlyAudioPlayer({
     return [...markers, ...storedMarkers];
   }, [markers, storedMarkers]);
 
+  const visibleMarkers = useMemo(
+    () => filterMarkersByCategory(markerUnion, hiddenCategoryIds),
+    [markerUnion, hiddenCategoryIds],
+  );
+
   // Use audioId or fallback to readonlyToken for unique identification
   const uniqueAudioId = audioId || audioReadOnlyToken;
 
@@ -126,9 +209,13 @@ export default function ListenOnlyAudioPlayer({
     setMarkers(newMarkers);
   }, []);
 
-  const handleTimeUpdate = useCallback((time: number) => {
-    setCurrentTime(time);
-  }, []);
+  const handleTimeUpdate = useCallback(
+    (time: number) => {
+      setCurrentTime(time);
+      if (time > 0) savePosition(time);
+    },
+    [savePosition],
+  );
 
   const handlePlayFromFnReady = useCallback(
     (seekTo: (marker: AudioMarker) => void) => {
@@ -137,6 +224,17 @@ export default function ListenOnlyAudioPlayer({
     [],
   );
 
+  const handleSeekFnReady = useCallback((seek: (time: number) => void) => {
+    setSeekFunction(() => seek);
+  }, []);
+
+  const handleCommentSeek = useCallback(
+    (time: number) => {
+      seekFunction?.(time);
+    },
+    [seekFunction],
+  );
+
   const handleMarkerClick = useCallback(
     (marker: AudioMarker) => {
       if (playFromFunction) {
@@ -167,21 +265,38 @@ export default function ListenOnlyAudioPlayer({
   }, [clearRegionFunction]);
 
   const handleAudioFinish = useCallback(() => {
+    savePosition(null);
     if (playlistId) {
       setHasFinished(true);
     }
-  }, [playlistId]);
-
-  const handlePlayNext = useCallback(() => {
-    if (nextAudio && playlistId) {
+  }, [playlistId, savePosition]);
+
+  // Embeds stay in the embed page of the playlist
+  const getPlaylistAudioPath = useCallback(
+    (nextAudioId: string, playlistId: string) => {
+      if (isEmbed) {
+        return getPlaylistEmbedAudioPath(
+          playlistId,
+          nextAudioId,
+          new URLSearchParams(searchParams.toString()),
+          autoplayEnabled,
+        );
+      }
       const params = new URLSearchParams();
       params.set("playlistId", playlistId);
       if (autoplayEnabled) {
         params.set("autoplay", "true");
       }
-      router.push(`/audios/${nextAudio.id}/listen?${params.toString()}`);
+      return `/audios/${nextAudioId}/listen?${params.toString()}`;
+    },
+    [isEmbed, searchParams, autoplayEnabled],
+  );
+
+  const handlePlayNext = useCallback(() => {
+    if (nextAudio && playlistId) {
+      router.push(getPlaylistAudioPath(nextAudio.id, playlistId));
     }
-  }, [nextAudio, playlistId, autoplayEnabled, router]);
+  }, [nextAudio, playlistId, getPlaylistAudioPath, router]);
 
   const handleCancelAutoplay = useCallback(() => {
     setShowCountdownModal(false);
@@ -196,15 +311,25 @@ export default function ListenOnlyAudioPlayer({
   const handleNavigate = useCallback(
     (audioId: string) => {
       if (playlistId) {
-        const params = new URLSearchParams();
-        params.set("playlistId", playlistId);
-        if (autoplayEnabled) {
-          params.set("autoplay", "true");
-        }
-        router.push(`/audios/${audioId}/listen?${params.toString()}`);
+        router.push(getPlaylistAudioPath(audioId, playlistId));
       }
     },
-    [playlistId, autoplayEnabled, router],
+    [playlistId, getPlaylistAudioPath, router],
+  );
+
+  // Media keys and the lock screen go to the neighbouring audios of the playlist
+  const playlistNeighbors = playlist
+    ? getPlaylistNeighbors(playlist.audios, audioId)
+    : null;
+  const previousAudioId = playlistNeighbors?.previous?.audio.id;
+  const nextAudioId = playlistNeighbors?.next?.audio.id;
+  const handlePreviousTrack = useMemo(
+    () => (previousAudioId ? () => handleNavigate(previousAudioId) : undefined),
+    [previousAudioId, handleNavigate],
+  );
+  const handleNextTrack = useMemo(
+    () => (nextAudioId ? () => handleNavigate(nextAudioId) : undefined),
+    [nextAudioId, handleNavigate],
   );
 
   // Handle marker updates from dragging/resizing in wavesurfer - save immediately
@@ -213,7 +338,7 @@ export default function ListenOnlyAudioPlayer({
       markerId: string,
       updates: { timestamp: number; endTimestamp?: number | null },
     ) => {
-      // Update browser markers via the exposed updateMarker function
+      // Update browser or private markers via the exposed updateMarker function
       if (updateBrowserMarker) {
         updateBrowserMarker(markerId, updates);
       }
@@ -245,6 +370,39 @@ export default function ListenOnlyAudioPlayer({
     [editingMarkerId],
   );
 
+  const handleProcessingPoll = useCallback(() => {
+    router.refresh();
+  }, [router]);
+
+  const handlePlayVersion = useCallback(
+    (versionId: string | null) => {
+      setPlayingVersionId(versionId);
+      // The current version may have changed, reload the audio of the page
+      if (!versionId) router.refresh();
+    },
+    [router],
+  );
+
+  const playingVersionUrls = playingVersionId
+    ? getAudioFileUrls(audioId, playingVersionId)
+    : null;
+
+  // Offer the saved position until the listener plays, seeks or opens a link
+  const showResumePrompt =
+    resumePosition !== null &&
+    dismissedResumeId !== audioId &&
+    !deepLink &&
+    !shouldAutoplay &&
+    currentTime === 0 &&
+    !!seekFunction &&
+    !!playFunction;
+
+  const handleResume = useCallback(() => {
+    if (resumePosition === null) return;
+    seekFunction?.(resumePosition);
+    playFunction?.();
+  }, [resumePosition, seekFunction, playFunction]);
+
   // Trigger autoplay when player is ready
   useEffect(() => {
     if (shouldAutoplay && playFunction) {
@@ -279,43 +437,126 @@ export default function ListenOnlyAudioPlayer({
         />
       )}
 
-      {/* Audio Player */}
-      <AudioPlayer
-        audioUrl={audioUrl}
-        peaksUrl={peaksUrl}
-        audioName={audioName}
-        audioDescription={audioDescription}
-        audioReadOnlyToken={audioReadOnlyToken}
-        markers={markerUnion}
-        onTimeUpdate={handleTimeUpdate}
-        onPlayFromFnReady={handlePlayFromFnReady}
-        onSelectedRegionUpdate={handleSelectedRegionUpdate}
-        onClearRegionReady={handleClearRegionReady}
-        onFinish={handleAudioFinish}
-        onPlayReady={handlePlayReady}
-        editingMarkerId={editingMarkerId}
-        onMarkerUpdated={handleMarkerUpdated}
-      />
+      {showResumePrompt && resumePosition !== null && (
+        <ResumePrompt
+          position={resumePosition}
+          onResume={handleResume}
+          onDismiss={() => setDismissedResumeId(audioId)}
+        />
+      )}
+
+      {/* Audio Player with the notes of the current markers beside it */}
+      <div className="flex w-full flex-col gap-6 xl:flex-row xl:items-start">
+        <div className="w-full min-w-0 flex-1">
+          {!playingVersionId && processingStatus !== "ready" ? (
+            <AudioProcessingNotice
+              status={processingStatus}
+              onPoll={handleProcessingPoll}
+            />
+          ) : (
+            <AudioPlayer
+              audioUrl={playingVersionUrls?.audioUrl ?? audioUrl}
+              peaksUrl={playingVersionUrls?.peaksUrl ?? peaksUrl}
+              audioName={audioName}
+              audioDescription={audioDescription}
+              audioReadOnlyToken={audioReadOnlyToken}
+              markers={markerUnion}
+              onTimeUpdate={handleTimeUpdate}
+              onPlayFromFnReady={handlePlayFromFnReady}
+              onSelectedRegionUpdate={handleSelectedRegionUpdate}
+              onClearRegionReady={handleClearRegionReady}
+              onFinish={handleAudioFinish}
+              onPlayReady={handlePlayReady}
+              editingMarkerId={editingMarkerId}
+              onMarkerUpdated={handleMarkerUpdated}
+              deepLink={deepLink}
+              categories={categories}
+              hiddenCategoryIds={hiddenCategoryIds}
+              onToggleCategory={toggleCategory}
+              onShowAllCategories={showAllCategories}
+              commentPins={commentPins}
+              onCommentPinClick={setActiveCommentId}
+              onSeekFnReady={handleSeekFnReady}
+              pitch={pitch}
+              onPitchChange={isEmbed ? undefined : setPitch}
+              playlistName={playlist?.name}
+              onPreviousTrack={handlePreviousTrack}
+              onNextTrack={handleNextTrack}
+            />
+          )}
+        </div>
+        {showMarkerList && (
+          <MarkerNotesPanel
+            markers={visibleMarkers}
+            currentTime={currentTime}
+            onMarkerClick={handleMarkerClick}
+          />
+        )}
+      </div>
 
       <div className="flex flex-col items-center space-y-6">
         {/* Stored Markers */}
-        <StoredMarkers
-          markers={storedMarkers}
-          onMarkerClick={handleMarkerClick}
-        />
+        {showMarkerList && (
+          <StoredMarkers
+            audioId={audioId}
+            markers={storedMarkers}
+            onMarkerClick={handleMarkerClick}
+            categories={categories}
+            hiddenCategoryIds={hiddenCategoryIds}
+          />
+        )}
+
+        {/* Marker Manager, in the account of signed-in listeners */}
+        {!canAddMarkers || isEmbed ? null : session ? (
+          <PrivateMarkerManager
+            audioId={audioId}
+            audioName={audioName}
+            currentTime={currentTime}
+            onMarkersChange={handleMarkersChange}
+            onMarkerClick={handleMarkerClick}
+            selectedRegion={selectedRegion}
+            onClearRegion={handleClearRegion}
+            editingMarkerId={editingMarkerId}
+            onToggleEdit={handleToggleEdit}
+            onUpdateMarkerReady={handleUpdateMarkerReady}
+            hiddenCategoryIds={hiddenCategoryIds}
+            canPromote={canPromoteMarkers}
+          />
+        ) : (
+          sessionStatus === "unauthenticated" && (
+            <BrowserMarkerManager
+              audioId={uniqueAudioId}
+              audioName={audioName}
+              currentTime={currentTime}
+              onMarkersChange={handleMarkersChange}
+              onMarkerClick={handleMarkerClick}
+              selectedRegion={selectedRegion}
+              onClearRegion={handleClearRegion}
+              editingMarkerId={editingMarkerId}
+              onToggleEdit={handleToggleEdit}
+              onUpdateMarkerReady={handleUpdateMarkerReady}
+              hiddenCategoryIds={hiddenCategoryIds}
+            />
+          )
+        )}
+
+        {!isEmbed && (
+          <CommentPanel
+            audioId={audioId}
+            currentTime={currentTime}
+            selectedRegion={selectedRegion}
+            onSeek={handleCommentSeek}
+            activeThreadId={activeCommentId}
+          />
+        )}
 
-        {/* Marker Manager */}
-        <BrowserMarkerManager
-          audioId={uniqueAudioId}
-          currentTime={currentTime}
-          onMarkersChange={handleMarkersChange}
-          onMarkerClick={handleMarkerClick}
-          selectedRegion={selectedRegion}
-          onClearRegion={handleClearRegion}
-          editingMarkerId={editingMarkerId}
-          onToggleEdit={handleToggleEdit}
-          onUpdateMarkerReady={handleUpdateMarkerReady}
-        />
+        {canSwitchVersions && (
+          <AudioVersionList
+            audioId={audioId}
+            playingVersionId={playingVersionId}
+            onPlayVersion={handlePlayVersion}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,64 @@
+"use client";
+
+import { Card, CardBody, CardHeader } from "@heroui/react";
+import { NotebookText } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { getMarkersWithNotesAt } from "~/lib/marker";
+import { formatTime } from "~/lib/time";
+import type { AudioMarker } from "~/types/Audio";
+import MarkerNotes from "../marker/MarkerNotes";
+
+interface MarkerNotesPanelProps {
+  markers: AudioMarker[];
+  currentTime: number;
+  onMarkerClick?: (marker: AudioMarker) => void;
+}
+
+/**
+ * Shows the notes of the markers the playback has passed: the last point
+ * marker and the sections being played. Hidden if no marker has notes.
+ */
+export default function MarkerNotesPanel({
+  markers,
+  currentTime,
+  onMarkerClick,
+}: MarkerNotesPanelProps) {
+  const t = useTranslations("MarkerNotesPanel");
+
+  if (!markers.some((marker) => marker.notes?.trim())) return null;
+
+  const activeMarkers = getMarkersWithNotesAt(markers, currentTime);
+
+  return (
+    <Card className="w-full xl:w-80 xl:flex-shrink-0">
+      <CardHeader className="flex items-center gap-2">
+        <NotebookText size={20} className="text-primary" />
+        <h3 className="text-lg font-semibold">{t("title")}</h3>
+      </CardHeader>
+      <CardBody className="space-y-4 max-h-96 overflow-y-auto">
+        {activeMarkers.length === 0 && (
+          <p className="text-sm text-default-500">{t("empty")}</p>
+        )}
+        {activeMarkers.map((marker) => (
+          <div key={marker.id} className="space-y-1">
+            <button
+              type="button"
+              className="flex items-center gap-2 text-left"
+              onClick={() => onMarkerClick?.(marker)}
+            >
+              <span
+                className="w-3 h-3 rounded-full flex-shrink-0"
+                style={{ backgroundColor: marker.color }}
+              />
+              <span className="text-sm font-medium">{marker.label}</span>
+              <span className="text-xs text-default-500">
+                {formatTime(marker.timestamp)}
+              </span>
+            </button>
+            <MarkerNotes notes={marker.notes ?? ""} />
+          </div>
+        ))}
+      </CardBody>
+    </Card>
+  );
+}
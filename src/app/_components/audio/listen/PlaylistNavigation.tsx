@@ -11,6 +11,7 @@ import {
 import { useTranslations } from "next-intl";
 import { useState } from "react";
 import type { PlaylistWithAudios } from "~/types/Playlist";
+import { getPlaylistNeighbors } from "~/lib/mediaSession";
 
 interface PlaylistNavigationProps {
   playlist: PlaylistWithAudios;
@@ -33,8 +34,12 @@ export function PlaylistNavigation({
   const currentIndex = playlist.audios.findIndex(
     (pa) => pa.audio.id === currentAudioId,
   );
-  const hasPrev = currentIndex > 0;
-  const hasNext = currentIndex < playlist.audios.length - 1;
+  const { previous, next } = getPlaylistNeighbors(
+    playlist.audios,
+    currentAudioId,
+  );
+  const hasPrev = !!previous;
+  const hasNext = !!next;
 
   // Show 2 previous and 2 next audios
   const visibleStart = Math.max(0, currentIndex - 2);
@@ -42,20 +47,14 @@ export function PlaylistNavigation({
   const visibleAudios = playlist.audios.slice(visibleStart, visibleEnd);
 
   const handlePrev = () => {
-    if (hasPrev) {
-      const prevAudio = playlist.audios[currentIndex - 1];
-      if (prevAudio) {
-        onNavigate(prevAudio.audio.id);
-      }
+    if (previous) {
+      onNavigate(previous.audio.id);
     }
   };
 
   const handleNext = () => {
-    if (hasNext) {
-      const nextAudio = playlist.audios[currentIndex + 1];
-      if (nextAudio) {
-        onNavigate(nextAudio.audio.id);
-      }
+    if (next) {
+      onNavigate(next.audio.id);
     }
   };
 
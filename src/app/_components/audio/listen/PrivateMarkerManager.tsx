@@ -0,0 +1,305 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from "react";
+import { Card, CardBody, CardHeader, Chip } from "@heroui/react";
+import { FlagTriangleRight } from "lucide-react";
+import { useTranslations } from "next-intl";
+import type { AudioMarker } from "~/types/Audio";
+import { api, type RouterOutputs } from "~/trpc/react";
+import AddMarker from "../marker/AddMarker";
+import MarkerList from "../marker/MarkerList";
+import EmptyMarkerList from "../marker/EmptyMarkerList";
+import ExportMarkersButton from "../marker/ExportMarkersButton";
+import MarkerHistoryPanel from "../marker/MarkerHistoryPanel";
+import MarkerNotesModal from "../marker/MarkerNotesModal";
+import { useMarkerHistory } from "~/lib/hooks/useMarkerHistory";
+
+type PrivateMarker =
+  RouterOutputs["privateMarker"]["getPrivateMarkers"][number];
+
+const NO_MARKERS: PrivateMarker[] = [];
+
+interface PrivateMarkerManagerProps {
+  audioId: string;
+  /** Name of the audio, used for exported marker files */
+  audioName: string;
+  currentTime: number;
+  onMarkersChange: (markers: AudioMarker[]) => void;
+  onMarkerClick?: (marker: AudioMarker) => void;
+  selectedRegion?: { start: number; end: number } | null;
+  onClearRegion?: () => void;
+  editingMarkerId?: string | null;
+  onToggleEdit?: (markerId: string) => void;
+  /** Called when the manager is ready, passes the update function to the parent */
+  onUpdateMarkerReady?: (
+    updateFn: (
+      markerId: string,
+      updates: { timestamp: number; endTimestamp?: number | null },
+    ) => void,
+  ) => void;
+  /** Category ids, or UNCATEGORIZED_KEY, whose markers are hidden */
+  hiddenCategoryIds?: string[];
+  /** Owners can turn their private markers into stored markers */
+  canPromote?: boolean;
+}
+
+/**
+ * Markers of a signed-in listener, only visible to them and saved in their
+ * account instead of the browser
+ */
+export default function PrivateMarkerManager({
+  audioId,
+  audioName,
+  currentTime,
+  onMarkersChange,
+  onMarkerClick,
+  selectedRegion,
+  onClearRegion,
+  editingMarkerId,
+  onToggleEdit,
+  onUpdateMarkerReady,
+  hiddenCategoryIds,
+  canPromote = false,
+}: PrivateMarkerManagerProps) {
+  const t = useTranslations("PrivateMarkerManager");
+  const utils = api.useUtils();
+  const [notesMarker, setNotesMarker] = useState<AudioMarker | null>(null);
+
+  const { data: markers = NO_MARKERS } =
+    api.privateMarker.getPrivateMarkers.useQuery({ audioId });
+
+  useEffect(() => {
+    onMarkersChange(markers);
+  }, [markers, onMarkersChange]);
+
+  // Latest markers for recording changes in stable callbacks
+  const markersRef = useRef(markers);
+  markersRef.current = markers;
+
+  const invalidate = React.useCallback(() => {
+    void utils.privateMarker.getPrivateMarkers.invalidate({ audioId });
+  }, [utils, audioId]);
+
+  const createMarker = api.privateMarker.createPrivateMarker.useMutation();
+  const updateMarker = api.privateMarker.updatePrivateMarker.useMutation();
+  const deleteMarker = api.privateMarker.deletePrivateMarker.useMutation();
+  const promoteMarker = api.privateMarker.promoteToStoredMarker.useMutation({
+    onSuccess: () => {
+      invalidate();
+      void utils.marker.getMarkers.invalidate({ audioId });
+    },
+  });
+
+  const history = useMarkerHistory({
+    adapter: {
+      createMarker: async (marker) => {
+        const created = await createMarker.mutateAsync({
+          audioId,
+          label: marker.label,
+          timestamp: marker.timestamp,
+          endTimestamp: marker.endTimestamp,
+          color: marker.color,
+          notes: marker.notes,
+        });
+        return created.id;
+      },
+      deleteMarker: async (markerId) => {
+        await deleteMarker.mutateAsync({ id: markerId });
+      },
+      updateMarker: async (markerId, { categoryId: _, ...fields }) => {
+        await updateMarker.mutateAsync({ id: markerId, ...fields });
+      },
+    },
+    onApplied: invalidate,
+  });
+  const recordHistory = history.record;
+  const { mutate: mutateUpdate } = updateMarker;
+
+  const removeMarker = (markerId: string) => {
+    const marker = markers.find((m) => m.id === markerId);
+    deleteMarker.mutate(
+      { id: markerId },
+      {
+        onSuccess: () => {
+          invalidate();
+          if (marker) {
+            recordHistory({
+              action: "delete",
+              subject: marker.label,
+              changes: [{ type: "delete", marker }],
+            });
+          }
+        },
+      },
+    );
+  };
+
+  const handleMarkerUpdate = React.useCallback(
+    (
+      markerId: string,
+      updates: { timestamp: number; endTimestamp?: number | null },
+    ) => {
+      const marker = markersRef.current.find((m) => m.id === markerId);
+      if (!marker) return;
+      mutateUpdate(
+        {
+          id: markerId,
+          timestamp: updates.timestamp,
+          endTimestamp: updates.endTimestamp,
+        },
+        {
+          onSuccess: () => {
+            invalidate();
+            recordHistory({
+              action: "move",
+              subject: marker.label,
+              changes: [
+                {
+                  type: "update",
+                  markerId,
+                  before: {
+                    timestamp: marker.timestamp,
+                    endTimestamp: marker.endTimestamp,
+                  },
+                  after: {
+                    timestamp: updates.timestamp,
+                    endTimestamp: updates.endTimestamp ?? marker.endTimestamp,
+                  },
+                },
+              ],
+            });
+          },
+        },
+      );
+    },
+    [mutateUpdate, invalidate, recordHistory],
+  );
+
+  // Expose the update function to the parent
+  useEffect(() => {
+    if (onUpdateMarkerReady) {
+      onUpdateMarkerReady(handleMarkerUpdate);
+    }
+  }, [onUpdateMarkerReady, handleMarkerUpdate]);
+
+  const saveNotes = (marker: AudioMarker, notes: string) => {
+    updateMarker.mutate(
+      { id: marker.id, notes: notes || null },
+      {
+        onSuccess: () => {
+          invalidate();
+          recordHistory({
+            action: "notes",
+            subject: marker.label,
+            changes: [
+              {
+                type: "update",
+                markerId: marker.id,
+                before: { notes: marker.notes ?? null },
+                after: { notes: notes || null },
+              },
+            ],
+          });
+          setNotesMarker(null);
+        },
+      },
+    );
+  };
+
+  const addMarkerAtCurrentTime = (
+    label: string,
+    startTime: number,
+    endTime?: number | null,
+  ) => {
+    createMarker.mutate(
+      {
+        audioId,
+        timestamp: startTime,
+        label:
+          label.trim() || t("defaultLabel", { number: markers.length + 1 }),
+        color: `hsl(${Math.round(Math.random() * 360)}, 70%, 50%)`,
+        endTimestamp: endTime,
+      },
+      {
+        onSuccess: (marker) => {
+          invalidate();
+          recordHistory({
+            action: "create",
+            subject: marker.label,
+            changes: [{ type: "create", marker }],
+          });
+        },
+      },
+    );
+  };
+
+  const error =
+    createMarker.error?.message ??
+    updateMarker.error?.message ??
+    deleteMarker.error?.message ??
+    promoteMarker.error?.message;
+
+  return (
+    <>
+      <Card className="w-full">
+        <CardHeader className="flex flex-col items-start">
+          <div className="flex flex-row items-center gap-2 pb-2">
+            <FlagTriangleRight size={20} className="text-primary" />
+            <h3 className="text-lg font-semibold">{t("title")}</h3>
+            <Chip size="sm" variant="flat" color="primary">
+              {markers.length}
+            </Chip>
+          </div>
+          <p className="text-small text-default-500">{t("subtitle")}</p>
+        </CardHeader>
+        <CardBody className="space-y-4">
+          <div className="flex gap-2">
+            <AddMarker
+              currentTime={currentTime}
+              onAddMarker={addMarkerAtCurrentTime}
+              selectedRegion={selectedRegion ?? undefined}
+              onClearRegion={onClearRegion}
+            />
+          </div>
+
+          {error && <p className="text-danger text-sm">{error}</p>}
+
+          {markers.length > 0 && (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              <div className="flex items-center justify-between gap-2">
+                <h4 className="text-sm font-medium text-default-600">
+                  {t("savedMarkers")}
+                </h4>
+                <ExportMarkersButton markers={markers} audioName={audioName} />
+              </div>
+              <MarkerList
+                markers={markers}
+                onMarkerClick={onMarkerClick}
+                onRemoveMarker={removeMarker}
+                onToggleEdit={onToggleEdit}
+                editingMarkerId={editingMarkerId}
+                onEditNotes={setNotesMarker}
+                hiddenCategoryIds={hiddenCategoryIds}
+                onPromoteMarker={
+                  canPromote
+                    ? (marker) => promoteMarker.mutate({ id: marker.id })
+                    : undefined
+                }
+              />
+            </div>
+          )}
+
+          {markers.length === 0 && <EmptyMarkerList />}
+        </CardBody>
+
+        <MarkerNotesModal
+          marker={notesMarker}
+          onClose={() => setNotesMarker(null)}
+          onSave={saveNotes}
+        />
+      </Card>
+
+      <MarkerHistoryPanel history={history} className="w-full" />
+    </>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { Button } from "@heroui/react";
+import { History, X } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { formatTime } from "~/lib/time";
+
+interface ResumePromptProps {
+  /** Saved position in seconds */
+  position: number;
+  onResume: () => void;
+  onDismiss: () => void;
+}
+
+/** Offers to continue an audio where the listener stopped last time */
+export function ResumePrompt({
+  position,
+  onResume,
+  onDismiss,
+}: ResumePromptProps) {
+  const t = useTranslations("ResumePrompt");
+  const time = formatTime(position);
+
+  return (
+    <div className="bg-primary-50 border-primary-200 flex w-full flex-col gap-2 rounded-lg border px-4 py-3 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-center gap-2 text-sm">
+        <History size={16} className="text-primary" />
+        <span>{t("message", { time })}</span>
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" color="primary" onPress={onResume}>
+          {t("resume", { time })}
+        </Button>
+        <Button
+          size="sm"
+          variant="light"
+          startContent={<X size={14} />}
+          onPress={onDismiss}
+        >
+          {t("startOver")}
+        </Button>
+      </div>
+    </div>
+  );
+}
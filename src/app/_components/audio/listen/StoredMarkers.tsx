@@ -1,17 +1,25 @@
 import { Card, CardBody, CardHeader, Chip } from "@heroui/react";
 import { Bookmark } from "lucide-react";
-import type { AudioMarker } from "~/types/Audio";
+import type { AudioMarker, MarkerCategory } from "~/types/Audio";
 import MarkerList from "../marker/MarkerList";
 import { useTranslations } from "next-intl";
 
 interface StoredMarksProps {
+  /** Audio of the markers, for links to the markers */
+  audioId?: string;
   markers: AudioMarker[];
   onMarkerClick?: (marker: AudioMarker) => void;
+  categories?: MarkerCategory[];
+  /** Category ids, or UNCATEGORIZED_KEY, whose markers are hidden */
+  hiddenCategoryIds?: string[];
 }
 
 export default function StoredMarkers({
+  audioId,
   markers,
   onMarkerClick,
+  categories,
+  hiddenCategoryIds,
 }: StoredMarksProps) {
   const t = useTranslations("StoredMarkers");
   if (!markers) return null;
@@ -34,7 +42,13 @@ export default function StoredMarkers({
             <h4 className="text-sm font-medium text-default-600">
               {t("listTitle")}
             </h4>
-            <MarkerList markers={markers} onMarkerClick={onMarkerClick} />
+            <MarkerList
+              markers={markers}
+              onMarkerClick={onMarkerClick}
+              categories={categories}
+              hiddenCategoryIds={hiddenCategoryIds}
+              linkAudioId={audioId}
+            />
           </div>
         )}
       </CardBody>
@@ -0,0 +1,92 @@
+"use client";
+
+import {
+  Button,
+  Dropdown,
+  DropdownTrigger,
+  DropdownMenu,
+  DropdownItem,
+} from "@heroui/react";
+import { Download } from "lucide-react";
+import { useTranslations } from "next-intl";
+import type { AudioMarker } from "~/types/Audio";
+import {
+  MARKER_EXPORT_FILE_TYPES,
+  MARKER_EXPORT_FORMATS,
+  type MarkerExportFormat,
+  exportMarkers,
+  getMarkerExportFileName,
+} from "~/lib/markerExport";
+
+type ExportMarkersButtonProps =
+  /** Stored markers, downloaded from the export endpoint */
+  | { audioId: string }
+  /** Browser markers, converted in the browser */
+  | {
+      markers: AudioMarker[];
+      audioName: string;
+    };
+
+export default function ExportMarkersButton(props: ExportMarkersButtonProps) {
+  const t = useTranslations("ExportMarkersButton");
+
+  const downloadBrowserMarkers = (format: MarkerExportFormat) => {
+    if (!("markers" in props)) return;
+    try {
+      const content = exportMarkers(props.markers, format, {
+        audioName: props.audioName,
+        // Browser markers refer to the played MP3 file
+        fileName: `${props.audioName}.mp3`,
+      });
+      const blob = new Blob([content], {
+        type: MARKER_EXPORT_FILE_TYPES[format].mimeType,
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getMarkerExportFileName(props.audioName, format);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export markers:", error);
+      alert(error instanceof Error ? error.message : t("error"));
+    }
+  };
+
+  return (
+    <Dropdown>
+      <DropdownTrigger>
+        <Button
+          size="sm"
+          variant="flat"
+          startContent={<Download size={14} />}
+          isDisabled={"markers" in props && props.markers.length === 0}
+        >
+          {t("export")}
+        </Button>
+      </DropdownTrigger>
+      <DropdownMenu aria-label={t("aria.menu")}>
+        {MARKER_EXPORT_FORMATS.map((format) =>
+          "audioId" in props ? (
+            <DropdownItem
+              key={format}
+              href={`/api/audio/${props.audioId}/markers?format=${format}`}
+              download
+              description={t(`descriptions.${format}`)}
+            >
+              {t(`formats.${format}`)}
+            </DropdownItem>
+          ) : (
+            <DropdownItem
+              key={format}
+              onPress={() => downloadBrowserMarkers(format)}
+              description={t(`descriptions.${format}`)}
+            >
+              {t(`formats.${format}`)}
+            </DropdownItem>
+          ),
+        )}
+      </DropdownMenu>
+    </Dropdown>
+  );
+}
@@ -0,0 +1,45 @@
+import {
+  Bookmark,
+  Drum,
+  Flag,
+  Guitar,
+  type LucideIcon,
+  type LucideProps,
+  MessageSquare,
+  Mic,
+  Music,
+  Piano,
+  Repeat,
+  Star,
+  Tag,
+  TriangleAlert,
+} from "lucide-react";
+import type { MarkerCategoryIconName } from "~/lib/markerCategory";
+
+const ICONS: Record<MarkerCategoryIconName, LucideIcon> = {
+  tag: Tag,
+  music: Music,
+  mic: Mic,
+  guitar: Guitar,
+  drum: Drum,
+  piano: Piano,
+  star: Star,
+  flag: Flag,
+  alert: TriangleAlert,
+  message: MessageSquare,
+  repeat: Repeat,
+  bookmark: Bookmark,
+};
+
+interface MarkerCategoryIconProps extends LucideProps {
+  icon: string;
+}
+
+/** Icon of a marker category, unknown names fall back to a tag */
+export default function MarkerCategoryIcon({
+  icon,
+  ...props
+}: MarkerCategoryIconProps) {
+  const Icon = ICONS[icon as MarkerCategoryIconName] ?? Tag;
+  return <Icon {...props} />;
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { Button } from "@heroui/react";
+import { EyeOff, Tag } from "lucide-react";
+import { useTranslations } from "next-intl";
+import {
+  UNCATEGORIZED_KEY,
+  countMarkersByCategory,
+} from "~/lib/markerCategory";
+import type { AudioMarker, MarkerCategory } from "~/types/Audio";
+import MarkerCategoryIcon from "./MarkerCategoryIcon";
+
+interface MarkerCategoryLegendProps {
+  categories: MarkerCategory[];
+  /** All markers, including the hidden ones */
+  markers: AudioMarker[];
+  hiddenCategoryIds: string[];
+  onToggleCategory: (key: string) => void;
+  onShowAll: () => void;
+}
+
+/** Categories with their marker count; clicking one shows or hides its markers */
+export default function MarkerCategoryLegend({
+  categories,
+  markers,
+  hiddenCategoryIds,
+  onToggleCategory,
+  onShowAll,
+}: MarkerCategoryLegendProps) {
+  const t = useTranslations("MarkerCategoryLegend");
+  const counts = countMarkersByCategory(markers);
+
+  const entries = [
+    ...categories.map((category) => ({
+      key: category.id,
+      name: category.name,
+      color: category.color,
+      icon: <MarkerCategoryIcon icon={category.icon} size={12} />,
+    })),
+    ...(counts.has(UNCATEGORIZED_KEY)
+      ? [
+          {
+            key: UNCATEGORIZED_KEY,
+            name: t("uncategorized"),
+            color: undefined,
+            icon: <Tag size={12} />,
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <div
+      className="mb-2 flex flex-wrap items-center gap-1"
+      role="group"
+      aria-label={t("title")}
+    >
+      {entries.map((entry) => {
+        const isHidden = hiddenCategoryIds.includes(entry.key);
+        return (
+          <Button
+            key={entry.key}
+            size="sm"
+            variant={isHidden ? "bordered" : "flat"}
+            className={`h-6 min-w-0 gap-1 px-2 text-tiny ${isHidden ? "opacity-50" : ""}`}
+            startContent={
+              <span
+                className="flex items-center"
+                style={{ color: entry.color }}
+              >
+                {isHidden ? <EyeOff size={12} /> : entry.icon}
+              </span>
+            }
+            onPress={() => onToggleCategory(entry.key)}
+            title={isHidden ? t("show") : t("hide")}
+            aria-pressed={!isHidden}
+          >
+            {entry.name} ({counts.get(entry.key) ?? 0})
+          </Button>
+        );
+      })}
+      {hiddenCategoryIds.length > 0 && (
+        <Button
+          size="sm"
+          variant="light"
+          className="h-6 text-tiny"
+          onPress={onShowAll}
+        >
+          {t("showAll")}
+        </Button>
+      )}
+    </div>
+  );
+}
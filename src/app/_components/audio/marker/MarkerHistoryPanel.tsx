@@ -0,0 +1,95 @@
+"use client";
+
+import { Button, Card, CardBody, CardHeader, Chip } from "@heroui/react";
+import { History, Redo2, Undo2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import type { MarkerHistory } from "~/lib/hooks/useMarkerHistory";
+import type { MarkerHistoryEntry } from "~/lib/markerHistory";
+
+interface MarkerHistoryPanelProps {
+  history: MarkerHistory;
+  className?: string;
+}
+
+/** Lists the recorded marker changes with undo and redo buttons */
+export default function MarkerHistoryPanel({
+  history,
+  className = "w-full max-w-xl",
+}: MarkerHistoryPanelProps) {
+  const t = useTranslations("MarkerHistoryPanel");
+
+  const describe = (entry: MarkerHistoryEntry) =>
+    typeof entry.subject === "number"
+      ? t(`actionsMultiple.${entry.action}`, { count: entry.subject })
+      : t(`actions.${entry.action}`, { label: entry.subject });
+
+  const isEmpty = history.past.length === 0 && history.future.length === 0;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <History size={20} className="text-primary" />
+          <h3 className="text-lg font-semibold">{t("title")}</h3>
+        </div>
+        <div className="flex gap-1">
+          <Button
+            size="sm"
+            variant="flat"
+            startContent={<Undo2 size={14} />}
+            isDisabled={!history.canUndo}
+            isLoading={history.isApplying}
+            onPress={history.undo}
+            title={t("undoShortcut")}
+          >
+            {t("undo")}
+          </Button>
+          <Button
+            size="sm"
+            variant="flat"
+            startContent={<Redo2 size={14} />}
+            isDisabled={!history.canRedo}
+            onPress={history.redo}
+            title={t("redoShortcut")}
+          >
+            {t("redo")}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardBody className="space-y-1 max-h-60 overflow-y-auto">
+        {isEmpty && (
+          <p className="text-sm text-default-500 text-center py-2">
+            {t("empty")}
+          </p>
+        )}
+        {/* Undone entries first, they are redone from the bottom up */}
+        {history.future.map((entry) => (
+          <div
+            key={entry.id}
+            className="flex items-center justify-between p-2 py-1 rounded-lg text-sm text-default-400 line-through"
+          >
+            {describe(entry)}
+          </div>
+        ))}
+        {[...history.past].reverse().map((entry, index) => (
+          <div
+            key={entry.id}
+            className="flex items-center justify-between p-2 py-1 bg-default-100 rounded-lg text-sm"
+          >
+            <span>{describe(entry)}</span>
+            {index === 0 && (
+              <Chip size="sm" variant="flat" color="primary">
+                {t("latest")}
+              </Chip>
+            )}
+          </div>
+        ))}
+        {history.error && (
+          <p className="text-danger text-sm">
+            {t("error", { message: history.error })}
+          </p>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -1,8 +1,25 @@
+import { useState } from "react";
 import { Button } from "@heroui/button";
-import { Trash2, Brackets, Pencil, Check } from "lucide-react";
+import { Checkbox, Input } from "@heroui/react";
+import {
+  Trash2,
+  Brackets,
+  Pencil,
+  Check,
+  AlertTriangle,
+  NotebookPen,
+  NotebookText,
+  Search,
+  Link2,
+  ArrowUpToLine,
+} from "lucide-react";
 import { formatTime } from "~/lib/time";
-import { isSection } from "~/lib/marker";
-import type { AudioMarker } from "~/types/Audio";
+import { filterMarkers, isMarkerBeyondEnd, isSection } from "~/lib/marker";
+import { filterMarkersByCategory } from "~/lib/markerCategory";
+import type { AudioMarker, MarkerCategory } from "~/types/Audio";
+import MarkerCategoryIcon from "./MarkerCategoryIcon";
+import { getDeepLinkUrl } from "~/lib/deepLink";
+import { useCopyLink } from "../hooks/useCopyLink";
 import { useTranslations } from "next-intl";
 
 interface MarkerListProps {
@@ -11,6 +28,21 @@ interface MarkerListProps {
   onRemoveMarker?: (markerId: string) => void;
   onToggleEdit?: (markerId: string) => void;
   editingMarkerId?: string | null;
+  /** Duration of the audio, markers after its end are flagged */
+  duration?: number | null;
+  /** Markers selected for bulk operations, shows checkboxes when set */
+  selectedMarkerIds?: string[];
+  onToggleSelect?: (markerId: string) => void;
+  /** Opens the notes editor of a marker, notes are read-only without it */
+  onEditNotes?: (marker: AudioMarker) => void;
+  /** Categories of the audio, shown next to the marker times */
+  categories?: MarkerCategory[];
+  /** Markers of these categories are not listed */
+  hiddenCategoryIds?: string[];
+  /** Audio of stored markers, shows a button to copy a link to each marker */
+  linkAudioId?: string;
+  /** Turns a private marker into a stored marker, only for owners */
+  onPromoteMarker?: (marker: AudioMarker) => void;
 }
 
 export default function MarkerList({
@@ -19,18 +51,56 @@ export default function MarkerList({
   onRemoveMarker,
   onToggleEdit,
   editingMarkerId,
+  duration,
+  selectedMarkerIds,
+  onToggleSelect,
+  onEditNotes,
+  categories = [],
+  hiddenCategoryIds = [],
+  linkAudioId,
+  onPromoteMarker,
 }: MarkerListProps) {
   const t = useTranslations("MarkerList");
+  const [search, setSearch] = useState("");
+  const { copiedKey, copyLink } = useCopyLink();
+  const filteredMarkers = filterMarkers(
+    filterMarkersByCategory(markers, hiddenCategoryIds),
+    search,
+  );
 
   return (
     <>
-      {markers.map((marker) => {
+      <Input
+        size="sm"
+        isClearable
+        placeholder={t("searchPlaceholder")}
+        aria-label={t("searchPlaceholder")}
+        value={search}
+        onValueChange={setSearch}
+        startContent={<Search size={14} className="text-default-400" />}
+      />
+      {filteredMarkers.length === 0 && (
+        <p className="text-sm text-default-500 text-center py-2">
+          {t("noMatches")}
+        </p>
+      )}
+      {filteredMarkers.map((marker) => {
         const markerIsSection = isSection(marker);
+        const category = categories.find((c) => c.id === marker.categoryId);
         return (
           <div
             key={marker.id}
             className="flex items-center justify-between p-2 py-1 bg-default-100 rounded-lg"
           >
+            {selectedMarkerIds && onToggleSelect && (
+              <Checkbox
+                size="sm"
+                className="mr-1"
+                isSelected={selectedMarkerIds.includes(marker.id)}
+                onValueChange={() => onToggleSelect(marker.id)}
+                aria-label={t("selectMarker", { label: marker.label })}
+              />
+            )}
             <div
               className="flex items-center gap-2 flex-1 cursor-pointer hover:bg-default-200 -m-2 p-2 py-1 rounded-lg transition-colors"
               onClick={() => onMarkerClick?.(marker)}
@@ -58,15 +128,96 @@ export default function MarkerList({
                 />
               )}
               <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium">{marker.label}</p>
+                <p className="flex items-center gap-1 text-sm font-medium">
+                  {marker.label}
+                  {marker.notes && !onEditNotes && (
+                    <NotebookText
+                      size={12}
+                      className="text-default-400"
+                      aria-label={t("hasNotes")}
+                    />
+                  )}
+                </p>
                 <p className="text-xs text-default-500">
                   {markerIsSection
                     ? `${formatTime(marker.timestamp)} - ${formatTime(marker.endTimestamp!)}`
                     : formatTime(marker.timestamp)}
+                  {category && (
+                    <span className="inline-flex items-center gap-1 ml-2">
+                      <MarkerCategoryIcon
+                        icon={category.icon}
+                        size={12}
+                        style={{ color: category.color }}
+                      />
+                      {category.name}
+                    </span>
+                  )}
+                  {isMarkerBeyondEnd(marker, duration) && (
+                    <span className="inline-flex items-center gap-1 ml-2 text-warning">
+                      <AlertTriangle size={12} />
+                      {t("beyondEnd")}
+                    </span>
+                  )}
                 </p>
               </div>
             </div>
             <div className="flex items-center gap-1">
+              {linkAudioId && (
+                <Button
+                  size="sm"
+                  color={copiedKey === marker.id ? "success" : "default"}
+                  variant="light"
+                  isIconOnly
+                  onPress={() =>
+                    void copyLink(
+                      marker.id,
+                      getDeepLinkUrl(window.location.origin, linkAudioId, {
+                        type: "marker",
+                        markerId: marker.id,
+                        loop: markerIsSection,
+                      }),
+                    )
+                  }
+                  startContent={
+                    copiedKey === marker.id ? (
+                      <Check size={14} />
+                    ) : (
+                      <Link2 size={14} />
+                    )
+                  }
+                  title={
+                    copiedKey === marker.id ? t("linkCopied") : t("copyLink")
+                  }
+                />
+              )}
+              {onPromoteMarker && (
+                <Button
+                  size="sm"
+                  color="secondary"
+                  variant="light"
+                  isIconOnly
+                  onPress={() => onPromoteMarker(marker)}
+                  startContent={<ArrowUpToLine size={14} />}
+                  title={t("promoteMarker")}
+                />
+              )}
+              {onEditNotes && (
+                <Button
+                  size="sm"
+                  color={marker.notes ? "secondary" : "default"}
+                  variant="light"
+                  isIconOnly
+                  onPress={() => onEditNotes(marker)}
+                  startContent={
+                    marker.notes ? (
+                      <NotebookText size={14} />
+                    ) : (
+                      <NotebookPen size={14} />
+                    )
+                  }
+                  title={marker.notes ? t("editNotes") : t("addNotes")}
+                />
+              )}
               {onToggleEdit && (
                 <Button
                   size="sm"
@@ -0,0 +1,19 @@
+import { markdownToHtml } from "~/lib/markdown";
+
+interface MarkerNotesProps {
+  notes: string;
+  className?: string;
+}
+
+/** Markdown notes of a marker, rendered as escaped HTML */
+export default function MarkerNotes({
+  notes,
+  className = "",
+}: MarkerNotesProps) {
+  return (
+    <div
+      className={`prose prose-sm dark:prose-invert max-w-none text-sm ${className}`}
+      dangerouslySetInnerHTML={{ __html: markdownToHtml(notes) }}
+    />
+  );
+}
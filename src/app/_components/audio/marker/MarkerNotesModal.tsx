@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Button,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+} from "@heroui/react";
+import { useTranslations } from "next-intl";
+import RichTextEditor from "../../settings/RichTextEditor";
+import { MAX_MARKER_NOTES_LENGTH } from "~/lib/marker";
+import { formatTime } from "~/lib/time";
+import type { AudioMarker } from "~/types/Audio";
+
+interface MarkerNotesModalProps {
+  /** The marker whose notes are edited, the modal is closed without one */
+  marker: AudioMarker | null;
+  onClose: () => void;
+  onSave: (marker: AudioMarker, notes: string) => void;
+  isSaving?: boolean;
+  error?: string | null;
+}
+
+export default function MarkerNotesModal({
+  marker,
+  onClose,
+  onSave,
+  isSaving = false,
+  error,
+}: MarkerNotesModalProps) {
+  const t = useTranslations("MarkerNotesModal");
+  const [edited, setEdited] = useState<{
+    markerId: string;
+    notes: string;
+  } | null>(null);
+
+  const handleClose = () => {
+    setEdited(null);
+    onClose();
+  };
+
+  // Null while the notes of the current marker are unchanged
+  const notes = marker && edited?.markerId === marker.id ? edited.notes : null;
+  const value = notes ?? marker?.notes ?? "";
+  const isTooLong = value.length > MAX_MARKER_NOTES_LENGTH;
+
+  return (
+    <Modal
+      isOpen={!!marker}
+      onClose={handleClose}
+      isDismissable={!isSaving}
+      size="2xl"
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        <ModalHeader className="flex flex-col gap-1">
+          {t("title", { label: marker?.label ?? "" })}
+          {marker && (
+            <span className="text-small font-normal text-default-500">
+              {formatTime(marker.timestamp)}
+            </span>
+          )}
+        </ModalHeader>
+        <ModalBody>
+          {marker && (
+            <RichTextEditor
+              key={marker.id}
+              content={marker.notes ?? ""}
+              onChange={(markdown) =>
+                setEdited({ markerId: marker.id, notes: markdown })
+              }
+              markdown
+            />
+          )}
+          <p className="text-tiny text-default-500">{t("markdownHint")}</p>
+          {isTooLong && (
+            <p className="text-danger text-sm">
+              {t("tooLong", { max: MAX_MARKER_NOTES_LENGTH })}
+            </p>
+          )}
+          {error && <p className="text-danger text-sm">{error}</p>}
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="light" onPress={handleClose} isDisabled={isSaving}>
+            {t("cancel")}
+          </Button>
+          <Button
+            color="primary"
+            isLoading={isSaving}
+            isDisabled={notes === null || isTooLong}
+            onPress={() => {
+              if (marker && notes !== null) onSave(marker, notes);
+            }}
+          >
+            {t("save")}
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
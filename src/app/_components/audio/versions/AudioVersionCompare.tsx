@@ -0,0 +1,200 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button, Select, SelectItem, Slider } from "@heroui/react";
+import { Pause, Play } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { formatTime } from "~/lib/time";
+import { getAudioFileUrls } from "~/lib/audioUrl";
+
+/** Maximum drift in seconds before the muted version is moved to the audible one */
+const SYNC_TOLERANCE = 0.1;
+
+interface CompareVersion {
+  id: string;
+  number: number;
+}
+
+interface AudioVersionCompareProps {
+  audioId: string;
+  /** Versions that can be compared, newest first */
+  versions: CompareVersion[];
+}
+
+/**
+ * Plays two versions of an audio in sync. Only one of them is audible,
+ * the A/B toggle switches between them without interrupting playback,
+ * so differences between mixes can be heard directly.
+ */
+export function AudioVersionCompare({
+  audioId,
+  versions,
+}: AudioVersionCompareProps) {
+  const t = useTranslations("AudioVersionCompare");
+  const audioARef = useRef<HTMLAudioElement>(null);
+  const audioBRef = useRef<HTMLAudioElement>(null);
+  const [versionIds, setVersionIds] = useState({
+    a: versions[1]?.id ?? "",
+    b: versions[0]?.id ?? "",
+  });
+  const [active, setActive] = useState<"a" | "b">("a");
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  const getAudio = (side: "a" | "b") =>
+    (side === "a" ? audioARef : audioBRef).current;
+
+  const pause = () => {
+    getAudio("a")?.pause();
+    getAudio("b")?.pause();
+    setIsPlaying(false);
+  };
+
+  // Changing a version reloads its audio element
+  const handleVersionChange = (side: "a" | "b", versionId: string) => {
+    if (!versionId) return;
+    pause();
+    setVersionIds((ids) => ({ ...ids, [side]: versionId }));
+  };
+
+  const togglePlay = async () => {
+    const audioA = getAudio("a");
+    const audioB = getAudio("b");
+    if (!audioA || !audioB) return;
+
+    if (isPlaying) {
+      pause();
+      return;
+    }
+
+    audioB.currentTime = audioA.currentTime;
+    try {
+      await Promise.all([audioA.play(), audioB.play()]);
+      setIsPlaying(true);
+    } catch (error) {
+      console.error("Failed to play versions:", error);
+      pause();
+    }
+  };
+
+  const seek = (value: number | number[]) => {
+    const time = Array.isArray(value) ? value[0] : value;
+    if (typeof time !== "number") return;
+    const audioA = getAudio("a");
+    const audioB = getAudio("b");
+    if (audioA) audioA.currentTime = time;
+    if (audioB) audioB.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  // Follow the audible version and keep the muted one at the same position
+  const handleTimeUpdate = (side: "a" | "b") => {
+    if (side !== active) return;
+    const source = getAudio(side);
+    const other = getAudio(side === "a" ? "b" : "a");
+    if (!source) return;
+
+    setCurrentTime(source.currentTime);
+    if (
+      other &&
+      Math.abs(other.currentTime - source.currentTime) > SYNC_TOLERANCE
+    ) {
+      other.currentTime = source.currentTime;
+    }
+  };
+
+  const handleLoadedMetadata = () => {
+    setDuration(
+      Math.max(getAudio("a")?.duration ?? 0, getAudio("b")?.duration ?? 0),
+    );
+  };
+
+  const versionLabel = (versionId: string) =>
+    t("versionLabel", {
+      number: versions.find((version) => version.id === versionId)?.number ?? 0,
+    });
+
+  return (
+    <div className="flex flex-col gap-4 rounded-medium bg-default-100 p-4">
+      <div className="flex flex-wrap gap-2">
+        {(["a", "b"] as const).map((side) => (
+          <Select
+            key={side}
+            label={t(`side.${side}`)}
+            selectedKeys={[versionIds[side]]}
+            onChange={(e) => handleVersionChange(side, e.target.value)}
+            className="flex-1 min-w-40"
+            size="sm"
+          >
+            {versions.map((version) => (
+              <SelectItem key={version.id}>
+                {t("versionLabel", { number: version.number })}
+              </SelectItem>
+            ))}
+          </Select>
+        ))}
+      </div>
+
+      {(["a", "b"] as const).map((side) => (
+        <audio
+          key={`${side}-${versionIds[side]}`}
+          ref={side === "a" ? audioARef : audioBRef}
+          src={getAudioFileUrls(audioId, versionIds[side]).audioUrl}
+          preload="auto"
+          // Only the active version is audible
+          muted={side !== active}
+          onTimeUpdate={() => handleTimeUpdate(side)}
+          onLoadedMetadata={handleLoadedMetadata}
+          onEnded={pause}
+        >
+          <track kind="captions" />
+        </audio>
+      ))}
+
+      <div className="flex items-center gap-3">
+        <Button
+          isIconOnly
+          color="primary"
+          onPress={() => void togglePlay()}
+          aria-label={isPlaying ? t("pause") : t("play")}
+        >
+          {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+        </Button>
+        <Slider
+          size="sm"
+          step={0.1}
+          minValue={0}
+          maxValue={duration || 1}
+          value={currentTime}
+          onChange={seek}
+          className="flex-1"
+          aria-label={t("position")}
+        />
+        <span className="text-xs text-default-500 min-w-20 text-right">
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-small text-default-500">{t("listeningTo")}</span>
+        <Button
+          size="sm"
+          color={active === "a" ? "primary" : "default"}
+          variant={active === "a" ? "solid" : "flat"}
+          onPress={() => setActive("a")}
+        >
+          A · {versionLabel(versionIds.a)}
+        </Button>
+        <Button
+          size="sm"
+          color={active === "b" ? "primary" : "default"}
+          variant={active === "b" ? "solid" : "flat"}
+          onPress={() => setActive("b")}
+        >
+          B · {versionLabel(versionIds.b)}
+        </Button>
+      </div>
+    </div>
+  );
+}
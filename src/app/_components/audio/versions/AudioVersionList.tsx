@@ -0,0 +1,233 @@
+"use client";
+
+import { useState } from "react";
+import { Button, Card, CardBody, CardHeader, Chip } from "@heroui/react";
+import {
+  CheckCircle,
+  Download,
+  GitCompare,
+  Headphones,
+  History,
+  Trash2,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { api } from "~/trpc/react";
+import { formatTime } from "~/lib/time";
+import { AudioVersionCompare } from "./AudioVersionCompare";
+
+/** Interval for checking whether a processing version has finished */
+const POLL_INTERVAL_MS = 5000;
+
+interface AudioVersionListProps {
+  audioId: string;
+  /** Version shown in the player, null for the current version */
+  playingVersionId: string | null;
+  onPlayVersion: (versionId: string | null) => void;
+}
+
+export function AudioVersionList({
+  audioId,
+  playingVersionId,
+  onPlayVersion,
+}: AudioVersionListProps) {
+  const t = useTranslations("AudioVersionList");
+  const utils = api.useUtils();
+  const [isComparing, setIsComparing] = useState(false);
+
+  const { data: versions = [] } = api.audioVersion.getAudioVersions.useQuery(
+    { audioId },
+    {
+      refetchInterval: (query) =>
+        query.state.data?.some(
+          (version) => version.processingStatus === "processing",
+        )
+          ? POLL_INTERVAL_MS
+          : false,
+    },
+  );
+
+  const invalidate = () => {
+    void utils.audioVersion.getAudioVersions.invalidate({ audioId });
+    void utils.audio.getUserAudioById.invalidate({ id: audioId });
+  };
+
+  const setCurrentVersion = api.audioVersion.setCurrentVersion.useMutation({
+    onSuccess: () => {
+      onPlayVersion(null);
+      invalidate();
+    },
+  });
+
+  const deleteAudioVersion = api.audioVersion.deleteAudioVersion.useMutation({
+    onSuccess: (_data, { id }) => {
+      if (playingVersionId === id) {
+        onPlayVersion(null);
+      }
+      invalidate();
+    },
+  });
+
+  const readyVersions = versions.filter(
+    (version) => version.processingStatus === "ready",
+  );
+  const currentVersionId = versions.find((version) => version.isCurrent)?.id;
+  const playingId = playingVersionId ?? currentVersionId;
+
+  // An audio without further uploads has nothing to switch between
+  if (versions.length < 2) return null;
+
+  return (
+    <Card className="w-full max-w-xl">
+      <CardHeader className="flex flex-col items-start">
+        <div className="flex flex-row items-center gap-2 pb-2">
+          <History size={20} className="text-primary" />
+          <h3 className="text-lg font-semibold">{t("title")}</h3>
+          <Chip size="sm" variant="flat" color="primary">
+            {versions.length}
+          </Chip>
+        </div>
+        <p className="text-small text-default-500">{t("subtitle")}</p>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        <div className="space-y-2">
+          {versions.map((version) => (
+            <div
+              key={version.id}
+              className="flex flex-wrap items-center justify-between gap-2 p-2 bg-default-100 rounded-lg"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="text-sm font-medium">
+                    {t("versionLabel", { number: version.number })}
+                  </p>
+                  {version.isCurrent && (
+                    <Chip size="sm" variant="flat" color="success">
+                      {t("current")}
+                    </Chip>
+                  )}
+                  {version.id === playingId && (
+                    <Chip size="sm" variant="flat" color="primary">
+                      {t("playing")}
+                    </Chip>
+                  )}
+                  {version.processingStatus !== "ready" && (
+                    <Chip
+                      size="sm"
+                      variant="flat"
+                      color={
+                        version.processingStatus === "failed"
+                          ? "danger"
+                          : "warning"
+                      }
+                    >
+                      {t(`processingStatus.${version.processingStatus}`)}
+                    </Chip>
+                  )}
+                </div>
+                {version.note && (
+                  <p className="text-sm text-default-700">{version.note}</p>
+                )}
+                <p
+                  className="text-xs text-default-500 truncate"
+                  suppressHydrationWarning={true}
+                >
+                  {version.originalFileName}
+                  {version.duration !== null &&
+                    ` • ${formatTime(version.duration)}`}
+                  {" • "}
+                  {version.createdBy.name ?? t("unknownUploader")}
+                  {" • "}
+                  {new Date(version.createdAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                {version.id !== playingId &&
+                  version.processingStatus === "ready" && (
+                    <Button
+                      size="sm"
+                      color="primary"
+                      variant="light"
+                      isIconOnly
+                      onPress={() =>
+                        onPlayVersion(version.isCurrent ? null : version.id)
+                      }
+                      startContent={<Headphones size={14} />}
+                      title={t("actions.play")}
+                    />
+                  )}
+                {!version.isCurrent &&
+                  version.processingStatus !== "failed" && (
+                    <Button
+                      size="sm"
+                      color="success"
+                      variant="light"
+                      isIconOnly
+                      onPress={() =>
+                        setCurrentVersion.mutate({ id: version.id })
+                      }
+                      isLoading={
+                        setCurrentVersion.isPending &&
+                        setCurrentVersion.variables?.id === version.id
+                      }
+                      startContent={<CheckCircle size={14} />}
+                      title={t("actions.makeCurrent")}
+                    />
+                  )}
+                <Button
+                  as="a"
+                  href={`/api/audio/${audioId}/master?version=${version.id}`}
+                  download
+                  size="sm"
+                  variant="light"
+                  isIconOnly
+                  startContent={<Download size={14} />}
+                  title={t("actions.download")}
+                />
+                {!version.isCurrent && (
+                  <Button
+                    size="sm"
+                    color="danger"
+                    variant="light"
+                    isIconOnly
+                    onPress={() =>
+                      deleteAudioVersion.mutate({ id: version.id })
+                    }
+                    isLoading={
+                      deleteAudioVersion.isPending &&
+                      deleteAudioVersion.variables?.id === version.id
+                    }
+                    startContent={<Trash2 size={14} />}
+                    title={t("actions.delete")}
+                  />
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {(setCurrentVersion.error ?? deleteAudioVersion.error) && (
+          <p className="text-danger text-sm">
+            {(setCurrentVersion.error ?? deleteAudioVersion.error)?.message}
+          </p>
+        )}
+
+        {readyVersions.length >= 2 && (
+          <div className="space-y-2">
+            <Button
+              size="sm"
+              variant="flat"
+              color="primary"
+              startContent={<GitCompare size={14} />}
+              onPress={() => setIsComparing(!isComparing)}
+            >
+              {isComparing ? t("actions.closeCompare") : t("actions.compare")}
+            </Button>
+            {isComparing && (
+              <AudioVersionCompare audioId={audioId} versions={readyVersions} />
+            )}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -21,15 +21,19 @@ import {
 import { useState, useCallback } from "react";
 import { AddToPlaylistModal } from "./AddToPlaylistModal";
 import { useTranslations } from "next-intl";
+import { type AccessRole, hasRole } from "~/lib/collaboration";
 
 interface AudioActionsDropdownProps {
   audioId: string;
+  /** Role of the user, actions they may not take are hidden */
+  role: AccessRole;
   onDeleteClick: () => void;
   isDeleteDisabled?: boolean;
 }
 
 export function AudioActionsDropdown({
   audioId,
+  role,
   onDeleteClick,
   isDeleteDisabled = false,
 }: AudioActionsDropdownProps) {
@@ -81,24 +85,28 @@ export function AudioActionsDropdown({
           >
             {copySuccess ? t("copied") : t("copyPlayLink")}
           </DropdownItem>
-          <DropdownItem
-            key="edit"
-            startContent={<Edit size={16} />}
-            href={`/audios/${audioId}/edit`}
-            className="text-primary"
-            color="primary"
-          >
-            {t("edit")}
-          </DropdownItem>
-          <DropdownItem
-            key="statistics"
-            startContent={<BarChart3 size={16} />}
-            href={`/audios/${audioId}/statistics`}
-            className="text-warning"
-            color="warning"
-          >
-            {t("statistics")}
-          </DropdownItem>
+          {hasRole(role, "marker-editor") ? (
+            <DropdownItem
+              key="edit"
+              startContent={<Edit size={16} />}
+              href={`/audios/${audioId}/edit`}
+              className="text-primary"
+              color="primary"
+            >
+              {t("edit")}
+            </DropdownItem>
+          ) : null}
+          {hasRole(role, "editor") ? (
+            <DropdownItem
+              key="statistics"
+              startContent={<BarChart3 size={16} />}
+              href={`/audios/${audioId}/statistics`}
+              className="text-warning"
+              color="warning"
+            >
+              {t("statistics")}
+            </DropdownItem>
+          ) : null}
           <DropdownItem
             key="add-to-playlist"
             startContent={<ListMusic size={16} />}
@@ -108,16 +116,18 @@ export function AudioActionsDropdown({
           >
             {t("addToPlaylist")}
           </DropdownItem>
-          <DropdownItem
-            key="delete"
-            className="text-danger"
-            color="danger"
-            startContent={<Trash2 size={16} />}
-            onPress={onDeleteClick}
-            isDisabled={isDeleteDisabled}
-          >
-            {t("delete")}
-          </DropdownItem>
+          {role === "owner" ? (
+            <DropdownItem
+              key="delete"
+              className="text-danger"
+              color="danger"
+              startContent={<Trash2 size={16} />}
+              onPress={onDeleteClick}
+              isDisabled={isDeleteDisabled}
+            >
+              {t("delete")}
+            </DropdownItem>
+          ) : null}
         </DropdownMenu>
       </Dropdown>
 
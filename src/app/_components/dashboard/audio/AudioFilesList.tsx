@@ -4,7 +4,12 @@ import { api } from "~/trpc/server";
 import { Music4 } from "lucide-react";
 import { getTranslations } from "next-intl/server";
 
-export default async function AudioFilesList() {
+interface AudioFilesListProps {
+  /** The team of the library, personal library if not set */
+  team?: { id: string; name: string } | null;
+}
+
+export default async function AudioFilesList({ team }: AudioFilesListProps) {
   const session = await auth();
   const userId = session?.user?.id;
   if (!userId) {
@@ -12,7 +17,7 @@ export default async function AudioFilesList() {
   }
 
   const t = await getTranslations("AudioFilesList");
-  const audios = await api.audio.getUserAudios();
+  const audios = await api.audio.getUserAudios({ teamId: team?.id });
   const audioCount = audios?.length ?? 0;
 
   return (
@@ -21,6 +26,12 @@ export default async function AudioFilesList() {
         <div className="flex flex-col">
           <p className="text-md font-semibold">
             <Music4 className="inline" size={16} /> {t("title")}
+            {team && (
+              <span className="font-normal text-default-500">
+                {" "}
+                · {team.name}
+              </span>
+            )}
           </p>
           <p className="text-small text-default-500">
             {t("description", { audioCount })}
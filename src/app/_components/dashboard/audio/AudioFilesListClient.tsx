@@ -5,6 +5,7 @@ import { Input, Pagination } from "@heroui/react";
 import { Search } from "lucide-react";
 import { AudioListItem } from "./AudioListItem";
 import { useTranslations } from "next-intl";
+import type { AccessRole } from "~/lib/collaboration";
 
 interface Audio {
   id: string;
@@ -16,6 +17,7 @@ interface Audio {
   isPublic: boolean;
   listenCounter?: number;
   lastListenAt?: Date | null;
+  role: AccessRole;
 }
 
 interface AudioFilesListClientProps {
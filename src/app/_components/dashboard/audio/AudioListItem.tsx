@@ -13,12 +13,13 @@ import {
   CardBody,
   Chip,
 } from "@heroui/react";
-import { Globe, Lock, Headphones } from "lucide-react";
+import { Globe, Lock, Headphones, Loader2, AlertTriangle } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { api } from "~/trpc/react";
 import { AudioActionsDropdown } from "./AudioActionsDropdown";
 import { formatTimeAgo } from "~/lib/time";
 import { useLocale, useTranslations } from "next-intl";
+import type { AccessRole } from "~/lib/collaboration";
 
 interface AudioListItemProps {
   audio: {
@@ -29,8 +30,10 @@ interface AudioListItemProps {
     createdAt: Date;
     markerCount: number;
     isPublic: boolean;
+    processingStatus?: string;
     listenCounter?: number;
     lastListenAt?: Date | null;
+    role: AccessRole;
   };
 }
 
@@ -73,6 +76,28 @@ export function AudioListItem({ audio }: AudioListItemProps) {
               </h3>
               <div className="flex grow items-center gap-2 justify-between">
                 <div className="flex items-center gap-2 flex-shrink-0 flex-wrap">
+                  {audio.processingStatus === "processing" && (
+                    <Chip
+                      size="sm"
+                      variant="flat"
+                      color="warning"
+                      startContent={
+                        <Loader2 size={14} className="animate-spin" />
+                      }
+                    >
+                      {t("processingStatus.processing")}
+                    </Chip>
+                  )}
+                  {audio.processingStatus === "failed" && (
+                    <Chip
+                      size="sm"
+                      variant="flat"
+                      color="danger"
+                      startContent={<AlertTriangle size={14} />}
+                    >
+                      {t("processingStatus.failed")}
+                    </Chip>
+                  )}
                   <Chip size="sm" variant="flat" color="primary">
                     {t("markers", { count: audio.markerCount })}
                   </Chip>
@@ -104,6 +129,7 @@ export function AudioListItem({ audio }: AudioListItemProps) {
                 </div>
                 <AudioActionsDropdown
                   audioId={audio.id}
+                  role={audio.role}
                   onDeleteClick={handleDeleteClick}
                   isDeleteDisabled={deleteAudioMutation.isPending}
                 />
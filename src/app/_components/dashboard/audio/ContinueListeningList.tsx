@@ -0,0 +1,65 @@
+import Link from "next/link";
+import { History, Play } from "lucide-react";
+import { getTranslations } from "next-intl/server";
+import { auth } from "~/server/auth";
+import { api } from "~/trpc/server";
+import { formatTime } from "~/lib/time";
+import { formatTimeParam } from "~/lib/deepLink";
+import { getListenProgress } from "~/lib/resume";
+
+/** Audios the signed-in user stopped listening to, opened at that position */
+export default async function ContinueListeningList() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const audios = await api.playback.getContinueListening();
+  if (audios.length === 0) {
+    return null;
+  }
+
+  const t = await getTranslations("ContinueListeningList");
+
+  return (
+    <section className="sm:min-w-md max-w-4xl mx-auto rounded-lg border border-default-200 bg-background p-3 sm:p-6">
+      <header className="mb-4">
+        <div className="flex flex-col">
+          <p className="text-md font-semibold">
+            <History className="inline" size={16} /> {t("title")}
+          </p>
+          <p className="text-small text-default-500">{t("description")}</p>
+        </div>
+      </header>
+      <ul className="flex gap-3 overflow-x-auto pb-2">
+        {audios.map((audio) => (
+          <li key={audio.id} className="w-56 shrink-0">
+            <Link
+              href={`/audios/${audio.id}/listen?t=${formatTimeParam(audio.position)}`}
+              className="flex flex-col gap-2 p-3 rounded-lg bg-default-100 hover:bg-default-200 transition-colors"
+            >
+              <span className="font-semibold truncate">{audio.name}</span>
+              <div className="h-1 w-full rounded-full bg-default-300">
+                <div
+                  className="h-1 rounded-full bg-primary"
+                  style={{
+                    width: `${getListenProgress(audio.position, audio.duration) * 100}%`,
+                  }}
+                />
+              </div>
+              <span className="flex items-center gap-1 text-xs text-default-500">
+                <Play size={12} />
+                {audio.duration
+                  ? t("positionOf", {
+                      position: formatTime(audio.position),
+                      duration: formatTime(audio.duration),
+                    })
+                  : t("position", { position: formatTime(audio.position) })}
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import type React from "react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Button,
   Input,
@@ -14,105 +14,110 @@ import {
   Textarea,
 } from "@heroui/react";
 import { useRouter } from "next/navigation";
-import { Music4, Plus } from "lucide-react";
+import { Music4, Plus, Trash2 } from "lucide-react";
 import { useTranslations } from "next-intl";
+import { SUPPORTED_AUDIO_EXTENSIONS } from "~/lib/audioFormat";
+import {
+  type PendingUpload,
+  discardPendingUpload,
+  fetchPendingUploads,
+  isSameFile,
+  uploadFileResumable,
+} from "~/lib/resumableUpload";
+
+interface CreateAudioFormProps {
+  /** Team the audio is created for, null for the personal library */
+  teamId?: string | null;
+}
 
-export default function CreateAudioForm() {
+export default function CreateAudioForm({ teamId }: CreateAudioFormProps) {
   const t = useTranslations("CreateAudioForm");
   const [audioName, setAudioName] = useState("");
   const [description, setDescription] = useState("");
   const [isExpanded, setIsExpanded] = useState(false);
   const [file, setFile] = useState<File | null>(null);
-  const [status, setStatus] = useState<"" | "uploading" | "success" | "error">(
-    "",
-  );
+  const [status, setStatus] = useState<
+    "" | "uploading" | "processing" | "success" | "error"
+  >("");
   const [message, setMessage] = useState<string>("");
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const [maxFileSize, setMaxFileSize] = useState<number | null>(null);
+  const [resumeUpload, setResumeUpload] = useState<PendingUpload | null>(null);
   const router = useRouter();
 
+  const loadPendingUploads = async () => {
+    try {
+      const result = await fetchPendingUploads();
+      setPendingUploads(result.uploads);
+      setMaxFileSize(result.maxFileSize);
+    } catch (err) {
+      console.error("Failed to load pending uploads:", err);
+    }
+  };
+
+  // Unfinished uploads (e.g. before a page reload) can be resumed
+  useEffect(() => {
+    if (isExpanded) {
+      void loadPendingUploads();
+    }
+  }, [isExpanded]);
+
+  const handleDiscardUpload = async (upload: PendingUpload) => {
+    try {
+      await discardPendingUpload(upload.id);
+    } catch (err) {
+      console.error("Failed to discard upload:", err);
+    }
+    if (resumeUpload?.id === upload.id) {
+      setResumeUpload(null);
+    }
+    await loadPendingUploads();
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files?.[0]) {
       const selectedFile = e.target.files[0];
 
-      // Validate file type on the frontend
-      if (
-        !selectedFile.type.includes("audio/mpeg") &&
-        !selectedFile.type.includes("audio/mp3")
-      ) {
-        setMessage(t("fileInvalidType"));
+      // Validate file extension (the server validates the actual content)
+      const fileExtension = `.${selectedFile.name.split(".").pop()?.toLowerCase()}`;
+      if (!SUPPORTED_AUDIO_EXTENSIONS.includes(fileExtension)) {
+        setMessage(t("fileInvalidExtension"));
         setFile(null);
         return;
       }
 
-      // Validate file extension
-      const fileExtension = selectedFile.name.split(".").pop()?.toLowerCase();
-      if (fileExtension !== "mp3") {
-        setMessage(t("fileInvalidExtension"));
+      if (maxFileSize !== null && selectedFile.size > maxFileSize) {
+        setStatus("error");
+        setMessage(
+          t("fileTooLarge", { maxSize: Math.floor(maxFileSize / 1024 / 1024) }),
+        );
         setFile(null);
         return;
       }
 
       setFile(selectedFile);
+      setStatus(""); // Clear any previous error messages
+
+      // Selecting the file of an unfinished upload resumes it
+      const pending = pendingUploads.find((upload) =>
+        isSameFile(upload, selectedFile),
+      );
+      setResumeUpload(pending ?? null);
+      if (pending) {
+        setAudioName(pending.name);
+        setDescription(pending.description ?? "");
+        return;
+      }
+
       if (!audioName) {
         const nameWithoutExtension = selectedFile.name.replace(/\.[^.]+$/, "");
         setAudioName(nameWithoutExtension);
       }
-      setStatus(""); // Clear any previous error messages
     }
   };
 
-  const uploadFileWithProgress = (
-    file: File,
-    name: string,
-    description: string,
-  ): Promise<{ id: string }> => {
-    return new Promise((resolve, reject) => {
-      const xhr = new XMLHttpRequest();
-
-      // Track upload progress
-      xhr.upload.onprogress = (event) => {
-        if (event.lengthComputable) {
-          const percentComplete = Math.round(
-            (event.loaded / event.total) * 100,
-          );
-          setUploadProgress(percentComplete);
-        }
-      };
-
-      // Handle completion
-      xhr.onload = () => {
-        if (xhr.status === 200) {
-          const response = JSON.parse(xhr.responseText) as {
-            success: boolean;
-            id: string;
-          };
-          resolve(response);
-        } else {
-          const error = JSON.parse(xhr.responseText) as { error: string };
-          reject(new Error(error.error || "Upload failed"));
-        }
-      };
-
-      // Handle errors
-      xhr.onerror = () => {
-        reject(new Error("Network error occurred"));
-      };
-
-      // Prepare form data
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("name", name);
-      if (description) {
-        formData.append("description", description);
-      }
-
-      // Send request
-      xhr.open("POST", "/api/upload");
-      xhr.send(formData);
-    });
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!file || !audioName) {
@@ -127,7 +132,19 @@ export default function CreateAudioForm() {
     setIsUploading(true);
 
     try {
-      await uploadFileWithProgress(file, audioName, description);
+      await uploadFileResumable(file, {
+        name: audioName,
+        description,
+        teamId,
+        resumeUploadId: resumeUpload?.id,
+        onProgress: (uploaded, total) => {
+          setUploadProgress(Math.round((uploaded / total) * 100));
+        },
+        onProcessing: () => {
+          setStatus("processing");
+          setMessage(t("processing"));
+        },
+      });
 
       setStatus("success");
       setMessage(t("uploadSuccess"));
@@ -135,6 +152,8 @@ export default function CreateAudioForm() {
       setAudioName("");
       setDescription("");
       setFile(null);
+      setResumeUpload(null);
+      void loadPendingUploads();
 
       // Reset progress after a delay
       setTimeout(() => {
@@ -147,6 +166,9 @@ export default function CreateAudioForm() {
       setMessage(err instanceof Error ? err.message : t("uploadError"));
       setUploadProgress(0);
       setIsUploading(false);
+      // An interrupted upload shows up as pending and can be resumed
+      setResumeUpload(null);
+      void loadPendingUploads();
     }
   };
 
@@ -174,9 +196,42 @@ export default function CreateAudioForm() {
       </CardHeader>
       <CardBody>
         <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          {pendingUploads.length > 0 && !isUploading && (
+            <div className="flex flex-col gap-2 rounded-medium bg-warning-50 p-3">
+              <p className="text-small font-medium">{t("pendingUploads")}</p>
+              {pendingUploads.map((upload) => (
+                <div
+                  key={upload.id}
+                  className="flex items-center justify-between gap-2"
+                >
+                  <span className="text-small text-default-600 truncate">
+                    {t("pendingUpload", {
+                      fileName: upload.fileName,
+                      progress: Math.floor(
+                        (upload.offset / upload.fileSize) * 100,
+                      ),
+                    })}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="light"
+                    color="danger"
+                    startContent={<Trash2 size={14} />}
+                    onPress={() => void handleDiscardUpload(upload)}
+                  >
+                    {t("discardUpload")}
+                  </Button>
+                </div>
+              ))}
+              <p className="text-tiny text-default-500">
+                {t("pendingUploadsHint")}
+              </p>
+            </div>
+          )}
+
           <Input
             type="file"
-            accept="audio/mpeg,audio/mp3,.mp3"
+            accept={`audio/*,${SUPPORTED_AUDIO_EXTENSIONS.join(",")}`}
             onChange={handleFileChange}
             label={t("fileLabel")}
             labelPlacement="outside"
@@ -184,7 +239,9 @@ export default function CreateAudioForm() {
             isRequired
             description={
               file
-                ? t("selectedFile", { fileName: file.name })
+                ? resumeUpload
+                  ? t("resumingFile", { fileName: file.name })
+                  : t("selectedFile", { fileName: file.name })
                 : t("selectFile")
             }
             classNames={{
@@ -237,7 +294,11 @@ export default function CreateAudioForm() {
                 isUploading ? <Spinner size="sm" color="white" /> : null
               }
             >
-              {isUploading ? t("uploading") : t("uploadButton")}
+              {isUploading
+                ? t("uploading")
+                : resumeUpload
+                  ? t("resumeButton")
+                  : t("uploadButton")}
             </Button>
           </div>
 
@@ -257,7 +318,17 @@ export default function CreateAudioForm() {
             />
           )}
 
-          {status && status !== "uploading" && (
+          {status === "processing" && (
+            <Progress
+              isIndeterminate
+              color="primary"
+              size="sm"
+              label={t("processing")}
+              className="w-full"
+            />
+          )}
+
+          {status && status !== "uploading" && status !== "processing" && (
             <Chip
               color={
                 status === "success"
@@ -15,7 +15,12 @@ import { useRouter } from "next/navigation";
 import { api } from "~/trpc/react";
 import { useTranslations } from "next-intl";
 
-export function CreatePlaylistForm() {
+interface CreatePlaylistFormProps {
+  /** Team the playlist is created for, null for the personal library */
+  teamId?: string | null;
+}
+
+export function CreatePlaylistForm({ teamId }: CreatePlaylistFormProps) {
   const router = useRouter();
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
@@ -43,6 +48,7 @@ export function CreatePlaylistForm() {
         name: name.trim(),
         description: description.trim() || undefined,
         isPublic,
+        teamId,
       });
     }
   };
@@ -18,9 +18,12 @@ import {
 } from "lucide-react";
 import { useCallback, useState } from "react";
 import { useTranslations } from "next-intl";
+import { type AccessRole, hasRole } from "~/lib/collaboration";
 
 interface PlaylistActionsDropdownProps {
   playlistId: string;
+  /** Role of the user, actions they may not take are hidden */
+  role: AccessRole;
   onEditClick: () => void;
   onDeleteClick: () => void;
   isDeleteDisabled?: boolean;
@@ -28,6 +31,7 @@ interface PlaylistActionsDropdownProps {
 
 export function PlaylistActionsDropdown({
   playlistId,
+  role,
   onEditClick,
   onDeleteClick,
   isDeleteDisabled = false,
@@ -76,34 +80,40 @@ export function PlaylistActionsDropdown({
         >
           {copySuccess ? t("copied") : t("copyListenLink")}
         </DropdownItem>
-        <DropdownItem
-          key="edit"
-          startContent={<Edit size={16} />}
-          onPress={onEditClick}
-          className="text-primary"
-          color="primary"
-        >
-          {t("edit")}
-        </DropdownItem>
-        <DropdownItem
-          key="statistics"
-          startContent={<BarChart3 size={16} />}
-          href={`/playlists/${playlistId}/statistics`}
-          className="text-warning"
-          color="warning"
-        >
-          {t("statistics")}
-        </DropdownItem>
-        <DropdownItem
-          key="delete"
-          className="text-danger"
-          color="danger"
-          startContent={<Trash2 size={16} />}
-          onPress={onDeleteClick}
-          isDisabled={isDeleteDisabled}
-        >
-          {t("delete")}
-        </DropdownItem>
+        {hasRole(role, "editor") ? (
+          <DropdownItem
+            key="edit"
+            startContent={<Edit size={16} />}
+            onPress={onEditClick}
+            className="text-primary"
+            color="primary"
+          >
+            {t("edit")}
+          </DropdownItem>
+        ) : null}
+        {hasRole(role, "editor") ? (
+          <DropdownItem
+            key="statistics"
+            startContent={<BarChart3 size={16} />}
+            href={`/playlists/${playlistId}/statistics`}
+            className="text-warning"
+            color="warning"
+          >
+            {t("statistics")}
+          </DropdownItem>
+        ) : null}
+        {role === "owner" ? (
+          <DropdownItem
+            key="delete"
+            className="text-danger"
+            color="danger"
+            startContent={<Trash2 size={16} />}
+            onPress={onDeleteClick}
+            isDisabled={isDeleteDisabled}
+          >
+            {t("delete")}
+          </DropdownItem>
+        ) : null}
       </DropdownMenu>
     </Dropdown>
   );
@@ -19,6 +19,7 @@ import { api } from "~/trpc/react";
 import { PlaylistActionsDropdown } from "./PlaylistActionsDropdown";
 import { formatTimeAgo } from "~/lib/time";
 import { useLocale, useTranslations } from "next-intl";
+import type { AccessRole } from "~/lib/collaboration";
 
 interface PlaylistListItemProps {
   playlist: {
@@ -31,6 +32,7 @@ interface PlaylistListItemProps {
     audioCount: number;
     listenCounter?: number;
     lastListenAt?: Date | null;
+    role: AccessRole;
   };
 }
 
@@ -108,6 +110,7 @@ export function PlaylistListItem({ playlist }: PlaylistListItemProps) {
                 </div>
                 <PlaylistActionsDropdown
                   playlistId={playlist.id}
+                  role={playlist.role}
                   onEditClick={handleEditClick}
                   onDeleteClick={handleDeleteClick}
                   isDeleteDisabled={deletePlaylistMutation.isPending}
@@ -4,7 +4,12 @@ import { api } from "~/trpc/server";
 import { ListMusic } from "lucide-react";
 import { getTranslations } from "next-intl/server";
 
-export default async function PlaylistsList() {
+interface PlaylistsListProps {
+  /** The team of the library, personal library if not set */
+  team?: { id: string; name: string } | null;
+}
+
+export default async function PlaylistsList({ team }: PlaylistsListProps) {
   const session = await auth();
   const userId = session?.user?.id;
   if (!userId) {
@@ -12,7 +17,7 @@ export default async function PlaylistsList() {
   }
 
   const t = await getTranslations("PlaylistsList");
-  const playlists = await api.playlist.getUserPlaylists();
+  const playlists = await api.playlist.getUserPlaylists({ teamId: team?.id });
   const playlistCount = playlists?.length ?? 0;
 
   return (
@@ -21,6 +26,12 @@ export default async function PlaylistsList() {
         <div className="flex flex-col">
           <p className="text-md font-semibold">
             <ListMusic className="inline" size={16} /> {t("title")}
+            {team && (
+              <span className="font-normal text-default-500">
+                {" "}
+                · {team.name}
+              </span>
+            )}
           </p>
           <p className="text-small text-default-500">
             {t("description", { playlistCount })}
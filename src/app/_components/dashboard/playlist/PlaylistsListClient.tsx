@@ -5,6 +5,7 @@ import { Input, Pagination } from "@heroui/react";
 import { Search } from "lucide-react";
 import { PlaylistListItem } from "./PlaylistListItem";
 import { useTranslations } from "next-intl";
+import type { AccessRole } from "~/lib/collaboration";
 
 interface Playlist {
   id: string;
@@ -16,6 +17,7 @@ interface Playlist {
   audioCount: number;
   listenCounter?: number;
   lastListenAt?: Date | null;
+  role: AccessRole;
 }
 
 interface PlaylistsListClientProps {
@@ -0,0 +1,118 @@
+import Link from "next/link";
+import { Edit, ListMusic, Music4, Play, Share2 } from "lucide-react";
+import { getTranslations } from "next-intl/server";
+import { auth } from "~/server/auth";
+import { api } from "~/trpc/server";
+import { type CollaboratorRole, hasRole } from "~/lib/collaboration";
+
+interface SharedItem {
+  id: string;
+  name: string;
+  description: string | null;
+  role: string;
+  createdBy: { name: string | null; email: string | null };
+}
+
+/** Audios and playlists other users shared with the signed-in user */
+export default async function SharedWithMeList() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const [audios, playlists] = await Promise.all([
+    api.audio.getSharedAudios(),
+    api.playlist.getSharedPlaylists(),
+  ]);
+  if (audios.length === 0 && playlists.length === 0) {
+    return null;
+  }
+
+  const t = await getTranslations("SharedWithMeList");
+  const tRoles = await getTranslations("CollaboratorRoles");
+
+  const renderItem = (
+    item: SharedItem,
+    basePath: "/audios" | "/playlists",
+    editRole: CollaboratorRole,
+  ) => {
+    const role = item.role as CollaboratorRole;
+    return (
+      <li
+        key={item.id}
+        className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg bg-default-100"
+      >
+        <div className="flex flex-col min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold truncate">{item.name}</span>
+            <span className="px-2 py-0.5 text-xs rounded-full bg-primary/10 text-primary">
+              {tRoles(role)}
+            </span>
+          </div>
+          <span className="text-xs text-default-500 truncate">
+            {t("sharedBy", {
+              name: item.createdBy.name ?? item.createdBy.email ?? "",
+            })}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <Link
+            href={`${basePath}/${item.id}/listen`}
+            className="inline-flex items-center gap-1 px-3 py-1 text-sm font-medium text-success bg-success/10 hover:bg-success/20 rounded-lg transition-colors"
+          >
+            <Play size={14} />
+            {t("listen")}
+          </Link>
+          {hasRole(role, editRole) && (
+            <Link
+              href={`${basePath}/${item.id}/edit`}
+              className="inline-flex items-center gap-1 px-3 py-1 text-sm font-medium text-primary bg-primary/10 hover:bg-primary/20 rounded-lg transition-colors"
+            >
+              <Edit size={14} />
+              {t("edit")}
+            </Link>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <section className="sm:min-w-md max-w-4xl mx-auto rounded-lg border border-default-200 bg-background p-3 sm:p-6">
+      <header className="mb-4">
+        <div className="flex flex-col">
+          <p className="text-md font-semibold">
+            <Share2 className="inline" size={16} /> {t("title")}
+          </p>
+          <p className="text-small text-default-500">{t("description")}</p>
+        </div>
+      </header>
+      <div className="space-y-4">
+        {audios.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-default-600">
+              <Music4 className="inline" size={14} /> {t("audios")}
+            </p>
+            <ul className="space-y-2">
+              {audios.map((audio) =>
+                renderItem(audio, "/audios", "marker-editor"),
+              )}
+            </ul>
+          </div>
+        )}
+        {playlists.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-default-600">
+              <ListMusic className="inline" size={14} /> {t("playlists")}
+            </p>
+            <ul className="space-y-2">
+              {playlists.map((playlist) =>
+                renderItem(playlist, "/playlists", "editor"),
+              )}
+            </ul>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { ExternalLink } from "lucide-react";
+import { useSearchParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import ListenOnlyAudioPlayer from "~/app/_components/audio/listen/ListenOnlyAudioPlayer";
+import { parseEmbedOptions } from "~/lib/embed";
+import type { AudioProcessingStatus } from "~/types/Audio";
+
+interface EmbedPlayerProps {
+  audioUrl: string;
+  peaksUrl: string;
+  audioName: string;
+  audioDescription?: string | null;
+  audioId: string;
+  processingStatus: AudioProcessingStatus;
+  /** The embedded playlist, null when a single audio is embedded */
+  playlistId: string | null;
+  /** Listen page of the embedded audio or playlist */
+  listenPath: string;
+}
+
+/** The player of the embed pages with the theme and options of the embed URL */
+export function EmbedPlayer({
+  audioUrl,
+  peaksUrl,
+  audioName,
+  audioDescription,
+  audioId,
+  processingStatus,
+  playlistId,
+  listenPath,
+}: EmbedPlayerProps) {
+  const t = useTranslations("EmbedPlayer");
+  const searchParams = useSearchParams();
+  const { theme, showMarkerList } = parseEmbedOptions(searchParams);
+
+  return (
+    <div
+      className={`${theme ?? ""} flex min-h-screen w-full flex-col gap-3 bg-background p-3 text-foreground`}
+    >
+      <ListenOnlyAudioPlayer
+        audioUrl={audioUrl}
+        peaksUrl={peaksUrl}
+        audioName={audioName}
+        audioDescription={audioDescription}
+        audioReadOnlyToken={audioId}
+        audioId={audioId}
+        processingStatus={processingStatus}
+        embed={{ playlistId, showMarkerList }}
+      />
+      <a
+        href={listenPath}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1 self-end text-xs text-default-500 hover:text-primary"
+      >
+        {t("openInApp")}
+        <ExternalLink size={12} />
+      </a>
+    </div>
+  );
+}
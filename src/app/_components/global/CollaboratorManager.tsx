@@ -0,0 +1,232 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Avatar,
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Chip,
+  Input,
+  Select,
+  SelectItem,
+} from "@heroui/react";
+import { Trash2, UserPlus, Users } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { api } from "~/trpc/react";
+import type { CollaboratorRole } from "~/lib/collaboration";
+
+interface CollaboratorManagerProps {
+  resource: "audio" | "playlist";
+  resourceId: string;
+}
+
+/** Share an audio or playlist with other users and manage their roles */
+export function CollaboratorManager({
+  resource,
+  resourceId,
+}: CollaboratorManagerProps) {
+  const t = useTranslations("CollaboratorManager");
+  const tRoles = useTranslations("CollaboratorRoles");
+  const utils = api.useUtils();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<CollaboratorRole>("viewer");
+
+  const { data } = api.collaborator.getCollaborators.useQuery({
+    resource,
+    resourceId,
+  });
+  const collaborators = data?.collaborators ?? [];
+  const assignableRoles: CollaboratorRole[] = data?.assignableRoles ?? [];
+
+  const onSuccess = () => {
+    void utils.collaborator.getCollaborators.invalidate({
+      resource,
+      resourceId,
+    });
+  };
+
+  const inviteCollaborator = api.collaborator.inviteCollaborator.useMutation({
+    onSuccess: () => {
+      onSuccess();
+      setEmail("");
+    },
+  });
+  const updateCollaboratorRole =
+    api.collaborator.updateCollaboratorRole.useMutation({ onSuccess });
+  const removeCollaborator = api.collaborator.removeCollaborator.useMutation({
+    onSuccess,
+  });
+
+  const error =
+    inviteCollaborator.error ??
+    updateCollaboratorRole.error ??
+    removeCollaborator.error;
+
+  const handleInvite = () => {
+    inviteCollaborator.mutate({ resource, resourceId, email, role });
+  };
+
+  const handleRemove = (id: string, name: string) => {
+    if (confirm(t("confirmRemove", { name }))) {
+      removeCollaborator.mutate({ resource, id });
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-xl">
+      <CardHeader className="flex flex-col items-start">
+        <div className="flex flex-row items-center gap-2 pb-2">
+          <Users size={20} className="text-primary" />
+          <h3 className="text-lg font-semibold">{t("title")}</h3>
+          <Chip size="sm" variant="flat" color="primary">
+            {collaborators.length}
+          </Chip>
+        </div>
+        <p className="text-small text-default-500">
+          {t(`subtitle.${resource}`)}
+        </p>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        {collaborators.length > 0 && (
+          <div className="space-y-2">
+            {collaborators.map((collaborator) => {
+              const name = collaborator.user?.name ?? collaborator.email;
+              const canManage = assignableRoles.some(
+                (candidate) => candidate === collaborator.role,
+              );
+              return (
+                <div
+                  key={collaborator.id}
+                  className="flex items-center justify-between gap-2 p-2 py-1 bg-default-100 rounded-lg"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Avatar
+                      size="sm"
+                      name={name}
+                      src={collaborator.user?.image ?? undefined}
+                    />
+                    <div className="flex flex-col min-w-0">
+                      <span className="text-sm font-medium truncate">
+                        {name}
+                      </span>
+                      {collaborator.user?.name && (
+                        <span className="text-xs text-default-500 truncate">
+                          {collaborator.email}
+                        </span>
+                      )}
+                    </div>
+                    {!collaborator.userId && (
+                      <Chip size="sm" variant="flat" color="warning">
+                        {t("pending")}
+                      </Chip>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {canManage ? (
+                      <Select
+                        size="sm"
+                        aria-label={t("role")}
+                        className="w-40"
+                        selectedKeys={[collaborator.role]}
+                        isDisabled={updateCollaboratorRole.isPending}
+                        onChange={(e) => {
+                          const selected = assignableRoles.find(
+                            (candidate) => candidate === e.target.value,
+                          );
+                          if (selected) {
+                            updateCollaboratorRole.mutate({
+                              resource,
+                              id: collaborator.id,
+                              role: selected,
+                            });
+                          }
+                        }}
+                      >
+                        {assignableRoles.map((candidate) => (
+                          <SelectItem key={candidate}>
+                            {tRoles(candidate)}
+                          </SelectItem>
+                        ))}
+                      </Select>
+                    ) : (
+                      <Chip size="sm" variant="flat">
+                        {tRoles(collaborator.role as CollaboratorRole)}
+                      </Chip>
+                    )}
+                    {canManage && (
+                      <Button
+                        size="sm"
+                        variant="light"
+                        color="danger"
+                        isIconOnly
+                        isLoading={
+                          removeCollaborator.isPending &&
+                          removeCollaborator.variables.id === collaborator.id
+                        }
+                        onPress={() => handleRemove(collaborator.id, name)}
+                        title={t("remove")}
+                      >
+                        <Trash2 size={14} />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <h4 className="text-sm font-medium text-default-600">
+            {t("inviteTitle")}
+          </h4>
+          <div className="flex gap-2">
+            <Input
+              type="email"
+              size="sm"
+              label={t("email")}
+              value={email}
+              onValueChange={setEmail}
+            />
+            <Select
+              size="sm"
+              label={t("role")}
+              className="w-48"
+              selectedKeys={[role]}
+              onChange={(e) => {
+                const selected = assignableRoles.find(
+                  (candidate) => candidate === e.target.value,
+                );
+                if (selected) {
+                  setRole(selected);
+                }
+              }}
+            >
+              {assignableRoles.map((candidate) => (
+                <SelectItem key={candidate}>{tRoles(candidate)}</SelectItem>
+              ))}
+            </Select>
+          </div>
+          <p className="text-xs text-default-500">{t("inviteHint")}</p>
+
+          {error && <p className="text-danger text-sm">{error.message}</p>}
+
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              color="primary"
+              startContent={<UserPlus size={14} />}
+              isDisabled={!email.trim()}
+              isLoading={inviteCollaborator.isPending}
+              onPress={handleInvite}
+            >
+              {t("invite")}
+            </Button>
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
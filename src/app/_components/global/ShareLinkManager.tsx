@@ -0,0 +1,262 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Chip,
+  Input,
+  Switch,
+} from "@heroui/react";
+import { Check, Copy, KeyRound, Link2, Plus, Trash2 } from "lucide-react";
+import { useLocale, useTranslations } from "next-intl";
+import { api } from "~/trpc/react";
+import { getSharePath } from "~/lib/shareLink";
+import { formatTimeAgo } from "~/lib/time";
+
+interface ShareLinkManagerProps {
+  resource: "audio" | "playlist";
+  resourceId: string;
+}
+
+const STATUS_COLORS = {
+  active: "success",
+  expired: "warning",
+  exhausted: "warning",
+  revoked: "danger",
+} as const;
+
+/** Create, list and revoke share links of a private audio or playlist */
+export function ShareLinkManager({
+  resource,
+  resourceId,
+}: ShareLinkManagerProps) {
+  const t = useTranslations("ShareLinkManager");
+  const locale = useLocale();
+  const utils = api.useUtils();
+  const [label, setLabel] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [password, setPassword] = useState("");
+  const [maxUses, setMaxUses] = useState("");
+  const [allowBrowserMarkers, setAllowBrowserMarkers] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const { data: links = [] } = api.shareLink.getShareLinks.useQuery({
+    resource,
+    resourceId,
+  });
+
+  const onSuccess = () => {
+    void utils.shareLink.getShareLinks.invalidate({ resource, resourceId });
+  };
+
+  const createShareLink = api.shareLink.createShareLink.useMutation({
+    onSuccess: () => {
+      onSuccess();
+      setLabel("");
+      setExpiresOn("");
+      setPassword("");
+      setMaxUses("");
+      setAllowBrowserMarkers(false);
+    },
+  });
+  const revokeShareLink = api.shareLink.revokeShareLink.useMutation({
+    onSuccess,
+  });
+
+  const error = createShareLink.error ?? revokeShareLink.error;
+
+  const handleCreate = () => {
+    createShareLink.mutate({
+      resource,
+      resourceId,
+      label,
+      // The link stays valid until the end of the chosen day
+      expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`) : null,
+      password: password || null,
+      maxUses: maxUses ? Number(maxUses) : null,
+      allowBrowserMarkers,
+    });
+  };
+
+  const handleCopy = async (id: string, token: string) => {
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}${getSharePath(token)}`,
+      );
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy link:", err);
+    }
+  };
+
+  const handleRevoke = (id: string) => {
+    if (confirm(t("confirmRevoke"))) {
+      revokeShareLink.mutate({ id });
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-xl">
+      <CardHeader className="flex flex-col items-start">
+        <div className="flex flex-row items-center gap-2 pb-2">
+          <Link2 size={20} className="text-primary" />
+          <h3 className="text-lg font-semibold">{t("title")}</h3>
+          <Chip size="sm" variant="flat" color="primary">
+            {links.length}
+          </Chip>
+        </div>
+        <p className="text-small text-default-500">
+          {t(`subtitle.${resource}`)}
+        </p>
+      </CardHeader>
+      <CardBody className="space-y-4">
+        {links.length > 0 && (
+          <div className="space-y-2">
+            {links.map((link) => (
+              <div
+                key={link.id}
+                className="flex items-start justify-between gap-2 p-2 bg-default-100 rounded-lg"
+              >
+                <div className="flex flex-col gap-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="text-sm font-medium truncate">
+                      {link.label ?? t("untitled")}
+                    </span>
+                    <Chip
+                      size="sm"
+                      variant="flat"
+                      color={STATUS_COLORS[link.status]}
+                    >
+                      {t(`status.${link.status}`)}
+                    </Chip>
+                    {link.hasPassword && (
+                      <Chip
+                        size="sm"
+                        variant="flat"
+                        startContent={<KeyRound size={12} />}
+                      >
+                        {t("password")}
+                      </Chip>
+                    )}
+                    <Chip size="sm" variant="flat">
+                      {link.allowBrowserMarkers
+                        ? t("allowBrowserMarkers")
+                        : t("viewOnly")}
+                    </Chip>
+                  </div>
+                  <span className="text-xs text-default-500">
+                    {link.maxUses !== null
+                      ? t("usesOf", {
+                          count: link.useCount,
+                          max: link.maxUses,
+                        })
+                      : t("uses", { count: link.useCount })}
+                    {link.lastUsedAt &&
+                      ` · ${t("lastUsed", {
+                        time: formatTimeAgo(link.lastUsedAt, locale),
+                      })}`}
+                    {link.expiresAt &&
+                      ` · ${t("expires", {
+                        date: link.expiresAt.toLocaleDateString(locale),
+                      })}`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    size="sm"
+                    variant="light"
+                    isIconOnly
+                    onPress={() => void handleCopy(link.id, link.token)}
+                    title={t("copy")}
+                  >
+                    {copiedId === link.id ? (
+                      <Check size={14} className="text-success" />
+                    ) : (
+                      <Copy size={14} />
+                    )}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="light"
+                    color="danger"
+                    isIconOnly
+                    isLoading={
+                      revokeShareLink.isPending &&
+                      revokeShareLink.variables.id === link.id
+                    }
+                    onPress={() => handleRevoke(link.id)}
+                    title={t("revoke")}
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <h4 className="text-sm font-medium text-default-600">
+            {t("createTitle")}
+          </h4>
+          <Input
+            size="sm"
+            label={t("label")}
+            value={label}
+            onValueChange={setLabel}
+          />
+          <div className="flex gap-2">
+            <Input
+              type="date"
+              size="sm"
+              label={t("expiresOn")}
+              value={expiresOn}
+              onValueChange={setExpiresOn}
+            />
+            <Input
+              type="number"
+              size="sm"
+              min={1}
+              label={t("maxUses")}
+              value={maxUses}
+              onValueChange={setMaxUses}
+            />
+          </div>
+          <Input
+            type="password"
+            size="sm"
+            label={t("passwordOptional")}
+            value={password}
+            onValueChange={setPassword}
+            autoComplete="new-password"
+          />
+          <Switch
+            size="sm"
+            isSelected={allowBrowserMarkers}
+            onValueChange={setAllowBrowserMarkers}
+          >
+            <span className="text-sm">{t("allowBrowserMarkersHint")}</span>
+          </Switch>
+
+          {error && <p className="text-danger text-sm">{error.message}</p>}
+
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              color="primary"
+              startContent={<Plus size={14} />}
+              isLoading={createShareLink.isPending}
+              onPress={handleCreate}
+            >
+              {t("create")}
+            </Button>
+          </div>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
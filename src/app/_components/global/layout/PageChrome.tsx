@@ -0,0 +1,33 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { isEmbedPath } from "~/lib/embed";
+
+interface PageChromeProps {
+  navbar: React.ReactNode;
+  footer: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/** Navbar and footer around the page, embeds in other sites only get the page */
+export default function PageChrome({
+  navbar,
+  footer,
+  children,
+}: PageChromeProps) {
+  const pathname = usePathname();
+
+  if (isEmbedPath(pathname)) {
+    return <main className="flex w-full flex-1 flex-col">{children}</main>;
+  }
+
+  return (
+    <>
+      {navbar}
+      <main className="flex flex-1 flex-col items-center justify-center gap-8 px-4 py-4 w-full max-w-full overflow-x-hidden">
+        {children}
+      </main>
+      {footer}
+    </>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { Navbar as HeroNavbar, NavbarBrand } from "@heroui/navbar";
 import UserMenu from "./User";
+import WorkspaceSwitcher from "./WorkspaceSwitcher";
 import Link from "next/link";
 import Image from "next/image";
 import { useTranslations } from "next-intl";
@@ -43,6 +44,7 @@ export default function Navbar({
         </Link>
       </NavbarBrand>
 
+      <WorkspaceSwitcher />
       <UserMenu />
     </HeroNavbar>
   );
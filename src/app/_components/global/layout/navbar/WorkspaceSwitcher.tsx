@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { NavbarContent, NavbarItem } from "@heroui/navbar";
+import { Button } from "@heroui/button";
+import {
+  Dropdown,
+  DropdownTrigger,
+  DropdownMenu,
+  DropdownItem,
+} from "@heroui/dropdown";
+import { Check, ChevronDown, User, Users } from "lucide-react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { api } from "~/trpc/react";
+import { getWorkspaceTeamId, WORKSPACE_COOKIE } from "~/lib/team";
+
+const PERSONAL_KEY = "personal";
+
+function readWorkspaceCookie(): string | undefined {
+  return document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith(`${WORKSPACE_COOKIE}=`))
+    ?.slice(WORKSPACE_COOKIE.length + 1);
+}
+
+/** Switches the dashboard between the personal library and team libraries */
+export default function WorkspaceSwitcher() {
+  const { status } = useSession();
+  const router = useRouter();
+  const t = useTranslations("Navbar.WorkspaceSwitcher");
+  const [cookieValue, setCookieValue] = useState<string | undefined>();
+
+  const { data: teams } = api.team.getMyTeams.useQuery(undefined, {
+    enabled: status === "authenticated",
+  });
+
+  useEffect(() => {
+    setCookieValue(readWorkspaceCookie());
+  }, []);
+
+  if (!teams || teams.length === 0) {
+    return null;
+  }
+
+  const teamId = getWorkspaceTeamId(cookieValue, teams);
+  const currentTeam = teams.find((team) => team.id === teamId);
+
+  const handleSelect = async (key: string) => {
+    const value = key === PERSONAL_KEY ? null : key;
+    const response = await fetch("/api/workspace", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ teamId: value }),
+    });
+    if (!response.ok) {
+      console.error("Failed to switch workspace:", response.statusText);
+      return;
+    }
+    setCookieValue(value ?? undefined);
+    router.push("/");
+    router.refresh();
+  };
+
+  return (
+    <NavbarContent as="div" justify="end" className="grow-0">
+      <NavbarItem>
+        <Dropdown placement="bottom-end">
+          <DropdownTrigger>
+            <Button
+              size="sm"
+              variant="flat"
+              startContent={
+                currentTeam ? <Users size={16} /> : <User size={16} />
+              }
+              endContent={<ChevronDown size={14} />}
+            >
+              <span className="max-w-32 truncate">
+                {currentTeam?.name ?? t("personal")}
+              </span>
+            </Button>
+          </DropdownTrigger>
+          <DropdownMenu
+            aria-label={t("ariaLabel")}
+            variant="flat"
+            onAction={(key) => void handleSelect(String(key))}
+          >
+            {[
+              <DropdownItem
+                key={PERSONAL_KEY}
+                startContent={<User size={16} />}
+                endContent={currentTeam ? null : <Check size={16} />}
+              >
+                {t("personal")}
+              </DropdownItem>,
+              ...teams.map((team) => (
+                <DropdownItem
+                  key={team.id}
+                  startContent={<Users size={16} />}
+                  endContent={
+                    team.id === currentTeam?.id ? <Check size={16} /> : null
+                  }
+                >
+                  {team.name}
+                </DropdownItem>
+              )),
+            ]}
+          </DropdownMenu>
+        </Dropdown>
+      </NavbarItem>
+    </NavbarContent>
+  );
+}
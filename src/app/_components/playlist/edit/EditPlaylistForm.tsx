@@ -15,6 +15,7 @@ import { api } from "~/trpc/react";
 import { UnsavedChangesModal } from "../../global/UnsavedChangesModal";
 import { Save } from "lucide-react";
 import { useTranslations } from "next-intl";
+import { hasRole } from "~/lib/collaboration";
 
 interface EditPlaylistFormProps {
   playlistId: string;
@@ -37,6 +38,7 @@ export default function EditPlaylistForm({
   const [playlist] = api.playlist.getUserPlaylistById.useSuspenseQuery({
     id: playlistId,
   });
+  const canChangeVisibility = hasRole(playlist.role, "co-owner");
 
   const updatePlaylistMutation = api.playlist.updatePlaylist.useMutation({
     onSuccess: () => {
@@ -58,7 +60,10 @@ export default function EditPlaylistForm({
     const formData = new FormData(form);
     const name = (formData.get("name") as string).trim();
     const description = formData.get("description") as string;
-    const isPublic = formData.get("isPublic") !== null;
+    // A disabled switch is not submitted, keep the current visibility then
+    const isPublic = canChangeVisibility
+      ? formData.get("isPublic") !== null
+      : playlist.isPublic;
 
     if (!name) {
       setError(t("errors.nameRequired"));
@@ -128,6 +133,7 @@ export default function EditPlaylistForm({
             defaultSelected={playlist.isPublic}
             size="sm"
             color="primary"
+            isDisabled={!canChangeVisibility}
             onChange={handleFormChange}
           >
             {t("fields.isPublic.label")}
@@ -20,6 +20,10 @@ import { PlaylistAudioItem } from "./PlaylistAudioItem";
 import { AddAudioModal } from "./AddAudioModal";
 import type { PlaylistWithAudios } from "~/types/Playlist";
 import { useTranslations } from "next-intl";
+import { CollaboratorManager } from "../../global/CollaboratorManager";
+import { ShareLinkManager } from "../../global/ShareLinkManager";
+import { PlaylistFeedManager } from "./PlaylistFeedManager";
+import { hasRole } from "~/lib/collaboration";
 
 interface PlaylistEditContainerProps {
   playlistId: string;
@@ -182,6 +186,18 @@ export function PlaylistEditContainer({
         </CardBody>
       </Card>
 
+      {/* Collaborators, share links and the podcast feed */}
+      {hasRole(playlist.role, "co-owner") && (
+        <div className="flex flex-col items-center gap-6">
+          <CollaboratorManager resource="playlist" resourceId={playlistId} />
+          <ShareLinkManager resource="playlist" resourceId={playlistId} />
+          <PlaylistFeedManager
+            playlistId={playlistId}
+            isPublic={playlist.isPublic}
+          />
+        </div>
+      )}
+
       {/* Add Audio Modal */}
       <AddAudioModal
         isOpen={isOpen}
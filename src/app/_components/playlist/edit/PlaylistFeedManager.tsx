@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button, Card, CardBody, CardHeader, Input } from "@heroui/react";
+import { Check, Copy, KeyRound, RefreshCw, Rss, Trash2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { api } from "~/trpc/react";
+import { getFeedPath } from "~/lib/podcastFeed";
+
+interface PlaylistFeedManagerProps {
+  playlistId: string;
+  isPublic: boolean;
+}
+
+/** Podcast feed URL of a playlist, private playlists need a feed token */
+export function PlaylistFeedManager({
+  playlistId,
+  isPublic,
+}: PlaylistFeedManagerProps) {
+  const t = useTranslations("PlaylistFeedManager");
+  const utils = api.useUtils();
+  const [isCopied, setIsCopied] = useState(false);
+  // Podcast apps need the absolute URL, the origin is only known in the browser
+  const [origin, setOrigin] = useState("");
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  const { data } = api.playlist.getFeedToken.useQuery({ id: playlistId });
+  const feedToken = data?.feedToken ?? null;
+
+  const onSuccess = () => {
+    void utils.playlist.getFeedToken.invalidate({ id: playlistId });
+  };
+  const regenerateFeedToken = api.playlist.regenerateFeedToken.useMutation({
+    onSuccess,
+  });
+  const disableFeedToken = api.playlist.disableFeedToken.useMutation({
+    onSuccess,
+  });
+
+  const error = regenerateFeedToken.error ?? disableFeedToken.error;
+
+  // Public playlists also have a feed without token, it only lists public audios
+  const feedUrl =
+    feedToken || isPublic
+      ? `${origin}${getFeedPath(playlistId, feedToken)}`
+      : null;
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy feed URL:", err);
+    }
+  };
+
+  const handleRegenerate = () => {
+    if (!feedToken || confirm(t("confirmRegenerate"))) {
+      regenerateFeedToken.mutate({ id: playlistId });
+    }
+  };
+
+  const handleDisable = () => {
+    if (confirm(t("confirmDisable"))) {
+      disableFeedToken.mutate({ id: playlistId });
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-xl">
+      <CardHeader className="flex flex-col items-start">
+        <div className="flex flex-row items-center gap-2 pb-2">
+          <Rss size={20} className="text-primary" />
+          <h3 className="text-lg font-semibold">{t("title")}</h3>
+        </div>
+        <p className="text-small text-default-500">
+          {isPublic ? t("subtitle.public") : t("subtitle.private")}
+        </p>
+      </CardHeader>
+      <CardBody className="space-y-3">
+        {feedUrl && (
+          <div className="flex items-center gap-2">
+            <Input
+              size="sm"
+              isReadOnly
+              aria-label={t("feedUrl")}
+              value={feedUrl}
+              startContent={
+                feedToken ? <KeyRound size={14} /> : <Rss size={14} />
+              }
+            />
+            <Button
+              size="sm"
+              variant="light"
+              isIconOnly
+              onPress={() => void handleCopy()}
+              title={t("copy")}
+            >
+              {isCopied ? (
+                <Check size={14} className="text-success" />
+              ) : (
+                <Copy size={14} />
+              )}
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-danger text-sm">{error.message}</p>}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {feedToken && (
+            <Button
+              size="sm"
+              variant="flat"
+              color="danger"
+              startContent={<Trash2 size={14} />}
+              isLoading={disableFeedToken.isPending}
+              onPress={handleDisable}
+            >
+              {t("disable")}
+            </Button>
+          )}
+          <Button
+            size="sm"
+            color="primary"
+            variant={feedToken ? "flat" : "solid"}
+            startContent={
+              feedToken ? <RefreshCw size={14} /> : <KeyRound size={14} />
+            }
+            isLoading={regenerateFeedToken.isPending}
+            onPress={handleRegenerate}
+          >
+            {feedToken ? t("regenerate") : t("createPrivate")}
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { api } from "~/trpc/react";
+import { Button } from "@heroui/button";
+import { Card, CardBody } from "@heroui/card";
+import { Chip } from "@heroui/chip";
+import { Spinner } from "@heroui/spinner";
+import { RotateCcw } from "lucide-react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+
+export default function JobsSection() {
+  const t = useTranslations("JobsSection");
+  const utils = api.useUtils();
+
+  const { data: counts, isLoading: countsLoading } =
+    api.admin.jobs.getJobCounts.useQuery(undefined, {
+      refetchInterval: 10000,
+    });
+  const { data: failedJobs, isLoading: failedJobsLoading } =
+    api.admin.jobs.getFailedJobs.useQuery();
+
+  const requeueJobMutation = api.admin.jobs.requeueJob.useMutation({
+    onSuccess: () => {
+      void utils.admin.jobs.invalidate();
+    },
+  });
+
+  if (countsLoading || failedJobsLoading) {
+    return (
+      <Card>
+        <CardBody>
+          <div className="flex min-h-[400px] items-center justify-center">
+            <Spinner size="lg" label={t("loading")} />
+          </div>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap gap-2">
+        <Chip variant="flat">
+          {t("counts.pending", { count: counts?.pending ?? 0 })}
+        </Chip>
+        <Chip variant="flat" color="primary">
+          {t("counts.running", { count: counts?.running ?? 0 })}
+        </Chip>
+        <Chip variant="flat" color="success">
+          {t("counts.completed", { count: counts?.completed ?? 0 })}
+        </Chip>
+        <Chip variant="flat" color="danger">
+          {t("counts.failed", { count: counts?.failed ?? 0 })}
+        </Chip>
+      </div>
+
+      <div>
+        <h2 className="text-2xl font-bold mb-4">{t("failed.title")}</h2>
+        {!failedJobs || failedJobs.length === 0 ? (
+          <Card>
+            <CardBody>
+              <p className="text-default-500">{t("failed.empty")}</p>
+            </CardBody>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {failedJobs.map((job) => (
+              <Card key={job.id}>
+                <CardBody>
+                  <div className="flex flex-wrap justify-center items-center gap-3">
+                    <div className="flex-1 min-w-50">
+                      <h3 className="font-medium">
+                        {t(`types.${job.type}`)}
+                        {job.audio && (
+                          <>
+                            {" • "}
+                            <Link
+                              href={`/audios/${job.audio.id}/edit`}
+                              className="text-primary hover:underline"
+                            >
+                              {job.audio.name}
+                            </Link>
+                          </>
+                        )}
+                        {job.version && (
+                          <>
+                            {" • "}
+                            {t("failed.version", {
+                              number: job.version.number,
+                            })}
+                          </>
+                        )}
+                      </h3>
+                      <p className="text-sm text-default-500">
+                        {t("failed.attempts", { count: job.attempts })} •{" "}
+                        {t("failed.failedOn")}{" "}
+                        {job.finishedAt
+                          ? new Date(job.finishedAt).toLocaleString()
+                          : t("unknown")}
+                      </p>
+                      {job.error && (
+                        <p className="font-mono text-xs text-danger mt-1 break-all line-clamp-3">
+                          {job.error}
+                        </p>
+                      )}
+                    </div>
+                    <Button
+                      color="primary"
+                      variant="bordered"
+                      size="sm"
+                      startContent={<RotateCcw size={14} />}
+                      onPress={() => requeueJobMutation.mutate({ id: job.id })}
+                      isLoading={
+                        requeueJobMutation.isPending &&
+                        requeueJobMutation.variables?.id === job.id
+                      }
+                    >
+                      {t("actions.requeue")}
+                    </Button>
+                  </div>
+                </CardBody>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -21,15 +21,19 @@ import {
   Undo,
   Redo,
 } from "lucide-react";
+import { editorJsonToMarkdown, markdownToHtml } from "~/lib/markdown";
 
 interface RichTextEditorProps {
   content: string;
   onChange: (content: string) => void;
+  /** Read and write Markdown instead of HTML, without underline and alignment */
+  markdown?: boolean;
 }
 
 export default function RichTextEditor({
   content,
   onChange,
+  markdown = false,
 }: RichTextEditorProps) {
   const editor = useEditor({
     extensions: [
@@ -45,15 +49,16 @@ export default function RichTextEditor({
         types: ["heading", "paragraph"],
       }),
     ],
-    content,
+    content: markdown ? markdownToHtml(content) : content,
     immediatelyRender: false,
     onUpdate: ({ editor }) => {
-      onChange(editor.getHTML());
+      onChange(
+        markdown ? editorJsonToMarkdown(editor.getJSON()) : editor.getHTML(),
+      );
     },
     editorProps: {
       attributes: {
-        class:
-          "prose prose-sm dark:prose-invert max-w-none min-h-[300px] p-4 focus:outline-none border border-default-200 rounded-lg",
+        class: `prose prose-sm dark:prose-invert max-w-none ${markdown ? "min-h-[150px]" : "min-h-[300px]"} p-4 focus:outline-none border border-default-200 rounded-lg`,
       },
     },
   });
@@ -88,14 +93,16 @@ export default function RichTextEditor({
         >
           <Italic size={18} />
         </Button>
-        <Button
-          size="sm"
-          variant={editor.isActive("underline") ? "flat" : "light"}
-          isIconOnly
-          onPress={() => editor.chain().focus().toggleUnderline().run()}
-        >
-          <UnderlineIcon size={18} />
-        </Button>
+        {!markdown && (
+          <Button
+            size="sm"
+            variant={editor.isActive("underline") ? "flat" : "light"}
+            isIconOnly
+            onPress={() => editor.chain().focus().toggleUnderline().run()}
+          >
+            <UnderlineIcon size={18} />
+          </Button>
+        )}
 
         <div className="w-px h-8 bg-default-300 mx-1" />
 
@@ -139,32 +146,45 @@ export default function RichTextEditor({
           <ListOrdered size={18} />
         </Button>
 
-        <div className="w-px h-8 bg-default-300 mx-1" />
-
-        <Button
-          size="sm"
-          variant={editor.isActive({ textAlign: "left" }) ? "flat" : "light"}
-          isIconOnly
-          onPress={() => editor.chain().focus().setTextAlign("left").run()}
-        >
-          <AlignLeft size={18} />
-        </Button>
-        <Button
-          size="sm"
-          variant={editor.isActive({ textAlign: "center" }) ? "flat" : "light"}
-          isIconOnly
-          onPress={() => editor.chain().focus().setTextAlign("center").run()}
-        >
-          <AlignCenter size={18} />
-        </Button>
-        <Button
-          size="sm"
-          variant={editor.isActive({ textAlign: "right" }) ? "flat" : "light"}
-          isIconOnly
-          onPress={() => editor.chain().focus().setTextAlign("right").run()}
-        >
-          <AlignRight size={18} />
-        </Button>
+        {/* Markdown has no text alignment */}
+        {!markdown && (
+          <>
+            <div className="w-px h-8 bg-default-300 mx-1" />
+
+            <Button
+              size="sm"
+              variant={
+                editor.isActive({ textAlign: "left" }) ? "flat" : "light"
+              }
+              isIconOnly
+              onPress={() => editor.chain().focus().setTextAlign("left").run()}
+            >
+              <AlignLeft size={18} />
+            </Button>
+            <Button
+              size="sm"
+              variant={
+                editor.isActive({ textAlign: "center" }) ? "flat" : "light"
+              }
+              isIconOnly
+              onPress={() =>
+                editor.chain().focus().setTextAlign("center").run()
+              }
+            >
+              <AlignCenter size={18} />
+            </Button>
+            <Button
+              size="sm"
+              variant={
+                editor.isActive({ textAlign: "right" }) ? "flat" : "light"
+              }
+              isIconOnly
+              onPress={() => editor.chain().focus().setTextAlign("right").run()}
+            >
+              <AlignRight size={18} />
+            </Button>
+          </>
+        )}
 
         <div className="w-px h-8 bg-default-300 mx-1" />
 
@@ -2,10 +2,12 @@
 
 import { Tabs, Tab } from "@heroui/tabs";
 import UserListSection from "./UserListSection";
+import TeamListSection from "./TeamListSection";
 import SystemSettingsSection from "./SystemSettingsSection";
 import SoftDeletedSection from "./SoftDeletedSection";
 import LegalInformationSection from "./LegalInformationSection";
 import StatisticsSection from "./StatisticsSection";
+import JobsSection from "./JobsSection";
 import { useTranslations } from "next-intl";
 
 export default function SettingsPage() {
@@ -37,11 +39,21 @@ export default function SettingsPage() {
             <UserListSection />
           </div>
         </Tab>
+        <Tab key="teams" title={t("tabs.teams")}>
+          <div className="py-4">
+            <TeamListSection />
+          </div>
+        </Tab>
         <Tab key="softDeleted" title={t("tabs.softDeleted")}>
           <div className="py-4">
             <SoftDeletedSection />
           </div>
         </Tab>
+        <Tab key="jobs" title={t("tabs.jobs")}>
+          <div className="py-4">
+            <JobsSection />
+          </div>
+        </Tab>
         <Tab key="legal" title="Legal Pages">
           <div className="py-4">
             <LegalInformationSection />
@@ -22,6 +22,12 @@ export default function SoftDeletedSection() {
     refetch: refetchPlaylists,
   } = api.admin.softDeletedContent.getSoftDeletedPlaylists.useQuery();
 
+  const {
+    data: audioVersions,
+    isLoading: audioVersionsLoading,
+    refetch: refetchAudioVersions,
+  } = api.admin.softDeletedContent.getSoftDeletedAudioVersions.useQuery();
+
   const recoverAudioMutation =
     api.admin.softDeletedContent.recoverAudio.useMutation({
       onSuccess: () => {
@@ -50,6 +56,20 @@ export default function SoftDeletedSection() {
       },
     });
 
+  const recoverAudioVersionMutation =
+    api.admin.softDeletedContent.recoverAudioVersion.useMutation({
+      onSuccess: () => {
+        void refetchAudioVersions();
+      },
+    });
+
+  const deleteAudioVersionMutation =
+    api.admin.softDeletedContent.permanentlyDeleteAudioVersion.useMutation({
+      onSuccess: () => {
+        void refetchAudioVersions();
+      },
+    });
+
   const handleRecoverAudio = (id: string) => {
     recoverAudioMutation.mutate({ id });
   };
@@ -60,6 +80,16 @@ export default function SoftDeletedSection() {
     }
   };
 
+  const handleRecoverAudioVersion = (id: string) => {
+    recoverAudioVersionMutation.mutate({ id });
+  };
+
+  const handleDeleteAudioVersion = (id: string) => {
+    if (confirm(t("confirm.deleteAudioVersion"))) {
+      deleteAudioVersionMutation.mutate({ id });
+    }
+  };
+
   const handleRecoverPlaylist = (id: string) => {
     recoverPlaylistMutation.mutate({ id });
   };
@@ -70,7 +100,7 @@ export default function SoftDeletedSection() {
     }
   };
 
-  const isLoading = audiosLoading || playlistsLoading;
+  const isLoading = audiosLoading || audioVersionsLoading || playlistsLoading;
 
   if (isLoading) {
     return (
@@ -172,6 +202,64 @@ export default function SoftDeletedSection() {
         )}
       </div>
 
+      <div>
+        <h2 className="text-2xl font-bold mb-4">{t("audioVersions.title")}</h2>
+        {!audioVersions || audioVersions.length === 0 ? (
+          <Card>
+            <CardBody>
+              <p className="text-default-500">{t("audioVersions.empty")}</p>
+            </CardBody>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {audioVersions.map((version) => (
+              <Card key={version.id}>
+                <CardBody>
+                  <div className="flex flex-wrap justify-between items-center gap-3">
+                    <div className="flex-1 min-w-50">
+                      <h3 className="font-medium">
+                        {t("audioVersions.versionOf", {
+                          number: version.number,
+                          name: version.audio.name,
+                        })}
+                      </h3>
+                      <p className="text-sm text-default-500">
+                        {version.originalFileName} • {t("by")}{" "}
+                        {version.createdBy?.name ?? t("unknown")} •{" "}
+                        {t("deletedOn")}{" "}
+                        {version.deletedAt
+                          ? new Date(version.deletedAt).toLocaleDateString()
+                          : t("unknown")}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        color="success"
+                        variant="bordered"
+                        size="sm"
+                        isLoading={recoverAudioVersionMutation.isPending}
+                        onClick={() => handleRecoverAudioVersion(version.id)}
+                      >
+                        {t("actions.recover")}
+                      </Button>
+                      <Button
+                        color="danger"
+                        variant="bordered"
+                        size="sm"
+                        isLoading={deleteAudioVersionMutation.isPending}
+                        onClick={() => handleDeleteAudioVersion(version.id)}
+                      >
+                        {t("actions.deletePermanently")}
+                      </Button>
+                    </div>
+                  </div>
+                </CardBody>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
       <div>
         <h2 className="text-2xl font-bold mb-4">{t("playlists.title")}</h2>
         {!playlists || playlists.length === 0 ? (
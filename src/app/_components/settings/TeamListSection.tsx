@@ -0,0 +1,212 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardBody, CardHeader } from "@heroui/card";
+import {
+  Table,
+  TableHeader,
+  TableColumn,
+  TableBody,
+  TableRow,
+  TableCell,
+} from "@heroui/table";
+import { Spinner } from "@heroui/spinner";
+import { Button } from "@heroui/button";
+import {
+  Dropdown,
+  DropdownTrigger,
+  DropdownMenu,
+  DropdownItem,
+} from "@heroui/dropdown";
+import {
+  Users,
+  FileAudio,
+  ListMusic,
+  Plus,
+  MoreVertical,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import { api } from "~/trpc/react";
+import TeamModal from "./TeamModal";
+import { useDisclosure } from "@heroui/use-disclosure";
+import { useTranslations } from "next-intl";
+
+export default function TeamListSection() {
+  const t = useTranslations("TeamList");
+  const {
+    data: teams,
+    isLoading,
+    error,
+  } = api.admin.teamManagement.getAllTeams.useQuery();
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+
+  const deleteTeamMutation = api.admin.teamManagement.deleteTeam.useMutation({
+    onSuccess: () => {
+      void utils.admin.teamManagement.getAllTeams.invalidate();
+      setSuccessMessage(t("messages.teamDeleted"));
+      setTimeout(() => setSuccessMessage(null), 3000);
+    },
+    onError: (error) => {
+      alert(t("messages.deleteError", { message: error.message }));
+    },
+  });
+
+  const handleAddTeam = () => {
+    setSelectedTeamId(null);
+    onOpen();
+  };
+
+  const handleEditTeam = (teamId: string) => {
+    setSelectedTeamId(teamId);
+    onOpen();
+  };
+
+  const handleDeleteTeam = (teamId: string) => {
+    if (confirm(t("confirm.deleteTeam"))) {
+      deleteTeamMutation.mutate({ id: teamId });
+    }
+  };
+
+  const handleTeamCreated = (teamId: string) => {
+    // Keep the modal open to add the first members
+    setSelectedTeamId(teamId);
+    setSuccessMessage(t("messages.teamCreated"));
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardBody>
+          <div className="flex min-h-[400px] items-center justify-center">
+            <Spinner size="lg" label={t("loading")} />
+          </div>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardBody>
+          <div className="flex min-h-[400px] items-center justify-center">
+            <p className="text-danger">
+              {t("errors.loadingTeams", { message: error.message })}
+            </p>
+          </div>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex justify-between gap-3">
+          <div className="flex gap-3">
+            <Users className="h-5 w-5" />
+            <div className="flex flex-col">
+              <p className="text-lg font-semibold">{t("title")}</p>
+              <p className="text-small text-default-500">
+                {t("total", { count: teams?.length ?? 0 })}
+              </p>
+            </div>
+          </div>
+          <Button
+            color="primary"
+            startContent={<Plus className="h-4 w-4" />}
+            onPress={handleAddTeam}
+          >
+            {t("actions.addTeam")}
+          </Button>
+        </CardHeader>
+        <CardBody>
+          {successMessage && (
+            <div className="mb-4 rounded-lg bg-success-50 p-3 text-sm text-success">
+              {successMessage}
+            </div>
+          )}
+          <Table aria-label={t("table.ariaLabel")} className="min-h-[400px]">
+            <TableHeader>
+              <TableColumn>{t("table.columns.team")}</TableColumn>
+              <TableColumn>{t("table.columns.members")}</TableColumn>
+              <TableColumn>{t("table.columns.audios")}</TableColumn>
+              <TableColumn>{t("table.columns.playlists")}</TableColumn>
+              <TableColumn>{t("table.columns.actions")}</TableColumn>
+            </TableHeader>
+            <TableBody items={teams ?? []} emptyContent={t("table.empty")}>
+              {(team) => (
+                <TableRow key={team.id}>
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <p className="text-sm font-semibold">{team.name}</p>
+                      <p className="text-xs text-default-400">{team.id}</p>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Users className="h-4 w-4 text-default-400" />
+                      <span className="text-sm">{team.members.length}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <FileAudio className="h-4 w-4 text-default-400" />
+                      <span className="text-sm">{team._count.audios}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <ListMusic className="h-4 w-4 text-default-400" />
+                      <span className="text-sm">{team._count.playlists}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Dropdown>
+                      <DropdownTrigger>
+                        <Button isIconOnly size="sm" variant="light">
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownTrigger>
+                      <DropdownMenu aria-label={t("actions.ariaLabel")}>
+                        <DropdownItem
+                          key="edit"
+                          startContent={<Pencil className="h-4 w-4" />}
+                          onPress={() => handleEditTeam(team.id)}
+                        >
+                          {t("actions.edit")}
+                        </DropdownItem>
+                        <DropdownItem
+                          key="delete"
+                          className="text-danger"
+                          color="danger"
+                          startContent={<Trash2 className="h-4 w-4" />}
+                          onPress={() => handleDeleteTeam(team.id)}
+                        >
+                          {t("actions.delete")}
+                        </DropdownItem>
+                      </DropdownMenu>
+                    </Dropdown>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardBody>
+      </Card>
+
+      <TeamModal
+        isOpen={isOpen}
+        onClose={onClose}
+        team={teams?.find((team) => team.id === selectedTeamId) ?? null}
+        onCreated={handleTeamCreated}
+      />
+    </>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from "@heroui/modal";
+import { Button } from "@heroui/button";
+import { Input } from "@heroui/input";
+import { Select, SelectItem } from "@heroui/select";
+import { Avatar } from "@heroui/avatar";
+import { Trash2, User, UserPlus } from "lucide-react";
+import { api, type RouterOutputs } from "~/trpc/react";
+import { isTeamRole, TEAM_ROLES, type TeamRole } from "~/lib/team";
+import { useTranslations } from "next-intl";
+
+type Team = RouterOutputs["admin"]["teamManagement"]["getAllTeams"][number];
+
+interface TeamModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  team?: Team | null;
+  onCreated: (teamId: string) => void;
+}
+
+export default function TeamModal({
+  isOpen,
+  onClose,
+  team,
+  onCreated,
+}: TeamModalProps) {
+  const t = useTranslations("TeamModal");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<TeamRole>("member");
+  const [error, setError] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const isEditMode = !!team;
+  const teamId = team?.id;
+  const teamName = team?.name;
+
+  // Reset form when modal opens/closes or team changes
+  useEffect(() => {
+    if (isOpen) {
+      setName(teamName ?? "");
+      setEmail("");
+      setRole("member");
+      setError(null);
+    }
+  }, [isOpen, teamId, teamName]);
+
+  const onError = (error: { message: string }) => {
+    setError(error.message);
+  };
+  const invalidate = () => utils.admin.teamManagement.getAllTeams.invalidate();
+
+  const createTeamMutation = api.admin.teamManagement.createTeam.useMutation({
+    onSuccess: async (created) => {
+      await invalidate();
+      onCreated(created.id);
+    },
+    onError,
+  });
+
+  const updateTeamMutation = api.admin.teamManagement.updateTeam.useMutation({
+    onSuccess: async () => {
+      await invalidate();
+      onClose();
+    },
+    onError,
+  });
+
+  const addTeamMemberMutation =
+    api.admin.teamManagement.addTeamMember.useMutation({
+      onSuccess: async () => {
+        await invalidate();
+        setEmail("");
+        setError(null);
+      },
+      onError,
+    });
+
+  const updateTeamMemberMutation =
+    api.admin.teamManagement.updateTeamMember.useMutation({
+      onSuccess: invalidate,
+      onError,
+    });
+
+  const removeTeamMemberMutation =
+    api.admin.teamManagement.removeTeamMember.useMutation({
+      onSuccess: invalidate,
+      onError,
+    });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!name.trim()) {
+      setError(t("errors.nameRequired"));
+      return;
+    }
+
+    if (team) {
+      updateTeamMutation.mutate({ id: team.id, name });
+    } else {
+      createTeamMutation.mutate({ name });
+    }
+  };
+
+  const handleAddMember = () => {
+    if (team && email.trim()) {
+      addTeamMemberMutation.mutate({ teamId: team.id, email, role });
+    }
+  };
+
+  const handleRemoveMember = (id: string, memberName: string) => {
+    if (confirm(t("confirm.removeMember", { name: memberName }))) {
+      removeTeamMemberMutation.mutate({ id });
+    }
+  };
+
+  const isLoading =
+    createTeamMutation.isPending || updateTeamMutation.isPending;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} placement="center" size="2xl">
+      <ModalContent>
+        <form onSubmit={handleSubmit}>
+          <ModalHeader className="flex flex-col gap-1">
+            {isEditMode ? t("title.edit") : t("title.add")}
+          </ModalHeader>
+          <ModalBody>
+            {error && (
+              <div className="rounded-lg bg-danger-50 p-3 text-sm text-danger">
+                {error}
+              </div>
+            )}
+
+            <Input
+              label={t("fields.name.label")}
+              placeholder={t("fields.name.placeholder")}
+              value={name}
+              onValueChange={setName}
+              isRequired
+              autoFocus
+            />
+
+            {team && (
+              <div className="flex flex-col gap-2">
+                <p className="text-sm font-medium text-default-600">
+                  {t("members.title")}
+                </p>
+                {team.members.length === 0 && (
+                  <p className="text-sm text-default-400">
+                    {t("members.empty")}
+                  </p>
+                )}
+                {team.members.map((member) => {
+                  const memberName =
+                    member.user.name ?? member.user.email ?? member.user.id;
+                  return (
+                    <div
+                      key={member.id}
+                      className="flex items-center justify-between gap-2 rounded-lg bg-default-100 p-2 py-1"
+                    >
+                      <div className="flex min-w-0 items-center gap-2">
+                        <Avatar
+                          size="sm"
+                          src={member.user.image ?? undefined}
+                          name={memberName}
+                          fallback={<User className="h-4 w-4" />}
+                        />
+                        <div className="flex min-w-0 flex-col">
+                          <span className="truncate text-sm font-medium">
+                            {memberName}
+                          </span>
+                          {member.user.name && (
+                            <span className="truncate text-xs text-default-500">
+                              {member.user.email}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Select
+                          size="sm"
+                          aria-label={t("fields.role.label")}
+                          className="w-36"
+                          selectedKeys={[member.role]}
+                          isDisabled={updateTeamMemberMutation.isPending}
+                          onChange={(e) => {
+                            if (isTeamRole(e.target.value)) {
+                              updateTeamMemberMutation.mutate({
+                                id: member.id,
+                                role: e.target.value,
+                              });
+                            }
+                          }}
+                        >
+                          {TEAM_ROLES.map((candidate) => (
+                            <SelectItem key={candidate}>
+                              {t(`roles.${candidate}`)}
+                            </SelectItem>
+                          ))}
+                        </Select>
+                        <Button
+                          size="sm"
+                          variant="light"
+                          color="danger"
+                          isIconOnly
+                          isLoading={
+                            removeTeamMemberMutation.isPending &&
+                            removeTeamMemberMutation.variables.id === member.id
+                          }
+                          onPress={() =>
+                            handleRemoveMember(member.id, memberName)
+                          }
+                          title={t("actions.removeMember")}
+                        >
+                          <Trash2 size={14} />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+
+                <div className="flex gap-2">
+                  <Input
+                    type="email"
+                    size="sm"
+                    label={t("fields.email.label")}
+                    value={email}
+                    onValueChange={setEmail}
+                  />
+                  <Select
+                    size="sm"
+                    label={t("fields.role.label")}
+                    className="w-40"
+                    selectedKeys={[role]}
+                    onChange={(e) => {
+                      if (isTeamRole(e.target.value)) {
+                        setRole(e.target.value);
+                      }
+                    }}
+                  >
+                    {TEAM_ROLES.map((candidate) => (
+                      <SelectItem key={candidate}>
+                        {t(`roles.${candidate}`)}
+                      </SelectItem>
+                    ))}
+                  </Select>
+                </div>
+                <p className="text-xs text-default-500">
+                  {t("members.rolesHint")}
+                </p>
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    color="primary"
+                    variant="flat"
+                    startContent={<UserPlus size={14} />}
+                    isDisabled={!email.trim()}
+                    isLoading={addTeamMemberMutation.isPending}
+                    onPress={handleAddMember}
+                  >
+                    {t("actions.addMember")}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              color="danger"
+              variant="light"
+              onPress={onClose}
+              isDisabled={isLoading}
+            >
+              {t("actions.cancel")}
+            </Button>
+            <Button color="primary" type="submit" isLoading={isLoading}>
+              {isEditMode ? t("actions.update") : t("actions.create")}
+            </Button>
+          </ModalFooter>
+        </form>
+      </ModalContent>
+    </Modal>
+  );
+}
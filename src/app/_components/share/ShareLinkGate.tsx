@@ -0,0 +1,114 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button, Card, CardBody, CardHeader, Input } from "@heroui/react";
+import { Link2Off, Lock } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+
+interface ShareLinkGateProps {
+  token: string;
+}
+
+type GateState =
+  | { type: "opening" }
+  | { type: "password"; isInvalid: boolean }
+  | { type: "unavailable"; reason: string };
+
+/** Opens a share link, asking for its password if it has one */
+export function ShareLinkGate({ token }: ShareLinkGateProps) {
+  const t = useTranslations("ShareLinkGate");
+  const router = useRouter();
+  const [state, setState] = useState<GateState>({ type: "opening" });
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const openLink = useCallback(
+    async (password: string | null) => {
+      const response = await fetch(`/api/share/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      const data = (await response.json().catch(() => ({}))) as {
+        url?: string;
+        error?: string;
+      };
+
+      if (response.ok && data.url) {
+        router.replace(data.url);
+      } else if (response.status === 401) {
+        setState({ type: "password", isInvalid: password !== null });
+      } else if (response.status === 410 && data.error) {
+        setState({ type: "unavailable", reason: data.error });
+      } else {
+        setState({ type: "unavailable", reason: "notFound" });
+      }
+    },
+    [token, router],
+  );
+
+  // Links without a password open right away
+  useEffect(() => {
+    void openLink(null);
+  }, [openLink]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    await openLink(password);
+    setIsSubmitting(false);
+  };
+
+  if (state.type === "opening") {
+    return <p className="text-default-500">{t("opening")}</p>;
+  }
+
+  if (state.type === "unavailable") {
+    const reason = ["expired", "exhausted", "revoked"].includes(state.reason)
+      ? state.reason
+      : "notFound";
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader className="flex items-center gap-2">
+          <Link2Off size={20} className="text-danger" />
+          <h1 className="text-lg font-semibold">{t("unavailable.title")}</h1>
+        </CardHeader>
+        <CardBody>
+          <p className="text-default-500">{t(`unavailable.${reason}`)}</p>
+        </CardBody>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="flex items-center gap-2">
+        <Lock size={20} className="text-primary" />
+        <h1 className="text-lg font-semibold">{t("password.title")}</h1>
+      </CardHeader>
+      <CardBody>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <p className="text-default-500">{t("password.description")}</p>
+          <Input
+            type="password"
+            label={t("password.label")}
+            value={password}
+            onValueChange={setPassword}
+            isInvalid={state.isInvalid}
+            errorMessage={t("password.invalid")}
+            autoFocus
+          />
+          <Button
+            type="submit"
+            color="primary"
+            isLoading={isSubmitting}
+            isDisabled={!password}
+          >
+            {t("password.submit")}
+          </Button>
+        </form>
+      </CardBody>
+    </Card>
+  );
+}
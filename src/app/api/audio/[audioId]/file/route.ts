@@ -1,13 +1,24 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import { readFile, stat } from "node:fs/promises";
+import { stat } from "node:fs/promises";
 import path from "node:path";
 import { db } from "~/server/db";
 import { auth } from "~/server/auth";
+import {
+  getAudioAccess,
+  hasViewAccess,
+  isAudioInFeed,
+} from "~/server/permissions";
+import { getShareLinkIds } from "~/server/shareLink";
+import { SHARE_COOKIE } from "~/lib/shareLink";
+import { FEED_TOKEN_PARAM } from "~/lib/podcastFeed";
 import { env } from "~/env";
+import { createFileResponse } from "~/lib/fileResponse";
+import { getAudioFileCacheControl } from "~/lib/audioUrl";
+import { resolveAudioFile } from "~/lib/audioVersions";
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ audioId: string }> },
 ) {
   try {
@@ -18,9 +29,12 @@ export async function GET(
     const audio = await db.audio.findUnique({
       where: { id: audioId },
       select: {
+        id: true,
+        currentVersionId: true,
         filePath: true,
-        isPublic: true,
-        createdById: true,
+        masterFilePath: true,
+        format: true,
+        processingStatus: true,
         originalFileName: true,
       },
     });
@@ -29,12 +43,31 @@ export async function GET(
       return new NextResponse("Audio not found", { status: 404 });
     }
 
-    // Check access permissions
-    const isCreator = session?.user?.id === audio.createdById;
-    const hasAccess = audio.isPublic || isCreator;
+    // Check access permissions: public audios, audios of the user or shared with them, and share links
+    const access = await getAudioAccess(
+      db,
+      audio.id,
+      session?.user?.id ?? null,
+      getShareLinkIds(request.cookies.get(SHARE_COOKIE)?.value),
+    );
+    // Versions other than the current one are only served to the owner
+    const isCreator = access?.role === "owner";
+    // Podcast apps load the audios of private feeds with the feed token
+    const isInFeed = await isAudioInFeed(
+      db,
+      audio.id,
+      request.nextUrl.searchParams.get(FEED_TOKEN_PARAM),
+    );
+    const hasAccess =
+      isInFeed || (!!access && hasViewAccess(access.audio, access));
 
     // If authentication is required for public content and user is not logged in
-    if (env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT && !session) {
+    if (
+      env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT &&
+      !session &&
+      !access?.shareLink &&
+      !isInFeed
+    ) {
       return new NextResponse("Authentication required", { status: 401 });
     }
 
@@ -42,8 +75,19 @@ export async function GET(
       return new NextResponse("Forbidden", { status: 403 });
     }
 
+    // Public content without sign-in requirement may be stored by shared caches
+    const isPublic =
+      !!access?.audio.isPublic && !env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT;
+
+    // The current file, or the version requested by the owner
+    const versionId = request.nextUrl.searchParams.get("version");
+    const file = await resolveAudioFile(audio, versionId, isCreator);
+    if (!file) {
+      return new NextResponse("Audio version not found", { status: 404 });
+    }
+
     // Construct file path from filename (filePath now contains only filename)
-    const filename = audio.filePath;
+    const filename = file.filePath;
     const fullPath = path.join(process.cwd(), "data", "uploads", filename);
 
     // Check if file exists
@@ -53,18 +97,10 @@ export async function GET(
       return new NextResponse("Audio file not found on disk", { status: 404 });
     }
 
-    // Read the file
-    const fileBuffer = await readFile(fullPath);
-
-    // Return the file with appropriate headers
-    return new NextResponse(fileBuffer as unknown as BodyInit, {
-      status: 200,
-      headers: {
-        "Content-Type": "audio/mpeg",
-        "Content-Length": fileBuffer.length.toString(),
-        "Accept-Ranges": "bytes",
-        "Cache-Control": "public, max-age=31536000, immutable",
-      },
+    // Stream the file, answering range and conditional requests
+    return await createFileResponse(request, fullPath, {
+      contentType: "audio/mpeg",
+      cacheControl: getAudioFileCacheControl(versionId, isPublic),
     });
   } catch (error) {
     console.error("Error serving audio file:", error);
@@ -0,0 +1,114 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import {
+  getAudioAccess,
+  hasViewAccess,
+  isAudioInFeed,
+} from "~/server/permissions";
+import { getShareLinkIds } from "~/server/shareLink";
+import { SHARE_COOKIE } from "~/lib/shareLink";
+import { FEED_TOKEN_PARAM } from "~/lib/podcastFeed";
+import { env } from "~/env";
+import {
+  MARKER_EXPORT_FILE_TYPES,
+  MarkerExportError,
+  exportMarkers,
+  getMarkerExportFileName,
+  isMarkerExportFormat,
+} from "~/lib/markerExport";
+
+/**
+ * Export the markers of an audio as file in the format given by the `format`
+ * query parameter (csv, json, audacity, webvtt or cue).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ audioId: string }> },
+) {
+  try {
+    const { audioId } = await params;
+    const session = await auth();
+
+    const format = request.nextUrl.searchParams.get("format");
+    if (!isMarkerExportFormat(format)) {
+      return new NextResponse("Unsupported export format", { status: 400 });
+    }
+
+    const audio = await db.audio.findUnique({
+      where: { id: audioId, deletedAt: null },
+      select: {
+        name: true,
+        originalFileName: true,
+        duration: true,
+        isPublic: true,
+        markers: {
+          select: {
+            id: true,
+            label: true,
+            timestamp: true,
+            endTimestamp: true,
+            color: true,
+            notes: true,
+          },
+          orderBy: { timestamp: "asc" },
+        },
+      },
+    });
+
+    if (!audio) {
+      return new NextResponse("Audio not found", { status: 404 });
+    }
+
+    // Check access permissions: public audios, audios of the user or shared with them, and share links
+    const access = await getAudioAccess(
+      db,
+      audioId,
+      session?.user?.id ?? null,
+      getShareLinkIds(request.cookies.get(SHARE_COOKIE)?.value),
+    );
+    // Podcast apps load the chapters of private feeds with the feed token
+    const isInFeed = await isAudioInFeed(
+      db,
+      audioId,
+      request.nextUrl.searchParams.get(FEED_TOKEN_PARAM),
+    );
+    const hasAccess =
+      isInFeed || (!!access && hasViewAccess(access.audio, access));
+
+    if (
+      env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT &&
+      !session &&
+      !access?.shareLink &&
+      !isInFeed
+    ) {
+      return new NextResponse("Authentication required", { status: 401 });
+    }
+
+    if (!hasAccess) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    const content = exportMarkers(audio.markers, format, {
+      audioName: audio.name,
+      fileName: audio.originalFileName,
+      duration: audio.duration,
+    });
+    const downloadName = getMarkerExportFileName(audio.name, format);
+
+    return new NextResponse(content, {
+      headers: {
+        "Content-Type": `${MARKER_EXPORT_FILE_TYPES[format].mimeType}; charset=utf-8`,
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(downloadName)}`,
+        "Cache-Control": "private, no-cache",
+      },
+    });
+  } catch (error) {
+    if (error instanceof MarkerExportError) {
+      return new NextResponse(error.message, { status: 422 });
+    }
+    console.error("Error exporting markers:", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
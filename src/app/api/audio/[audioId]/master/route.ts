@@ -0,0 +1,90 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { db } from "~/server/db";
+import { auth } from "~/server/auth";
+import { AUDIO_FORMAT_MIME_TYPES, type AudioFormat } from "~/lib/audioFormat";
+import { createFileResponse } from "~/lib/fileResponse";
+import { resolveAudioFile } from "~/lib/audioVersions";
+import { getAudioAccess } from "~/server/permissions";
+
+/**
+ * Download the original upload (master file) of an audio, or of the version
+ * given by the `version` query parameter.
+ * Only the owner of the audio may download it, for audios of a team its
+ * admins.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ audioId: string }> },
+) {
+  try {
+    const { audioId } = await params;
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return new NextResponse("Authentication required", { status: 401 });
+    }
+
+    const audio = await db.audio.findUnique({
+      where: { id: audioId },
+      select: {
+        id: true,
+        currentVersionId: true,
+        filePath: true,
+        masterFilePath: true,
+        format: true,
+        processingStatus: true,
+        originalFileName: true,
+      },
+    });
+
+    if (!audio) {
+      return new NextResponse("Audio not found", { status: 404 });
+    }
+
+    const access = await getAudioAccess(db, audio.id, session.user.id);
+    if (access?.role !== "owner") {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    const file = await resolveAudioFile(
+      audio,
+      request.nextUrl.searchParams.get("version"),
+      true,
+    );
+    if (!file) {
+      return new NextResponse("Audio version not found", { status: 404 });
+    }
+
+    // Audios uploaded before masters were kept only have the playback file
+    const filename = file.masterFilePath ?? file.filePath;
+    const fullPath = path.join(process.cwd(), "data", "uploads", filename);
+
+    try {
+      await stat(fullPath);
+    } catch {
+      return new NextResponse("Audio file not found on disk", { status: 404 });
+    }
+
+    const contentType = file.masterFilePath
+      ? (AUDIO_FORMAT_MIME_TYPES[file.format as AudioFormat] ??
+        "application/octet-stream")
+      : AUDIO_FORMAT_MIME_TYPES.mp3;
+    const downloadName = file.masterFilePath
+      ? file.originalFileName
+      : `${path.parse(file.originalFileName).name}.mp3`;
+
+    return await createFileResponse(request, fullPath, {
+      contentType,
+      cacheControl: "private, max-age=0, must-revalidate",
+      headers: {
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(downloadName)}`,
+      },
+    });
+  } catch (error) {
+    console.error("Error serving master file:", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -4,11 +4,16 @@ import { readFile, stat } from "node:fs/promises";
 import path from "node:path";
 import { db } from "~/server/db";
 import { auth } from "~/server/auth";
+import { getAudioAccess, hasViewAccess } from "~/server/permissions";
+import { getShareLinkIds } from "~/server/shareLink";
+import { SHARE_COOKIE } from "~/lib/shareLink";
 import { env } from "~/env";
-import { generateAndSavePeaks } from "~/lib/peaks";
+import { enqueueJob } from "~/lib/jobs/queue";
+import { getAudioFileCacheControl } from "~/lib/audioUrl";
+import { resolveAudioFile } from "~/lib/audioVersions";
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ audioId: string }> },
 ) {
   try {
@@ -19,9 +24,13 @@ export async function GET(
     const audio = await db.audio.findUnique({
       where: { id: audioId },
       select: {
+        id: true,
+        currentVersionId: true,
         filePath: true,
-        isPublic: true,
-        createdById: true,
+        masterFilePath: true,
+        format: true,
+        processingStatus: true,
+        originalFileName: true,
       },
     });
 
@@ -29,11 +38,18 @@ export async function GET(
       return new NextResponse("Audio not found", { status: 404 });
     }
 
-    // Check access permissions
-    const isCreator = session?.user?.id === audio.createdById;
-    const hasAccess = audio.isPublic || isCreator;
+    // Check access permissions: public audios, audios of the user or shared with them, and share links
+    const access = await getAudioAccess(
+      db,
+      audio.id,
+      session?.user?.id ?? null,
+      getShareLinkIds(request.cookies.get(SHARE_COOKIE)?.value),
+    );
+    // Versions other than the current one are only served to the owner
+    const isCreator = access?.role === "owner";
+    const hasAccess = !!access && hasViewAccess(access.audio, access);
 
-    if (env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT && !session) {
+    if (env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT && !session && !access?.shareLink) {
       return new NextResponse("Authentication required", { status: 401 });
     }
 
@@ -41,37 +57,48 @@ export async function GET(
       return new NextResponse("Forbidden", { status: 403 });
     }
 
+    // Public content without sign-in requirement may be stored by shared caches
+    const isPublic =
+      !!access?.audio.isPublic && !env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT;
+
+    // The current file, or the version requested by the owner
+    const versionId = request.nextUrl.searchParams.get("version");
+    const file = await resolveAudioFile(audio, versionId, isCreator);
+    if (!file) {
+      return new NextResponse("Audio version not found", { status: 404 });
+    }
+
     // Construct peaks file path: same name as audio file but with .json extension
-    const audioFileName = audio.filePath;
+    const audioFileName = file.filePath;
     const parsed = path.parse(audioFileName);
     const peaksFileName = `${parsed.name}.json`;
     const fullPath = path.join(process.cwd(), "data", "uploads", peaksFileName);
 
-    // Check if peaks file exists; if not, generate on the fly from the audio file
+    // Peaks are generated by a background job. If they are missing (e.g. for
+    // older uploads), queue the generation; meanwhile the player decodes the
+    // audio in the browser.
     try {
       await stat(fullPath);
     } catch {
-      // Peaks file doesn't exist — try to generate it from the audio file
-      const audioFullPath = path.join(
-        process.cwd(),
-        "data",
-        "uploads",
-        audioFileName,
-      );
-      try {
-        await stat(audioFullPath);
-      } catch {
-        return new NextResponse("Audio file not found on disk", {
-          status: 404,
+      // A permanently failed generation is only retried when an admin re-queues it
+      const hasFailedJob = await db.job.count({
+        where: {
+          type: "generate-peaks",
+          versionId: file.versionId,
+          status: "failed",
+        },
+      });
+      if (
+        file.processingStatus === "ready" &&
+        file.versionId &&
+        !hasFailedJob
+      ) {
+        await enqueueJob("generate-peaks", {
+          audioId: audio.id,
+          versionId: file.versionId,
         });
       }
-
-      try {
-        await generateAndSavePeaks(audioFullPath);
-      } catch (genError) {
-        console.error("On-the-fly peak generation failed:", genError);
-        return new NextResponse("Peak generation failed", { status: 500 });
-      }
+      return new NextResponse("Peaks not available yet", { status: 404 });
     }
 
     // Read and return the peaks JSON
@@ -81,7 +108,7 @@ export async function GET(
       status: 200,
       headers: {
         "Content-Type": "application/json",
-        "Cache-Control": "public, max-age=31536000, immutable",
+        "Cache-Control": getAudioFileCacheControl(versionId, isPublic),
       },
     });
   } catch (error) {
@@ -0,0 +1,102 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { db } from "~/server/db";
+import { getRequestOrigin } from "~/server/requestOrigin";
+import { env } from "~/env";
+import {
+  DEFAULT_EMBED_SIZES,
+  fitEmbedSize,
+  getEmbedIframeHtml,
+  getEmbedUrl,
+  parseEmbeddableUrl,
+  type EmbedResource,
+} from "~/lib/embed";
+
+function parseDimension(value: string | null): number | null {
+  const dimension = Number(value);
+  return value && Number.isInteger(dimension) ? dimension : null;
+}
+
+/** Public audios and playlists with their title and author */
+async function findEmbeddable(resource: EmbedResource) {
+  const select = {
+    name: true,
+    isPublic: true,
+    createdBy: { select: { name: true } },
+  } as const;
+  return resource.type === "audio"
+    ? db.audio.findUnique({
+        where: { id: resource.id, deletedAt: null },
+        select,
+      })
+    : db.playlist.findUnique({
+        where: { id: resource.id, deletedAt: null },
+        select,
+      });
+}
+
+/**
+ * oEmbed endpoint (https://oembed.com) for listen pages of public audios and
+ * playlists, answers with an iframe of the embed page. Private content is not
+ * embeddable, share links are meant for single listeners.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    const format = searchParams.get("format") ?? "json";
+    if (format !== "json") {
+      return new NextResponse("Only the json format is supported", {
+        status: 501,
+      });
+    }
+
+    const origin = await getRequestOrigin();
+    const url = searchParams.get("url");
+    const resource = url ? parseEmbeddableUrl(url, origin) : null;
+    if (!url || !resource) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    const item = await findEmbeddable(resource);
+    if (!item) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+    if (!item.isPublic || env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const size = fitEmbedSize(
+      DEFAULT_EMBED_SIZES[resource.type],
+      parseDimension(searchParams.get("maxwidth")),
+      parseDimension(searchParams.get("maxheight")),
+    );
+
+    return NextResponse.json(
+      {
+        version: "1.0",
+        type: "rich",
+        provider_name: "Audio Marker",
+        provider_url: origin,
+        title: item.name,
+        ...(item.createdBy.name && { author_name: item.createdBy.name }),
+        html: getEmbedIframeHtml(
+          getEmbedUrl(origin, url, resource),
+          item.name,
+          size,
+        ),
+        width: size.width,
+        height: size.height,
+      },
+      {
+        headers: {
+          "Access-Control-Allow-Origin": "*",
+          "Cache-Control": "public, max-age=300",
+        },
+      },
+    );
+  } catch (error) {
+    console.error("Error creating oEmbed response:", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "~/server/db";
+import { env } from "~/env";
+import {
+  addShareGrant,
+  getShareLinkStatus,
+  SHARE_COOKIE,
+} from "~/lib/shareLink";
+import {
+  getShareLinkIds,
+  signShareGrant,
+  verifySharePassword,
+} from "~/server/shareLink";
+
+/** Listeners keep access for a year, unless the link expires or is revoked */
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+const openShareLinkSchema = z.object({
+  password: z.string().nullish(),
+});
+
+/**
+ * Open a share link: checks the password and the remaining uses, counts the
+ * access and stores a grant in the share cookie. Listeners who opened the
+ * link before are not counted again.
+ * @returns The URL of the shared audio or playlist
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> },
+) {
+  try {
+    const { token } = await params;
+    const parsed = openShareLinkSchema.safeParse(
+      await req.json().catch(() => null),
+    );
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+
+    const link = await db.shareLink.findUnique({
+      where: { token },
+      select: {
+        id: true,
+        audioId: true,
+        playlistId: true,
+        expiresAt: true,
+        passwordHash: true,
+        maxUses: true,
+        useCount: true,
+        revokedAt: true,
+        audio: { select: { deletedAt: true } },
+        playlist: { select: { deletedAt: true } },
+      },
+    });
+    const resource = link?.audio ?? link?.playlist;
+    if (!link || !resource || resource.deletedAt) {
+      return NextResponse.json(
+        { error: "Share link not found" },
+        { status: 404 },
+      );
+    }
+
+    const url = link.audioId
+      ? `/audios/${link.audioId}/listen`
+      : `/playlists/${link.playlistId}/listen`;
+
+    const cookieValue = req.cookies.get(SHARE_COOKIE)?.value;
+    const status = getShareLinkStatus(link);
+    const isOpened = getShareLinkIds(cookieValue).includes(link.id);
+    // Listeners who opened the link keep access after the last use
+    if (status !== "active" && !(status === "exhausted" && isOpened)) {
+      return NextResponse.json({ error: status }, { status: 410 });
+    }
+    if (isOpened) {
+      return NextResponse.json({ url });
+    }
+
+    if (
+      link.passwordHash &&
+      !(await verifySharePassword(
+        parsed.data.password ?? "",
+        link.passwordHash,
+      ))
+    ) {
+      return NextResponse.json({ error: "Invalid password" }, { status: 401 });
+    }
+
+    // Counted only while uses are left, in case of concurrent requests
+    const { count } = await db.shareLink.updateMany({
+      where: {
+        id: link.id,
+        OR: [
+          { maxUses: null },
+          { maxUses: { gt: db.shareLink.fields.useCount } },
+        ],
+      },
+      data: { useCount: { increment: 1 }, lastUsedAt: new Date() },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "exhausted" }, { status: 410 });
+    }
+
+    const response = NextResponse.json({ url });
+    response.cookies.set(
+      SHARE_COOKIE,
+      addShareGrant(cookieValue, link.id, signShareGrant(link.id)),
+      {
+        path: "/",
+        maxAge: COOKIE_MAX_AGE,
+        httpOnly: true,
+        sameSite: "lax",
+        secure: env.NODE_ENV === "production",
+      },
+    );
+    return response;
+  } catch (error) {
+    console.error("Error opening share link:", error);
+    return NextResponse.json(
+      { error: "Failed to open share link" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { getAudioAccess, getTeamRole } from "~/server/permissions";
+import { canCreateInTeam } from "~/lib/team";
+import {
+  AudioImportError,
+  addAudioVersion,
+  importAudioFile,
+} from "~/lib/audioImport";
+import {
+  deleteUploadSession,
+  findUserUploadSession,
+  getUploadOffset,
+  getUploadTempPath,
+} from "~/lib/uploadSession";
+
+const completeUploadSchema = z.object({
+  /** Seconds added to all markers when the file of an audio is replaced */
+  markerOffset: z.number().finite().optional(),
+});
+
+/**
+ * Finish an upload once all bytes were received: validate the file and
+ * create the audio from it, or add it as new version of the audio the upload
+ * was started for. The permissions are checked again, since they may have
+ * changed during the upload. The upload session is removed afterwards, also
+ * when the file turns out not to be a usable audio file or the user lost
+ * access.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> },
+) {
+  try {
+    const { uploadId } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const uploadSession = await findUserUploadSession(
+      uploadId,
+      session.user.id,
+    );
+    if (!uploadSession) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    const parsed = completeUploadSchema.safeParse(
+      await request.json().catch(() => ({})),
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid marker offset" },
+        { status: 400 },
+      );
+    }
+
+    const offset = await getUploadOffset(uploadSession.id);
+    if (offset !== uploadSession.fileSize) {
+      return NextResponse.json(
+        { error: "Upload is incomplete", offset },
+        { status: 409 },
+      );
+    }
+
+    try {
+      // Roles may have changed while the file was uploaded
+      const isAllowed = uploadSession.audioId
+        ? (await getAudioAccess(db, uploadSession.audioId, session.user.id))
+            ?.role === "owner"
+        : !uploadSession.teamId ||
+          canCreateInTeam(
+            await getTeamRole(db, uploadSession.teamId, session.user.id),
+          );
+      if (!isAllowed) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      if (uploadSession.audioId) {
+        const { number, markersBeyondEnd } = await addAudioVersion({
+          audioId: uploadSession.audioId,
+          sourcePath: getUploadTempPath(uploadSession.id),
+          originalFileName: uploadSession.fileName,
+          // The description of an upload for an existing audio is the version note
+          note: uploadSession.description,
+          createdById: session.user.id,
+          markerOffset: parsed.data.markerOffset,
+        });
+
+        return NextResponse.json({
+          success: true,
+          id: uploadSession.audioId,
+          version: number,
+          markersBeyondEnd,
+        });
+      }
+
+      const id = await importAudioFile({
+        sourcePath: getUploadTempPath(uploadSession.id),
+        originalFileName: uploadSession.fileName,
+        name: uploadSession.name,
+        description: uploadSession.description,
+        createdById: session.user.id,
+        teamId: uploadSession.teamId,
+      });
+
+      return NextResponse.json({ success: true, id });
+    } finally {
+      await deleteUploadSession(uploadSession.id);
+    }
+  } catch (error) {
+    if (error instanceof AudioImportError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    console.error("File upload error:", error);
+    return NextResponse.json({ error: "Upload failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+vi.mock("~/server/auth", () => ({
+  auth: vi.fn(async () => ({ user: { id: "user-1" } })),
+}));
+vi.mock("~/server/db", () => ({ db: {} }));
+vi.mock("~/lib/uploadSession", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("~/lib/uploadSession")>()),
+  findUserUploadSession: vi.fn(),
+  appendUploadChunk: vi.fn(),
+}));
+
+import {
+  UPLOAD_CHUNK_SIZE,
+  appendUploadChunk,
+  findUserUploadSession,
+} from "~/lib/uploadSession";
+import { PATCH } from "./route";
+
+/** Body sent in pieces, like a chunked request without a length */
+function streamOf(size: number): ReadableStream<Uint8Array> {
+  let sent = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (sent >= size) {
+        controller.close();
+        return;
+      }
+      const piece = new Uint8Array(Math.min(64 * 1024, size - sent));
+      sent += piece.length;
+      controller.enqueue(piece);
+    },
+  });
+}
+
+function patch(body: ReadableStream<Uint8Array>, headers: HeadersInit) {
+  return PATCH(
+    new NextRequest("http://localhost/api/upload/upload-1", {
+      method: "PATCH",
+      body,
+      headers: { "Upload-Offset": "0", ...headers },
+      duplex: "half",
+    }),
+    { params: Promise.resolve({ uploadId: "upload-1" }) },
+  );
+}
+
+describe("PATCH /api/upload/[uploadId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(findUserUploadSession).mockResolvedValue({
+      id: "upload-1",
+      fileSize: 10 * UPLOAD_CHUNK_SIZE,
+    } as never);
+    vi.mocked(appendUploadChunk).mockImplementation(
+      async (_session, offset, chunk) => ({
+        status: "ok",
+        offset: offset + chunk.length,
+      }),
+    );
+  });
+
+  it("should reject an oversized body without Content-Length", async () => {
+    const response = await patch(streamOf(UPLOAD_CHUNK_SIZE * 4), {});
+
+    expect(response.status).toBe(411);
+    expect(appendUploadChunk).not.toHaveBeenCalled();
+  });
+
+  it("should stop reading a body larger than its Content-Length", async () => {
+    const response = await patch(streamOf(UPLOAD_CHUNK_SIZE * 4), {
+      "Content-Length": "1024",
+    });
+
+    expect(response.status).toBe(413);
+    expect(appendUploadChunk).not.toHaveBeenCalled();
+  });
+
+  it("should reject a Content-Length above the chunk size", async () => {
+    const response = await patch(streamOf(1024), {
+      "Content-Length": String(UPLOAD_CHUNK_SIZE + 1),
+    });
+
+    expect(response.status).toBe(413);
+  });
+
+  it("should append a chunk within the limit", async () => {
+    const response = await patch(streamOf(UPLOAD_CHUNK_SIZE), {
+      "Content-Length": String(UPLOAD_CHUNK_SIZE),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ offset: UPLOAD_CHUNK_SIZE });
+  });
+});
@@ -0,0 +1,152 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { auth } from "~/server/auth";
+import {
+  UPLOAD_CHUNK_SIZE,
+  appendUploadChunk,
+  deleteUploadSession,
+  findUserUploadSession,
+  readChunkBody,
+  toUploadSessionInfo,
+} from "~/lib/uploadSession";
+
+type RouteContext = { params: Promise<{ uploadId: string }> };
+
+/**
+ * Get the state of an upload, most importantly the number of bytes
+ * already received (`offset`) to resume from.
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { uploadId } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const uploadSession = await findUserUploadSession(
+      uploadId,
+      session.user.id,
+    );
+    if (!uploadSession) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await toUploadSessionInfo(uploadSession));
+  } catch (error) {
+    console.error("Error getting upload:", error);
+    return NextResponse.json({ error: "Upload failed" }, { status: 500 });
+  }
+}
+
+/**
+ * Append a chunk to an upload. The request body holds the raw bytes with a
+ * `Content-Length`, and the `Upload-Offset` header the position of the chunk
+ * within the file.
+ * A wrong offset is answered with 409 and the offset to continue from.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { uploadId } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const offsetHeader = request.headers.get("upload-offset") ?? "";
+    if (!/^\d+$/.test(offsetHeader)) {
+      return NextResponse.json(
+        { error: "Upload-Offset header is required" },
+        { status: 400 },
+      );
+    }
+
+    // Reject oversized chunks before reading them into memory
+    const lengthHeader = request.headers.get("content-length") ?? "";
+    if (!/^\d+$/.test(lengthHeader)) {
+      return NextResponse.json(
+        { error: "Content-Length header is required" },
+        { status: 411 },
+      );
+    }
+    if (Number(lengthHeader) > UPLOAD_CHUNK_SIZE) {
+      return NextResponse.json(
+        { error: "Chunk exceeds the upload size" },
+        { status: 413 },
+      );
+    }
+
+    const uploadSession = await findUserUploadSession(
+      uploadId,
+      session.user.id,
+    );
+    if (!uploadSession) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    // The announced length is not trusted, the body is read up to the limit
+    const chunk = await readChunkBody(request.body, UPLOAD_CHUNK_SIZE);
+    if (!chunk) {
+      return NextResponse.json(
+        { error: "Chunk exceeds the upload size" },
+        { status: 413 },
+      );
+    }
+    const result = await appendUploadChunk(
+      uploadSession,
+      Number(offsetHeader),
+      chunk,
+    );
+
+    switch (result.status) {
+      case "ok":
+        return NextResponse.json({ offset: result.offset });
+      case "offset-mismatch":
+        return NextResponse.json(
+          { error: "Upload offset mismatch", offset: result.offset },
+          { status: 409 },
+        );
+      case "busy":
+        return NextResponse.json(
+          { error: "Another chunk is being uploaded" },
+          { status: 409 },
+        );
+      case "too-large":
+        return NextResponse.json(
+          { error: "Chunk exceeds the upload size" },
+          { status: 413 },
+        );
+    }
+  } catch (error) {
+    console.error("Error appending upload chunk:", error);
+    return NextResponse.json({ error: "Upload failed" }, { status: 500 });
+  }
+}
+
+/**
+ * Abort an upload and remove the received data.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { uploadId } = await params;
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const uploadSession = await findUserUploadSession(
+      uploadId,
+      session.user.id,
+    );
+    if (!uploadSession) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    await deleteUploadSession(uploadSession.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error aborting upload:", error);
+    return NextResponse.json({ error: "Upload failed" }, { status: 500 });
+  }
+}
@@ -1,13 +1,70 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
+import path from "node:path";
+import { z } from "zod";
 import { auth } from "~/server/auth";
 import { db } from "~/server/db";
-import { writeFile } from "node:fs/promises";
-import { v4 as uuidv4 } from "uuid";
-import path from "node:path";
-import { generateAndSavePeaks } from "~/lib/peaks";
-import { replaceWithCbrMp3 } from "~/lib/audioReencode";
+import { env } from "~/env";
+import { SUPPORTED_AUDIO_EXTENSIONS } from "~/lib/audioFormat";
+import {
+  cleanupAbandonedUploads,
+  createUploadSession,
+  toUploadSessionInfo,
+} from "~/lib/uploadSession";
+import { canCreateInTeam } from "~/lib/team";
+import { getAudioAccess, getTeamRole } from "~/server/permissions";
+
+const createUploadSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().max(500).nullish(),
+  fileName: z.string().min(1),
+  fileSize: z.number().int().positive(),
+  audioId: z.string().nullish(),
+  /** Team the new audio is created for, ignored for new versions */
+  teamId: z.string().nullish(),
+});
+
+/**
+ * List the unfinished uploads of the current user, so they can be resumed.
+ * With the `audioId` query parameter, the uploads replacing the file of that
+ * audio are listed, otherwise the uploads of new audios.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await cleanupAbandonedUploads();
+
+    const uploads = await db.uploadSession.findMany({
+      where: {
+        createdById: session.user.id,
+        audioId: req.nextUrl.searchParams.get("audioId"),
+      },
+      orderBy: { updatedAt: "desc" },
+    });
 
+    return NextResponse.json({
+      maxFileSize: env.MAX_UPLOAD_SIZE_MB * 1024 * 1024,
+      uploads: await Promise.all(uploads.map(toUploadSessionInfo)),
+    });
+  } catch (error) {
+    console.error("Error listing uploads:", error);
+    return NextResponse.json(
+      { error: "Failed to list uploads" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Start a resumable upload. The file is sent afterwards in chunks via
+ * `PATCH /api/upload/[uploadId]` and turned into an audio by
+ * `POST /api/upload/[uploadId]/complete`. If `audioId` is given, the upload
+ * becomes a new version of that audio instead.
+ */
 export async function POST(req: NextRequest) {
   try {
     // Check authentication
@@ -16,81 +73,67 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Parse form data
-    const formData = await req.formData();
-    const name = formData.get("name") as string;
-    const description = formData.get("description") as string | null;
-    const file = formData.get("file") as File;
-
-    if (!name || !file) {
+    const parsed = createUploadSchema.safeParse(
+      await req.json().catch(() => null),
+    );
+    if (!parsed.success) {
       return NextResponse.json(
         { error: "Name and file are required" },
         { status: 400 },
       );
     }
+    const { name, description, fileName, fileSize, audioId, teamId } =
+      parsed.data;
 
-    // Validate file size (50MB limit)
-    const maxSize = 50 * 1024 * 1024;
-    if (file.size > maxSize) {
+    // Validate file size
+    if (fileSize > env.MAX_UPLOAD_SIZE_MB * 1024 * 1024) {
       return NextResponse.json(
-        { error: "File size must be less than 50MB" },
-        { status: 400 },
+        { error: `File size must be less than ${env.MAX_UPLOAD_SIZE_MB}MB` },
+        { status: 413 },
       );
     }
 
-    // Validate file extension
-    const fileExtension = path.extname(file.name).toLowerCase();
-    if (fileExtension !== ".mp3") {
+    // Validate file extension (the content is validated on completion)
+    const fileExtension = path.extname(fileName).toLowerCase();
+    if (!SUPPORTED_AUDIO_EXTENSIONS.includes(fileExtension)) {
       return NextResponse.json(
-        { error: "Only .mp3 files are allowed" },
+        {
+          error: "Only MP3, WAV, FLAC, OGG, Opus and M4A/AAC files are allowed",
+        },
         { status: 400 },
       );
     }
 
-    // Generate unique ID and file path
-    const id = uuidv4();
-    const outFileName = `${id}${fileExtension}`;
-    const filePath = path.join(process.cwd(), "data", "uploads", outFileName);
-
-    // Convert file to buffer and save
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    await writeFile(filePath, buffer);
-
-    // Re-encode to CBR MP3 for browser compatibility
-    try {
-      await replaceWithCbrMp3(filePath);
-    } catch (reencodeError) {
-      console.warn("CBR re-encode failed (non-fatal):", reencodeError);
-      // Non-fatal: original file is kept
+    if (audioId) {
+      // New versions are uploaded by the owner, for audios of a team its admins
+      const access = await getAudioAccess(db, audioId, session.user.id);
+      if (access?.role !== "owner") {
+        return NextResponse.json({ error: "Audio not found" }, { status: 404 });
+      }
+    } else if (
+      teamId &&
+      !canCreateInTeam(await getTeamRole(db, teamId, session.user.id))
+    ) {
+      return NextResponse.json({ error: "Team not found" }, { status: 404 });
     }
 
-    // Generate waveform peaks JSON for performant rendering
-    try {
-      await generateAndSavePeaks(filePath);
-    } catch (peakError) {
-      console.warn("Peak generation failed (non-fatal):", peakError);
-      // Non-fatal: audio still works without pre-generated peaks
-    }
+    await cleanupAbandonedUploads();
 
-    // Create database record (store only filename)
-    const audio = await db.audio.create({
-      data: {
-        id,
-        name,
-        description: description ?? undefined,
-        originalFileName: file.name,
-        filePath: outFileName,
-        createdById: session.user.id,
-      },
+    const uploadSession = await createUploadSession({
+      name,
+      description,
+      fileName,
+      fileSize,
+      audioId,
+      teamId: audioId ? null : teamId,
+      createdById: session.user.id,
     });
 
-    return NextResponse.json({
-      success: true,
-      id: audio.id,
+    return NextResponse.json(await toUploadSessionInfo(uploadSession), {
+      status: 201,
     });
   } catch (error) {
-    console.error("File upload error:", error);
+    console.error("Error starting upload:", error);
     return NextResponse.json({ error: "Upload failed" }, { status: 500 });
   }
 }
@@ -0,0 +1,54 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "~/server/auth";
+import { db } from "~/server/db";
+import { WORKSPACE_COOKIE } from "~/lib/team";
+import { getTeamRole } from "~/server/permissions";
+
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+const workspaceSchema = z.object({
+  /** The team whose library the dashboard shows, null for the personal one */
+  teamId: z.string().nullable(),
+});
+
+/** Switch the workspace of the dashboard, stored in the workspace cookie */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = workspaceSchema.safeParse(
+      await req.json().catch(() => null),
+    );
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid workspace" }, { status: 400 });
+    }
+    const { teamId } = parsed.data;
+
+    if (teamId && !(await getTeamRole(db, teamId, session.user.id))) {
+      return NextResponse.json({ error: "Team not found" }, { status: 404 });
+    }
+
+    const response = NextResponse.json({ teamId });
+    if (teamId) {
+      response.cookies.set(WORKSPACE_COOKIE, teamId, {
+        path: "/",
+        maxAge: COOKIE_MAX_AGE,
+        sameSite: "lax",
+      });
+    } else {
+      response.cookies.delete(WORKSPACE_COOKIE);
+    }
+    return response;
+  } catch (error) {
+    console.error("Error switching workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to switch workspace" },
+      { status: 500 },
+    );
+  }
+}
@@ -7,6 +7,7 @@ import { Suspense } from "react";
 import { EditAudioForm } from "~/app/_components/audio/edit/EditAudioForm";
 import Link from "next/link";
 import { Play, BarChart3 } from "lucide-react";
+import { hasRole } from "~/lib/collaboration";
 
 interface EditAudioPageProps {
   params: Promise<{ audioId: string }>;
@@ -19,6 +20,17 @@ export default async function EditAudioPage({ params }: EditAudioPageProps) {
     return null;
   }
 
+  // Only collaborators who may edit markers open the edit page
+  const audio = await api.audio
+    .getUserAudioById({ id: audioId })
+    .catch((error: unknown) => {
+      console.error("Error fetching audio data:", error);
+      return null;
+    });
+  if (!audio || !hasRole(audio.role, "marker-editor")) {
+    notFound();
+  }
+
   // Prefetch the audio data
   try {
     void api.audio.getUserAudioById.prefetch({ id: audioId });
@@ -39,13 +51,15 @@ export default async function EditAudioPage({ params }: EditAudioPageProps) {
             <Play size={18} />
             Preview
           </Link>
-          <Link
-            href={`/audios/${audioId}/statistics`}
-            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-warning bg-warning/10 hover:bg-warning/20 rounded-lg transition-colors"
-          >
-            <BarChart3 size={18} />
-            Statistics
-          </Link>
+          {hasRole(audio.role, "editor") && (
+            <Link
+              href={`/audios/${audioId}/statistics`}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-warning bg-warning/10 hover:bg-warning/20 rounded-lg transition-colors"
+            >
+              <BarChart3 size={18} />
+              Statistics
+            </Link>
+          )}
         </div>
       </div>
       <HydrateClient>
@@ -56,7 +70,7 @@ export default async function EditAudioPage({ params }: EditAudioPageProps) {
             </div>
           }
         >
-          <EditAudioForm audioId={audioId} />
+          {hasRole(audio.role, "editor") && <EditAudioForm audioId={audioId} />}
           <EditPageContainer audioId={audioId} />
         </Suspense>
       </HydrateClient>
@@ -0,0 +1,19 @@
+import {
+  getAudioOpenGraphCard,
+  renderOpenGraphImage,
+} from "~/server/openGraphImage";
+import { OG_IMAGE_SIZE } from "~/lib/openGraph";
+
+export const alt = "Waveform and markers of the audio";
+export const size = OG_IMAGE_SIZE;
+export const contentType = "image/png";
+
+interface ImageProps {
+  params: Promise<{ audioId: string }>;
+}
+
+/** Link preview of the listen page, private audios get the card of the app */
+export default async function Image({ params }: ImageProps) {
+  const { audioId } = await params;
+  return renderOpenGraphImage(await getAudioOpenGraphCard(audioId));
+}
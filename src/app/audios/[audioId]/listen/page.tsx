@@ -1,3 +1,4 @@
+import type { Metadata } from "next";
 import { api } from "~/trpc/server";
 import ListenOnlyAudioPlayer from "~/app/_components/audio/listen/ListenOnlyAudioPlayer";
 import { notFound } from "next/navigation";
@@ -6,36 +7,66 @@ import { VisibilityBanner } from "~/app/_components/global/VisibilityBanner";
 import { env } from "~/env";
 import { BarChart3, Edit } from "lucide-react";
 import Link from "next/link";
+import type { AudioProcessingStatus } from "~/types/Audio";
+import { getAudioFileUrls } from "~/lib/audioUrl";
+import { canView, hasRole } from "~/lib/collaboration";
+import { getOEmbedAlternates } from "~/server/embed";
+import { getPreviewDescription } from "~/lib/openGraph";
 
 interface ListenPageProps {
   params: Promise<{ audioId: string }>;
 }
 
+/**
+ * Public audios and audios opened through a share link are available without
+ * a role of the user
+ */
+async function getAudioWithoutRole(audioId: string) {
+  const audio = await api.audio.getPublicAudioById({ id: audioId });
+  return { ...audio, role: null };
+}
+
+/** An audio of the user or shared with them, otherwise without a role */
+async function getAudio(audioId: string, isSignedIn: boolean) {
+  if (!isSignedIn) {
+    return getAudioWithoutRole(audioId);
+  }
+  return api.audio
+    .getUserAudioById({ id: audioId })
+    .then((audio) => ({ ...audio, shareLink: null }))
+    .catch(() => getAudioWithoutRole(audioId));
+}
+
 export default async function ListenPage({ params }: ListenPageProps) {
   const { audioId } = await params;
   const session = await auth();
 
-  // If authentication is required for public content and user is not logged in, redirect to not found
-  if (env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT && !session) {
-    notFound();
-  }
-
   try {
-    const audio = session
-      ? await api.audio.getUserAudioById({ id: audioId })
-      : await api.audio.getPublicAudioById({ id: audioId });
+    const audio = await getAudio(audioId, !!session);
+
+    // If authentication is required for public content and user is not logged
+    // in, only share links give access
+    if (env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT && !session && !audio.shareLink) {
+      notFound();
+    }
     void api.marker.getMarkers.prefetch({ audioId: audio.id });
 
     // Check if user has access
-    const isCreator = session?.user?.id === audio.createdById;
-    if (!(audio.isPublic || isCreator)) {
+    const role = audio.role;
+    const isCreator = role === "owner";
+    if (!canView(audio, role) && !audio.shareLink) {
       notFound();
     }
 
+    const { audioUrl, peaksUrl } = getAudioFileUrls(
+      audio.id,
+      audio.currentVersionId,
+    );
+
     return (
       <div className="w-full flex flex-col items-center mx-auto py-8">
         <VisibilityBanner isPublic={audio.isPublic} isCreator={isCreator} />
-        {isCreator && (
+        {hasRole(role, "marker-editor") && (
           <div className="w-full flex justify-center gap-2 max-w-4xl px-4 mb-4">
             <Link
               href={`/audios/${audio.id}/edit`}
@@ -44,22 +75,28 @@ export default async function ListenPage({ params }: ListenPageProps) {
               <Edit size={18} />
               Edit Audio
             </Link>
-            <Link
-              href={`/audios/${audioId}/statistics`}
-              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-warning bg-warning/10 hover:bg-warning/20 rounded-lg transition-colors"
-            >
-              <BarChart3 size={18} />
-              Statistics
-            </Link>
+            {hasRole(role, "editor") && (
+              <Link
+                href={`/audios/${audioId}/statistics`}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-warning bg-warning/10 hover:bg-warning/20 rounded-lg transition-colors"
+              >
+                <BarChart3 size={18} />
+                Statistics
+              </Link>
+            )}
           </div>
         )}
         <ListenOnlyAudioPlayer
-          audioUrl={`/api/audio/${audio.id}/file`}
-          peaksUrl={`/api/audio/${audio.id}/peaks`}
+          audioUrl={audioUrl}
+          peaksUrl={peaksUrl}
           audioName={audio.name}
           audioDescription={audio.description}
           audioReadOnlyToken={audio.id}
           audioId={audio.id}
+          processingStatus={audio.processingStatus as AudioProcessingStatus}
+          canSwitchVersions={isCreator}
+          canPromoteMarkers={hasRole(role, "marker-editor")}
+          canAddMarkers={audio.shareLink?.allowBrowserMarkers ?? true}
         />
       </div>
     );
@@ -69,16 +106,32 @@ export default async function ListenPage({ params }: ListenPageProps) {
   }
 }
 
-export async function generateMetadata({ params }: ListenPageProps) {
+export async function generateMetadata({
+  params,
+}: ListenPageProps): Promise<Metadata> {
   const { audioId } = await params;
   const session = await auth();
   try {
-    const audio = session
-      ? await api.audio.getUserAudioById({ id: audioId })
-      : await api.audio.getPublicAudioById({ id: audioId });
+    const audio = await getAudio(audioId, !!session);
+    const description = getPreviewDescription(
+      audio.description,
+      `Listen to ${audio.name}`,
+    );
     return {
       title: `${audio.name} - Audio Marker`,
-      description: audio.description ?? `Listen to ${audio.name}`,
+      description,
+      openGraph: {
+        type: "music.song",
+        siteName: "Audio Marker",
+        title: audio.name,
+        description,
+      },
+      twitter: {
+        card: "summary_large_image",
+        title: audio.name,
+        description,
+      },
+      alternates: await getOEmbedAlternates({ type: "audio", ...audio }),
     };
   } catch {
     return {
@@ -0,0 +1,56 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { api } from "~/trpc/server";
+import { auth } from "~/server/auth";
+import { env } from "~/env";
+import { EmbedPlayer } from "~/app/_components/embed/EmbedPlayer";
+import { getAudioFileUrls } from "~/lib/audioUrl";
+import type { AudioProcessingStatus } from "~/types/Audio";
+
+interface EmbedAudioPageProps {
+  params: Promise<{ audioId: string }>;
+}
+
+/**
+ * Player of an audio for iframes in other sites. Only public audios and audios
+ * opened through a share link can be embedded.
+ */
+export default async function EmbedAudioPage({ params }: EmbedAudioPageProps) {
+  const { audioId } = await params;
+  const session = await auth();
+
+  try {
+    const audio = await api.audio.getPublicAudioById({ id: audioId });
+
+    if (env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT && !session && !audio.shareLink) {
+      notFound();
+    }
+    void api.marker.getMarkers.prefetch({ audioId: audio.id });
+
+    const { audioUrl, peaksUrl } = getAudioFileUrls(
+      audio.id,
+      audio.currentVersionId,
+    );
+
+    return (
+      <EmbedPlayer
+        audioUrl={audioUrl}
+        peaksUrl={peaksUrl}
+        audioName={audio.name}
+        audioDescription={audio.description}
+        audioId={audio.id}
+        processingStatus={audio.processingStatus as AudioProcessingStatus}
+        playlistId={null}
+        listenPath={`/audios/${audio.id}/listen`}
+      />
+    );
+  } catch (error) {
+    console.error("Error fetching embedded audio:", error);
+    notFound();
+  }
+}
+
+export const metadata: Metadata = {
+  title: "Audio Marker - Player",
+  robots: { index: false },
+};
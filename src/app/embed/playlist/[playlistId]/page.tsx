@@ -0,0 +1,85 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getTranslations } from "next-intl/server";
+import { api } from "~/trpc/server";
+import { auth } from "~/server/auth";
+import { env } from "~/env";
+import { EmbedPlayer } from "~/app/_components/embed/EmbedPlayer";
+import { getAudioFileUrls } from "~/lib/audioUrl";
+import type { AudioProcessingStatus } from "~/types/Audio";
+
+interface EmbedPlaylistPageProps {
+  params: Promise<{ playlistId: string }>;
+  searchParams: Promise<{ audio?: string | string[] }>;
+}
+
+/**
+ * Player of a playlist for iframes in other sites, `?audio=` selects the
+ * audio to play. Only public playlists and playlists opened through a share
+ * link can be embedded.
+ */
+export default async function EmbedPlaylistPage({
+  params,
+  searchParams,
+}: EmbedPlaylistPageProps) {
+  const { playlistId } = await params;
+  const { audio: audioParam } = await searchParams;
+  const session = await auth();
+  const t = await getTranslations("EmbedPlayer");
+
+  try {
+    const playlist = await api.playlist.getPublicPlaylistById({
+      id: playlistId,
+    });
+
+    if (
+      env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT &&
+      !session &&
+      !playlist.shareLink
+    ) {
+      notFound();
+    }
+
+    const playlistAudio =
+      playlist.audios.find(({ audio }) => audio.id === audioParam) ??
+      playlist.audios[0];
+    if (!playlistAudio) {
+      return (
+        <div className="flex min-h-screen w-full items-center justify-center p-3">
+          <p className="text-default-500">{t("emptyPlaylist")}</p>
+        </div>
+      );
+    }
+
+    const audio = await api.audio.getPublicAudioById({
+      id: playlistAudio.audio.id,
+    });
+    void api.marker.getMarkers.prefetch({ audioId: audio.id });
+
+    const { audioUrl, peaksUrl } = getAudioFileUrls(
+      audio.id,
+      audio.currentVersionId,
+    );
+
+    return (
+      <EmbedPlayer
+        audioUrl={audioUrl}
+        peaksUrl={peaksUrl}
+        audioName={audio.name}
+        audioDescription={audio.description}
+        audioId={audio.id}
+        processingStatus={audio.processingStatus as AudioProcessingStatus}
+        playlistId={playlist.id}
+        listenPath={`/playlists/${playlist.id}/listen`}
+      />
+    );
+  } catch (error) {
+    console.error("Error fetching embedded playlist:", error);
+    notFound();
+  }
+}
+
+export const metadata: Metadata = {
+  title: "Audio Marker - Player",
+  robots: { index: false },
+};
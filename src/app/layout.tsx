@@ -8,11 +8,13 @@ import Providers from "~/app/_components/Providers";
 import Navbar from "./_components/global/layout/navbar/Navbar";
 import ServiceWorkerRegistration from "./_components/ServiceWorkerRegistration";
 import Footer from "./_components/global/layout/Footer";
+import PageChrome from "./_components/global/layout/PageChrome";
 import { CookieConsent } from "./_components/global/CookieConsent";
 import { getLocale } from "next-intl/server";
 import { NextIntlClientProvider } from "next-intl";
 import { getHeadInjection } from "~/lib/headInjection";
 import HeadInjection from "./_components/HeadInjection";
+import BrowserMarkerMigration from "./_components/BrowserMarkerMigration";
 
 export const metadata: Metadata = {
   title: "Audio Marker",
@@ -70,14 +72,20 @@ export default async function RootLayout({
           <NextIntlClientProvider>
             <ServiceWorkerRegistration />
             {headInjection && <HeadInjection html={headInjection} />}
-            <Navbar />
             <TRPCReactProvider>
-              <main className="flex flex-1 flex-col items-center justify-center gap-8 px-4 py-4 w-full max-w-full overflow-x-hidden">
+              <BrowserMarkerMigration />
+              <PageChrome
+                navbar={<Navbar />}
+                footer={
+                  <>
+                    <Footer />
+                    <CookieConsent />
+                  </>
+                }
+              >
                 {children}
-              </main>
+              </PageChrome>
             </TRPCReactProvider>
-            <Footer />
-            <CookieConsent />
           </NextIntlClientProvider>
         </Providers>
       </body>
@@ -1,26 +1,52 @@
+import { cookies } from "next/headers";
 import CreateAudioForm from "~/app/_components/dashboard/audio/CreateAudioForm";
 import { auth } from "~/server/auth";
-import { HydrateClient } from "~/trpc/server";
+import { api, HydrateClient } from "~/trpc/server";
 import PublicLandingPage from "./_components/dashboard/publicLandingPage";
 import AudioFilesList from "~/app/_components/dashboard/audio/AudioFilesList";
 import { CreatePlaylistForm } from "./_components/dashboard/playlist/CreatePlaylistForm";
 import PlaylistsList from "~/app/_components/dashboard/playlist/PlaylistsList";
+import SharedWithMeList from "~/app/_components/dashboard/shared/SharedWithMeList";
+import ContinueListeningList from "~/app/_components/dashboard/audio/ContinueListeningList";
+import {
+  canCreateInTeam,
+  getWorkspaceTeamId,
+  WORKSPACE_COOKIE,
+} from "~/lib/team";
 
 export default async function Home() {
   const session = await auth();
 
+  // The workspace switcher stores the selected team in a cookie
+  const teams = session?.user ? await api.team.getMyTeams() : [];
+  const cookieStore = await cookies();
+  const teamId = getWorkspaceTeamId(
+    cookieStore.get(WORKSPACE_COOKIE)?.value,
+    teams,
+  );
+  const team = teams.find((candidate) => candidate.id === teamId) ?? null;
+  const canCreate = !team || canCreateInTeam(team.role);
+
   return (
     <HydrateClient>
       {session?.user && (
         <>
           <div className="w-full flex flex-col justify-center gap-2">
-            <CreateAudioForm />
-            <AudioFilesList />
+            <ContinueListeningList />
+          </div>
+          <div className="w-full flex flex-col justify-center gap-2">
+            {canCreate && <CreateAudioForm teamId={team?.id} />}
+            <AudioFilesList team={team} />
           </div>
           <div className="w-full flex flex-col justify-center gap-2">
-            <CreatePlaylistForm />
-            <PlaylistsList />
+            {canCreate && <CreatePlaylistForm teamId={team?.id} />}
+            <PlaylistsList team={team} />
           </div>
+          {!team && (
+            <div className="w-full flex flex-col justify-center gap-2">
+              <SharedWithMeList />
+            </div>
+          )}
         </>
       )}
       {!session?.user && <PublicLandingPage />}
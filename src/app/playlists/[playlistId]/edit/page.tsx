@@ -7,6 +7,7 @@ import { Suspense } from "react";
 import EditPlaylistForm from "~/app/_components/playlist/edit/EditPlaylistForm";
 import Link from "next/link";
 import { Play } from "lucide-react";
+import { hasRole } from "~/lib/collaboration";
 
 interface PlaylistEditPageProps {
   params: Promise<{
@@ -24,6 +25,17 @@ export default async function PlaylistEditPage({
     return null;
   }
 
+  // Only collaborators who may edit the playlist open the edit page
+  const playlist = await api.playlist
+    .getUserPlaylistById({ id: playlistId })
+    .catch((error: unknown) => {
+      console.error("Error fetching playlist data:", error);
+      return null;
+    });
+  if (!playlist || !hasRole(playlist.role, "editor")) {
+    notFound();
+  }
+
   try {
     void api.playlist.getUserPlaylistById.prefetch({ id: playlistId });
   } catch (error) {
@@ -0,0 +1,160 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { timingSafeEqual } from "node:crypto";
+import { db } from "~/server/db";
+import { env } from "~/env";
+import { getRequestOrigin } from "~/server/requestOrigin";
+import { getAudioFileUrls } from "~/lib/audioUrl";
+import {
+  buildPodcastFeed,
+  FEED_TOKEN_PARAM,
+  getFeedPath,
+  isFeedAudio,
+  withFeedToken,
+  type PodcastEpisode,
+} from "~/lib/podcastFeed";
+
+function isFeedTokenValid(given: string | null, expected: string | null) {
+  if (!given || !expected || given.length !== expected.length) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+}
+
+/** Size of the playback file, null if it is missing on disk */
+async function getFileSize(filePath: string): Promise<number | null> {
+  try {
+    const stats = await stat(
+      path.join(process.cwd(), "data", "uploads", filePath),
+    );
+    return stats.size;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Podcast feed of a playlist (RSS 2.0 with iTunes and Podcasting 2.0 tags).
+ * Public playlists list their public audios; private playlists are only
+ * available with their feed token and list the audios the token opens.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ playlistId: string }> },
+) {
+  try {
+    const { playlistId } = await params;
+    const token = request.nextUrl.searchParams.get(FEED_TOKEN_PARAM);
+
+    const playlist = await db.playlist.findUnique({
+      where: { id: playlistId, deletedAt: null },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        isPublic: true,
+        feedToken: true,
+        createdById: true,
+        teamId: true,
+        updatedAt: true,
+        createdBy: { select: { name: true } },
+        audios: {
+          where: { audio: { deletedAt: null } },
+          select: {
+            id: true,
+            addedAt: true,
+            audio: {
+              select: {
+                id: true,
+                name: true,
+                description: true,
+                isPublic: true,
+                createdById: true,
+                teamId: true,
+                filePath: true,
+                currentVersionId: true,
+                processingStatus: true,
+                duration: true,
+                _count: { select: { markers: true } },
+              },
+            },
+          },
+          orderBy: { order: "asc" },
+        },
+      },
+    });
+
+    // Feeds without access answer like missing feeds, to not reveal private playlists
+    const hasToken = isFeedTokenValid(token, playlist?.feedToken ?? null);
+    if (
+      !playlist ||
+      (!hasToken && (!playlist.isPublic || env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT))
+    ) {
+      return new NextResponse("Feed not found", { status: 404 });
+    }
+    const feedToken = hasToken ? token : null;
+
+    const origin = await getRequestOrigin();
+    const playlistAudios = playlist.audios.filter(
+      ({ audio }) =>
+        (hasToken ? isFeedAudio(audio, playlist) : audio.isPublic) &&
+        audio.processingStatus === "ready",
+    );
+
+    const episodes: PodcastEpisode[] = [];
+    for (const [index, { id, addedAt, audio }] of playlistAudios.entries()) {
+      const length = await getFileSize(audio.filePath);
+      if (length === null) continue;
+
+      const { audioUrl } = getAudioFileUrls(audio.id, audio.currentVersionId);
+      episodes.push({
+        guid: id,
+        title: audio.name,
+        description: audio.description ?? audio.name,
+        link: `${origin}/audios/${audio.id}/listen?playlistId=${playlist.id}`,
+        pubDate: addedAt,
+        episode: index + 1,
+        enclosure: {
+          url: withFeedToken(`${origin}${audioUrl}`, feedToken),
+          length,
+          type: "audio/mpeg",
+        },
+        duration: audio.duration,
+        chaptersUrl:
+          audio._count.markers > 0
+            ? withFeedToken(
+                `${origin}/api/audio/${audio.id}/markers?format=chapters`,
+                feedToken,
+              )
+            : null,
+      });
+    }
+
+    const feed = buildPodcastFeed(
+      {
+        title: playlist.name,
+        description: playlist.description ?? playlist.name,
+        link: `${origin}/playlists/${playlist.id}/listen`,
+        feedUrl: `${origin}${getFeedPath(playlist.id, feedToken)}`,
+        author: playlist.createdBy.name,
+        isPrivate: !playlist.isPublic,
+        lastBuildDate: playlist.updatedAt,
+      },
+      episodes,
+    );
+
+    return new NextResponse(feed, {
+      headers: {
+        "Content-Type": "application/rss+xml; charset=utf-8",
+        "Cache-Control": hasToken
+          ? "private, max-age=300"
+          : "public, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Error building podcast feed:", error);
+    return new NextResponse("Internal Server Error", { status: 500 });
+  }
+}
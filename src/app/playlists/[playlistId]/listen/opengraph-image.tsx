@@ -0,0 +1,19 @@
+import {
+  getPlaylistOpenGraphCard,
+  renderOpenGraphImage,
+} from "~/server/openGraphImage";
+import { OG_IMAGE_SIZE } from "~/lib/openGraph";
+
+export const alt = "Waveform and markers of the playlist";
+export const size = OG_IMAGE_SIZE;
+export const contentType = "image/png";
+
+interface ImageProps {
+  params: Promise<{ playlistId: string }>;
+}
+
+/** Link preview of the listen page, private playlists get the card of the app */
+export default async function Image({ params }: ImageProps) {
+  const { playlistId } = await params;
+  return renderOpenGraphImage(await getPlaylistOpenGraphCard(playlistId));
+}
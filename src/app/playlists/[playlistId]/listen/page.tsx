@@ -1,3 +1,4 @@
+import type { Metadata } from "next";
 import { api } from "~/trpc/server";
 import { HydrateClient } from "~/trpc/server";
 import { ListenPlaylistView } from "~/app/_components/playlist/listen/ListenPlaylistView";
@@ -7,6 +8,9 @@ import { VisibilityBanner } from "~/app/_components/global/VisibilityBanner";
 import { env } from "~/env";
 import { BarChart3, Edit } from "lucide-react";
 import Link from "next/link";
+import { canView, hasRole } from "~/lib/collaboration";
+import { getOEmbedAlternates } from "~/server/embed";
+import { getPreviewDescription } from "~/lib/openGraph";
 
 interface ListenPlaylistPageProps {
   params: Promise<{
@@ -14,32 +18,56 @@ interface ListenPlaylistPageProps {
   }>;
 }
 
+/**
+ * Public playlists and playlists opened through a share link are available
+ * without a role of the user
+ */
+async function getPlaylistWithoutRole(playlistId: string) {
+  const playlist = await api.playlist.getPublicPlaylistById({ id: playlistId });
+  return { ...playlist, role: null };
+}
+
+/** A playlist of the user or shared with them, otherwise without a role */
+async function getPlaylist(playlistId: string, isSignedIn: boolean) {
+  if (!isSignedIn) {
+    return getPlaylistWithoutRole(playlistId);
+  }
+  return api.playlist
+    .getUserPlaylistById({ id: playlistId })
+    .then((playlist) => ({ ...playlist, shareLink: null }))
+    .catch(() => getPlaylistWithoutRole(playlistId));
+}
+
 export default async function ListenPlaylistPage({
   params,
 }: ListenPlaylistPageProps) {
   const { playlistId } = await params;
   const session = await auth();
 
-  // If authentication is required for public content and user is not logged in, redirect to not found
-  if (env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT && !session) {
-    notFound();
-  }
-
   try {
-    const playlist = session
-      ? await api.playlist.getUserPlaylistById({ id: playlistId })
-      : await api.playlist.getPublicPlaylistById({ id: playlistId });
+    const playlist = await getPlaylist(playlistId, !!session);
+
+    // If authentication is required for public content and user is not logged
+    // in, only share links give access
+    if (
+      env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT &&
+      !session &&
+      !playlist.shareLink
+    ) {
+      notFound();
+    }
 
     // Check if user has access
-    const isCreator = session?.user?.id === playlist.createdBy.id;
-    if (!(playlist.isPublic || isCreator)) {
+    const role = playlist.role;
+    const isCreator = role === "owner";
+    if (!canView(playlist, role) && !playlist.shareLink) {
       notFound();
     }
 
     return (
       <HydrateClient>
         <VisibilityBanner isPublic={playlist.isPublic} isCreator={isCreator} />
-        {isCreator && (
+        {hasRole(role, "editor") && (
           <div className="w-full flex justify-center gap-2 max-w-4xl mx-auto px-4 mb-4">
             <Link
               href={`/playlists/${playlistId}/edit`}
@@ -65,16 +93,32 @@ export default async function ListenPlaylistPage({
   }
 }
 
-export async function generateMetadata({ params }: ListenPlaylistPageProps) {
+export async function generateMetadata({
+  params,
+}: ListenPlaylistPageProps): Promise<Metadata> {
   const { playlistId } = await params;
   const session = await auth();
   try {
-    const playlist = session
-      ? await api.playlist.getUserPlaylistById({ id: playlistId })
-      : await api.playlist.getPublicPlaylistById({ id: playlistId });
+    const playlist = await getPlaylist(playlistId, !!session);
+    const description = getPreviewDescription(
+      playlist.description,
+      `Listen to ${playlist.name}`,
+    );
     return {
       title: `${playlist.name} - Playlist`,
-      description: `Listen to ${playlist.name}`,
+      description,
+      openGraph: {
+        type: "music.playlist",
+        siteName: "Audio Marker",
+        title: playlist.name,
+        description,
+      },
+      twitter: {
+        card: "summary_large_image",
+        title: playlist.name,
+        description,
+      },
+      alternates: await getOEmbedAlternates({ type: "playlist", ...playlist }),
     };
   } catch {
     return {
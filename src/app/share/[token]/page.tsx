@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import { ShareLinkGate } from "~/app/_components/share/ShareLinkGate";
+
+export const metadata: Metadata = {
+  title: "Shared with you - Audio Marker",
+  robots: { index: false },
+};
+
+interface SharePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const { token } = await params;
+  return <ShareLinkGate token={token} />;
+}
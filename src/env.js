@@ -17,6 +17,11 @@ export const env = createEnv({
       process.env.NODE_ENV === "production"
         ? z.string()
         : z.string().optional(),
+    // Public URL of the app, used for links in embeds, oEmbed and feeds
+    AUTH_URL:
+      process.env.NODE_ENV === "production"
+        ? z.string().url()
+        : z.string().url().optional(),
     AUTH_AUTHENTIK_LABEL: z.string().optional(),
     AUTH_AUTHENTIK_ID: z.string().optional(),
     AUTH_AUTHENTIK_SECRET: process.env.AUTH_AUTHENTIK_ID
@@ -40,6 +45,19 @@ export const env = createEnv({
       .string()
       .transform((val) => val === "true")
       .default("false"),
+
+    // Maximum size of a single audio upload in megabytes
+    MAX_UPLOAD_SIZE_MB: z.coerce
+      .number()
+      .int()
+      .positive()
+      .max(2047)
+      .default(1024),
+    // Run the background job worker inside the Next.js server
+    JOB_WORKER_ENABLED: z
+      .string()
+      .transform((val) => val !== "false")
+      .default("true"),
   },
 
   /**
@@ -66,6 +84,7 @@ export const env = createEnv({
     DATABASE_URL: process.env.DATABASE_URL,
 
     AUTH_SECRET: process.env.AUTH_SECRET,
+    AUTH_URL: process.env.AUTH_URL,
     AUTH_AUTHENTIK_LABEL: process.env.AUTH_AUTHENTIK_LABEL,
     AUTH_AUTHENTIK_ID: process.env.AUTH_AUTHENTIK_ID,
     AUTH_AUTHENTIK_SECRET: process.env.AUTH_AUTHENTIK_SECRET,
@@ -80,6 +99,8 @@ export const env = createEnv({
 
     REQUIRE_AUTH_FOR_PUBLIC_CONTENT:
       process.env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT,
+    MAX_UPLOAD_SIZE_MB: process.env.MAX_UPLOAD_SIZE_MB,
+    JOB_WORKER_ENABLED: process.env.JOB_WORKER_ENABLED,
 
     NEXT_PUBLIC_SENTRY_DSN: process.env.NEXT_PUBLIC_SENTRY_DSN,
     NEXT_PUBLIC_SENTRY_LOG_LEVELS: process.env.NEXT_PUBLIC_SENTRY_LOG_LEVELS,
@@ -3,6 +3,12 @@ import * as Sentry from "@sentry/nextjs";
 export async function register() {
   if (process.env.NEXT_RUNTIME === "nodejs") {
     await import("../sentry.server.config");
+
+    const { env } = await import("./env");
+    if (env.JOB_WORKER_ENABLED) {
+      const { startJobWorker } = await import("./lib/jobs/worker");
+      startJobWorker();
+    }
   }
 
   if (process.env.NEXT_RUNTIME === "edge") {
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { detectAudioFormat } from "./audioFormat";
+
+/** Build a buffer from ASCII strings and byte values, padded to 128 bytes */
+function bytes(...parts: (string | number[])[]): Uint8Array {
+  const values: number[] = [];
+  for (const part of parts) {
+    if (typeof part === "string") {
+      for (const char of part) values.push(char.charCodeAt(0));
+    } else {
+      values.push(...part);
+    }
+  }
+  while (values.length < 128) values.push(0);
+  return Uint8Array.from(values);
+}
+
+describe("Audio Format Utilities", () => {
+  describe("detectAudioFormat", () => {
+    it("should detect WAV files", () => {
+      expect(detectAudioFormat(bytes("RIFF", [0, 0, 0, 0], "WAVEfmt "))).toBe(
+        "wav",
+      );
+    });
+
+    it("should not detect other RIFF files as WAV", () => {
+      expect(detectAudioFormat(bytes("RIFF", [0, 0, 0, 0], "AVI LIST"))).toBe(
+        null,
+      );
+    });
+
+    it("should detect FLAC files", () => {
+      expect(detectAudioFormat(bytes("fLaC", [0, 0, 0, 34]))).toBe("flac");
+    });
+
+    it("should detect Ogg Vorbis files", () => {
+      expect(
+        detectAudioFormat(bytes("OggS", [0, 2], [0, 0, 0, 0], "\x01vorbis")),
+      ).toBe("ogg");
+    });
+
+    it("should detect Ogg Opus files", () => {
+      expect(
+        detectAudioFormat(bytes("OggS", [0, 2], [0, 0, 0, 0], "OpusHead")),
+      ).toBe("opus");
+    });
+
+    it("should detect M4A files by their ftyp brand", () => {
+      expect(detectAudioFormat(bytes([0, 0, 0, 32], "ftypM4A "))).toBe("m4a");
+      expect(detectAudioFormat(bytes([0, 0, 0, 32], "ftypisom"))).toBe("m4a");
+    });
+
+    it("should reject MP4 files with unknown brands", () => {
+      expect(detectAudioFormat(bytes([0, 0, 0, 32], "ftypqt  "))).toBe(null);
+    });
+
+    it("should detect MP3 files with an ID3 tag", () => {
+      // ID3v2.4 tag with a size of 0 bytes followed by an MPEG frame header
+      expect(
+        detectAudioFormat(bytes("ID3", [4, 0, 0, 0, 0, 0, 0], [0xff, 0xfb])),
+      ).toBe("mp3");
+    });
+
+    it("should detect MP3 files without an ID3 tag", () => {
+      expect(detectAudioFormat(bytes([0xff, 0xfb, 0x90, 0x64]))).toBe("mp3");
+    });
+
+    it("should detect FLAC files behind an ID3 tag", () => {
+      expect(
+        detectAudioFormat(bytes("ID3", [4, 0, 0, 0, 0, 0, 0], "fLaC")),
+      ).toBe("flac");
+    });
+
+    it("should detect AAC ADTS streams", () => {
+      expect(detectAudioFormat(bytes([0xff, 0xf1, 0x50, 0x80]))).toBe("aac");
+    });
+
+    it("should ignore the file name and reject unknown content", () => {
+      expect(detectAudioFormat(bytes("%PDF-1.7"))).toBe(null);
+      expect(detectAudioFormat(bytes("<html>"))).toBe(null);
+    });
+
+    it("should reject buffers that are too short", () => {
+      expect(detectAudioFormat(Uint8Array.from([0xff, 0xfb]))).toBe(null);
+      expect(detectAudioFormat(new Uint8Array(0))).toBe(null);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Audio container formats accepted for upload.
+ * Every format is converted to a CBR MP3 for browser playback,
+ * the original upload is kept as master file.
+ */
+export const SUPPORTED_AUDIO_FORMATS = [
+  "mp3",
+  "wav",
+  "flac",
+  "ogg",
+  "opus",
+  "m4a",
+  "aac",
+] as const;
+
+export type AudioFormat = (typeof SUPPORTED_AUDIO_FORMATS)[number];
+
+/** File extensions accepted by the upload form and route */
+export const SUPPORTED_AUDIO_EXTENSIONS = [
+  ".mp3",
+  ".wav",
+  ".flac",
+  ".ogg",
+  ".oga",
+  ".opus",
+  ".m4a",
+  ".mp4",
+  ".aac",
+];
+
+/** File extension used when storing a master file of the given format */
+export const AUDIO_FORMAT_EXTENSIONS: Record<AudioFormat, string> = {
+  mp3: ".mp3",
+  wav: ".wav",
+  flac: ".flac",
+  ogg: ".ogg",
+  opus: ".opus",
+  m4a: ".m4a",
+  aac: ".aac",
+};
+
+/** MIME type used when serving a master file of the given format */
+export const AUDIO_FORMAT_MIME_TYPES: Record<AudioFormat, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  flac: "audio/flac",
+  ogg: "audio/ogg",
+  opus: "audio/ogg",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+};
+
+/** ISO BMFF brands used by audio-only MP4 files */
+const M4A_BRANDS = ["M4A ", "M4B ", "M4P ", "mp41", "mp42", "isom", "iso2"];
+
+function ascii(buffer: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...buffer.subarray(start, start + length));
+}
+
+function byte(buffer: Uint8Array, index: number): number {
+  return buffer[index] ?? 0;
+}
+
+/**
+ * Returns the size of a leading ID3v2 tag (header included), or 0 if none.
+ */
+function id3TagSize(buffer: Uint8Array): number {
+  if (buffer.length < 10 || ascii(buffer, 0, 3) !== "ID3") return 0;
+  // Tag size is a 28-bit "synchsafe" integer (7 bits per byte)
+  const size =
+    ((byte(buffer, 6) & 0x7f) << 21) |
+    ((byte(buffer, 7) & 0x7f) << 14) |
+    ((byte(buffer, 8) & 0x7f) << 7) |
+    (byte(buffer, 9) & 0x7f);
+  const hasFooter = (byte(buffer, 5) & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * Detect the audio format from the leading bytes of a file.
+ *
+ * Only the file content is inspected, the file name is ignored. At least the
+ * first 64 bytes should be passed; more are needed when the file starts with
+ * an ID3 tag.
+ *
+ * @param buffer - The beginning of the file
+ * @returns The detected format, or null if the content is not a supported audio file
+ */
+export function detectAudioFormat(buffer: Uint8Array): AudioFormat | null {
+  if (buffer.length < 12) return null;
+
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 4) === "WAVE") {
+    return "wav";
+  }
+
+  if (ascii(buffer, 0, 4) === "fLaC") return "flac";
+
+  if (ascii(buffer, 0, 4) === "OggS") {
+    // The codec identification header lives in the first page
+    const firstPage = ascii(buffer, 0, Math.min(buffer.length, 128));
+    return firstPage.includes("OpusHead") ? "opus" : "ogg";
+  }
+
+  if (ascii(buffer, 4, 4) === "ftyp") {
+    return M4A_BRANDS.includes(ascii(buffer, 8, 4)) ? "m4a" : null;
+  }
+
+  const tagSize = id3TagSize(buffer);
+  if (tagSize > 0) {
+    // ID3 tags are mostly used by MP3, but FLAC and AAC files may carry one too
+    if (buffer.length >= tagSize + 12) {
+      const inner = detectAudioFormat(buffer.subarray(tagSize));
+      if (inner) return inner;
+    }
+    return "mp3";
+  }
+
+  // MPEG audio frame sync: 11 set bits
+  if (byte(buffer, 0) === 0xff && (byte(buffer, 1) & 0xe0) === 0xe0) {
+    const layer = (byte(buffer, 1) >> 1) & 0x03;
+    // Layer bits "00" are reserved in MPEG audio and used by AAC ADTS headers
+    return layer === 0 ? "aac" : "mp3";
+  }
+
+  return null;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+const mockDb = vi.hoisted(() => ({
+  $transaction: vi.fn(),
+}));
+
+vi.mock("~/server/db", () => ({ db: mockDb }));
+vi.mock("~/lib/audioProbe", () => ({
+  probeAudioFile: vi.fn(async () => ({ duration: 12 })),
+}));
+vi.mock("~/lib/jobs/queue", () => ({ enqueueJob: vi.fn() }));
+
+import { importAudioFile } from "./audioImport";
+
+describe("Audio Import", () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(path.join(tmpdir(), "audio-import-"));
+    vi.spyOn(process, "cwd").mockReturnValue(cwd);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  describe("importAudioFile", () => {
+    it("should remove the stored files when the transaction fails", async () => {
+      const sourcePath = path.join(cwd, "upload.part");
+      // MPEG frame header, enough for the format detection
+      await writeFile(
+        sourcePath,
+        Buffer.concat([
+          Buffer.from([0xff, 0xfb, 0x90, 0x64]),
+          Buffer.alloc(412),
+        ]),
+      );
+      mockDb.$transaction.mockRejectedValue(new Error("Unique constraint"));
+
+      await expect(
+        importAudioFile({
+          sourcePath,
+          originalFileName: "song.mp3",
+          name: "Song",
+          createdById: "user-1",
+        }),
+      ).rejects.toThrow("Unique constraint");
+
+      expect(
+        await readdir(path.join(cwd, "data", "uploads", "masters")),
+      ).toEqual([]);
+    });
+  });
+});
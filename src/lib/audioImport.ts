@@ -0,0 +1,282 @@
+import { mkdir, open, rename, unlink } from "node:fs/promises";
+import path from "node:path";
+import { v4 as uuidv4 } from "uuid";
+import type { Audio, AudioVersion } from "@prisma/client";
+import { db } from "~/server/db";
+import {
+  AUDIO_FORMAT_EXTENSIONS,
+  type AudioFormat,
+  detectAudioFormat,
+} from "~/lib/audioFormat";
+import { probeAudioFile } from "~/lib/audioProbe";
+import { enqueueJob } from "~/lib/jobs/queue";
+import {
+  deleteAudioVersionFiles,
+  getNextVersionNumber,
+  setCurrentAudioVersion,
+} from "~/lib/audioVersions";
+import { applyBulkMarkerEdit, saveMarkerTimes } from "~/lib/markerBulk";
+
+/** Number of leading bytes inspected for format detection (covers large ID3 tags) */
+const DETECTION_BYTES = 1024 * 1024;
+
+/** Error with the HTTP status the upload routes should answer with */
+export class AudioImportError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "AudioImportError";
+  }
+}
+
+interface ImportAudioInput {
+  /** Absolute path of the completely uploaded file */
+  sourcePath: string;
+  originalFileName: string;
+  name: string;
+  description?: string | null;
+  createdById: string;
+  /** Team the audio belongs to instead of its creator */
+  teamId?: string | null;
+}
+
+async function readFileHead(filePath: string): Promise<Uint8Array> {
+  const handle = await open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(DETECTION_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, DETECTION_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+interface AddAudioVersionInput {
+  audioId: string;
+  /** Absolute path of the completely uploaded file */
+  sourcePath: string;
+  originalFileName: string;
+  note?: string | null;
+  createdById: string;
+  /** Seconds added to the timestamps of all markers, may be negative */
+  markerOffset?: number;
+}
+
+interface StoredMasterFile {
+  /** Base name shared by the master, playback and peaks files */
+  fileId: string;
+  format: AudioFormat;
+  masterFileName: string;
+  duration: number | null;
+}
+
+function uploadsPath(fileName: string): string {
+  return path.join(process.cwd(), "data", "uploads", fileName);
+}
+
+/**
+ * Detect the format of an uploaded file, move it into the masters directory
+ * and make sure it decodes.
+ */
+async function storeMasterFile(sourcePath: string): Promise<StoredMasterFile> {
+  const format = detectAudioFormat(await readFileHead(sourcePath));
+  if (!format) {
+    throw new AudioImportError(
+      "The file content is not a supported audio format",
+      400,
+    );
+  }
+
+  const fileId = uuidv4();
+  const masterFileName = `masters/${fileId}${AUDIO_FORMAT_EXTENSIONS[format]}`;
+  const masterPath = uploadsPath(masterFileName);
+
+  // Keep the original upload as master file
+  await mkdir(path.dirname(masterPath), { recursive: true });
+  await rename(sourcePath, masterPath);
+
+  // Make sure the file actually decodes before doing anything else with it
+  try {
+    const { duration } = await probeAudioFile(masterPath);
+    return { fileId, format, masterFileName, duration };
+  } catch (probeError) {
+    console.warn("Audio probe failed:", probeError);
+    await unlink(masterPath).catch(() => undefined);
+    throw new AudioImportError("The audio file could not be decoded", 400);
+  }
+}
+
+/**
+ * Create an audio from an uploaded file.
+ *
+ * The format is detected from the file content and verified with ffprobe.
+ * The source file is moved into the masters directory and becomes the first
+ * version of the audio. The CBR MP3 for browser playback and the waveform
+ * peaks are generated by a background job, until then the audio has the
+ * processing status "processing".
+ * If the import fails, the caller is responsible for removing the source file
+ * if it still exists.
+ *
+ * @returns The id of the created audio
+ * @throws AudioImportError if the file is not a usable audio file
+ */
+export async function importAudioFile({
+  sourcePath,
+  originalFileName,
+  name,
+  description,
+  createdById,
+  teamId,
+}: ImportAudioInput): Promise<string> {
+  const master = await storeMasterFile(sourcePath);
+  const file = {
+    originalFileName,
+    filePath: `${master.fileId}.mp3`,
+    masterFilePath: master.masterFileName,
+    format: master.format,
+    duration: master.duration,
+    processingStatus: "processing",
+  };
+
+  // Create database records (store only filenames)
+  let result: { audio: Audio; version: AudioVersion };
+  try {
+    result = await db.$transaction(async (tx) => {
+      const audio = await tx.audio.create({
+        data: {
+          id: master.fileId,
+          name,
+          description: description ?? undefined,
+          ...file,
+          createdById,
+          teamId: teamId ?? null,
+        },
+      });
+      const version = await tx.audioVersion.create({
+        data: { audioId: audio.id, number: 1, ...file, createdById },
+      });
+      await tx.audio.update({
+        where: { id: audio.id },
+        data: { currentVersionId: version.id },
+      });
+      return { audio, version };
+    });
+  } catch (error) {
+    // Without the audio nothing refers to the stored files
+    await deleteAudioVersionFiles(file);
+    throw error;
+  }
+  const { audio, version } = result;
+
+  await enqueueJob("process-audio", {
+    audioId: audio.id,
+    versionId: version.id,
+  });
+
+  return audio.id;
+}
+
+/**
+ * Add an uploaded file as new version of an existing audio and make it the
+ * current version. Markers are kept and optionally all moved by a time
+ * offset. The files of previous versions are retained.
+ *
+ * @returns The number of the new version and the number of markers that
+ * end after its duration
+ * @throws AudioImportError if the file is not a usable audio file or the
+ * offset moves markers before the start
+ */
+export async function addAudioVersion({
+  audioId,
+  sourcePath,
+  originalFileName,
+  note,
+  createdById,
+  markerOffset = 0,
+}: AddAudioVersionInput): Promise<{
+  number: number;
+  markersBeyondEnd: number;
+}> {
+  const audio = await db.audio.findUnique({
+    where: { id: audioId },
+    select: { id: true },
+  });
+  if (!audio) {
+    throw new AudioImportError("Audio not found", 404);
+  }
+
+  if (markerOffset < 0) {
+    const firstMarker = await db.marker.findFirst({
+      where: { audioId },
+      orderBy: { timestamp: "asc" },
+      select: { timestamp: true },
+    });
+    if (firstMarker && firstMarker.timestamp + markerOffset < 0) {
+      throw new AudioImportError(
+        "The time offset would move markers before the start of the audio",
+        400,
+      );
+    }
+  }
+
+  const master = await storeMasterFile(sourcePath);
+  const { duration } = master;
+
+  const files = {
+    filePath: `${master.fileId}.mp3`,
+    masterFilePath: master.masterFileName,
+  };
+
+  let result: { version: AudioVersion; markersBeyondEnd: number };
+  try {
+    result = await db.$transaction(async (tx) => {
+      const version = await tx.audioVersion.create({
+        data: {
+          audioId,
+          number: await getNextVersionNumber(tx, audioId),
+          note: note || null,
+          originalFileName,
+          ...files,
+          format: master.format,
+          duration,
+          processingStatus: "processing",
+          createdById,
+        },
+      });
+      await setCurrentAudioVersion(tx, version);
+
+      if (markerOffset !== 0) {
+        const markers = await tx.marker.findMany({ where: { audioId } });
+        await saveMarkerTimes(
+          tx,
+          applyBulkMarkerEdit(markers, { type: "shift", offset: markerOffset }),
+        );
+      }
+
+      const markersBeyondEnd =
+        duration === null
+          ? 0
+          : await tx.marker.count({
+              where: {
+                audioId,
+                OR: [
+                  { timestamp: { gt: duration } },
+                  { endTimestamp: { gt: duration } },
+                ],
+              },
+            });
+      return { version, markersBeyondEnd };
+    });
+  } catch (error) {
+    // Without the version nothing refers to the stored files
+    await deleteAudioVersionFiles(files);
+    throw error;
+  }
+  const { version, markersBeyondEnd } = result;
+
+  await enqueueJob("process-audio", { audioId, versionId: version.id });
+
+  return { number: version.number, markersBeyondEnd };
+}
@@ -0,0 +1,64 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+export interface AudioProbeResult {
+  /** Container format names reported by ffprobe, e.g. "mov,mp4,m4a,3gp,3g2,mj2" */
+  formatName: string;
+  /** Codec of the first audio stream, e.g. "pcm_s16le" */
+  codecName: string;
+  /** Duration in seconds, null if ffprobe could not determine it */
+  duration: number | null;
+}
+
+interface FfprobeOutput {
+  format?: { format_name?: string; duration?: string };
+  streams?: { codec_type?: string; codec_name?: string }[];
+}
+
+/**
+ * Probe an audio file with ffprobe and verify it contains a decodable audio stream.
+ *
+ * @param filePath - Absolute path to the audio file
+ * @returns Information about the container and the first audio stream
+ * @throws If ffprobe fails or the file has no audio stream
+ */
+export async function probeAudioFile(
+  filePath: string,
+): Promise<AudioProbeResult> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(
+      "ffprobe",
+      [
+        "-v",
+        "error",
+        "-show_entries",
+        "format=format_name,duration:stream=codec_type,codec_name",
+        "-of",
+        "json",
+        filePath,
+      ],
+      { maxBuffer: 1024 * 1024 },
+    ));
+  } catch (error) {
+    const err = error as { message: string; stderr?: string };
+    const stderrMsg = err.stderr ? `\n${err.stderr}` : "";
+    throw new Error(`ffprobe failed: ${err.message}${stderrMsg}`);
+  }
+
+  const data = JSON.parse(stdout) as FfprobeOutput;
+  const audioStream = data.streams?.find((s) => s.codec_type === "audio");
+  if (!audioStream) {
+    throw new Error("ffprobe found no audio stream");
+  }
+
+  const duration = Number.parseFloat(data.format?.duration ?? "");
+
+  return {
+    formatName: data.format?.format_name ?? "",
+    codecName: audioStream.codec_name ?? "",
+    duration: Number.isFinite(duration) ? duration : null,
+  };
+}
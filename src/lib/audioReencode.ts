@@ -3,10 +3,11 @@ import { writeFile, unlink } from "node:fs/promises";
 import path from "node:path";
 
 /**
- * Re-encode an MP3 file to CBR (constant bitrate) with fixed sample rate.
+ * Re-encode an audio file to CBR (constant bitrate) MP3 with fixed sample rate.
  * This ensures consistent interpretation across browsers.
+ * The input may be any format ffmpeg can decode (MP3, WAV, FLAC, OGG, M4A, ...).
  *
- * @param inputPath Absolute path to the original MP3 file
+ * @param inputPath Absolute path to the original audio file
  * @param outputPath Absolute path for the re-encoded file
  * @param bitrate Bitrate in kbps (default: 128)
  * @param sampleRate Sample rate in Hz (default: 44100)
@@ -24,6 +25,7 @@ export async function reencodeMp3ToCbr(
         "-y", // overwrite output
         "-i",
         inputPath,
+        "-vn", // drop cover art and video streams
         "-ar",
         String(sampleRate),
         "-b:a",
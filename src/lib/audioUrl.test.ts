@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { getAudioFileCacheControl, getAudioFileUrls } from "./audioUrl";
+
+describe("Audio URL Utilities", () => {
+  describe("getAudioFileUrls", () => {
+    it("should add the version to the file and peaks URLs", () => {
+      expect(getAudioFileUrls("audio-1", "version-2")).toEqual({
+        audioUrl: "/api/audio/audio-1/file?version=version-2",
+        peaksUrl: "/api/audio/audio-1/peaks?version=version-2",
+      });
+    });
+
+    it("should request the current file without a version", () => {
+      expect(getAudioFileUrls("audio-1", null)).toEqual({
+        audioUrl: "/api/audio/audio-1/file",
+        peaksUrl: "/api/audio/audio-1/peaks",
+      });
+    });
+  });
+
+  describe("getAudioFileCacheControl", () => {
+    it("should cache versions of public audios indefinitely", () => {
+      expect(getAudioFileCacheControl("version-2", true)).toBe(
+        "public, max-age=31536000, immutable",
+      );
+    });
+
+    it("should revalidate the current file", () => {
+      expect(getAudioFileCacheControl(null, true)).toBe("no-cache");
+    });
+
+    it("should keep non-public audios out of shared caches", () => {
+      expect(getAudioFileCacheControl("version-2", false)).toBe(
+        "private, max-age=3600",
+      );
+      expect(getAudioFileCacheControl(null, false)).toBe("private, no-cache");
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * URLs of the playback file and the waveform peaks of an audio version.
+ * The file of a version never changes, so the responses for a version can be
+ * cached indefinitely. Without a version, the current file is requested.
+ */
+export function getAudioFileUrls(
+  audioId: string,
+  versionId: string | null,
+): {
+  audioUrl: string;
+  peaksUrl: string;
+} {
+  const query = versionId ? `?version=${encodeURIComponent(versionId)}` : "";
+  return {
+    audioUrl: `/api/audio/${audioId}/file${query}`,
+    peaksUrl: `/api/audio/${audioId}/peaks${query}`,
+  };
+}
+
+/** Seconds a listener's browser keeps a version of a non-public audio */
+const PRIVATE_VERSION_MAX_AGE = 3600;
+
+/**
+ * Cache-Control header for the file and peaks routes: responses for a version
+ * may be cached indefinitely, the current file of an audio changes when
+ * another version becomes current and has to be revalidated. Only public
+ * audios are stored by shared caches, access to the others can be revoked.
+ * @param isPublic - Whether anyone may listen without signing in
+ */
+export function getAudioFileCacheControl(
+  versionId: string | null,
+  isPublic: boolean,
+): string {
+  if (!isPublic) {
+    return versionId
+      ? `private, max-age=${PRIVATE_VERSION_MAX_AGE}`
+      : "private, no-cache";
+  }
+  return versionId ? "public, max-age=31536000, immutable" : "no-cache";
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockDb = vi.hoisted(() => ({
+  audio: {
+    updateMany: vi.fn(),
+  },
+  audioVersion: {
+    update: vi.fn(),
+    findFirst: vi.fn(),
+    aggregate: vi.fn(),
+  },
+}));
+
+vi.mock("~/server/db", () => ({ db: mockDb }));
+
+import type { db } from "~/server/db";
+import {
+  getNextVersionNumber,
+  resolveAudioFile,
+  setVersionProcessingStatus,
+} from "./audioVersions";
+
+const audio = {
+  id: "audio-1",
+  currentVersionId: "version-2",
+  filePath: "current.mp3",
+  masterFilePath: "masters/current.wav",
+  format: "wav",
+  originalFileName: "mix-v2.wav",
+  processingStatus: "ready",
+};
+
+describe("Audio Version Utilities", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("setVersionProcessingStatus", () => {
+    it("should update the version and mirror the status to the audio it is current for", async () => {
+      await setVersionProcessingStatus("version-2", "ready");
+
+      expect(mockDb.audioVersion.update).toHaveBeenCalledWith({
+        where: { id: "version-2" },
+        data: { processingStatus: "ready" },
+      });
+      expect(mockDb.audio.updateMany).toHaveBeenCalledWith({
+        where: { currentVersionId: "version-2" },
+        data: { processingStatus: "ready" },
+      });
+    });
+  });
+
+  describe("getNextVersionNumber", () => {
+    it("should continue after the highest version number", async () => {
+      mockDb.audioVersion.aggregate.mockResolvedValue({ _max: { number: 3 } });
+
+      await expect(
+        getNextVersionNumber(mockDb as unknown as typeof db, "audio-1"),
+      ).resolves.toBe(4);
+      // Deleted versions keep their number
+      expect(mockDb.audioVersion.aggregate).toHaveBeenCalledWith({
+        where: { audioId: "audio-1" },
+        _max: { number: true },
+      });
+    });
+
+    it("should start at 1 for an audio without versions", async () => {
+      mockDb.audioVersion.aggregate.mockResolvedValue({
+        _max: { number: null },
+      });
+
+      await expect(
+        getNextVersionNumber(mockDb as unknown as typeof db, "audio-1"),
+      ).resolves.toBe(1);
+    });
+  });
+
+  describe("resolveAudioFile", () => {
+    it("should return the current file without a version", async () => {
+      const file = await resolveAudioFile(audio, null, false);
+
+      expect(file).toEqual({
+        versionId: "version-2",
+        filePath: "current.mp3",
+        masterFilePath: "masters/current.wav",
+        format: "wav",
+        originalFileName: "mix-v2.wav",
+        processingStatus: "ready",
+      });
+      expect(mockDb.audioVersion.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should return the current file when the current version is requested", async () => {
+      const file = await resolveAudioFile(audio, "version-2", false);
+
+      expect(file?.filePath).toBe("current.mp3");
+      expect(mockDb.audioVersion.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should not give other users access to older versions", async () => {
+      const file = await resolveAudioFile(audio, "version-1", false);
+
+      expect(file).toBeNull();
+      expect(mockDb.audioVersion.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should look up older versions of the audio for the creator", async () => {
+      mockDb.audioVersion.findFirst.mockResolvedValue({
+        filePath: "old.mp3",
+        masterFilePath: null,
+        format: "mp3",
+        originalFileName: "mix-v1.mp3",
+        processingStatus: "ready",
+      });
+
+      const file = await resolveAudioFile(audio, "version-1", true);
+
+      expect(file).toEqual({
+        versionId: "version-1",
+        filePath: "old.mp3",
+        masterFilePath: null,
+        format: "mp3",
+        originalFileName: "mix-v1.mp3",
+        processingStatus: "ready",
+      });
+      expect(mockDb.audioVersion.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: "version-1", audioId: "audio-1", deletedAt: null },
+        }),
+      );
+    });
+
+    it("should return null for deleted or unknown versions", async () => {
+      mockDb.audioVersion.findFirst.mockResolvedValue(null);
+
+      await expect(
+        resolveAudioFile(audio, "version-9", true),
+      ).resolves.toBeNull();
+    });
+  });
+});
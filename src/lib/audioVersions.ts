@@ -0,0 +1,156 @@
+import { unlink } from "node:fs/promises";
+import path from "node:path";
+import type { Audio, AudioVersion, Prisma } from "@prisma/client";
+import { db } from "~/server/db";
+import type { AudioProcessingStatus } from "~/types/Audio";
+
+type DbClient = typeof db | Prisma.TransactionClient;
+
+function uploadsPath(fileName: string): string {
+  return path.join(process.cwd(), "data", "uploads", fileName);
+}
+
+/**
+ * Make a version the current version of its audio: the file columns of the
+ * audio are copied from the version, so everything reading the audio file
+ * (player, peaks, master download, playlists) uses the new file.
+ */
+export async function setCurrentAudioVersion(
+  client: DbClient,
+  version: Pick<
+    AudioVersion,
+    | "id"
+    | "audioId"
+    | "originalFileName"
+    | "filePath"
+    | "masterFilePath"
+    | "format"
+    | "duration"
+    | "processingStatus"
+  >,
+): Promise<void> {
+  await client.audio.update({
+    where: { id: version.audioId },
+    data: {
+      currentVersionId: version.id,
+      originalFileName: version.originalFileName,
+      filePath: version.filePath,
+      masterFilePath: version.masterFilePath,
+      format: version.format,
+      duration: version.duration,
+      processingStatus: version.processingStatus,
+    },
+  });
+}
+
+/**
+ * Update the processing status of a version, and of its audio if the version
+ * is the current one.
+ */
+export async function setVersionProcessingStatus(
+  versionId: string,
+  processingStatus: AudioProcessingStatus,
+): Promise<void> {
+  await db.audioVersion.update({
+    where: { id: versionId },
+    data: { processingStatus },
+  });
+  await db.audio.updateMany({
+    where: { currentVersionId: versionId },
+    data: { processingStatus },
+  });
+}
+
+/** Number for the next version of an audio, also counting deleted versions */
+export async function getNextVersionNumber(
+  client: DbClient,
+  audioId: string,
+): Promise<number> {
+  const { _max } = await client.audioVersion.aggregate({
+    where: { audioId },
+    _max: { number: true },
+  });
+  return (_max.number ?? 0) + 1;
+}
+
+/**
+ * Remove the playback file, peaks and master file of a version from disk.
+ * Missing files are ignored.
+ */
+export async function deleteAudioVersionFiles(
+  version: Pick<AudioVersion, "filePath" | "masterFilePath">,
+): Promise<void> {
+  const fileNames = [
+    version.filePath,
+    `${path.parse(version.filePath).name}.json`,
+    version.masterFilePath,
+  ];
+  await Promise.all(
+    fileNames
+      .filter((fileName): fileName is string => !!fileName)
+      .map(async (fileName) => {
+        try {
+          await unlink(uploadsPath(fileName));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            console.error(`Failed to delete file: ${fileName}`, error);
+          }
+        }
+      }),
+  );
+}
+
+type AudioFile = Pick<
+  AudioVersion,
+  | "filePath"
+  | "masterFilePath"
+  | "format"
+  | "originalFileName"
+  | "processingStatus"
+> & { versionId: string | null };
+
+/**
+ * Find the file requested from the file, peaks and master routes: the version
+ * given by the `version` query parameter, or the current version of the audio.
+ * Versions other than the current one are only available to the creator.
+ *
+ * @returns The file, or null if the version does not exist or is not accessible
+ */
+export async function resolveAudioFile(
+  audio: Pick<
+    Audio,
+    | "id"
+    | "currentVersionId"
+    | "filePath"
+    | "masterFilePath"
+    | "format"
+    | "originalFileName"
+    | "processingStatus"
+  >,
+  versionId: string | null,
+  isCreator: boolean,
+): Promise<AudioFile | null> {
+  if (!versionId || versionId === audio.currentVersionId) {
+    return {
+      versionId: audio.currentVersionId,
+      filePath: audio.filePath,
+      masterFilePath: audio.masterFilePath,
+      format: audio.format,
+      originalFileName: audio.originalFileName,
+      processingStatus: audio.processingStatus,
+    };
+  }
+  if (!isCreator) return null;
+
+  const version = await db.audioVersion.findFirst({
+    where: { id: versionId, audioId: audio.id, deletedAt: null },
+    select: {
+      filePath: true,
+      masterFilePath: true,
+      format: true,
+      originalFileName: true,
+      processingStatus: true,
+    },
+  });
+  return version ? { versionId, ...version } : null;
+}
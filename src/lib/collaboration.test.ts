@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  canView,
+  COLLABORATOR_ROLES,
+  getAccessRole,
+  getAssignableRoles,
+  getHigherRole,
+  hasRole,
+  normalizeEmail,
+  PLAYLIST_COLLABORATOR_ROLES,
+} from "./collaboration";
+
+describe("Collaboration Utilities", () => {
+  describe("hasRole", () => {
+    it("should include the roles below", () => {
+      expect(hasRole("editor", "marker-editor")).toBe(true);
+      expect(hasRole("editor", "editor")).toBe(true);
+      expect(hasRole("owner", "co-owner")).toBe(true);
+    });
+
+    it("should not include the roles above", () => {
+      expect(hasRole("commenter", "marker-editor")).toBe(false);
+      expect(hasRole("co-owner", "owner")).toBe(false);
+    });
+
+    it("should deny users without a role", () => {
+      expect(hasRole(null, "viewer")).toBe(false);
+    });
+  });
+
+  describe("getAccessRole", () => {
+    const audio = { createdById: "owner" };
+
+    it("should make the creator the owner", () => {
+      expect(getAccessRole(audio, "owner", null)).toBe("owner");
+    });
+
+    it("should use the granted role", () => {
+      expect(getAccessRole(audio, "user", "commenter")).toBe("commenter");
+    });
+
+    it("should ignore unknown roles and missing users", () => {
+      expect(getAccessRole(audio, "user", "admin")).toBe(null);
+      expect(getAccessRole(audio, "user", undefined)).toBe(null);
+      expect(getAccessRole(audio, null, "editor")).toBe(null);
+    });
+
+    it("should not make the creator of team content its owner", () => {
+      const teamAudio = { createdById: "owner", teamId: "team" };
+      expect(getAccessRole(teamAudio, "owner", null)).toBe(null);
+      expect(getAccessRole(teamAudio, "owner", "editor")).toBe("editor");
+    });
+  });
+
+  describe("getHigherRole", () => {
+    it("should pick the role with more rights", () => {
+      expect(getHigherRole("viewer", "editor")).toBe("editor");
+      expect(getHigherRole("owner", "co-owner")).toBe("owner");
+    });
+
+    it("should ignore missing roles", () => {
+      expect(getHigherRole(null, "commenter")).toBe("commenter");
+      expect(getHigherRole("viewer", null)).toBe("viewer");
+      expect(getHigherRole(null, null)).toBe(null);
+    });
+  });
+
+  describe("canView", () => {
+    it("should allow everyone on public resources", () => {
+      expect(canView({ isPublic: true }, null)).toBe(true);
+    });
+
+    it("should require a role on private resources", () => {
+      expect(canView({ isPublic: false }, null)).toBe(false);
+      expect(canView({ isPublic: false }, "viewer")).toBe(true);
+    });
+  });
+
+  describe("getAssignableRoles", () => {
+    it("should let the owner grant every role", () => {
+      expect(getAssignableRoles("owner", COLLABORATOR_ROLES)).toEqual([
+        ...COLLABORATOR_ROLES,
+      ]);
+    });
+
+    it("should let co-owners grant the roles below their own", () => {
+      expect(
+        getAssignableRoles("co-owner", PLAYLIST_COLLABORATOR_ROLES),
+      ).toEqual(["viewer", "editor"]);
+    });
+
+    it("should not let other roles grant access", () => {
+      expect(getAssignableRoles("editor", COLLABORATOR_ROLES)).toEqual([]);
+      expect(getAssignableRoles(null, COLLABORATOR_ROLES)).toEqual([]);
+    });
+  });
+
+  describe("normalizeEmail", () => {
+    it("should trim and lowercase addresses", () => {
+      expect(normalizeEmail("  Jane.Doe@Example.com ")).toBe(
+        "jane.doe@example.com",
+      );
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/** Roles of collaborators on an audio, each includes the ones before it */
+export const COLLABORATOR_ROLES = [
+  "viewer",
+  "commenter",
+  "marker-editor",
+  "editor",
+  "co-owner",
+] as const;
+
+/** Roles of collaborators on a playlist, playlists have no markers or comments */
+export const PLAYLIST_COLLABORATOR_ROLES = [
+  "viewer",
+  "editor",
+  "co-owner",
+] as const;
+
+export type CollaboratorRole = (typeof COLLABORATOR_ROLES)[number];
+
+/** Access of a user to an audio or playlist, its creator is the owner */
+export type AccessRole = CollaboratorRole | "owner";
+
+const ROLE_RANK: Record<AccessRole, number> = {
+  viewer: 1,
+  commenter: 2,
+  "marker-editor": 3,
+  editor: 4,
+  "co-owner": 5,
+  owner: 6,
+};
+
+/**
+ * Checks if a role includes another one, e.g. editors may do everything
+ * marker editors may do
+ * @param role - The role of the user, null without access
+ * @param required - The role needed for an action
+ */
+export function hasRole(
+  role: AccessRole | null,
+  required: AccessRole,
+): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export function isCollaboratorRole(value: string): value is CollaboratorRole {
+  return (COLLABORATOR_ROLES as readonly string[]).includes(value);
+}
+
+/** The higher of two roles, null if neither is set */
+export function getHigherRole(
+  a: AccessRole | null,
+  b: AccessRole | null,
+): AccessRole | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return ROLE_RANK[a] >= ROLE_RANK[b] ? a : b;
+}
+
+/**
+ * Role of a user on an audio or playlist
+ * @param resource - The creator of the audio or playlist and its team
+ * @param userId - The signed-in user, or null
+ * @param collaboratorRole - Role granted to the user, if any
+ * @returns "owner" for the creator of content outside of teams, the granted
+ * role, or null
+ */
+export function getAccessRole(
+  resource: { createdById: string; teamId?: string | null },
+  userId: string | null,
+  collaboratorRole: string | null | undefined,
+): AccessRole | null {
+  if (!userId) return null;
+  // Content of a team is owned by the team, see getTeamAccessRole
+  if (!resource.teamId && resource.createdById === userId) return "owner";
+  return collaboratorRole && isCollaboratorRole(collaboratorRole)
+    ? collaboratorRole
+    : null;
+}
+
+/**
+ * Checks if a user may listen to an audio or open a playlist
+ * @param resource - Whether it is public
+ * @param role - The role of the user, null without access
+ */
+export function canView(
+  resource: { isPublic: boolean },
+  role: AccessRole | null,
+): boolean {
+  return resource.isPublic || role !== null;
+}
+
+/**
+ * Roles a user may grant: the owner grants every role, co-owners grant the
+ * roles below their own
+ * @param role - The role of the user granting access
+ * @param roles - The roles of the resource
+ */
+export function getAssignableRoles<T extends CollaboratorRole>(
+  role: AccessRole | null,
+  roles: readonly T[],
+): T[] {
+  if (role === null || !hasRole(role, "co-owner")) return [];
+  return roles.filter(
+    (candidate) => role === "owner" || ROLE_RANK[candidate] < ROLE_RANK[role],
+  );
+}
+
+/** Invitations are matched to accounts by their email address */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  canCommentOnAudio,
+  getCommentAuthorName,
+  getCommentPermissions,
+  getCommentPins,
+  sortCommentThreads,
+} from "./comment";
+
+const thread = { authorId: "listener", parentId: null };
+const reply = { authorId: "listener", parentId: "thread" };
+
+describe("Comment Utilities", () => {
+  describe("getCommentPermissions", () => {
+    it("should let authors edit, delete and resolve their threads", () => {
+      expect(
+        getCommentPermissions(thread, {
+          userId: "listener",
+          canModerate: false,
+        }),
+      ).toEqual({ canEdit: true, canDelete: true, canResolve: true });
+    });
+
+    it("should let moderators delete and resolve but not edit", () => {
+      expect(
+        getCommentPermissions(thread, {
+          userId: "owner",
+          canModerate: true,
+        }),
+      ).toEqual({ canEdit: false, canDelete: true, canResolve: true });
+    });
+
+    it("should not resolve replies", () => {
+      expect(
+        getCommentPermissions(reply, {
+          userId: "owner",
+          canModerate: true,
+        }).canResolve,
+      ).toBe(false);
+    });
+
+    it("should allow nothing to other users and anonymous listeners", () => {
+      const none = { canEdit: false, canDelete: false, canResolve: false };
+      expect(
+        getCommentPermissions(thread, {
+          userId: "someone",
+          canModerate: false,
+        }),
+      ).toEqual(none);
+      expect(
+        getCommentPermissions(
+          { authorId: null, parentId: null },
+          { userId: null, canModerate: false },
+        ),
+      ).toEqual(none);
+    });
+  });
+
+  describe("canCommentOnAudio", () => {
+    const publicAudio = { isPublic: true, allowAnonymousComments: false };
+
+    it("should only allow anonymous comments when enabled", () => {
+      expect(canCommentOnAudio(publicAudio, "user", null)).toBe(true);
+      expect(canCommentOnAudio(publicAudio, null, null)).toBe(false);
+      expect(
+        canCommentOnAudio(
+          { ...publicAudio, allowAnonymousComments: true },
+          null,
+          null,
+        ),
+      ).toBe(true);
+    });
+
+    it("should require the commenter role on private audios", () => {
+      const privateAudio = { ...publicAudio, isPublic: false };
+      expect(canCommentOnAudio(privateAudio, "user", "viewer")).toBe(false);
+      expect(canCommentOnAudio(privateAudio, "user", "commenter")).toBe(true);
+      expect(canCommentOnAudio(privateAudio, "user", "owner")).toBe(true);
+    });
+  });
+
+  describe("getCommentAuthorName", () => {
+    it("should prefer the account name", () => {
+      expect(
+        getCommentAuthorName({ author: { name: "Ada" }, authorName: "A." }),
+      ).toBe("Ada");
+      expect(getCommentAuthorName({ author: null, authorName: "Guest" })).toBe(
+        "Guest",
+      );
+      expect(getCommentAuthorName({ author: null, authorName: null })).toBe(
+        null,
+      );
+    });
+  });
+
+  describe("sortCommentThreads", () => {
+    const threads = [
+      { id: "b", timestamp: 30, resolvedAt: null },
+      { id: "c", timestamp: 5, resolvedAt: new Date() },
+      { id: "a", timestamp: 10, resolvedAt: null },
+    ];
+
+    it("should list open threads by time before resolved ones", () => {
+      expect(
+        sortCommentThreads(threads, true).map((thread) => thread.id),
+      ).toEqual(["a", "b", "c"]);
+    });
+
+    it("should hide resolved threads", () => {
+      expect(
+        sortCommentThreads(threads, false).map((thread) => thread.id),
+      ).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("getCommentPins", () => {
+    it("should pin threads with a time", () => {
+      const resolvedAt = new Date();
+      expect(
+        getCommentPins([
+          { id: "a", timestamp: 5, endTimestamp: 8, resolvedAt: null },
+          { id: "b", timestamp: null, endTimestamp: null, resolvedAt: null },
+          { id: "c", timestamp: 12, endTimestamp: null, resolvedAt },
+        ]),
+      ).toEqual([
+        { id: "a", timestamp: 5, endTimestamp: 8, resolved: false },
+        { id: "c", timestamp: 12, endTimestamp: null, resolved: true },
+      ]);
+    });
+  });
+});
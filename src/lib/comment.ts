@@ -0,0 +1,115 @@
+import type { CommentPin } from "~/types/Audio";
+import { type AccessRole, hasRole } from "~/lib/collaboration";
+
+/** Maximum length of a comment or reply */
+export const MAX_COMMENT_LENGTH = 2000;
+
+/** Maximum length of the name given by anonymous listeners */
+export const MAX_COMMENT_AUTHOR_NAME_LENGTH = 50;
+
+/** The signed-in user, if any, looking at the comments of an audio */
+export interface CommentViewer {
+  userId: string | null;
+  /** The owner and editors of the audio moderate its comments */
+  canModerate: boolean;
+}
+
+export interface CommentPermissions {
+  canEdit: boolean;
+  canDelete: boolean;
+  canResolve: boolean;
+}
+
+/**
+ * What a user may do with a comment: authors edit their comments, authors
+ * and moderators delete them, and moderators and the author of a thread
+ * resolve it. Anonymous comments can only be deleted by moderators.
+ * @param comment - The comment, replies have a parentId
+ * @param viewer - The user and whether they moderate the audio
+ * @returns The allowed actions
+ */
+export function getCommentPermissions(
+  comment: { authorId: string | null; parentId: string | null },
+  viewer: CommentViewer,
+): CommentPermissions {
+  const { userId, canModerate } = viewer;
+  const isAuthor = userId !== null && comment.authorId === userId;
+  return {
+    canEdit: isAuthor,
+    canDelete: isAuthor || canModerate,
+    canResolve: comment.parentId === null && (isAuthor || canModerate),
+  };
+}
+
+/**
+ * Checks if a user may write comments on an audio they can listen to: on
+ * public audios everyone signed in, on private audios commenters
+ * @param audio - Visibility and whether it accepts anonymous comments
+ * @param userId - The signed-in user, or null
+ * @param role - The role of the user on the audio, if any
+ */
+export function canCommentOnAudio(
+  audio: { isPublic: boolean; allowAnonymousComments: boolean },
+  userId: string | null,
+  role: AccessRole | null,
+): boolean {
+  if (!audio.isPublic) return hasRole(role, "commenter");
+  return userId !== null || audio.allowAnonymousComments;
+}
+
+/**
+ * Name shown for the author of a comment
+ * @param comment - Author account and the name of anonymous authors
+ * @returns The name, or null if none is known
+ */
+export function getCommentAuthorName(comment: {
+  author: { name: string | null } | null;
+  authorName: string | null;
+}): string | null {
+  return comment.author?.name ?? comment.authorName ?? null;
+}
+
+/**
+ * Threads to list, open threads first and each group by time
+ * @param threads - The threads of an audio
+ * @param showResolved - Include resolved threads
+ * @returns The threads in display order
+ */
+export function sortCommentThreads<
+  T extends { timestamp: number | null; resolvedAt: Date | null },
+>(threads: T[], showResolved: boolean): T[] {
+  return threads
+    .filter((thread) => showResolved || !thread.resolvedAt)
+    .sort(
+      (a, b) =>
+        Number(!!a.resolvedAt) - Number(!!b.resolvedAt) ||
+        (a.timestamp ?? 0) - (b.timestamp ?? 0),
+    );
+}
+
+/**
+ * Pins of the threads on the waveform
+ * @param threads - The threads of an audio
+ * @returns A pin for each thread with a time
+ */
+export function getCommentPins(
+  threads: {
+    id: string;
+    timestamp: number | null;
+    endTimestamp: number | null;
+    resolvedAt: Date | null;
+  }[],
+): CommentPin[] {
+  return threads.flatMap((thread) =>
+    thread.timestamp === null
+      ? []
+      : [
+          {
+            id: thread.id,
+            timestamp: thread.timestamp,
+            endTimestamp: thread.endTimestamp,
+            resolved: thread.resolvedAt !== null,
+          },
+        ],
+  );
+}
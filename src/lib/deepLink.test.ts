@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatTimeParam,
+  getDeepLinkUrl,
+  parseDeepLink,
+  parseMediaFragment,
+  parseTimeParam,
+} from "./deepLink";
+
+describe("Deep Link Utilities", () => {
+  describe("parseTimeParam", () => {
+    it("should parse seconds", () => {
+      expect(parseTimeParam("222")).toBe(222);
+      expect(parseTimeParam("222.5")).toBe(222.5);
+    });
+
+    it("should parse clock times", () => {
+      expect(parseTimeParam("3:42")).toBe(222);
+      expect(parseTimeParam("1:03:42")).toBe(3822);
+    });
+
+    it("should parse times with units", () => {
+      expect(parseTimeParam("3m42s")).toBe(222);
+      expect(parseTimeParam("1h2m")).toBe(3720);
+      expect(parseTimeParam("42S")).toBe(42);
+    });
+
+    it("should reject other values", () => {
+      expect(parseTimeParam("")).toBeNull();
+      expect(parseTimeParam("abc")).toBeNull();
+      expect(parseTimeParam("-5")).toBeNull();
+      expect(parseTimeParam("3:4:5:6")).toBeNull();
+    });
+  });
+
+  describe("formatTimeParam", () => {
+    it("should format whole seconds with units", () => {
+      expect(formatTimeParam(222.9)).toBe("3m42s");
+      expect(formatTimeParam(3720)).toBe("1h2m");
+      expect(formatTimeParam(0)).toBe("0s");
+    });
+
+    it("should be read back by parseTimeParam", () => {
+      expect(parseTimeParam(formatTimeParam(3822))).toBe(3822);
+    });
+  });
+
+  describe("parseMediaFragment", () => {
+    it("should read the start of a time fragment", () => {
+      expect(parseMediaFragment("#t=30")).toBe(30);
+      expect(parseMediaFragment("#t=npt:1:30,2:00")).toBe(90);
+      expect(parseMediaFragment("t=,20")).toBe(0);
+    });
+
+    it("should ignore other fragments", () => {
+      expect(parseMediaFragment("")).toBeNull();
+      expect(parseMediaFragment("#comments")).toBeNull();
+    });
+  });
+
+  describe("parseDeepLink", () => {
+    it("should loop sections unless disabled", () => {
+      expect(parseDeepLink(new URLSearchParams("section=abc"))).toEqual({
+        type: "marker",
+        markerId: "abc",
+        loop: true,
+      });
+      expect(
+        parseDeepLink(new URLSearchParams("section=abc&loop=false")),
+      ).toMatchObject({ loop: false });
+    });
+
+    it("should only loop markers when asked", () => {
+      expect(parseDeepLink(new URLSearchParams("marker=abc"))).toEqual({
+        type: "marker",
+        markerId: "abc",
+        loop: false,
+      });
+      expect(
+        parseDeepLink(new URLSearchParams("marker=abc&loop=true")),
+      ).toMatchObject({ loop: true });
+    });
+
+    it("should prefer the t parameter over the media fragment", () => {
+      expect(parseDeepLink(new URLSearchParams("t=3:42"), "#t=10")).toEqual({
+        type: "time",
+        time: 222,
+      });
+      expect(parseDeepLink(new URLSearchParams(""), "#t=10")).toEqual({
+        type: "time",
+        time: 10,
+      });
+    });
+
+    it("should return null without valid target", () => {
+      expect(parseDeepLink(new URLSearchParams("playlistId=x"))).toBeNull();
+      expect(parseDeepLink(new URLSearchParams("t=soon"))).toBeNull();
+    });
+  });
+
+  describe("getDeepLinkUrl", () => {
+    it("should link to a time", () => {
+      expect(
+        getDeepLinkUrl("https://example.com", "audio-1", {
+          type: "time",
+          time: 222,
+        }),
+      ).toBe("https://example.com/audios/audio-1/listen?t=3m42s");
+    });
+
+    it("should link looped markers as sections", () => {
+      expect(
+        getDeepLinkUrl("https://example.com", "audio-1", {
+          type: "marker",
+          markerId: "m1",
+          loop: true,
+        }),
+      ).toBe("https://example.com/audios/audio-1/listen?section=m1");
+      expect(
+        getDeepLinkUrl("https://example.com", "audio-1", {
+          type: "marker",
+          markerId: "m1",
+          loop: false,
+        }),
+      ).toBe("https://example.com/audios/audio-1/listen?marker=m1");
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Links to a position in an audio. The listen page accepts `?t=` with a time,
+ * `?marker=` and `?section=` with a marker id and the `#t=` media fragment.
+ * Sections opened with `?section=` are looped unless `loop=false` is given.
+ */
+export type DeepLinkTarget =
+  | { type: "time"; time: number }
+  | { type: "marker"; markerId: string; loop: boolean };
+
+const CLOCK_TIME = /^(?:(\d+):)?(\d+):(\d{1,2}(?:\.\d+)?)$/;
+const UNIT_TIME = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s)?$/;
+
+/**
+ * Parse a time given in seconds (`222.5`), as clock time (`3:42`, `1:03:42`)
+ * or with units (`3m42s`, `1h2m`)
+ * @param value - The time parameter
+ * @returns The time in seconds, or null if the value is not a time
+ */
+export function parseTimeParam(value: string): number | null {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  if (/^\d+(?:\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  const clock = CLOCK_TIME.exec(trimmed);
+  if (clock) {
+    return (
+      Number(clock[1] ?? 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3])
+    );
+  }
+
+  const units = UNIT_TIME.exec(trimmed);
+  if (units && (units[1] ?? units[2] ?? units[3])) {
+    return (
+      Number(units[1] ?? 0) * 3600 +
+      Number(units[2] ?? 0) * 60 +
+      Number(units[3] ?? 0)
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Format a time for the `t` parameter, e.g. `3m42s`
+ * @param seconds - The time in seconds, fractions are dropped
+ * @returns The time with units
+ */
+export function formatTimeParam(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const parts = [
+    hours ? `${hours}h` : "",
+    minutes ? `${minutes}m` : "",
+    secs || total === 0 ? `${secs}s` : "",
+  ];
+  return parts.join("");
+}
+
+/**
+ * Start time of a `#t=` media fragment, e.g. `#t=30`, `#t=npt:1:30,2:00`
+ * @param hash - The hash of the URL, with or without leading `#`
+ * @returns The start time in seconds, or null without time fragment
+ */
+export function parseMediaFragment(hash: string): number | null {
+  const value = new URLSearchParams(hash.replace(/^#/, "")).get("t");
+  if (value === null) return null;
+  const [start = ""] = value.replace(/^npt:/, "").split(",");
+  // "#t=,20" plays the beginning up to 20 seconds
+  return start ? parseTimeParam(start) : 0;
+}
+
+/**
+ * Read the link target of the listen page
+ * @param searchParams - The query parameters of the page
+ * @param hash - The hash of the URL
+ * @returns The position to open, or null to start at the beginning
+ */
+export function parseDeepLink(
+  searchParams: Pick<URLSearchParams, "get">,
+  hash = "",
+): DeepLinkTarget | null {
+  const section = searchParams.get("section");
+  if (section) {
+    return {
+      type: "marker",
+      markerId: section,
+      loop: searchParams.get("loop") !== "false",
+    };
+  }
+
+  const marker = searchParams.get("marker");
+  if (marker) {
+    return {
+      type: "marker",
+      markerId: marker,
+      loop: searchParams.get("loop") === "true",
+    };
+  }
+
+  const timeParam = searchParams.get("t");
+  const time =
+    timeParam !== null ? parseTimeParam(timeParam) : parseMediaFragment(hash);
+  return time !== null ? { type: "time", time } : null;
+}
+
+/**
+ * Link to a position in the listen page of an audio
+ * @param origin - Origin of the app, e.g. window.location.origin
+ * @param audioId - The audio
+ * @param target - Time or marker to open, looped markers use `section`
+ * @returns The absolute URL
+ */
+export function getDeepLinkUrl(
+  origin: string,
+  audioId: string,
+  target: DeepLinkTarget,
+): string {
+  const params = new URLSearchParams();
+  if (target.type === "time") {
+    params.set("t", formatTimeParam(target.time));
+  } else {
+    params.set(target.loop ? "section" : "marker", target.markerId);
+  }
+  return `${origin}/audios/${audioId}/listen?${params.toString()}`;
+}
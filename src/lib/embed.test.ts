@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import {
+  fitEmbedSize,
+  getEmbedIframeHtml,
+  getEmbedPath,
+  getEmbedUrl,
+  getOEmbedDiscoveryUrl,
+  getPlaylistEmbedAudioPath,
+  isEmbedPath,
+  parseEmbeddableUrl,
+  parseEmbedOptions,
+} from "./embed";
+
+describe("Embed Utilities", () => {
+  describe("isEmbedPath", () => {
+    it("should recognize embed pages", () => {
+      expect(isEmbedPath("/embed/audio/abc")).toBe(true);
+      expect(isEmbedPath("/embed/playlist/abc")).toBe(true);
+    });
+
+    it("should not match other pages", () => {
+      expect(isEmbedPath("/audios/abc/listen")).toBe(false);
+      expect(isEmbedPath("/embedded")).toBe(false);
+    });
+  });
+
+  describe("parseEmbedOptions", () => {
+    it("should default to the app theme with marker list", () => {
+      expect(parseEmbedOptions(new URLSearchParams())).toEqual({
+        theme: null,
+        showMarkerList: true,
+      });
+    });
+
+    it("should read theme and marker list visibility", () => {
+      expect(
+        parseEmbedOptions(new URLSearchParams("theme=dark&markers=0")),
+      ).toEqual({ theme: "dark", showMarkerList: false });
+      expect(
+        parseEmbedOptions(new URLSearchParams("theme=light&markers=false")),
+      ).toEqual({ theme: "light", showMarkerList: false });
+    });
+
+    it("should ignore unknown themes", () => {
+      expect(parseEmbedOptions(new URLSearchParams("theme=blue")).theme).toBe(
+        null,
+      );
+    });
+  });
+
+  describe("getEmbedPath", () => {
+    it("should build the path with and without options", () => {
+      expect(getEmbedPath({ type: "audio", id: "a1" })).toBe("/embed/audio/a1");
+      expect(
+        getEmbedPath(
+          { type: "playlist", id: "p1" },
+          new URLSearchParams("theme=dark"),
+        ),
+      ).toBe("/embed/playlist/p1?theme=dark");
+    });
+  });
+
+  describe("getPlaylistEmbedAudioPath", () => {
+    it("should keep the options but not the position", () => {
+      const path = getPlaylistEmbedAudioPath(
+        "p1",
+        "a2",
+        new URLSearchParams("theme=dark&markers=0&audio=a1&t=30"),
+        true,
+      );
+      expect(path).toBe(
+        "/embed/playlist/p1?theme=dark&markers=0&audio=a2&autoplay=true",
+      );
+    });
+
+    it("should drop autoplay when it is disabled", () => {
+      expect(
+        getPlaylistEmbedAudioPath(
+          "p1",
+          "a2",
+          new URLSearchParams("autoplay=true"),
+          false,
+        ),
+      ).toBe("/embed/playlist/p1?audio=a2");
+    });
+  });
+
+  describe("parseEmbeddableUrl", () => {
+    const origin = "https://example.com";
+
+    it("should find audios and playlists of listen pages", () => {
+      expect(
+        parseEmbeddableUrl("https://example.com/audios/a1/listen?t=30", origin),
+      ).toEqual({ type: "audio", id: "a1" });
+      expect(
+        parseEmbeddableUrl("https://example.com/playlists/p1/listen/", origin),
+      ).toEqual({ type: "playlist", id: "p1" });
+    });
+
+    it("should accept embed URLs", () => {
+      expect(
+        parseEmbeddableUrl("https://example.com/embed/audio/a1", origin),
+      ).toEqual({
+        type: "audio",
+        id: "a1",
+      });
+    });
+
+    it("should reject other pages and invalid URLs", () => {
+      expect(
+        parseEmbeddableUrl("https://example.com/audios/a1/edit", origin),
+      ).toBe(null);
+      expect(parseEmbeddableUrl("/audios/a1/listen", origin)).toBe(null);
+      expect(parseEmbeddableUrl("not a url", origin)).toBe(null);
+    });
+
+    it("should reject URLs of other hosts", () => {
+      expect(
+        parseEmbeddableUrl("https://evil.example/audios/a1/listen", origin),
+      ).toBe(null);
+      expect(
+        parseEmbeddableUrl("http://example.com/embed/audio/a1", origin),
+      ).toBe(null);
+    });
+
+    it("should reject malformed escapes in the id", () => {
+      expect(
+        parseEmbeddableUrl(
+          "https://example.com/audios/%E0%A4%A/listen",
+          origin,
+        ),
+      ).toBe(null);
+      expect(
+        parseEmbeddableUrl(
+          "https://example.com/embed/playlist/%E0%A4%A",
+          origin,
+        ),
+      ).toBe(null);
+    });
+  });
+
+  describe("getEmbedUrl", () => {
+    it("should pass on position and theme", () => {
+      expect(
+        getEmbedUrl(
+          "https://app.example.com",
+          "https://example.com/audios/a1/listen?t=1m30s&theme=dark&utm=x",
+          { type: "audio", id: "a1" },
+        ),
+      ).toBe("https://app.example.com/embed/audio/a1?t=1m30s&theme=dark");
+    });
+  });
+
+  describe("fitEmbedSize", () => {
+    const size = { width: 800, height: 360 };
+
+    it("should keep the default size without limits", () => {
+      expect(fitEmbedSize(size, null, null)).toEqual(size);
+    });
+
+    it("should shrink to the maximum size", () => {
+      expect(fitEmbedSize(size, 600, 200)).toEqual({ width: 600, height: 200 });
+      expect(fitEmbedSize(size, 1000, 0)).toEqual(size);
+    });
+  });
+
+  describe("getEmbedIframeHtml", () => {
+    it("should escape the attributes", () => {
+      const html = getEmbedIframeHtml(
+        "https://example.com/embed/audio/a1?t=1&theme=dark",
+        'Live "Session" <1>',
+        { width: 800, height: 360 },
+      );
+      expect(html).toContain(
+        'src="https://example.com/embed/audio/a1?t=1&amp;theme=dark"',
+      );
+      expect(html).toContain('title="Live &quot;Session&quot; &lt;1&gt;"');
+      expect(html).toContain('width="800" height="360"');
+    });
+  });
+
+  describe("getOEmbedDiscoveryUrl", () => {
+    it("should link the endpoint with the encoded page URL", () => {
+      expect(
+        getOEmbedDiscoveryUrl(
+          "https://example.com",
+          "https://example.com/audios/a1/listen",
+        ),
+      ).toBe(
+        "https://example.com/api/oembed?url=https%3A%2F%2Fexample.com%2Faudios%2Fa1%2Flisten&format=json",
+      );
+    });
+  });
+});
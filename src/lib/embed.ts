@@ -0,0 +1,219 @@
+/**
+ * Embeds of the player in other sites. The embed pages accept `?theme=` with
+ * `light` or `dark`, `?markers=0` to hide the marker list and the position
+ * parameters of the listen page, e.g. `?t=1m30s`.
+ */
+
+export const EMBED_THEMES = ["light", "dark"] as const;
+export type EmbedTheme = (typeof EMBED_THEMES)[number];
+
+export type EmbedResourceType = "audio" | "playlist";
+
+export interface EmbedResource {
+  type: EmbedResourceType;
+  id: string;
+}
+
+export interface EmbedOptions {
+  /** Without theme the embed looks like the app */
+  theme: EmbedTheme | null;
+  showMarkerList: boolean;
+}
+
+export interface EmbedSize {
+  width: number;
+  height: number;
+}
+
+/** Size of the iframe offered by the oEmbed endpoint */
+export const DEFAULT_EMBED_SIZES: Record<EmbedResourceType, EmbedSize> = {
+  audio: { width: 800, height: 360 },
+  playlist: { width: 800, height: 480 },
+};
+
+/** Parameters of the listen page that are passed on to the embed */
+const POSITION_PARAMS = ["t", "marker", "section", "loop"];
+
+const LISTEN_PATH = /^\/(audios|playlists)\/([^/]+)\/listen\/?$/;
+const EMBED_PATH = /^\/embed\/(audio|playlist)\/([^/]+)\/?$/;
+
+/** Embed pages are shown without navbar and footer */
+export function isEmbedPath(pathname: string): boolean {
+  return pathname === "/embed" || pathname.startsWith("/embed/");
+}
+
+/**
+ * Read the options of an embed page
+ * @param searchParams - The query parameters of the page
+ * @returns The theme and whether to show the marker list
+ */
+export function parseEmbedOptions(
+  searchParams: Pick<URLSearchParams, "get">,
+): EmbedOptions {
+  const theme = searchParams.get("theme");
+  const markers = searchParams.get("markers");
+  return {
+    theme: EMBED_THEMES.find((candidate) => candidate === theme) ?? null,
+    showMarkerList: markers !== "0" && markers !== "false",
+  };
+}
+
+/**
+ * Path of the embed page of an audio or playlist
+ * @param resource - The embedded audio or playlist
+ * @param params - Options and position of the embed
+ */
+export function getEmbedPath(
+  resource: EmbedResource,
+  params?: URLSearchParams,
+): string {
+  const query = params?.toString();
+  const path = `/embed/${resource.type}/${resource.id}`;
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Path of another audio in a playlist embed, the options of the embed are
+ * kept but not the position in the previous audio
+ * @param playlistId - The embedded playlist
+ * @param audioId - The audio to open
+ * @param searchParams - The query parameters of the current embed
+ * @param autoplay - Start playing the audio when it is loaded
+ */
+export function getPlaylistEmbedAudioPath(
+  playlistId: string,
+  audioId: string,
+  searchParams: URLSearchParams,
+  autoplay: boolean,
+): string {
+  const params = new URLSearchParams(searchParams);
+  for (const name of [...POSITION_PARAMS, "autoplay"]) {
+    params.delete(name);
+  }
+  params.set("audio", audioId);
+  if (autoplay) {
+    params.set("autoplay", "true");
+  }
+  return getEmbedPath({ type: "playlist", id: playlistId }, params);
+}
+
+/** Decode a path segment, null for malformed escapes */
+function decodePathSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the audio or playlist of a listen page or embed URL
+ * @param url - An absolute URL of the app
+ * @param origin - Origin of the app, URLs of other hosts are not embedded
+ * @returns The resource, or null for URLs that cannot be embedded
+ */
+export function parseEmbeddableUrl(
+  url: string,
+  origin: string,
+): EmbedResource | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.origin !== origin) return null;
+
+  const listen = LISTEN_PATH.exec(parsed.pathname);
+  if (listen?.[1] && listen[2]) {
+    const id = decodePathSegment(listen[2]);
+    return id === null
+      ? null
+      : { type: listen[1] === "audios" ? "audio" : "playlist", id };
+  }
+
+  const embed = EMBED_PATH.exec(parsed.pathname);
+  if (embed?.[2]) {
+    const id = decodePathSegment(embed[2]);
+    return id === null
+      ? null
+      : { type: embed[1] === "audio" ? "audio" : "playlist", id };
+  }
+
+  return null;
+}
+
+/**
+ * Absolute URL of the embed page of a listen page URL, the position in the
+ * audio and the theme are passed on
+ * @param origin - Origin of the app
+ * @param url - An absolute listen page or embed URL
+ * @param resource - The audio or playlist of the URL
+ */
+export function getEmbedUrl(
+  origin: string,
+  url: string,
+  resource: EmbedResource,
+): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of new URL(url).searchParams) {
+    if (POSITION_PARAMS.includes(name) || name === "theme") {
+      params.set(name, value);
+    }
+  }
+  return `${origin}${getEmbedPath(resource, params)}`;
+}
+
+/**
+ * Scale the iframe down to the maximum size requested by the consumer
+ * @param size - The default size of the embed
+ * @param maxWidth - The `maxwidth` parameter, if given
+ * @param maxHeight - The `maxheight` parameter, if given
+ */
+export function fitEmbedSize(
+  size: EmbedSize,
+  maxWidth: number | null,
+  maxHeight: number | null,
+): EmbedSize {
+  return {
+    width:
+      maxWidth && maxWidth > 0 ? Math.min(size.width, maxWidth) : size.width,
+    height:
+      maxHeight && maxHeight > 0
+        ? Math.min(size.height, maxHeight)
+        : size.height,
+  };
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * HTML of the iframe that embeds the player
+ * @param src - Absolute URL of the embed page
+ * @param title - Title of the iframe for screen readers
+ * @param size - Size of the iframe
+ */
+export function getEmbedIframeHtml(
+  src: string,
+  title: string,
+  size: EmbedSize,
+): string {
+  return `<iframe src="${escapeAttribute(src)}" title="${escapeAttribute(title)}" width="${size.width}" height="${size.height}" frameborder="0" allow="autoplay; fullscreen" loading="lazy"></iframe>`;
+}
+
+/**
+ * URL of the oEmbed endpoint for a page, linked from the listen pages so that
+ * consumers can discover the embed
+ * @param origin - Origin of the app
+ * @param url - Absolute URL of the listen page
+ */
+export function getOEmbedDiscoveryUrl(origin: string, url: string): string {
+  const params = new URLSearchParams({ url, format: "json" });
+  return `${origin}/api/oembed?${params.toString()}`;
+}
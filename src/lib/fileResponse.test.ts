@@ -0,0 +1,328 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  createEtag,
+  createFileResponse,
+  isNotModified,
+  isRangeAllowed,
+  parseRange,
+} from "./fileResponse";
+
+const CONTENT = "0123456789abcdefghij"; // 20 bytes
+const MTIME = new Date("2026-01-15T10:30:00Z");
+const ETAG = createEtag(CONTENT.length, MTIME.getTime());
+const OPTIONS = {
+  contentType: "audio/mpeg",
+  cacheControl: "public, max-age=31536000, immutable",
+};
+
+let dir: string;
+let filePath: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "file-response-"));
+  filePath = path.join(dir, "audio.mp3");
+  await writeFile(filePath, CONTENT);
+  await utimes(filePath, MTIME, MTIME);
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function request(headers: Record<string, string> = {}, method = "GET") {
+  return new Request("http://localhost/api/audio/1/file", { method, headers });
+}
+
+describe("File Response Utilities", () => {
+  describe("parseRange", () => {
+    it("should parse a closed range", () => {
+      expect(parseRange("bytes=0-4", 20)).toEqual({ start: 0, end: 4 });
+    });
+
+    it("should parse an open-ended range", () => {
+      expect(parseRange("bytes=15-", 20)).toEqual({ start: 15, end: 19 });
+    });
+
+    it("should parse a suffix range", () => {
+      expect(parseRange("bytes=-5", 20)).toEqual({ start: 15, end: 19 });
+      expect(parseRange("bytes=-50", 20)).toEqual({ start: 0, end: 19 });
+    });
+
+    it("should clamp the end to the file size", () => {
+      expect(parseRange("bytes=10-100", 20)).toEqual({ start: 10, end: 19 });
+    });
+
+    it("should report ranges outside the file as unsatisfiable", () => {
+      expect(parseRange("bytes=20-", 20)).toBe("unsatisfiable");
+      expect(parseRange("bytes=-0", 20)).toBe("unsatisfiable");
+      expect(parseRange("bytes=0-", 0)).toBe("unsatisfiable");
+    });
+
+    it("should ignore invalid and multi-range headers", () => {
+      expect(parseRange("bytes=5-2", 20)).toBe(null);
+      expect(parseRange("bytes=-", 20)).toBe(null);
+      expect(parseRange("items=0-4", 20)).toBe(null);
+      expect(parseRange("bytes=0-1,5-6", 20)).toBe(null);
+    });
+  });
+
+  describe("isNotModified", () => {
+    const mtimeMs = MTIME.getTime();
+
+    it("should match If-None-Match against the ETag", () => {
+      expect(
+        isNotModified(new Headers({ "If-None-Match": ETAG }), ETAG, mtimeMs),
+      ).toBe(true);
+      expect(
+        isNotModified(
+          new Headers({ "If-None-Match": `"other", W/${ETAG}` }),
+          ETAG,
+          mtimeMs,
+        ),
+      ).toBe(true);
+      expect(
+        isNotModified(new Headers({ "If-None-Match": "*" }), ETAG, mtimeMs),
+      ).toBe(true);
+      expect(
+        isNotModified(
+          new Headers({ "If-None-Match": '"other"' }),
+          ETAG,
+          mtimeMs,
+        ),
+      ).toBe(false);
+    });
+
+    it("should compare If-Modified-Since with second precision", () => {
+      const at = (date: Date) =>
+        new Headers({ "If-Modified-Since": date.toUTCString() });
+      expect(isNotModified(at(MTIME), ETAG, mtimeMs + 500)).toBe(true);
+      expect(isNotModified(at(new Date(mtimeMs - 1000)), ETAG, mtimeMs)).toBe(
+        false,
+      );
+      expect(
+        isNotModified(
+          new Headers({ "If-Modified-Since": "not a date" }),
+          ETAG,
+          mtimeMs,
+        ),
+      ).toBe(false);
+    });
+
+    it("should let If-None-Match take precedence over If-Modified-Since", () => {
+      const headers = new Headers({
+        "If-None-Match": '"other"',
+        "If-Modified-Since": MTIME.toUTCString(),
+      });
+      expect(isNotModified(headers, ETAG, mtimeMs)).toBe(false);
+    });
+  });
+
+  describe("isRangeAllowed", () => {
+    const mtimeMs = MTIME.getTime();
+
+    it("should allow ranges without If-Range", () => {
+      expect(isRangeAllowed(new Headers(), ETAG, mtimeMs)).toBe(true);
+    });
+
+    it("should require an exact strong ETag", () => {
+      expect(
+        isRangeAllowed(new Headers({ "If-Range": ETAG }), ETAG, mtimeMs),
+      ).toBe(true);
+      expect(
+        isRangeAllowed(new Headers({ "If-Range": `W/${ETAG}` }), ETAG, mtimeMs),
+      ).toBe(false);
+      expect(
+        isRangeAllowed(new Headers({ "If-Range": '"other"' }), ETAG, mtimeMs),
+      ).toBe(false);
+    });
+
+    it("should require the exact Last-Modified date", () => {
+      expect(
+        isRangeAllowed(
+          new Headers({ "If-Range": MTIME.toUTCString() }),
+          ETAG,
+          mtimeMs,
+        ),
+      ).toBe(true);
+      expect(
+        isRangeAllowed(
+          new Headers({ "If-Range": new Date(mtimeMs - 1000).toUTCString() }),
+          ETAG,
+          mtimeMs,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("createFileResponse", () => {
+    it("should serve the whole file with validators", async () => {
+      const response = await createFileResponse(request(), filePath, OPTIONS);
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe(CONTENT);
+      expect(response.headers.get("Content-Length")).toBe("20");
+      expect(response.headers.get("Content-Type")).toBe("audio/mpeg");
+      expect(response.headers.get("Accept-Ranges")).toBe("bytes");
+      expect(response.headers.get("ETag")).toBe(ETAG);
+      expect(response.headers.get("Last-Modified")).toBe(MTIME.toUTCString());
+      expect(response.headers.get("Content-Range")).toBe(null);
+    });
+
+    it("should serve a byte range with 206", async () => {
+      const response = await createFileResponse(
+        request({ Range: "bytes=2-5" }),
+        filePath,
+        OPTIONS,
+      );
+
+      expect(response.status).toBe(206);
+      expect(await response.text()).toBe("2345");
+      expect(response.headers.get("Content-Length")).toBe("4");
+      expect(response.headers.get("Content-Range")).toBe("bytes 2-5/20");
+    });
+
+    it("should serve open-ended and suffix ranges", async () => {
+      const openEnded = await createFileResponse(
+        request({ Range: "bytes=18-" }),
+        filePath,
+        OPTIONS,
+      );
+      expect(openEnded.status).toBe(206);
+      expect(await openEnded.text()).toBe("ij");
+      expect(openEnded.headers.get("Content-Range")).toBe("bytes 18-19/20");
+
+      const suffix = await createFileResponse(
+        request({ Range: "bytes=-3" }),
+        filePath,
+        OPTIONS,
+      );
+      expect(suffix.status).toBe(206);
+      expect(await suffix.text()).toBe("hij");
+      expect(suffix.headers.get("Content-Range")).toBe("bytes 17-19/20");
+    });
+
+    it("should answer unsatisfiable ranges with 416", async () => {
+      const response = await createFileResponse(
+        request({ Range: "bytes=20-30" }),
+        filePath,
+        OPTIONS,
+      );
+
+      expect(response.status).toBe(416);
+      expect(response.headers.get("Content-Range")).toBe("bytes */20");
+      expect(await response.text()).toBe("");
+    });
+
+    it("should serve the whole file for malformed ranges", async () => {
+      const response = await createFileResponse(
+        request({ Range: "bytes=abc" }),
+        filePath,
+        OPTIONS,
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe(CONTENT);
+    });
+
+    it("should answer a matching If-None-Match with 304", async () => {
+      const response = await createFileResponse(
+        request({ "If-None-Match": ETAG, Range: "bytes=0-1" }),
+        filePath,
+        OPTIONS,
+      );
+
+      expect(response.status).toBe(304);
+      expect(response.headers.get("ETag")).toBe(ETAG);
+      expect(response.headers.get("Cache-Control")).toBe(OPTIONS.cacheControl);
+      expect(await response.text()).toBe("");
+    });
+
+    it("should serve the file for a stale If-None-Match", async () => {
+      const response = await createFileResponse(
+        request({ "If-None-Match": '"stale"' }),
+        filePath,
+        OPTIONS,
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe(CONTENT);
+    });
+
+    it("should answer a current If-Modified-Since with 304", async () => {
+      const response = await createFileResponse(
+        request({ "If-Modified-Since": MTIME.toUTCString() }),
+        filePath,
+        OPTIONS,
+      );
+
+      expect(response.status).toBe(304);
+    });
+
+    it("should serve the file for an older If-Modified-Since", async () => {
+      const response = await createFileResponse(
+        request({
+          "If-Modified-Since": new Date("2025-01-01T00:00:00Z").toUTCString(),
+        }),
+        filePath,
+        OPTIONS,
+      );
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should honour the range when If-Range matches", async () => {
+      const byEtag = await createFileResponse(
+        request({ Range: "bytes=0-1", "If-Range": ETAG }),
+        filePath,
+        OPTIONS,
+      );
+      expect(byEtag.status).toBe(206);
+      expect(await byEtag.text()).toBe("01");
+
+      const byDate = await createFileResponse(
+        request({ Range: "bytes=0-1", "If-Range": MTIME.toUTCString() }),
+        filePath,
+        OPTIONS,
+      );
+      expect(byDate.status).toBe(206);
+      expect(await byDate.text()).toBe("01");
+    });
+
+    it("should serve the whole file when If-Range does not match", async () => {
+      const response = await createFileResponse(
+        request({ Range: "bytes=0-1", "If-Range": '"stale"' }),
+        filePath,
+        OPTIONS,
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe(CONTENT);
+      expect(response.headers.get("Content-Range")).toBe(null);
+    });
+
+    it("should send headers without a body for HEAD requests", async () => {
+      const response = await createFileResponse(
+        request({ Range: "bytes=0-9" }, "HEAD"),
+        filePath,
+        OPTIONS,
+      );
+
+      expect(response.status).toBe(206);
+      expect(response.headers.get("Content-Length")).toBe("10");
+      expect(response.body).toBe(null);
+    });
+
+    it("should add extra headers to file responses", async () => {
+      const response = await createFileResponse(request(), filePath, {
+        ...OPTIONS,
+        headers: { "Content-Disposition": "attachment" },
+      });
+
+      expect(response.headers.get("Content-Disposition")).toBe("attachment");
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { Readable } from "node:stream";
+import { NextResponse } from "next/server";
+
+/** Inclusive byte range within a file */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a `Range` request header for a file of the given size.
+ *
+ * Only single `bytes` ranges are supported. Following RFC 9110, syntactically
+ * invalid headers and multi-range requests are ignored so that the whole file
+ * is served instead.
+ *
+ * @param header - Value of the Range header
+ * @param size - Size of the file in bytes
+ * @returns The range to serve, "unsatisfiable" if no byte of the range lies
+ * within the file, or null if the header should be ignored
+ */
+export function parseRange(
+  header: string,
+  size: number,
+): ByteRange | "unsatisfiable" | null {
+  const match = /^\s*bytes\s*=\s*(\d*)\s*-\s*(\d*)\s*$/i.exec(header);
+  if (!match) return null;
+
+  const [, startStr = "", endStr = ""] = match;
+
+  if (startStr === "") {
+    // Suffix range: the last N bytes
+    if (endStr === "") return null;
+    const suffixLength = Number.parseInt(endStr, 10);
+    if (suffixLength === 0 || size === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - suffixLength), end: size - 1 };
+  }
+
+  const start = Number.parseInt(startStr, 10);
+  const end = endStr === "" ? null : Number.parseInt(endStr, 10);
+  if (end !== null && end < start) return null;
+  if (start >= size) return "unsatisfiable";
+
+  return { start, end: Math.min(end ?? size - 1, size - 1) };
+}
+
+/**
+ * Build a strong entity tag from file size and modification time.
+ * Uploaded files are never modified in place, so this identifies the content.
+ */
+export function createEtag(size: number, mtimeMs: number): string {
+  return `"${size.toString(16)}-${Math.floor(mtimeMs).toString(16)}"`;
+}
+
+/** Parse an HTTP date, returning the time in ms or null if invalid */
+function parseHttpDate(value: string): number | null {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/** HTTP dates have second precision, so compare file times in whole seconds */
+function toHttpSeconds(ms: number): number {
+  return Math.floor(ms / 1000);
+}
+
+/**
+ * Whether a conditional GET can be answered with 304 Not Modified.
+ * If-None-Match takes precedence over If-Modified-Since.
+ */
+export function isNotModified(
+  headers: Headers,
+  etag: string,
+  mtimeMs: number,
+): boolean {
+  const ifNoneMatch = headers.get("if-none-match");
+  if (ifNoneMatch !== null) {
+    if (ifNoneMatch.trim() === "*") return true;
+    // Weak comparison: a W/ prefix does not matter here
+    return ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .includes(etag);
+  }
+
+  const ifModifiedSince = headers.get("if-modified-since");
+  if (ifModifiedSince !== null) {
+    const since = parseHttpDate(ifModifiedSince);
+    return since !== null && toHttpSeconds(mtimeMs) <= toHttpSeconds(since);
+  }
+
+  return false;
+}
+
+/**
+ * Whether the Range header may be honoured according to If-Range.
+ * If-Range requires a strong validator: an exact ETag or the exact Last-Modified date.
+ */
+export function isRangeAllowed(
+  headers: Headers,
+  etag: string,
+  mtimeMs: number,
+): boolean {
+  const ifRange = headers.get("if-range");
+  if (ifRange === null) return true;
+
+  const value = ifRange.trim();
+  if (value.startsWith('"') || value.startsWith("W/")) {
+    return value === etag;
+  }
+
+  const date = parseHttpDate(value);
+  return date !== null && toHttpSeconds(date) === toHttpSeconds(mtimeMs);
+}
+
+interface FileResponseOptions {
+  contentType: string;
+  cacheControl: string;
+  /** Additional headers added to 200 and 206 responses */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Serve a file from disk with support for conditional and range requests.
+ *
+ * - `If-None-Match` / `If-Modified-Since` are answered with 304 Not Modified
+ * - a single `Range` is answered with 206 Partial Content, honouring `If-Range`
+ * - unsatisfiable ranges are answered with 416 Range Not Satisfiable
+ * - the body is streamed from disk instead of being read into memory
+ *
+ * @param request - The incoming request (GET or HEAD)
+ * @param filePath - Absolute path to the file, which must exist
+ */
+export async function createFileResponse(
+  request: Request,
+  filePath: string,
+  { contentType, cacheControl, headers: extraHeaders }: FileResponseOptions,
+): Promise<NextResponse> {
+  const fileStat = await stat(filePath);
+  const size = fileStat.size;
+  const etag = createEtag(size, fileStat.mtimeMs);
+  const lastModified = fileStat.mtime.toUTCString();
+
+  const validatorHeaders = {
+    ETag: etag,
+    "Last-Modified": lastModified,
+    "Cache-Control": cacheControl,
+  };
+
+  if (isNotModified(request.headers, etag, fileStat.mtimeMs)) {
+    return new NextResponse(null, { status: 304, headers: validatorHeaders });
+  }
+
+  const rangeHeader = request.headers.get("range");
+  const range =
+    rangeHeader !== null &&
+    isRangeAllowed(request.headers, etag, fileStat.mtimeMs)
+      ? parseRange(rangeHeader, size)
+      : null;
+
+  if (range === "unsatisfiable") {
+    return new NextResponse(null, {
+      status: 416,
+      headers: {
+        ...validatorHeaders,
+        "Content-Range": `bytes */${size}`,
+        "Accept-Ranges": "bytes",
+      },
+    });
+  }
+
+  const start = range?.start ?? 0;
+  const end = range?.end ?? size - 1;
+  const contentLength = size === 0 ? 0 : end - start + 1;
+
+  const responseHeaders: Record<string, string> = {
+    ...validatorHeaders,
+    ...extraHeaders,
+    "Content-Type": contentType,
+    "Content-Length": contentLength.toString(),
+    "Accept-Ranges": "bytes",
+  };
+  if (range) {
+    responseHeaders["Content-Range"] = `bytes ${start}-${end}/${size}`;
+  }
+
+  const body =
+    request.method === "HEAD" || contentLength === 0
+      ? null
+      : (Readable.toWeb(
+          createReadStream(filePath, { start, end }),
+        ) as ReadableStream<Uint8Array>);
+
+  return new NextResponse(body, {
+    status: range ? 206 : 200,
+    headers: responseHeaders,
+  });
+}
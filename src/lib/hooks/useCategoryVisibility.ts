@@ -0,0 +1,23 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+/**
+ * Hidden marker categories of a page, shared by the legend, the waveform
+ * and the marker lists. Keys are category ids or UNCATEGORIZED_KEY.
+ */
+export function useCategoryVisibility() {
+  const [hiddenCategoryIds, setHiddenCategoryIds] = useState<string[]>([]);
+
+  const toggleCategory = useCallback((key: string) => {
+    setHiddenCategoryIds((hidden) =>
+      hidden.includes(key)
+        ? hidden.filter((hiddenKey) => hiddenKey !== key)
+        : [...hidden, key],
+    );
+  }, []);
+
+  const showAllCategories = useCallback(() => setHiddenCategoryIds([]), []);
+
+  return { hiddenCategoryIds, toggleCategory, showAllCategories };
+}
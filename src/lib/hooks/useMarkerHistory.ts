@@ -0,0 +1,142 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  MAX_HISTORY_ENTRIES,
+  type MarkerHistoryAdapter,
+  type MarkerHistoryEntry,
+  applyMarkerChanges,
+  invertChange,
+  remapMarkerId,
+} from "~/lib/markerHistory";
+
+interface UseMarkerHistoryOptions {
+  adapter: MarkerHistoryAdapter;
+  /** Called after an undo or redo was applied, e.g. to reload the markers */
+  onApplied?: () => void;
+}
+
+/** Keyboard shortcuts in text fields keep their own undo */
+function isTextInput(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      target.tagName === "INPUT" ||
+      target.tagName === "TEXTAREA")
+  );
+}
+
+/**
+ * Undo/redo stack for marker changes with Ctrl+Z / Ctrl+Shift+Z (Cmd on
+ * macOS, Ctrl+Y also redoes). Changes are recorded after they were saved and
+ * reverted through the adapter, so stored markers stay in sync with the
+ * server.
+ */
+export function useMarkerHistory({
+  adapter,
+  onApplied,
+}: UseMarkerHistoryOptions) {
+  const [past, setPast] = useState<MarkerHistoryEntry[]>([]);
+  const [future, setFuture] = useState<MarkerHistoryEntry[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const nextIdRef = useRef(1);
+  // Guards against a second undo before the state of the first one is updated
+  const isApplyingRef = useRef(false);
+  const adapterRef = useRef(adapter);
+  const onAppliedRef = useRef(onApplied);
+  adapterRef.current = adapter;
+  onAppliedRef.current = onApplied;
+
+  const record = useCallback((entry: Omit<MarkerHistoryEntry, "id">) => {
+    const id = nextIdRef.current++;
+    setPast((entries) =>
+      [...entries, { ...entry, id }].slice(-MAX_HISTORY_ENTRIES),
+    );
+    // A new change makes the undone entries obsolete
+    setFuture([]);
+    setError(null);
+  }, []);
+
+  const apply = useCallback(
+    async (direction: "undo" | "redo") => {
+      const source = direction === "undo" ? past : future;
+      const entry = source[source.length - 1];
+      if (!entry || isApplyingRef.current) return;
+
+      isApplyingRef.current = true;
+      setIsApplying(true);
+      setError(null);
+      try {
+        const changes =
+          direction === "undo"
+            ? [...entry.changes].reverse().map(invertChange)
+            : entry.changes;
+        const newIds = await applyMarkerChanges(changes, adapterRef.current);
+
+        const remap = (entries: MarkerHistoryEntry[]) => {
+          let result = entries;
+          for (const [oldId, newId] of newIds) {
+            result = remapMarkerId(result, oldId, newId);
+          }
+          return result;
+        };
+        const moved = remap([entry])[0] ?? entry;
+        if (direction === "undo") {
+          setPast((entries) => remap(entries.slice(0, -1)));
+          setFuture((entries) => [...remap(entries), moved]);
+        } else {
+          setFuture((entries) => remap(entries.slice(0, -1)));
+          setPast((entries) => [...remap(entries), moved]);
+        }
+      } catch (applyError) {
+        console.error(`Failed to ${direction} marker change:`, applyError);
+        setError(
+          applyError instanceof Error ? applyError.message : String(applyError),
+        );
+      } finally {
+        isApplyingRef.current = false;
+        setIsApplying(false);
+        onAppliedRef.current?.();
+      }
+    },
+    [past, future],
+  );
+
+  const undo = useCallback(() => void apply("undo"), [apply]);
+  const redo = useCallback(() => void apply("redo"), [apply]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextInput(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    /** Applied entries, oldest first */
+    past,
+    /** Undone entries that can be redone, the next one last */
+    future,
+    record,
+    undo,
+    redo,
+    canUndo: past.length > 0 && !isApplying,
+    canRedo: future.length > 0 && !isApplying,
+    isApplying,
+    error,
+  };
+}
+
+export type MarkerHistory = ReturnType<typeof useMarkerHistory>;
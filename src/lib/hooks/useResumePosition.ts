@@ -0,0 +1,107 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { api } from "~/trpc/react";
+import {
+  getPositionStorageKey,
+  getResumePosition,
+  parseStoredPosition,
+  POSITION_SAVE_INTERVAL_MS,
+} from "~/lib/resume";
+
+/**
+ * Last playback position of an audio, saved for signed-in users on the server
+ * and for anonymous listeners in localStorage. Positions are saved at most
+ * every few seconds during playback and when the page is left.
+ */
+export function useResumePosition(audioId: string, enabled = true) {
+  const { status } = useSession();
+  const isSignedIn = status === "authenticated";
+  const { data: playbackState, isSuccess } =
+    api.playback.getPlaybackState.useQuery(
+      { audioId },
+      { enabled: enabled && isSignedIn },
+    );
+  const { mutate } = api.playback.savePosition.useMutation();
+
+  const [storedPosition, setStoredPosition] = useState<{
+    audioId: string;
+    position: number | null;
+  } | null>(null);
+  const lastSaveRef = useRef(0);
+  const pendingRef = useRef<{ audioId: string; position: number | null }>(null);
+
+  useEffect(() => {
+    if (!enabled || status !== "unauthenticated") return;
+    setStoredPosition({
+      audioId,
+      position: parseStoredPosition(
+        localStorage.getItem(getPositionStorageKey(audioId)),
+      ),
+    });
+  }, [audioId, enabled, status]);
+
+  const write = useCallback(
+    (id: string, position: number | null) => {
+      lastSaveRef.current = Date.now();
+      pendingRef.current = null;
+      if (isSignedIn) {
+        mutate({ audioId: id, position });
+      } else if (status === "unauthenticated") {
+        const key = getPositionStorageKey(id);
+        if (position === null) {
+          localStorage.removeItem(key);
+        } else {
+          localStorage.setItem(key, position.toFixed(1));
+        }
+      }
+    },
+    [isSignedIn, status, mutate],
+  );
+
+  /** Save the position, throttled unless the audio was finished */
+  const savePosition = useCallback(
+    (position: number | null) => {
+      if (!enabled) return;
+      if (
+        position !== null &&
+        Date.now() - lastSaveRef.current < POSITION_SAVE_INTERVAL_MS
+      ) {
+        pendingRef.current = { audioId, position };
+        return;
+      }
+      write(audioId, position);
+    },
+    [audioId, enabled, write],
+  );
+
+  // Save the last position when the page is hidden, left or shows another audio
+  useEffect(() => {
+    const flush = () => {
+      const pending = pendingRef.current;
+      if (pending) write(pending.audioId, pending.position);
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      flush();
+    };
+  }, [write, audioId]);
+
+  const savedPosition = isSignedIn
+    ? (playbackState?.position ?? null)
+    : storedPosition?.audioId === audioId
+      ? storedPosition.position
+      : null;
+  const isLoaded = isSignedIn ? isSuccess : storedPosition?.audioId === audioId;
+
+  return {
+    /** Position to offer for resuming, null when starting at the beginning */
+    resumePosition: isLoaded ? getResumePosition(savedPosition) : null,
+    savePosition,
+  };
+}
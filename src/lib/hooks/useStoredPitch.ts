@@ -0,0 +1,66 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { api } from "~/trpc/react";
+import { NO_PITCH_SHIFT, parseStoredPitch, type Pitch } from "~/lib/pitch";
+
+/** Wait for the slider to settle before saving */
+const SAVE_DELAY_MS = 500;
+
+/**
+ * Pitch shift of an audio, saved for signed-in users on the server and for
+ * anonymous listeners in localStorage
+ */
+export function useStoredPitch(audioId: string) {
+  const { status } = useSession();
+  const isSignedIn = status === "authenticated";
+  const { data: playbackState } = api.playback.getPlaybackState.useQuery(
+    { audioId },
+    { enabled: isSignedIn },
+  );
+  const setPitchMutation = api.playback.setPitch.useMutation();
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Changes of this page, or the pitch stored in the browser
+  const [localPitch, setLocalPitch] = useState<{
+    audioId: string;
+    pitch: Pitch;
+  } | null>(null);
+
+  useEffect(() => {
+    if (status !== "unauthenticated") return;
+    setLocalPitch({
+      audioId,
+      pitch: parseStoredPitch(localStorage.getItem(`audio_pitch_${audioId}`)),
+    });
+  }, [audioId, status]);
+
+  const storedPitch = playbackState
+    ? {
+        semitones: playbackState.pitchSemitones,
+        cents: playbackState.pitchCents,
+      }
+    : NO_PITCH_SHIFT;
+  const pitch =
+    localPitch?.audioId === audioId ? localPitch.pitch : storedPitch;
+
+  const { mutate } = setPitchMutation;
+  const setPitch = useCallback(
+    (next: Pitch) => {
+      setLocalPitch({ audioId, pitch: next });
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = setTimeout(() => {
+        saveTimerRef.current = null;
+        if (isSignedIn) {
+          mutate({ audioId, ...next });
+        } else {
+          localStorage.setItem(`audio_pitch_${audioId}`, JSON.stringify(next));
+        }
+      }, SAVE_DELAY_MS);
+    },
+    [audioId, isSignedIn, mutate],
+  );
+
+  return { pitch, setPitch };
+}
@@ -0,0 +1,90 @@
+import { copyFile, stat } from "node:fs/promises";
+import path from "node:path";
+import type { Job } from "@prisma/client";
+import { db } from "~/server/db";
+import { generateAndSavePeaks } from "~/lib/peaks";
+import { reencodeMp3ToCbr } from "~/lib/audioReencode";
+import { setVersionProcessingStatus } from "~/lib/audioVersions";
+import { enqueueJob, type JobType } from "./queue";
+
+interface JobHandler {
+  run: (job: Job) => Promise<void>;
+  /** Called once the job failed permanently */
+  onFailed?: (job: Job) => Promise<void>;
+}
+
+function uploadsPath(fileName: string): string {
+  return path.join(process.cwd(), "data", "uploads", fileName);
+}
+
+async function getJobVersion(job: Job) {
+  if (!job.versionId) {
+    throw new Error(`Job ${job.id} has no audio version`);
+  }
+  const version = await db.audioVersion.findUnique({
+    where: { id: job.versionId },
+    select: {
+      id: true,
+      audioId: true,
+      filePath: true,
+      masterFilePath: true,
+      format: true,
+    },
+  });
+  if (!version) {
+    throw new Error(`Audio version ${job.versionId} not found`);
+  }
+  return version;
+}
+
+/**
+ * Encode the CBR MP3 used for browser playback from the master file of a version,
+ * then queue the peak generation.
+ */
+const processAudio: JobHandler = {
+  run: async (job) => {
+    const version = await getJobVersion(job);
+    const filePath = uploadsPath(version.filePath);
+
+    if (version.masterFilePath) {
+      const masterPath = uploadsPath(version.masterFilePath);
+      try {
+        await reencodeMp3ToCbr(masterPath, filePath);
+      } catch (reencodeError) {
+        if (version.format !== "mp3") throw reencodeError;
+        console.warn("CBR re-encode failed (non-fatal):", reencodeError);
+        // Non-fatal: the original MP3 is used for playback
+        await copyFile(masterPath, filePath);
+      }
+    } else {
+      // Audios uploaded before masters were kept only have the playback file
+      await stat(filePath);
+    }
+
+    await setVersionProcessingStatus(version.id, "ready");
+    await enqueueJob("generate-peaks", {
+      audioId: version.audioId,
+      versionId: version.id,
+    });
+  },
+  onFailed: async (job) => {
+    if (!job.versionId) return;
+    await setVersionProcessingStatus(job.versionId, "failed");
+  },
+};
+
+/**
+ * Generate the waveform peaks JSON next to the playback file.
+ * Without peaks, the player decodes the audio in the browser instead.
+ */
+const generatePeaks: JobHandler = {
+  run: async (job) => {
+    const version = await getJobVersion(job);
+    await generateAndSavePeaks(uploadsPath(version.filePath));
+  },
+};
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  "process-audio": processAudio,
+  "generate-peaks": generatePeaks,
+};
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Job } from "@prisma/client";
+
+const mockDb = vi.hoisted(() => ({
+  job: {
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+}));
+
+vi.mock("~/server/db", () => ({ db: mockDb }));
+
+import { claimNextJob, enqueueJob, failJob, getRetryDelay } from "./queue";
+
+function job(overrides: Partial<Job> = {}): Job {
+  return {
+    id: "job-1",
+    type: "process-audio",
+    status: "running",
+    audioId: "audio-1",
+    versionId: "version-1",
+    attempts: 1,
+    maxAttempts: 5,
+    error: null,
+    runAt: new Date(),
+    startedAt: new Date(),
+    finishedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("Job Queue Utilities", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-20T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("getRetryDelay", () => {
+    it("should double the delay for every attempt", () => {
+      expect(getRetryDelay(1)).toBe(30_000);
+      expect(getRetryDelay(2)).toBe(60_000);
+      expect(getRetryDelay(3)).toBe(120_000);
+    });
+
+    it("should cap the delay at one hour", () => {
+      expect(getRetryDelay(20)).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe("enqueueJob", () => {
+    it("should create a new job", async () => {
+      mockDb.job.findFirst.mockResolvedValue(null);
+      mockDb.job.create.mockResolvedValue(job({ status: "pending" }));
+
+      await enqueueJob("process-audio", {
+        audioId: "audio-1",
+        versionId: "version-1",
+      });
+
+      expect(mockDb.job.create).toHaveBeenCalledWith({
+        data: {
+          type: "process-audio",
+          audioId: "audio-1",
+          versionId: "version-1",
+        },
+      });
+    });
+
+    it("should not duplicate a waiting or running job", async () => {
+      const existing = job({ status: "pending" });
+      mockDb.job.findFirst.mockResolvedValue(existing);
+
+      const result = await enqueueJob("process-audio", {
+        audioId: "audio-1",
+        versionId: "version-1",
+      });
+
+      expect(result).toBe(existing);
+      expect(mockDb.job.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("claimNextJob", () => {
+    it("should return null when no job is due", async () => {
+      mockDb.job.findFirst.mockResolvedValue(null);
+
+      expect(await claimNextJob()).toBe(null);
+      expect(mockDb.job.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should not return a job claimed by another worker", async () => {
+      mockDb.job.findFirst.mockResolvedValue(job({ status: "pending" }));
+      mockDb.job.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await claimNextJob()).toBe(null);
+    });
+
+    it("should mark the claimed job as running", async () => {
+      const claimed = job();
+      mockDb.job.findFirst.mockResolvedValue(job({ status: "pending" }));
+      mockDb.job.updateMany.mockResolvedValue({ count: 1 });
+      mockDb.job.findUnique.mockResolvedValue(claimed);
+
+      expect(await claimNextJob()).toBe(claimed);
+      expect(mockDb.job.updateMany).toHaveBeenCalledWith({
+        where: { id: "job-1", status: "pending" },
+        data: {
+          status: "running",
+          attempts: { increment: 1 },
+          startedAt: new Date("2026-10-20T12:00:00Z"),
+        },
+      });
+    });
+  });
+
+  describe("failJob", () => {
+    it("should schedule a retry with backoff", async () => {
+      const isFinal = await failJob(job({ attempts: 2 }), new Error("boom"));
+
+      expect(isFinal).toBe(false);
+      expect(mockDb.job.update).toHaveBeenCalledWith({
+        where: { id: "job-1" },
+        data: {
+          status: "pending",
+          error: "boom",
+          runAt: new Date("2026-10-20T12:01:00Z"),
+        },
+      });
+    });
+
+    it("should fail permanently after the last attempt", async () => {
+      const isFinal = await failJob(job({ attempts: 5 }), "ffmpeg crashed");
+
+      expect(isFinal).toBe(true);
+      expect(mockDb.job.update).toHaveBeenCalledWith({
+        where: { id: "job-1" },
+        data: {
+          status: "failed",
+          error: "ffmpeg crashed",
+          finishedAt: new Date("2026-10-20T12:00:00Z"),
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import type { Job } from "@prisma/client";
+import { db } from "~/server/db";
+
+export const JOB_TYPES = ["process-audio", "generate-peaks"] as const;
+
+export type JobType = (typeof JOB_TYPES)[number];
+
+export type JobStatus = "pending" | "running" | "completed" | "failed";
+
+/** Delay before the first retry, doubled for every further attempt */
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/** Running jobs older than this are considered abandoned by a crashed worker */
+const STALE_JOB_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Delay before the next attempt of a job (exponential backoff).
+ *
+ * @param attempts - Number of attempts made so far (at least 1)
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+/**
+ * Add a job for a version of an audio to the queue.
+ * If the same job is already waiting or running, no second job is created.
+ */
+export async function enqueueJob(
+  type: JobType,
+  { audioId, versionId }: { audioId: string; versionId: string },
+): Promise<Job> {
+  const existing = await db.job.findFirst({
+    where: { type, versionId, status: { in: ["pending", "running"] } },
+  });
+  if (existing) return existing;
+
+  return db.job.create({ data: { type, audioId, versionId } });
+}
+
+/**
+ * Take the next due job and mark it as running.
+ * The status check in the update makes sure a job is only claimed once,
+ * even with several workers.
+ */
+export async function claimNextJob(): Promise<Job | null> {
+  const candidate = await db.job.findFirst({
+    where: { status: "pending", runAt: { lte: new Date() } },
+    orderBy: { runAt: "asc" },
+  });
+  if (!candidate) return null;
+
+  const { count } = await db.job.updateMany({
+    where: { id: candidate.id, status: "pending" },
+    data: {
+      status: "running",
+      attempts: { increment: 1 },
+      startedAt: new Date(),
+    },
+  });
+  if (count === 0) return null;
+
+  return db.job.findUnique({ where: { id: candidate.id } });
+}
+
+export async function completeJob(jobId: string): Promise<void> {
+  await db.job.update({
+    where: { id: jobId },
+    data: { status: "completed", error: null, finishedAt: new Date() },
+  });
+}
+
+/**
+ * Record a failed attempt. The job is retried with backoff until it
+ * reaches its maximum number of attempts.
+ *
+ * @returns true if the job failed permanently
+ */
+export async function failJob(job: Job, error: unknown): Promise<boolean> {
+  const message = error instanceof Error ? error.message : String(error);
+  const isFinal = job.attempts >= job.maxAttempts;
+
+  await db.job.update({
+    where: { id: job.id },
+    data: isFinal
+      ? { status: "failed", error: message, finishedAt: new Date() }
+      : {
+          status: "pending",
+          error: message,
+          runAt: new Date(Date.now() + getRetryDelay(job.attempts)),
+        },
+  });
+
+  return isFinal;
+}
+
+/** Put a failed job back into the queue with a fresh set of attempts */
+export async function requeueJob(jobId: string): Promise<Job> {
+  return db.job.update({
+    where: { id: jobId },
+    data: {
+      status: "pending",
+      attempts: 0,
+      error: null,
+      runAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+    },
+  });
+}
+
+/**
+ * Return jobs that were left running by a stopped or crashed worker
+ * to the queue.
+ */
+export async function recoverStaleJobs(): Promise<number> {
+  const { count } = await db.job.updateMany({
+    where: {
+      status: "running",
+      startedAt: { lt: new Date(Date.now() - STALE_JOB_TIMEOUT_MS) },
+    },
+    data: { status: "pending", runAt: new Date() },
+  });
+  return count;
+}
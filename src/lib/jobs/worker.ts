@@ -0,0 +1,92 @@
+import type { Job } from "@prisma/client";
+import { jobHandlers } from "./handlers";
+import {
+  JOB_TYPES,
+  type JobType,
+  claimNextJob,
+  completeJob,
+  failJob,
+  recoverStaleJobs,
+} from "./queue";
+
+/** Interval for checking the queue for due jobs */
+const POLL_INTERVAL_MS = 5000;
+
+const globalForWorker = globalThis as unknown as {
+  jobWorkerTimer: ReturnType<typeof setTimeout> | undefined;
+};
+
+function isJobType(type: string): type is JobType {
+  return (JOB_TYPES as readonly string[]).includes(type);
+}
+
+async function runJob(job: Job): Promise<void> {
+  try {
+    if (!isJobType(job.type)) {
+      throw new Error(`Unknown job type: ${job.type}`);
+    }
+    await jobHandlers[job.type].run(job);
+    await completeJob(job.id);
+  } catch (error) {
+    console.error(`Job ${job.type} (${job.id}) failed:`, error);
+    const isFinal = await failJob(job, error);
+    if (isFinal && isJobType(job.type)) {
+      await jobHandlers[job.type].onFailed?.(job);
+    }
+  }
+}
+
+/**
+ * Run all jobs that are currently due, one after another.
+ *
+ * @returns The number of jobs processed
+ */
+export async function runDueJobs(): Promise<number> {
+  let processed = 0;
+  for (
+    let job = await claimNextJob();
+    job !== null;
+    job = await claimNextJob()
+  ) {
+    await runJob(job);
+    processed++;
+  }
+  return processed;
+}
+
+/**
+ * Start polling the job queue in the current process.
+ * Calling it again while the worker is running has no effect.
+ */
+export function startJobWorker(): void {
+  if (globalForWorker.jobWorkerTimer) return;
+
+  const tick = async () => {
+    try {
+      await runDueJobs();
+    } catch (error) {
+      console.error("Job worker error:", error);
+    }
+    // Stopped while the jobs were running
+    if (!globalForWorker.jobWorkerTimer) return;
+    globalForWorker.jobWorkerTimer = setTimeout(() => {
+      void tick();
+    }, POLL_INTERVAL_MS);
+  };
+
+  globalForWorker.jobWorkerTimer = setTimeout(() => {
+    void recoverStaleJobs()
+      .then((count) => {
+        if (count > 0) console.log(`Recovered ${count} stale job(s)`);
+      })
+      .catch((error) => {
+        console.error("Failed to recover stale jobs:", error);
+      })
+      .finally(() => void tick());
+  }, 0);
+}
+
+export function stopJobWorker(): void {
+  clearTimeout(globalForWorker.jobWorkerTimer);
+  globalForWorker.jobWorkerTimer = undefined;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { editorJsonToMarkdown, markdownToHtml } from "./markdown";
+
+describe("Markdown Utilities", () => {
+  describe("markdownToHtml", () => {
+    it("should render headings, paragraphs and line breaks", () => {
+      expect(markdownToHtml("# Bar 32\n\nHorns late\nretake")).toBe(
+        "<h1>Bar 32</h1><p>Horns late<br>retake</p>",
+      );
+    });
+
+    it("should render lists and quotes", () => {
+      expect(markdownToHtml("- one\n- two\n\n3. three\n4. four")).toBe(
+        '<ul><li>one</li><li>two</li></ul><ol start="3"><li>three</li><li>four</li></ol>',
+      );
+      expect(markdownToHtml("> keep the tempo")).toBe(
+        "<blockquote><p>keep the tempo</p></blockquote>",
+      );
+    });
+
+    it("should render inline formatting and code", () => {
+      expect(
+        markdownToHtml("**loud** and *soft* or ~~fast~~ with `a*b*c`"),
+      ).toBe(
+        "<p><strong>loud</strong> and <em>soft</em> or <s>fast</s> with <code>a*b*c</code></p>",
+      );
+    });
+
+    it("should escape HTML", () => {
+      expect(markdownToHtml('<script>alert("x")</script>')).toBe(
+        "<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>",
+      );
+    });
+
+    it("should only render web and mail links", () => {
+      expect(markdownToHtml("[score](https://example.com/a_b_c)")).toBe(
+        '<p><a href="https://example.com/a_b_c" target="_blank" rel="noopener noreferrer">score</a></p>',
+      );
+      expect(markdownToHtml("[x](javascript:alert(1))")).not.toContain("<a");
+    });
+
+    it("should keep escaped characters as text", () => {
+      expect(markdownToHtml("\\# not a heading \\*really\\*")).toBe(
+        "<p># not a heading *really*</p>",
+      );
+    });
+  });
+
+  describe("editorJsonToMarkdown", () => {
+    it("should convert the editor content", () => {
+      const markdown = editorJsonToMarkdown({
+        type: "doc",
+        content: [
+          {
+            type: "heading",
+            attrs: { level: 2 },
+            content: [{ type: "text", text: "Bar 32" }],
+          },
+          {
+            type: "paragraph",
+            content: [
+              { type: "text", text: "Horns " },
+              { type: "text", text: "late", marks: [{ type: "bold" }] },
+              { type: "hardBreak" },
+              {
+                type: "text",
+                text: "video",
+                marks: [
+                  { type: "link", attrs: { href: "https://example.com" } },
+                ],
+              },
+            ],
+          },
+          {
+            type: "bulletList",
+            content: [
+              {
+                type: "listItem",
+                content: [
+                  {
+                    type: "paragraph",
+                    content: [{ type: "text", text: "retake" }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+      expect(markdown).toBe(
+        "## Bar 32\n\nHorns **late**\n[video](https://example.com)\n\n- retake",
+      );
+    });
+
+    it("should escape text that looks like formatting", () => {
+      const markdown = editorJsonToMarkdown({
+        type: "doc",
+        content: [
+          {
+            type: "paragraph",
+            content: [{ type: "text", text: "- 5 dB at *all* bars" }],
+          },
+        ],
+      });
+      expect(markdown).toBe("\\- 5 dB at \\*all\\* bars");
+      expect(markdownToHtml(markdown)).toBe("<p>- 5 dB at *all* bars</p>");
+    });
+  });
+});
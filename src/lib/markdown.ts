@@ -0,0 +1,277 @@
+import type { JSONContent } from "@tiptap/react";
+
+/**
+ * Small Markdown subset used for marker notes: headings, paragraphs with
+ * line breaks, bullet and numbered lists, quotes, code, bold, italic,
+ * strikethrough and links. It covers everything the note editor produces.
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char] ?? char);
+}
+
+/** Only web and mail links are rendered, others stay plain text */
+function isSafeUrl(url: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(url);
+}
+
+/** Placeholders for escaped characters and code, restored after formatting */
+const PLACEHOLDER = "\u0000";
+
+/** Bold, italic and strikethrough in escaped text */
+function renderEmphasis(html: string): string {
+  return html
+    .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/__(.+?)__/g, "<strong>$1</strong>")
+    .replace(/\*(.+?)\*/g, "<em>$1</em>")
+    .replace(/(^|[^\w])_(.+?)_(?!\w)/g, "$1<em>$2</em>")
+    .replace(/~~(.+?)~~/g, "<s>$1</s>");
+}
+
+function renderInline(text: string): string {
+  const protectedParts: string[] = [];
+  const protect = (html: string) => {
+    protectedParts.push(html);
+    return `${PLACEHOLDER}${protectedParts.length - 1}${PLACEHOLDER}`;
+  };
+
+  const html = escapeHtml(
+    text
+      .replace(/\\([\\`*_~[\]()#>+\-.!])/g, (_, char: string) =>
+        protect(escapeHtml(char)),
+      )
+      .replace(/`([^`]+)`/g, (_, code: string) =>
+        protect(`<code>${escapeHtml(code)}</code>`),
+      ),
+  ).replace(
+    /\[([^\]]+)\]\(([^)\s]+)\)/g,
+    (match, label: string, url: string) =>
+      // Links are protected so formatting characters in the URL stay intact
+      isSafeUrl(url)
+        ? protect(
+            `<a href="${url}" target="_blank" rel="noopener noreferrer">${renderEmphasis(label)}</a>`,
+          )
+        : match,
+  );
+
+  return renderEmphasis(html).replace(
+    new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, "g"),
+    (_, index: string) => protectedParts[Number(index)] ?? "",
+  );
+}
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*(\d+)\.\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^```/;
+const RULE = /^(-{3,}|\*{3,})$/;
+
+/**
+ * Render Markdown as HTML. All text is escaped, so the result can be
+ * inserted into the page as is.
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: string[] = [];
+  let index = 0;
+
+  const collect = (pattern: RegExp, group = 1) => {
+    const items: string[] = [];
+    while (index < lines.length) {
+      const match = pattern.exec((lines[index] ?? "").trimStart());
+      if (!match) break;
+      items.push(match[group] ?? "");
+      index++;
+    }
+    return items;
+  };
+
+  while (index < lines.length) {
+    const line = lines[index] ?? "";
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      index++;
+      continue;
+    }
+
+    if (FENCE.test(trimmed)) {
+      index++;
+      const code: string[] = [];
+      while (index < lines.length && !FENCE.test((lines[index] ?? "").trim())) {
+        code.push(lines[index] ?? "");
+        index++;
+      }
+      index++;
+      blocks.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    if (RULE.test(trimmed)) {
+      blocks.push("<hr>");
+      index++;
+      continue;
+    }
+
+    const heading = HEADING.exec(trimmed);
+    if (heading) {
+      const level = heading[1]?.length ?? 1;
+      blocks.push(`<h${level}>${renderInline(heading[2] ?? "")}</h${level}>`);
+      index++;
+      continue;
+    }
+
+    if (BULLET_ITEM.test(line)) {
+      const items = collect(BULLET_ITEM);
+      blocks.push(
+        `<ul>${items.map((item) => `<li>${renderInline(item)}</li>`).join("")}</ul>`,
+      );
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.exec(line);
+    if (ordered) {
+      const start = Number(ordered[1]);
+      const items = collect(ORDERED_ITEM, 2);
+      const startAttribute = start !== 1 ? ` start="${start}"` : "";
+      blocks.push(
+        `<ol${startAttribute}>${items.map((item) => `<li>${renderInline(item)}</li>`).join("")}</ol>`,
+      );
+      continue;
+    }
+
+    if (QUOTE.test(trimmed)) {
+      const quoted = collect(QUOTE);
+      blocks.push(
+        `<blockquote>${markdownToHtml(quoted.join("\n"))}</blockquote>`,
+      );
+      continue;
+    }
+
+    // Paragraph until the next blank line or block; line breaks are kept
+    const paragraph: string[] = [];
+    while (index < lines.length) {
+      const next = lines[index] ?? "";
+      if (
+        !next.trim() ||
+        (paragraph.length > 0 &&
+          [FENCE, HEADING, BULLET_ITEM, ORDERED_ITEM, QUOTE].some((pattern) =>
+            pattern.test(next.trim()),
+          ))
+      ) {
+        break;
+      }
+      paragraph.push(next.trim());
+      index++;
+    }
+    blocks.push(`<p>${paragraph.map(renderInline).join("<br>")}</p>`);
+  }
+
+  return blocks.join("");
+}
+
+/** Escape characters that would otherwise be read as formatting */
+function escapeMarkdownText(text: string): string {
+  return text.replace(/[\\`*_~[\]]/g, "\\$&");
+}
+
+/** Escape characters at the start of a line that would start a block */
+function escapeLineStart(line: string): string {
+  return line
+    .replace(/^(\s*)([#>+-])/, "$1\\$2")
+    .replace(/^(\s*\d+)\./, "$1\\.");
+}
+
+function serializeInline(nodes: JSONContent[] = []): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "hardBreak") return "\n";
+      let text = escapeMarkdownText(node.text ?? "");
+      if (!text) return "";
+      for (const mark of node.marks ?? []) {
+        switch (mark.type) {
+          case "code":
+            text = `\`${node.text ?? ""}\``;
+            break;
+          case "bold":
+            text = `**${text}**`;
+            break;
+          case "italic":
+            text = `*${text}*`;
+            break;
+          case "strike":
+            text = `~~${text}~~`;
+            break;
+          case "link": {
+            const href = (mark.attrs as { href?: string } | undefined)?.href;
+            if (href) text = `[${text}](${href})`;
+            break;
+          }
+        }
+      }
+      return text;
+    })
+    .join("");
+}
+
+function serializeTextBlock(node: JSONContent): string {
+  return serializeInline(node.content)
+    .split("\n")
+    .map(escapeLineStart)
+    .join("\n");
+}
+
+function serializeBlock(node: JSONContent, indent = ""): string {
+  switch (node.type) {
+    case "heading": {
+      const level = (node.attrs as { level?: number } | undefined)?.level ?? 1;
+      return `${"#".repeat(level)} ${serializeInline(node.content)}`;
+    }
+    case "bulletList":
+    case "orderedList": {
+      const start = (node.attrs as { start?: number } | undefined)?.start ?? 1;
+      return (node.content ?? [])
+        .map((item, itemIndex) => {
+          const bullet =
+            node.type === "bulletList" ? "-" : `${start + itemIndex}.`;
+          const [first, ...rest] = item.content ?? [];
+          const lines = [
+            `${indent}${bullet} ${first ? serializeInline(first.content).replace(/\n/g, " ") : ""}`,
+            ...rest.map((child) => serializeBlock(child, `${indent}  `)),
+          ];
+          return lines.join("\n");
+        })
+        .join("\n");
+    }
+    case "blockquote":
+      return (node.content ?? [])
+        .map((child) => serializeBlock(child))
+        .join("\n\n")
+        .split("\n")
+        .map((line) => `> ${line}`)
+        .join("\n");
+    case "codeBlock":
+      return `\`\`\`\n${(node.content ?? []).map((child) => child.text ?? "").join("")}\n\`\`\``;
+    case "horizontalRule":
+      return "---";
+    default:
+      return `${indent}${serializeTextBlock(node)}`;
+  }
+}
+
+/** Convert the content of the rich text editor into Markdown */
+export function editorJsonToMarkdown(doc: JSONContent): string {
+  return (doc.content ?? [])
+    .map((node) => serializeBlock(node))
+    .filter((block) => block.trim())
+    .join("\n\n");
+}
@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { isSection } from "./marker";
+import {
+  filterMarkers,
+  getMarkersWithNotesAt,
+  isMarkerBeyondEnd,
+  isSection,
+} from "./marker";
 import type { AudioMarker } from "~/types/Audio";
 
 describe("Marker Utilities", () => {
@@ -84,4 +89,81 @@ describe("Marker Utilities", () => {
       expect(isSection(largeSection)).toBe(true);
     });
   });
+
+  describe("isMarkerBeyondEnd", () => {
+    const marker: AudioMarker = { id: "1", timestamp: 30, label: "Chorus" };
+    const section: AudioMarker = {
+      id: "2",
+      timestamp: 30,
+      endTimestamp: 60,
+      label: "Verse",
+    };
+
+    it("should return false for markers within the duration", () => {
+      expect(isMarkerBeyondEnd(marker, 60)).toBe(false);
+      expect(isMarkerBeyondEnd(section, 60)).toBe(false);
+    });
+
+    it("should return true for markers starting after the end", () => {
+      expect(isMarkerBeyondEnd(marker, 20)).toBe(true);
+    });
+
+    it("should return true for sections ending after the end", () => {
+      expect(isMarkerBeyondEnd(section, 45)).toBe(true);
+    });
+
+    it("should return false when the duration is unknown", () => {
+      expect(isMarkerBeyondEnd(marker, null)).toBe(false);
+      expect(isMarkerBeyondEnd(marker, undefined)).toBe(false);
+    });
+  });
+
+  describe("filterMarkers", () => {
+    const markers: AudioMarker[] = [
+      { id: "1", timestamp: 10, label: "Intro" },
+      {
+        id: "2",
+        timestamp: 20,
+        label: "Bar 32",
+        notes: "Horns **late**, retake",
+      },
+    ];
+
+    it("should find markers by label or notes, ignoring case", () => {
+      expect(filterMarkers(markers, "intro").map((m) => m.id)).toEqual(["1"]);
+      expect(filterMarkers(markers, "HORNS").map((m) => m.id)).toEqual(["2"]);
+    });
+
+    it("should return all markers for an empty search", () => {
+      expect(filterMarkers(markers, "  ")).toEqual(markers);
+    });
+  });
+
+  describe("getMarkersWithNotesAt", () => {
+    const markers: AudioMarker[] = [
+      { id: "1", timestamp: 0, label: "Start", notes: "Count in" },
+      { id: "2", timestamp: 10, label: "Empty", notes: "" },
+      {
+        id: "3",
+        timestamp: 5,
+        endTimestamp: 15,
+        label: "Verse",
+        notes: "Softer",
+      },
+    ];
+
+    it("should return the last point marker and the current sections", () => {
+      expect(getMarkersWithNotesAt(markers, 7).map((m) => m.id)).toEqual([
+        "1",
+        "3",
+      ]);
+    });
+
+    it("should skip markers without notes", () => {
+      expect(getMarkersWithNotesAt(markers, 12).map((m) => m.id)).toEqual([
+        "3",
+      ]);
+      expect(getMarkersWithNotesAt(markers, 20)).toEqual([]);
+    });
+  });
 });
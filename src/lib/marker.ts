@@ -1,5 +1,8 @@
 import type { AudioMarker } from "~/types/Audio";
 
+/** Maximum length of the Markdown notes of a marker */
+export const MAX_MARKER_NOTES_LENGTH = 10_000;
+
 /**
  * Checks if a marker is a section (has both start and end timestamps)
  * @param marker - The marker to check
@@ -8,3 +11,66 @@ import type { AudioMarker } from "~/types/Audio";
 export function isSection(marker: AudioMarker): boolean {
   return marker.endTimestamp != null && marker.endTimestamp > marker.timestamp;
 }
+
+/**
+ * Checks if a marker starts or ends after the end of the audio,
+ * e.g. after the audio file was replaced with a shorter one
+ * @param marker - The marker to check
+ * @param duration - Duration of the audio in seconds, null if unknown
+ * @returns true if the marker exceeds the duration
+ */
+export function isMarkerBeyondEnd(
+  marker: AudioMarker,
+  duration: number | null | undefined,
+): boolean {
+  if (duration == null) return false;
+  return (
+    marker.timestamp > duration ||
+    (marker.endTimestamp != null && marker.endTimestamp > duration)
+  );
+}
+
+/**
+ * Filters markers by a search text in their label or notes
+ * @param markers - The markers to filter
+ * @param query - The search text, all markers are returned if it is empty
+ * @returns The markers containing the text, ignoring case
+ */
+export function filterMarkers<T extends AudioMarker>(
+  markers: T[],
+  query: string,
+): T[] {
+  const search = query.trim().toLowerCase();
+  if (!search) return markers;
+  return markers.filter(
+    (marker) =>
+      marker.label.toLowerCase().includes(search) ||
+      (marker.notes?.toLowerCase().includes(search) ?? false),
+  );
+}
+
+/**
+ * Finds the markers whose notes belong to a playback time: the sections
+ * containing the time and the last point marker before it
+ * @param markers - The markers of the audio
+ * @param time - The playback time in seconds
+ * @returns The markers with notes, sorted by time
+ */
+export function getMarkersWithNotesAt<T extends AudioMarker>(
+  markers: T[],
+  time: number,
+): T[] {
+  const sorted = [...markers].sort((a, b) => a.timestamp - b.timestamp);
+  const sections = sorted.filter(
+    (marker) =>
+      isSection(marker) &&
+      marker.timestamp <= time &&
+      time < (marker.endTimestamp ?? 0),
+  );
+  const point = sorted
+    .filter((marker) => !isSection(marker) && marker.timestamp <= time)
+    .at(-1);
+  return [...sections, ...(point ? [point] : [])]
+    .filter((marker) => marker.notes?.trim())
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
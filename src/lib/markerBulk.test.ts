@@ -0,0 +1,206 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Prisma } from "@prisma/client";
+import {
+  BulkMarkerError,
+  MAX_RELABEL_PATTERN_LENGTH,
+  applyBulkMarkerEdit,
+  hasTimeCollision,
+  saveMarkerTimes,
+  toBulkMarkerUpdate,
+  type BulkMarker,
+} from "./markerBulk";
+
+const markers: BulkMarker[] = [
+  {
+    id: "a",
+    label: "Take 1",
+    timestamp: 10,
+    endTimestamp: null,
+    color: "#ff0000",
+  },
+  {
+    id: "b",
+    label: "Take 2",
+    timestamp: 20,
+    endTimestamp: 30,
+    color: "#00ff00",
+  },
+];
+
+describe("Bulk Marker Utilities", () => {
+  describe("applyBulkMarkerEdit", () => {
+    it("should shift start and end times", () => {
+      const result = applyBulkMarkerEdit(markers, {
+        type: "shift",
+        offset: -2,
+      });
+      expect(
+        result.map((marker) => [marker.timestamp, marker.endTimestamp]),
+      ).toEqual([
+        [8, null],
+        [18, 28],
+      ]);
+    });
+
+    it("should scale times around the anchor", () => {
+      const result = applyBulkMarkerEdit(markers, {
+        type: "scale",
+        factor: 1.05,
+        anchor: 10,
+      });
+      expect(
+        result.map((marker) => [marker.timestamp, marker.endTimestamp]),
+      ).toEqual([
+        [10, null],
+        [20.5, 31],
+      ]);
+    });
+
+    it("should reject markers moved before the start", () => {
+      expect(() =>
+        applyBulkMarkerEdit(markers, { type: "shift", offset: -11 }),
+      ).toThrow(BulkMarkerError);
+    });
+
+    it("should recolor markers", () => {
+      const result = applyBulkMarkerEdit(markers, {
+        type: "recolor",
+        color: "#123456",
+      });
+      expect(result.every((marker) => marker.color === "#123456")).toBe(true);
+      expect(result[0]?.timestamp).toBe(10);
+    });
+
+    it("should replace plain text in labels", () => {
+      const result = applyBulkMarkerEdit(markers, {
+        type: "relabel",
+        find: "Take",
+        replace: "Verse",
+        useRegex: false,
+      });
+      expect(result.map((marker) => marker.label)).toEqual([
+        "Verse 1",
+        "Verse 2",
+      ]);
+    });
+
+    it("should replace with regular expressions and groups", () => {
+      const result = applyBulkMarkerEdit(markers, {
+        type: "relabel",
+        find: "Take (\\d+)",
+        replace: "Part $1",
+        useRegex: true,
+      });
+      expect(result.map((marker) => marker.label)).toEqual([
+        "Part 1",
+        "Part 2",
+      ]);
+    });
+
+    it("should reject invalid regular expressions and empty labels", () => {
+      expect(() =>
+        applyBulkMarkerEdit(markers, {
+          type: "relabel",
+          find: "(",
+          replace: "",
+          useRegex: true,
+        }),
+      ).toThrow("Invalid regular expression");
+      expect(() =>
+        applyBulkMarkerEdit(markers, {
+          type: "relabel",
+          find: ".*",
+          replace: "",
+          useRegex: true,
+        }),
+      ).toThrow("Marker labels cannot be empty");
+    });
+
+    it("should reject too long regular expressions", () => {
+      expect(() =>
+        applyBulkMarkerEdit(markers, {
+          type: "relabel",
+          find: "a".repeat(MAX_RELABEL_PATTERN_LENGTH + 1),
+          replace: "",
+          useRegex: true,
+        }),
+      ).toThrow("Regular expression is too long");
+    });
+  });
+
+  describe("toBulkMarkerUpdate", () => {
+    it("should send the new labels of changed markers", () => {
+      const intro = { ...markers[0], id: "c", label: "Intro" } as BulkMarker;
+      expect(
+        toBulkMarkerUpdate([...markers, intro], {
+          type: "relabel",
+          find: "Take (\\d+)",
+          replace: "Part $1",
+          useRegex: true,
+        }),
+      ).toEqual({
+        type: "rename",
+        labels: [
+          { id: "a", label: "Part 1" },
+          { id: "b", label: "Part 2" },
+        ],
+      });
+    });
+
+    it("should pass other operations unchanged", () => {
+      expect(toBulkMarkerUpdate(markers, { type: "delete" })).toEqual({
+        type: "delete",
+      });
+    });
+
+    it("should reject invalid patterns and empty labels", () => {
+      expect(() =>
+        toBulkMarkerUpdate(markers, {
+          type: "relabel",
+          find: "(",
+          replace: "",
+          useRegex: true,
+        }),
+      ).toThrow(BulkMarkerError);
+      expect(() =>
+        toBulkMarkerUpdate(markers, {
+          type: "relabel",
+          find: "Take \\d",
+          replace: "",
+          useRegex: true,
+        }),
+      ).toThrow("Marker labels cannot be empty");
+    });
+  });
+
+  describe("hasTimeCollision", () => {
+    it("should detect markers at the same time", () => {
+      expect(hasTimeCollision([{ timestamp: 5 }], [{ timestamp: 5 }])).toBe(
+        true,
+      );
+      expect(hasTimeCollision([{ timestamp: 5 }], [{ timestamp: 6 }])).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("saveMarkerTimes", () => {
+    it("should move markers to temporary times before the final times", async () => {
+      const update = vi.fn();
+      const tx = { marker: { update } } as unknown as Prisma.TransactionClient;
+
+      // Swapping two markers would violate the unique timestamp when done directly
+      await saveMarkerTimes(tx, [
+        { id: "a", timestamp: 20, endTimestamp: null },
+        { id: "b", timestamp: 10, endTimestamp: 15 },
+      ]);
+
+      expect(update.mock.calls.map(([args]) => args as unknown)).toEqual([
+        { where: { id: "a" }, data: { timestamp: -1 } },
+        { where: { id: "b" }, data: { timestamp: -2 } },
+        { where: { id: "a" }, data: { timestamp: 20, endTimestamp: null } },
+        { where: { id: "b" }, data: { timestamp: 10, endTimestamp: 15 } },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import type { Prisma } from "@prisma/client";
+import { roundTime } from "~/lib/time";
+
+/** Change applied to a selection of markers at once */
+export type BulkMarkerOperation =
+  | { type: "shift"; offset: number }
+  /** Stretch the times around an anchor, e.g. 1.05 after slowing down by 5% */
+  | { type: "scale"; factor: number; anchor: number }
+  | { type: "recolor"; color: string }
+  /** Replace text in the labels, as plain text or regular expression */
+  | { type: "relabel"; find: string; replace: string; useRegex: boolean }
+  /** Assign a category, or remove it with null */
+  | { type: "categorize"; categoryId: string | null }
+  | { type: "delete" };
+
+/**
+ * Operation as sent to the server. Labels are replaced in the browser and
+ * sent as new labels, so patterns of users never run on the server.
+ */
+export type BulkMarkerUpdate =
+  | Exclude<BulkMarkerOperation, { type: "relabel" }>
+  | { type: "rename"; labels: { id: string; label: string }[] };
+
+/** Operations changing the times, labels or colors of the markers */
+export type BulkMarkerEdit = Exclude<
+  BulkMarkerOperation,
+  { type: "delete" | "categorize" }
+>;
+
+export interface BulkMarker {
+  id: string;
+  label: string;
+  timestamp: number;
+  endTimestamp: number | null;
+  color: string;
+}
+
+type MarkerTimes = Pick<BulkMarker, "id" | "timestamp" | "endTimestamp">;
+
+/** Longer regular expressions are rejected, they are typed by hand */
+export const MAX_RELABEL_PATTERN_LENGTH = 200;
+
+export class BulkMarkerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BulkMarkerError";
+  }
+}
+
+/** Times are stored with millisecond precision to avoid rounding noise */
+function toMarkerTime(seconds: number): number {
+  return roundTime(seconds, 3);
+}
+
+function mapTimes(
+  marker: BulkMarker,
+  map: (seconds: number) => number,
+): BulkMarker {
+  return {
+    ...marker,
+    timestamp: toMarkerTime(map(marker.timestamp)),
+    endTimestamp:
+      marker.endTimestamp === null
+        ? null
+        : toMarkerTime(map(marker.endTimestamp)),
+  };
+}
+
+function createLabelReplacer(
+  operation: Extract<BulkMarkerEdit, { type: "relabel" }>,
+): (label: string) => string {
+  if (!operation.useRegex) {
+    return (label) => label.split(operation.find).join(operation.replace);
+  }
+  if (operation.find.length > MAX_RELABEL_PATTERN_LENGTH) {
+    throw new BulkMarkerError("Regular expression is too long");
+  }
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(operation.find, "g");
+  } catch {
+    throw new BulkMarkerError("Invalid regular expression");
+  }
+  return (label) => label.replace(pattern, operation.replace);
+}
+
+/**
+ * Calculate the markers after applying an operation.
+ *
+ * @throws BulkMarkerError if a marker would start before the audio, or a
+ * label would become empty
+ */
+export function applyBulkMarkerEdit(
+  markers: BulkMarker[],
+  operation: BulkMarkerEdit,
+): BulkMarker[] {
+  let result: BulkMarker[];
+  switch (operation.type) {
+    case "shift":
+      result = markers.map((marker) =>
+        mapTimes(marker, (seconds) => seconds + operation.offset),
+      );
+      break;
+    case "scale":
+      result = markers.map((marker) =>
+        mapTimes(
+          marker,
+          (seconds) =>
+            operation.anchor + (seconds - operation.anchor) * operation.factor,
+        ),
+      );
+      break;
+    case "recolor":
+      result = markers.map((marker) => ({ ...marker, color: operation.color }));
+      break;
+    case "relabel": {
+      const replaceLabel = createLabelReplacer(operation);
+      result = markers.map((marker) => ({
+        ...marker,
+        label: replaceLabel(marker.label).trim(),
+      }));
+      break;
+    }
+  }
+
+  if (result.some((marker) => marker.timestamp < 0)) {
+    throw new BulkMarkerError(
+      "Markers would be moved before the start of the audio",
+    );
+  }
+  if (result.some((marker) => !marker.label)) {
+    throw new BulkMarkerError("Marker labels cannot be empty");
+  }
+  return result;
+}
+
+/**
+ * Prepare an operation for the server, replacing the labels of a relabel
+ * operation with the new labels of the changed markers.
+ *
+ * @throws BulkMarkerError if the pattern is invalid or too long, or a label
+ * would become empty
+ */
+export function toBulkMarkerUpdate(
+  markers: Pick<BulkMarker, "id" | "label">[],
+  operation: BulkMarkerOperation,
+): BulkMarkerUpdate {
+  if (operation.type !== "relabel") return operation;
+  const replaceLabel = createLabelReplacer(operation);
+  const labels = markers.flatMap(({ id, label }) => {
+    const replaced = replaceLabel(label).trim();
+    return replaced === label ? [] : [{ id, label: replaced }];
+  });
+  if (labels.some(({ label }) => !label)) {
+    throw new BulkMarkerError("Marker labels cannot be empty");
+  }
+  return { type: "rename", labels };
+}
+
+/**
+ * Check whether changed markers end up at the time of another marker, which
+ * the unique timestamp per audio does not allow.
+ *
+ * @param changed - The markers after the change
+ * @param unchanged - The other markers of the audio
+ */
+export function hasTimeCollision(
+  changed: Pick<BulkMarker, "timestamp">[],
+  unchanged: Pick<BulkMarker, "timestamp">[],
+): boolean {
+  const times = [...changed, ...unchanged].map((marker) => marker.timestamp);
+  return new Set(times).size !== times.length;
+}
+
+/**
+ * Save new times for markers of an audio. The markers are first moved to
+ * distinct negative times, so the unique timestamp per audio is never
+ * violated in between, whatever order the markers end up in.
+ * Must run inside a transaction.
+ */
+export async function saveMarkerTimes(
+  tx: Prisma.TransactionClient,
+  markers: MarkerTimes[],
+): Promise<void> {
+  for (const [index, marker] of markers.entries()) {
+    await tx.marker.update({
+      where: { id: marker.id },
+      data: { timestamp: -(index + 1) },
+    });
+  }
+  for (const marker of markers) {
+    await tx.marker.update({
+      where: { id: marker.id },
+      data: {
+        timestamp: marker.timestamp,
+        endTimestamp: marker.endTimestamp,
+      },
+    });
+  }
+}
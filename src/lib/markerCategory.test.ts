@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import type { AudioMarker } from "~/types/Audio";
+import {
+  applyCategoryColors,
+  countMarkersByCategory,
+  filterMarkersByCategory,
+  isCategoryAvailable,
+  UNCATEGORIZED_KEY,
+} from "./markerCategory";
+
+const verse: AudioMarker = {
+  id: "a",
+  label: "Verse",
+  timestamp: 5,
+  color: "#ff0000",
+  categoryId: "v",
+};
+
+const markers: AudioMarker[] = [
+  verse,
+  { id: "b", label: "Solo", timestamp: 20, color: "#00ff00", categoryId: "s" },
+  { id: "c", label: "Count-in", timestamp: 0, color: "#0000ff" },
+];
+
+describe("Marker Category Utilities", () => {
+  describe("applyCategoryColors", () => {
+    it("should use the color of the category", () => {
+      const colored = applyCategoryColors(markers, [
+        { id: "v", color: "#123456" },
+      ]);
+      expect(colored.map((marker) => marker.color)).toEqual([
+        "#123456",
+        "#00ff00",
+        "#0000ff",
+      ]);
+    });
+
+    it("should return the same markers without categories", () => {
+      expect(applyCategoryColors(markers, [])).toBe(markers);
+    });
+  });
+
+  describe("filterMarkersByCategory", () => {
+    it("should remove markers of hidden categories", () => {
+      expect(
+        filterMarkersByCategory(markers, ["s", UNCATEGORIZED_KEY]).map(
+          (marker) => marker.id,
+        ),
+      ).toEqual(["a"]);
+    });
+
+    it("should return the same markers if nothing is hidden", () => {
+      expect(filterMarkersByCategory(markers, [])).toBe(markers);
+    });
+  });
+
+  describe("countMarkersByCategory", () => {
+    it("should count uncategorized markers separately", () => {
+      expect(countMarkersByCategory([...markers, verse])).toEqual(
+        new Map([
+          ["v", 2],
+          ["s", 1],
+          [UNCATEGORIZED_KEY, 1],
+        ]),
+      );
+    });
+  });
+
+  describe("isCategoryAvailable", () => {
+    const audio = { id: "audio", createdById: "owner" };
+
+    it("should allow categories of the audio", () => {
+      expect(
+        isCategoryAvailable({ audioId: "audio", createdById: "owner" }, audio),
+      ).toBe(true);
+      expect(
+        isCategoryAvailable({ audioId: "other", createdById: "owner" }, audio),
+      ).toBe(false);
+    });
+
+    it("should allow categories of all audios of the creator only", () => {
+      expect(
+        isCategoryAvailable({ audioId: null, createdById: "owner" }, audio),
+      ).toBe(true);
+      expect(
+        isCategoryAvailable({ audioId: null, createdById: "someone" }, audio),
+      ).toBe(false);
+    });
+  });
+});
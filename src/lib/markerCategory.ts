@@ -0,0 +1,99 @@
+import type { AudioMarker, MarkerCategory } from "~/types/Audio";
+
+/** Icons a category can be shown with */
+export const MARKER_CATEGORY_ICONS = [
+  "tag",
+  "music",
+  "mic",
+  "guitar",
+  "drum",
+  "piano",
+  "star",
+  "flag",
+  "alert",
+  "message",
+  "repeat",
+  "bookmark",
+] as const;
+
+export type MarkerCategoryIconName = (typeof MARKER_CATEGORY_ICONS)[number];
+
+/** Maximum length of a category name */
+export const MAX_CATEGORY_NAME_LENGTH = 50;
+
+/** Visibility key of markers without a category */
+export const UNCATEGORIZED_KEY = "uncategorized";
+
+/**
+ * Key used to show or hide a marker with its category
+ * @param marker - The marker
+ * @returns The category id, or UNCATEGORIZED_KEY
+ */
+export function getCategoryKey(marker: AudioMarker): string {
+  return marker.categoryId ?? UNCATEGORIZED_KEY;
+}
+
+/**
+ * Shows markers in the color of their category
+ * @param markers - The markers to color
+ * @param categories - The categories available for the audio
+ * @returns The markers, with the category color for categorized markers
+ */
+export function applyCategoryColors<T extends AudioMarker>(
+  markers: T[],
+  categories: Pick<MarkerCategory, "id" | "color">[],
+): T[] {
+  if (categories.length === 0) return markers;
+  const colors = new Map(
+    categories.map((category) => [category.id, category.color]),
+  );
+  return markers.map((marker) => {
+    const color = marker.categoryId ? colors.get(marker.categoryId) : undefined;
+    return color ? { ...marker, color } : marker;
+  });
+}
+
+/**
+ * Removes the markers of hidden categories
+ * @param markers - The markers to filter
+ * @param hiddenKeys - Hidden category ids, may contain UNCATEGORIZED_KEY
+ * @returns The visible markers, the same array if nothing is hidden
+ */
+export function filterMarkersByCategory<T extends AudioMarker>(
+  markers: T[],
+  hiddenKeys: string[],
+): T[] {
+  if (hiddenKeys.length === 0) return markers;
+  return markers.filter(
+    (marker) => !hiddenKeys.includes(getCategoryKey(marker)),
+  );
+}
+
+/**
+ * Counts markers per category for the legend
+ * @param markers - The markers of the audio
+ * @returns Number of markers by category key
+ */
+export function countMarkersByCategory(
+  markers: AudioMarker[],
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const marker of markers) {
+    const key = getCategoryKey(marker);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Checks if a category can be used for the markers of an audio: it belongs
+ * to the audio, or is a category of all audios of the audio's creator
+ */
+export function isCategoryAvailable(
+  category: { audioId: string | null; createdById: string },
+  audio: { id: string; createdById: string },
+): boolean {
+  return category.audioId === null
+    ? category.createdById === audio.createdById
+    : category.audioId === audio.id;
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import {
+  MarkerExportError,
+  exportMarkers,
+  getMarkerExportFileName,
+  isMarkerExportFormat,
+} from "./markerExport";
+import type { AudioMarker } from "~/types/Audio";
+
+const markers: AudioMarker[] = [
+  {
+    id: "2",
+    timestamp: 75.5,
+    endTimestamp: 90.25,
+    label: "Chorus",
+    color: "#ff0000",
+    notes: "Horns late,\nretake",
+  },
+  { id: "1", timestamp: 0, label: "Intro", color: "hsl(120, 70%, 50%)" },
+  { id: "3", timestamp: 3725.125, label: 'Outro, "slow"' },
+];
+
+const options = {
+  audioName: "My Song",
+  fileName: "my-song.wav",
+  duration: 3800,
+};
+
+describe("Marker Export", () => {
+  describe("isMarkerExportFormat", () => {
+    it("should accept supported formats only", () => {
+      expect(isMarkerExportFormat("cue")).toBe(true);
+      expect(isMarkerExportFormat("xml")).toBe(false);
+      expect(isMarkerExportFormat(null)).toBe(false);
+    });
+  });
+
+  describe("getMarkerExportFileName", () => {
+    it("should use the audio name and the format extension", () => {
+      expect(getMarkerExportFileName("My Song", "audacity")).toBe(
+        "My Song-markers.txt",
+      );
+      expect(getMarkerExportFileName("a/b: c?", "webvtt")).toBe(
+        "a_b_ c_-markers.vtt",
+      );
+    });
+  });
+
+  describe("exportMarkers", () => {
+    it("should export CSV with sections, colors, notes and quoted labels", () => {
+      expect(exportMarkers(markers, "csv", options)).toBe(
+        [
+          "label,start,end,type,color,notes",
+          'Intro,0,,point,"hsl(120, 70%, 50%)",',
+          'Chorus,75.5,90.25,section,#ff0000,"Horns late,\nretake"',
+          '"Outro, ""slow""",3725.125,,point,,',
+          "",
+        ].join("\r\n"),
+      );
+    });
+
+    it("should export JSON sorted by time", () => {
+      const data = JSON.parse(exportMarkers(markers, "json", options)) as {
+        audio: { name: string; duration: number };
+        markers: { label: string; endTimestamp: number | null }[];
+      };
+      expect(data.audio).toEqual({ name: "My Song", duration: 3800 });
+      expect(data.markers.map((marker) => marker.label)).toEqual([
+        "Intro",
+        "Chorus",
+        'Outro, "slow"',
+      ]);
+      expect(data.markers[0]).toEqual({
+        label: "Intro",
+        timestamp: 0,
+        endTimestamp: null,
+        color: "hsl(120, 70%, 50%)",
+        notes: null,
+      });
+      expect(data.markers[1]?.endTimestamp).toBe(90.25);
+      expect(data.markers[1]).toMatchObject({ notes: "Horns late,\nretake" });
+    });
+
+    it("should export Audacity labels with equal start and end for point markers", () => {
+      expect(
+        exportMarkers(
+          [...markers, { id: "4", timestamp: 5, label: "Tab\there" }],
+          "audacity",
+          options,
+        ),
+      ).toBe(
+        "0.000000\t0.000000\tIntro\n" +
+          "5.000000\t5.000000\tTab here\n" +
+          "75.500000\t90.250000\tChorus\n" +
+          '3725.125000\t3725.125000\tOutro, "slow"\n',
+      );
+    });
+
+    it("should export WebVTT chapters until the next marker or the end", () => {
+      expect(exportMarkers(markers, "webvtt", options)).toBe(
+        "WEBVTT\n\n" +
+          "1\n00:00:00.000 --> 00:01:15.500\nIntro\n\n" +
+          "2\n00:01:15.500 --> 00:01:30.250\nChorus\n\n" +
+          '3\n01:02:05.125 --> 01:03:20.000\nOutro, "slow"\n',
+      );
+    });
+
+    it("should give the last WebVTT chapter a default length without duration", () => {
+      expect(
+        exportMarkers([{ id: "1", timestamp: 10, label: "A" }], "webvtt", {
+          ...options,
+          duration: null,
+        }),
+      ).toContain("00:00:10.000 --> 00:00:11.000");
+    });
+
+    it("should export a CUE sheet with frames and section ends", () => {
+      expect(exportMarkers(markers, "cue", options)).toBe(
+        [
+          'TITLE "My Song"',
+          'FILE "my-song.wav" WAVE',
+          "  TRACK 01 AUDIO",
+          '    TITLE "Intro"',
+          "    INDEX 01 00:00:00",
+          "  TRACK 02 AUDIO",
+          '    TITLE "Chorus"',
+          "    REM END 01:30:19",
+          "    INDEX 01 01:15:38",
+          "  TRACK 03 AUDIO",
+          "    TITLE \"Outro, 'slow'\"",
+          "    INDEX 01 62:05:09",
+          "",
+        ].join("\r\n"),
+      );
+    });
+
+    it("should reject CUE sheets with more than 99 markers", () => {
+      const manyMarkers = Array.from({ length: 100 }, (_, index) => ({
+        id: String(index),
+        timestamp: index,
+        label: `Marker ${index}`,
+      }));
+      expect(() => exportMarkers(manyMarkers, "cue", options)).toThrow(
+        MarkerExportError,
+      );
+    });
+
+    it("should export Podcasting 2.0 chapters with section ends", () => {
+      expect(JSON.parse(exportMarkers(markers, "chapters", options))).toEqual({
+        version: "1.2.0",
+        title: "My Song",
+        chapters: [
+          { startTime: 0, title: "Intro" },
+          { startTime: 75.5, endTime: 90.25, title: "Chorus" },
+          { startTime: 3725.125, title: 'Outro, "slow"' },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import type { AudioMarker } from "~/types/Audio";
+import { isSection } from "~/lib/marker";
+
+export const MARKER_EXPORT_FORMATS = [
+  "csv",
+  "json",
+  "audacity",
+  "webvtt",
+  "cue",
+  "chapters",
+] as const;
+
+export type MarkerExportFormat = (typeof MARKER_EXPORT_FORMATS)[number];
+
+/** File extension and MIME type of each export format */
+export const MARKER_EXPORT_FILE_TYPES: Record<
+  MarkerExportFormat,
+  { extension: string; mimeType: string }
+> = {
+  csv: { extension: "csv", mimeType: "text/csv" },
+  json: { extension: "json", mimeType: "application/json" },
+  audacity: { extension: "txt", mimeType: "text/plain" },
+  webvtt: { extension: "vtt", mimeType: "text/vtt" },
+  cue: { extension: "cue", mimeType: "application/x-cue" },
+  chapters: {
+    extension: "chapters.json",
+    mimeType: "application/json+chapters",
+  },
+};
+
+/** CUE sheets address positions in frames of 1/75 second */
+const CUE_FRAMES_PER_SECOND = 75;
+
+/** CUE sheets are limited to 99 tracks */
+const CUE_MAX_TRACKS = 99;
+
+/** Length of a WebVTT chapter for a point marker without a following marker */
+const DEFAULT_CHAPTER_LENGTH = 1;
+
+export interface MarkerExportOptions {
+  /** Name of the audio, used as title */
+  audioName: string;
+  /** Name of the audio file the markers refer to, used by CUE sheets */
+  fileName: string;
+  /** Duration of the audio in seconds, null if unknown */
+  duration?: number | null;
+}
+
+export class MarkerExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MarkerExportError";
+  }
+}
+
+export function isMarkerExportFormat(
+  value: string | null,
+): value is MarkerExportFormat {
+  return MARKER_EXPORT_FORMATS.includes(value as MarkerExportFormat);
+}
+
+/**
+ * File name for exported markers, e.g. "My Song-markers.csv".
+ * Characters not allowed in file names are replaced.
+ */
+export function getMarkerExportFileName(
+  audioName: string,
+  format: MarkerExportFormat,
+): string {
+  const baseName = audioName.replace(/[\\/:*?"<>|\r\n]+/g, "_").trim();
+  return `${baseName || "audio"}-markers.${MARKER_EXPORT_FILE_TYPES[format].extension}`;
+}
+
+/**
+ * Convert markers into the given export format.
+ * Point markers and sections are written as the format represents them;
+ * colors and notes are kept in CSV and JSON, the other formats have no
+ * fields for them.
+ *
+ * @throws MarkerExportError if the markers cannot be represented in the format
+ */
+export function exportMarkers(
+  markers: AudioMarker[],
+  format: MarkerExportFormat,
+  options: MarkerExportOptions,
+): string {
+  const sorted = [...markers].sort((a, b) => a.timestamp - b.timestamp);
+
+  switch (format) {
+    case "csv":
+      return exportCsv(sorted);
+    case "json":
+      return exportJson(sorted, options);
+    case "audacity":
+      return exportAudacityLabels(sorted);
+    case "webvtt":
+      return exportWebVtt(sorted, options);
+    case "cue":
+      return exportCue(sorted, options);
+    case "chapters":
+      return exportPodcastChapters(sorted, options);
+  }
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Seconds with millisecond precision, without trailing zeros */
+function formatSeconds(seconds: number): string {
+  return String(Math.round(seconds * 1000) / 1000);
+}
+
+/** End of a section, null for point markers */
+function getSectionEnd(marker: AudioMarker): number | null {
+  return isSection(marker) ? (marker.endTimestamp ?? null) : null;
+}
+
+/** Line breaks and tabs would break line or column based formats */
+function singleLine(label: string): string {
+  return label.replace(/[\t\r\n]+/g, " ").trim();
+}
+
+function exportCsv(markers: AudioMarker[]): string {
+  const rows = markers.map((marker) => {
+    const end = getSectionEnd(marker);
+    return [
+      escapeCsvValue(marker.label),
+      formatSeconds(marker.timestamp),
+      end !== null ? formatSeconds(end) : "",
+      end !== null ? "section" : "point",
+      escapeCsvValue(marker.color ?? ""),
+      escapeCsvValue(marker.notes ?? ""),
+    ].join(",");
+  });
+  return `${["label,start,end,type,color,notes", ...rows].join("\r\n")}\r\n`;
+}
+
+function exportJson(
+  markers: AudioMarker[],
+  { audioName, duration }: MarkerExportOptions,
+): string {
+  return `${JSON.stringify(
+    {
+      audio: { name: audioName, duration: duration ?? null },
+      markers: markers.map((marker) => ({
+        label: marker.label,
+        timestamp: marker.timestamp,
+        endTimestamp: getSectionEnd(marker),
+        color: marker.color ?? null,
+        notes: marker.notes || null,
+      })),
+    },
+    null,
+    2,
+  )}\n`;
+}
+
+/**
+ * Audacity label track: start, end and label separated by tabs.
+ * Point markers have the same start and end.
+ */
+function exportAudacityLabels(markers: AudioMarker[]): string {
+  return markers
+    .map((marker) => {
+      const end = getSectionEnd(marker) ?? marker.timestamp;
+      return `${marker.timestamp.toFixed(6)}\t${end.toFixed(6)}\t${singleLine(marker.label)}\n`;
+    })
+    .join("");
+}
+
+/** WebVTT timestamp, e.g. 01:02:03.456 */
+function formatVttTime(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}.${String(ms).padStart(3, "0")}`;
+}
+
+/**
+ * WebVTT chapters. Sections keep their range; a point marker becomes a
+ * chapter lasting until the next marker, or the end of the audio.
+ */
+function exportWebVtt(
+  markers: AudioMarker[],
+  { duration }: MarkerExportOptions,
+): string {
+  const cues = markers.map((marker, index) => {
+    let end = getSectionEnd(marker);
+    if (end === null) {
+      const next = markers
+        .slice(index + 1)
+        .find((other) => other.timestamp > marker.timestamp);
+      end =
+        next?.timestamp ??
+        (duration != null && duration > marker.timestamp
+          ? duration
+          : marker.timestamp + DEFAULT_CHAPTER_LENGTH);
+    }
+    // "-->" would end the cue timing line, blank lines would end the cue
+    const text = singleLine(marker.label).replace(/-->/g, "->");
+    return `${index + 1}\n${formatVttTime(marker.timestamp)} --> ${formatVttTime(end)}\n${text}\n`;
+  });
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+/** CUE sheet position as mm:ss:ff */
+function formatCueTime(seconds: number): string {
+  const totalFrames = Math.round(seconds * CUE_FRAMES_PER_SECOND);
+  const minutes = Math.floor(totalFrames / (60 * CUE_FRAMES_PER_SECOND));
+  const secs = Math.floor(totalFrames / CUE_FRAMES_PER_SECOND) % 60;
+  const frames = totalFrames % CUE_FRAMES_PER_SECOND;
+  return `${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}:${String(frames).padStart(2, "0")}`;
+}
+
+/** CUE strings are quoted and cannot contain double quotes */
+function cueString(value: string): string {
+  return `"${singleLine(value).replace(/"/g, "'")}"`;
+}
+
+function getCueFileType(fileName: string): string {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "mp3") return "MP3";
+  if (extension === "aif" || extension === "aiff") return "AIFF";
+  return "WAVE";
+}
+
+/**
+ * CUE sheet with one track per marker. Tracks only have a start, so the end
+ * of a section is kept as REM comment.
+ */
+function exportCue(
+  markers: AudioMarker[],
+  { audioName, fileName }: MarkerExportOptions,
+): string {
+  if (markers.length > CUE_MAX_TRACKS) {
+    throw new MarkerExportError(
+      `CUE sheets support at most ${CUE_MAX_TRACKS} markers`,
+    );
+  }
+
+  const lines = [
+    `TITLE ${cueString(audioName)}`,
+    `FILE ${cueString(fileName)} ${getCueFileType(fileName)}`,
+  ];
+  markers.forEach((marker, index) => {
+    lines.push(
+      `  TRACK ${String(index + 1).padStart(2, "0")} AUDIO`,
+      `    TITLE ${cueString(marker.label)}`,
+    );
+    const end = getSectionEnd(marker);
+    if (end !== null) {
+      lines.push(`    REM END ${formatCueTime(end)}`);
+    }
+    lines.push(`    INDEX 01 ${formatCueTime(marker.timestamp)}`);
+  });
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * Podcasting 2.0 chapters (https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/examples/chapters/jsonChapters.md),
+ * linked from podcast feeds with `podcast:chapters`. Sections keep their end.
+ */
+function exportPodcastChapters(
+  markers: AudioMarker[],
+  { audioName }: MarkerExportOptions,
+): string {
+  return `${JSON.stringify(
+    {
+      version: "1.2.0",
+      title: audioName,
+      chapters: markers.map((marker) => {
+        const end = getSectionEnd(marker);
+        return {
+          startTime: marker.timestamp,
+          ...(end !== null && { endTime: end }),
+          title: singleLine(marker.label),
+        };
+      }),
+    },
+    null,
+    2,
+  )}\n`;
+}
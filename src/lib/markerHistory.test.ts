@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from "vitest";
+import type { AudioMarker } from "~/types/Audio";
+import {
+  applyMarkerChanges,
+  getBulkHistoryEntry,
+  invertChange,
+  remapMarkerId,
+  type MarkerHistoryAdapter,
+  type MarkerHistoryEntry,
+} from "./markerHistory";
+
+const marker: AudioMarker = {
+  id: "a",
+  label: "Intro",
+  timestamp: 5,
+  endTimestamp: null,
+  color: "#ff0000",
+};
+
+function createAdapter(): MarkerHistoryAdapter {
+  return {
+    createMarker: vi.fn(async () => "new-id"),
+    deleteMarker: vi.fn(async () => undefined),
+    updateMarker: vi.fn(async () => undefined),
+    updateTimes: vi.fn(async () => undefined),
+  };
+}
+
+describe("Marker History Utilities", () => {
+  describe("invertChange", () => {
+    it("should turn creating into deleting and back", () => {
+      expect(invertChange({ type: "create", marker })).toEqual({
+        type: "delete",
+        marker,
+      });
+      expect(invertChange({ type: "delete", marker })).toEqual({
+        type: "create",
+        marker,
+      });
+    });
+
+    it("should swap the fields of an update", () => {
+      expect(
+        invertChange({
+          type: "update",
+          markerId: "a",
+          before: { timestamp: 5 },
+          after: { timestamp: 8 },
+        }),
+      ).toEqual({
+        type: "update",
+        markerId: "a",
+        before: { timestamp: 8 },
+        after: { timestamp: 5 },
+      });
+    });
+
+    it("should invert shifting and scaling", () => {
+      expect(
+        invertChange({
+          type: "times",
+          markerIds: ["a"],
+          operation: { type: "shift", offset: 2.5 },
+        }),
+      ).toMatchObject({ operation: { type: "shift", offset: -2.5 } });
+      expect(
+        invertChange({
+          type: "times",
+          markerIds: ["a"],
+          operation: { type: "scale", factor: 2, anchor: 10 },
+        }),
+      ).toMatchObject({
+        operation: { type: "scale", factor: 0.5, anchor: 10 },
+      });
+    });
+  });
+
+  describe("remapMarkerId", () => {
+    it("should replace the id in all changes", () => {
+      const entries: MarkerHistoryEntry[] = [
+        {
+          id: 1,
+          action: "move",
+          subject: "Intro",
+          changes: [
+            { type: "update", markerId: "a", before: {}, after: {} },
+            {
+              type: "times",
+              markerIds: ["a", "b"],
+              operation: { type: "shift", offset: 1 },
+            },
+          ],
+        },
+      ];
+      const [entry] = remapMarkerId(entries, "a", "c");
+      expect(entry?.changes).toEqual([
+        { type: "update", markerId: "c", before: {}, after: {} },
+        {
+          type: "times",
+          markerIds: ["c", "b"],
+          operation: { type: "shift", offset: 1 },
+        },
+      ]);
+    });
+  });
+
+  describe("applyMarkerChanges", () => {
+    it("should use the new id of a created marker in later changes", async () => {
+      const adapter = createAdapter();
+      const newIds = await applyMarkerChanges(
+        [
+          { type: "create", marker },
+          {
+            type: "update",
+            markerId: "a",
+            before: { label: "Intro" },
+            after: { label: "Opening" },
+          },
+        ],
+        adapter,
+      );
+
+      expect(newIds).toEqual(new Map([["a", "new-id"]]));
+      expect(adapter.createMarker).toHaveBeenCalledWith(marker);
+      expect(adapter.updateMarker).toHaveBeenCalledWith("new-id", {
+        label: "Opening",
+      });
+    });
+
+    it("should fail for bulk time changes without support", async () => {
+      const adapter = { ...createAdapter(), updateTimes: undefined };
+      await expect(
+        applyMarkerChanges(
+          [
+            {
+              type: "times",
+              markerIds: ["a"],
+              operation: { type: "shift", offset: 1 },
+            },
+          ],
+          adapter,
+        ),
+      ).rejects.toThrow("Bulk time changes are not supported");
+    });
+  });
+
+  describe("getBulkHistoryEntry", () => {
+    const verse: AudioMarker = {
+      id: "b",
+      label: "Verse",
+      timestamp: 20,
+      color: "#00ff00",
+    };
+    const markers: AudioMarker[] = [marker, verse];
+
+    it("should record shifting as one time change", () => {
+      expect(
+        getBulkHistoryEntry(markers, { type: "shift", offset: 3 }),
+      ).toEqual({
+        action: "shift",
+        subject: 2,
+        changes: [
+          {
+            type: "times",
+            markerIds: ["a", "b"],
+            operation: { type: "shift", offset: 3 },
+          },
+        ],
+      });
+    });
+
+    it("should only record labels that were changed", () => {
+      const entry = getBulkHistoryEntry(markers, {
+        type: "rename",
+        labels: [
+          { id: "a", label: markers[0]?.label ?? "" },
+          { id: "b", label: "Chorus" },
+        ],
+      });
+      expect(entry.subject).toBe(1);
+      expect(entry.changes).toEqual([
+        {
+          type: "update",
+          markerId: "b",
+          before: { label: "Verse" },
+          after: { label: "Chorus" },
+        },
+      ]);
+    });
+
+    it("should record the previous category of changed markers", () => {
+      const entry = getBulkHistoryEntry(
+        [{ ...marker, categoryId: "verse" }, verse],
+        { type: "categorize", categoryId: "verse" },
+      );
+      expect(entry).toEqual({
+        action: "categorize",
+        subject: 1,
+        changes: [
+          {
+            type: "update",
+            markerId: "b",
+            before: { categoryId: null },
+            after: { categoryId: "verse" },
+          },
+        ],
+      });
+    });
+
+    it("should keep the deleted markers for recreating them", () => {
+      const entry = getBulkHistoryEntry(markers, { type: "delete" });
+      expect(entry.changes).toEqual([
+        { type: "delete", marker },
+        { type: "delete", marker: markers[1] },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import type { AudioMarker } from "~/types/Audio";
+import type { BulkMarkerUpdate } from "~/lib/markerBulk";
+
+/** Number of entries kept for undo */
+export const MAX_HISTORY_ENTRIES = 100;
+
+export type MarkerFields = Pick<
+  AudioMarker,
+  "timestamp" | "endTimestamp" | "label" | "color" | "notes" | "categoryId"
+>;
+
+type TimeOperation =
+  | { type: "shift"; offset: number }
+  | { type: "scale"; factor: number; anchor: number };
+
+/** A single change of the markers, with everything needed to revert it */
+export type MarkerChange =
+  | { type: "create"; marker: AudioMarker }
+  | { type: "delete"; marker: AudioMarker }
+  | {
+      type: "update";
+      markerId: string;
+      before: Partial<MarkerFields>;
+      after: Partial<MarkerFields>;
+    }
+  /** Bulk shift or scale, reverted by the inverse operation */
+  | { type: "times"; markerIds: string[]; operation: TimeOperation };
+
+export type MarkerHistoryAction =
+  | "create"
+  | "delete"
+  | "move"
+  | "shift"
+  | "scale"
+  | "recolor"
+  | "relabel"
+  | "notes"
+  | "categorize";
+
+export interface MarkerHistoryEntry {
+  id: number;
+  action: MarkerHistoryAction;
+  /** Label of the changed marker, or number of changed markers */
+  subject: string | number;
+  changes: MarkerChange[];
+}
+
+/** Storage the history is applied to: the server or the browser */
+export interface MarkerHistoryAdapter {
+  /** @returns The id of the new marker */
+  createMarker: (marker: AudioMarker) => Promise<string>;
+  deleteMarker: (markerId: string) => Promise<void>;
+  updateMarker: (
+    markerId: string,
+    fields: Partial<MarkerFields>,
+  ) => Promise<void>;
+  updateTimes?: (
+    markerIds: string[],
+    operation: TimeOperation,
+  ) => Promise<void>;
+}
+
+function invertTimeOperation(operation: TimeOperation): TimeOperation {
+  return operation.type === "shift"
+    ? { type: "shift", offset: -operation.offset }
+    : { ...operation, factor: 1 / operation.factor };
+}
+
+/** The change that reverts a change */
+export function invertChange(change: MarkerChange): MarkerChange {
+  switch (change.type) {
+    case "create":
+      return { type: "delete", marker: change.marker };
+    case "delete":
+      return { type: "create", marker: change.marker };
+    case "update":
+      return { ...change, before: change.after, after: change.before };
+    case "times":
+      return { ...change, operation: invertTimeOperation(change.operation) };
+  }
+}
+
+/**
+ * Replace the id of a marker in history entries, after the marker was
+ * created again with a new id by undoing its deletion.
+ */
+export function remapMarkerId(
+  entries: MarkerHistoryEntry[],
+  oldId: string,
+  newId: string,
+): MarkerHistoryEntry[] {
+  const mapId = (id: string) => (id === oldId ? newId : id);
+  return entries.map((entry) => ({
+    ...entry,
+    changes: entry.changes.map((change): MarkerChange => {
+      switch (change.type) {
+        case "create":
+        case "delete":
+          return {
+            ...change,
+            marker: { ...change.marker, id: mapId(change.marker.id) },
+          };
+        case "update":
+          return { ...change, markerId: mapId(change.markerId) };
+        case "times":
+          return { ...change, markerIds: change.markerIds.map(mapId) };
+      }
+    }),
+  }));
+}
+
+/**
+ * Apply changes one after another.
+ *
+ * @returns The new ids of markers that were created again, by their old id
+ */
+export async function applyMarkerChanges(
+  changes: MarkerChange[],
+  adapter: MarkerHistoryAdapter,
+): Promise<Map<string, string>> {
+  const newIds = new Map<string, string>();
+  const resolveId = (id: string) => newIds.get(id) ?? id;
+
+  for (const change of changes) {
+    switch (change.type) {
+      case "create":
+        newIds.set(change.marker.id, await adapter.createMarker(change.marker));
+        break;
+      case "delete":
+        await adapter.deleteMarker(resolveId(change.marker.id));
+        break;
+      case "update":
+        await adapter.updateMarker(resolveId(change.markerId), change.after);
+        break;
+      case "times":
+        if (!adapter.updateTimes) {
+          throw new Error("Bulk time changes are not supported");
+        }
+        await adapter.updateTimes(
+          change.markerIds.map(resolveId),
+          change.operation,
+        );
+        break;
+    }
+  }
+  return newIds;
+}
+
+/**
+ * Describe a bulk operation on the selected markers as a history entry.
+ *
+ * @param markers - The selected markers before the operation
+ */
+export function getBulkHistoryEntry(
+  markers: AudioMarker[],
+  operation: BulkMarkerUpdate,
+): Omit<MarkerHistoryEntry, "id"> {
+  const markerIds = markers.map((marker) => marker.id);
+  switch (operation.type) {
+    case "shift":
+    case "scale":
+      return {
+        action: operation.type,
+        subject: markers.length,
+        changes: [{ type: "times", markerIds, operation }],
+      };
+    case "categorize": {
+      const changes: MarkerChange[] = markers
+        .filter(
+          (marker) => (marker.categoryId ?? null) !== operation.categoryId,
+        )
+        .map((marker) => ({
+          type: "update",
+          markerId: marker.id,
+          before: { categoryId: marker.categoryId ?? null },
+          after: { categoryId: operation.categoryId },
+        }));
+      return { action: "categorize", subject: changes.length, changes };
+    }
+    case "delete":
+      return {
+        action: "delete",
+        subject: markers.length,
+        changes: markers.map((marker) => ({ type: "delete", marker })),
+      };
+    case "rename": {
+      const labels = new Map(
+        operation.labels.map(({ id, label }) => [id, label]),
+      );
+      const changes: MarkerChange[] = markers.flatMap((marker) => {
+        const after = labels.get(marker.id);
+        return after === undefined || after === marker.label
+          ? []
+          : [
+              {
+                type: "update",
+                markerId: marker.id,
+                before: { label: marker.label },
+                after: { label: after },
+              },
+            ];
+      });
+      return { action: "relabel", subject: changes.length, changes };
+    }
+    case "recolor": {
+      const changes: MarkerChange[] = markers
+        .filter((marker) => marker.color !== operation.color)
+        .map((marker) => ({
+          type: "update",
+          markerId: marker.id,
+          before: { color: marker.color },
+          after: { color: operation.color },
+        }));
+      return { action: "recolor", subject: changes.length, changes };
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import { describe, it, expect } from "vitest";
+import {
+  MarkerImportError,
+  detectMarkerImportFormat,
+  getMarkerImportStatus,
+  parseMarkerFile,
+  parseTime,
+  planMarkerImport,
+} from "./markerImport";
+import { exportMarkers } from "./markerExport";
+import type { AudioMarker } from "~/types/Audio";
+
+const existingMarkers: AudioMarker[] = [
+  { id: "a", timestamp: 0, label: "Intro", color: "#ff0000" },
+  { id: "b", timestamp: 30.5, label: "Verse", color: "#00ff00" },
+];
+
+describe("Marker Import", () => {
+  describe("parseTime", () => {
+    it("should parse seconds and timecodes", () => {
+      expect(parseTime("75.5")).toBe(75.5);
+      expect(parseTime("1:15.5")).toBe(75.5);
+      expect(parseTime("01:01:15.500")).toBe(3675.5);
+      expect(parseTime("75:00")).toBe(4500);
+    });
+
+    it("should reject invalid times", () => {
+      expect(parseTime("1.1.00")).toBeNull();
+      expect(parseTime("1:75")).toBeNull();
+      expect(parseTime("")).toBeNull();
+    });
+  });
+
+  describe("detectMarkerImportFormat", () => {
+    it("should detect the format from the content", () => {
+      expect(detectMarkerImportFormat("WEBVTT\n\n")).toBe("webvtt");
+      expect(
+        detectMarkerImportFormat("TRACK 01 AUDIO\n  INDEX 01 00:00:00\n"),
+      ).toBe("cue");
+      expect(detectMarkerImportFormat("1.5\t1.5\tA\n")).toBe("audacity");
+      expect(detectMarkerImportFormat("#,Name,Start,End,Length\n")).toBe(
+        "reaper",
+      );
+      expect(detectMarkerImportFormat("label,start\n")).toBe("csv");
+      expect(detectMarkerImportFormat('{"markers":[]}')).toBe("json");
+    });
+
+    it("should fall back to the file extension", () => {
+      expect(detectMarkerImportFormat("", "labels.txt")).toBe("audacity");
+      expect(detectMarkerImportFormat("nothing", "notes.md")).toBeNull();
+    });
+  });
+
+  describe("parseMarkerFile", () => {
+    it("should parse Audacity labels and ignore frequency lines", () => {
+      const result = parseMarkerFile(
+        "1.000000\t1.000000\tStart\n" +
+          "\\\t100.0\t2000.0\n" +
+          "10.250000\t20.500000\tSolo part\n",
+      );
+      expect(result.format).toBe("audacity");
+      expect(result.markers).toEqual([
+        { label: "Start", timestamp: 1, endTimestamp: null, color: null },
+        {
+          label: "Solo part",
+          timestamp: 10.25,
+          endTimestamp: 20.5,
+          color: null,
+        },
+      ]);
+      expect(result.skipped).toBe(0);
+    });
+
+    it("should parse Reaper region and marker lists", () => {
+      const result = parseMarkerFile(
+        "#,Name,Start,End,Length,Color\r\n" +
+          "R1,Verse,0:10.000,0:40.000,0:30.000,#FF8000\r\n" +
+          'M1,"Break, short",1:05.500,,,0\r\n' +
+          "M2,Bar,3.1.00,,,\r\n",
+      );
+      expect(result.format).toBe("reaper");
+      expect(result.markers).toEqual([
+        { label: "Verse", timestamp: 10, endTimestamp: 40, color: "#FF8000" },
+        {
+          label: "Break, short",
+          timestamp: 65.5,
+          endTimestamp: null,
+          color: null,
+        },
+      ]);
+      // Measures and beats cannot be converted
+      expect(result.skipped).toBe(1);
+    });
+
+    it("should parse CSV with semicolons", () => {
+      const result = parseMarkerFile("Name;Time\nA;1:00\nB;90\n");
+      expect(result.markers.map((marker) => marker.timestamp)).toEqual([
+        60, 90,
+      ]);
+    });
+
+    it("should require label and start columns in CSV files", () => {
+      expect(() => parseMarkerFile("foo,bar\n1,2\n")).toThrow(
+        MarkerImportError,
+      );
+    });
+
+    it("should parse WebVTT cues as sections", () => {
+      const result = parseMarkerFile(
+        "WEBVTT\n\nNOTE exported\n\n" +
+          "1\n00:00:01.000 --> 00:00:05.000 align:start\n<b>First</b>\n\n" +
+          "00:01:00.000 --> 00:01:30.000\nSecond\nline\n",
+      );
+      expect(result.markers).toEqual([
+        { label: "First", timestamp: 1, endTimestamp: 5, color: null },
+        { label: "Second line", timestamp: 60, endTimestamp: 90, color: null },
+      ]);
+    });
+
+    it("should parse CUE sheets", () => {
+      const result = parseMarkerFile(
+        'TITLE "Album"\nFILE "a.wav" WAVE\n' +
+          '  TRACK 01 AUDIO\n    TITLE "One"\n    INDEX 00 00:00:00\n    INDEX 01 00:02:00\n' +
+          "  TRACK 02 AUDIO\n    INDEX 01 01:00:37\n",
+      );
+      expect(result.markers).toEqual([
+        { label: "One", timestamp: 2, endTimestamp: null, color: null },
+        {
+          label: "Track 02",
+          timestamp: 60 + 37 / 75,
+          endTimestamp: null,
+          color: null,
+        },
+      ]);
+    });
+
+    it("should skip entries at a time already used", () => {
+      const result = parseMarkerFile("1\t1\tA\n1.0001\t1.0001\tB\n2\t2\tC\n");
+      expect(result.markers.map((marker) => marker.label)).toEqual(["A", "C"]);
+      expect(result.skipped).toBe(1);
+    });
+
+    it("should throw if no marker was found", () => {
+      expect(() => parseMarkerFile("WEBVTT\n")).toThrow(MarkerImportError);
+    });
+
+    it.each([
+      "csv",
+      "json",
+      "audacity",
+      "cue",
+    ] as const)("should read markers exported as %s", (format) => {
+      const markers: AudioMarker[] = [
+        { id: "1", timestamp: 2, label: "Point", color: "#112233" },
+        {
+          id: "2",
+          timestamp: 10,
+          endTimestamp: 20,
+          label: "Section",
+          color: "#445566",
+        },
+      ];
+      const exported = exportMarkers(markers, format, {
+        audioName: "Song",
+        fileName: "song.mp3",
+      });
+      const result = parseMarkerFile(exported);
+
+      expect(result.markers.map((marker) => marker.label)).toEqual([
+        "Point",
+        "Section",
+      ]);
+      expect(result.markers[1]?.endTimestamp).toBe(20);
+    });
+
+    it.each([
+      "csv",
+      "json",
+    ] as const)("should keep the notes of markers exported as %s", (format) => {
+      const exported = exportMarkers(
+        [
+          {
+            id: "1",
+            timestamp: 2,
+            label: "Bar 32",
+            notes: "Horns late,\nretake",
+          },
+        ],
+        format,
+        { audioName: "Song", fileName: "song.mp3" },
+      );
+      expect(parseMarkerFile(exported).markers[0]?.notes).toBe(
+        "Horns late,\nretake",
+      );
+    });
+  });
+
+  describe("getMarkerImportStatus", () => {
+    it("should compare with the existing marker at the same time", () => {
+      expect(
+        getMarkerImportStatus(existingMarkers, {
+          label: "Outro",
+          timestamp: 60,
+          endTimestamp: null,
+          color: null,
+        }),
+      ).toBe("new");
+      expect(
+        getMarkerImportStatus(existingMarkers, {
+          label: "Intro",
+          timestamp: 0,
+          endTimestamp: null,
+          color: null,
+        }),
+      ).toBe("unchanged");
+      expect(
+        getMarkerImportStatus(existingMarkers, {
+          label: "Verse 1",
+          timestamp: 30.5,
+          endTimestamp: null,
+          color: null,
+        }),
+      ).toBe("conflict");
+    });
+  });
+
+  describe("planMarkerImport", () => {
+    const imported = [
+      { label: "Intro (new)", timestamp: 0, endTimestamp: null, color: null },
+      { label: "Chorus", timestamp: 45, endTimestamp: 60, color: null },
+    ];
+
+    it("should overwrite conflicting markers when merging", () => {
+      const plan = planMarkerImport(existingMarkers, imported, "merge");
+      expect(plan.deleteExisting).toBe(false);
+      expect(plan.create).toEqual([imported[1]]);
+      expect(plan.update).toEqual([
+        { existing: existingMarkers[0], marker: imported[0] },
+      ]);
+    });
+
+    it("should keep conflicting markers when skipping", () => {
+      const plan = planMarkerImport(existingMarkers, imported, "skip");
+      expect(plan.create).toEqual([imported[1]]);
+      expect(plan.update).toEqual([]);
+      expect(plan.skipped).toBe(1);
+    });
+
+    it("should delete all existing markers when replacing", () => {
+      const plan = planMarkerImport(existingMarkers, imported, "replace");
+      expect(plan.deleteExisting).toBe(true);
+      expect(plan.create).toEqual(imported);
+    });
+  });
+});
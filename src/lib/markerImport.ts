@@ -0,0 +1,505 @@
+import type { AudioMarker } from "~/types/Audio";
+
+export type MarkerImportFormat =
+  | "audacity"
+  | "csv"
+  | "reaper"
+  | "cue"
+  | "webvtt"
+  | "json";
+
+/** How imported markers at the time of an existing marker are handled */
+export type MarkerImportMode = "merge" | "skip" | "replace";
+
+export interface ImportedMarker {
+  label: string;
+  timestamp: number;
+  endTimestamp: number | null;
+  color: string | null;
+  /** Markdown notes, only read from CSV and JSON files */
+  notes?: string;
+}
+
+export interface ParsedMarkerImport {
+  format: MarkerImportFormat;
+  markers: ImportedMarker[];
+  /** Lines or entries that could not be read, or repeat an earlier time */
+  skipped: number;
+}
+
+/** File types offered in the import dialog */
+export const MARKER_IMPORT_EXTENSIONS = [
+  ".txt",
+  ".csv",
+  ".cue",
+  ".vtt",
+  ".json",
+];
+
+/** CUE sheets address positions in frames of 1/75 second */
+const CUE_FRAMES_PER_SECOND = 75;
+
+export class MarkerImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MarkerImportError";
+  }
+}
+
+/**
+ * Parse a time given in seconds ("75.5") or as timecode
+ * ("1:15.5", "01:01:15.500").
+ * @returns The time in seconds, or null if the value is no valid time
+ */
+export function parseTime(value: string): number | null {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+
+  const match = /^(?:(\d+):)?(\d+):(\d{1,2}(?:\.\d+)?)$/.exec(trimmed);
+  if (!match) return null;
+  const [, hours = "0", minutes = "0", seconds = "0"] = match;
+  if (
+    Number(seconds) >= 60 ||
+    (match[1] !== undefined && Number(minutes) >= 60)
+  )
+    return null;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+/** Times are compared with millisecond precision */
+function timeKey(seconds: number): number {
+  return Math.round(seconds * 1000);
+}
+
+function createMarker(
+  label: string,
+  timestamp: number,
+  endTimestamp: number | null,
+  color: string | null = null,
+  notes = "",
+): ImportedMarker {
+  return {
+    label: label.trim(),
+    timestamp,
+    // Ranges without length are point markers
+    endTimestamp:
+      endTimestamp !== null && endTimestamp > timestamp ? endTimestamp : null,
+    color,
+    ...(notes.trim() && { notes: notes.trim() }),
+  };
+}
+
+/** Detect the format from the file content, falling back to the extension */
+export function detectMarkerImportFormat(
+  content: string,
+  fileName = "",
+): MarkerImportFormat | null {
+  const text = content.replace(/^\uFEFF/, "").trimStart();
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+
+  if (text.startsWith("WEBVTT")) return "webvtt";
+  if (/^\s*TRACK\s+\d+/m.test(text) && /^\s*INDEX\s+01/m.test(text)) {
+    return "cue";
+  }
+  if (text.startsWith("{") || text.startsWith("[")) return "json";
+  if (/^\d+(\.\d+)?\t\d+(\.\d+)?\t/.test(firstLine)) return "audacity";
+  if (/^"?#"?[,;]/.test(firstLine) && /name/i.test(firstLine)) return "reaper";
+  if (/[,;]/.test(firstLine)) return "csv";
+
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "txt") return "audacity";
+  if (extension === "csv") return "csv";
+  return null;
+}
+
+/**
+ * Parse a marker file exported from Audacity (label track), Reaper (region
+ * and marker list), a CUE sheet, WebVTT chapters, or a CSV or JSON marker
+ * export of this app.
+ * Entries that cannot be read are skipped, as are entries at a time already
+ * used by an earlier entry, since an audio can have only one marker per time.
+ *
+ * @throws MarkerImportError if the format is unknown or no marker was found
+ */
+export function parseMarkerFile(
+  content: string,
+  fileName?: string,
+): ParsedMarkerImport {
+  const format = detectMarkerImportFormat(content, fileName);
+  if (!format) {
+    throw new MarkerImportError("Unknown marker file format");
+  }
+
+  const text = content.replace(/^\uFEFF/, "");
+  const { markers, invalid } = parsers[format](text);
+
+  const seen = new Set<number>();
+  const unique = markers.filter((marker) => {
+    const key = timeKey(marker.timestamp);
+    if (seen.has(key) || !marker.label) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (unique.length === 0) {
+    throw new MarkerImportError("No markers found in the file");
+  }
+
+  return {
+    format,
+    markers: unique.sort((a, b) => a.timestamp - b.timestamp),
+    skipped: invalid + markers.length - unique.length,
+  };
+}
+
+type Parser = (text: string) => { markers: ImportedMarker[]; invalid: number };
+
+const parsers: Record<MarkerImportFormat, Parser> = {
+  audacity: parseAudacityLabels,
+  csv: (text) => parseCsvMarkers(text, false),
+  reaper: (text) => parseCsvMarkers(text, true),
+  cue: parseCue,
+  webvtt: parseWebVtt,
+  json: parseJson,
+};
+
+/** Audacity label track: start, end and label separated by tabs */
+function parseAudacityLabels(text: string) {
+  const markers: ImportedMarker[] = [];
+  let invalid = 0;
+  for (const line of text.split(/\r?\n/)) {
+    // Lines starting with a backslash hold the frequency range of a label
+    if (!line.trim() || line.startsWith("\\")) continue;
+    const [start = "", end = "", ...label] = line.split("\t");
+    const timestamp = parseTime(start);
+    if (timestamp === null) {
+      invalid++;
+      continue;
+    }
+    markers.push(createMarker(label.join(" "), timestamp, parseTime(end)));
+  }
+  return { markers, invalid };
+}
+
+/** Split CSV text into rows of fields, honouring quoted fields */
+function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+/** Column names accepted for each marker field, lower case */
+const CSV_COLUMNS = {
+  label: ["label", "name", "title", "marker"],
+  start: ["start", "timestamp", "time", "position"],
+  end: ["end", "endtimestamp", "end time"],
+  color: ["color", "colour"],
+  notes: ["notes", "note", "description", "comment"],
+};
+
+/**
+ * CSV with a header row, as exported by this app or spreadsheets.
+ * Reaper region/marker lists have the columns "#", "Name", "Start", "End"
+ * and "Length"; markers have an empty end.
+ */
+function parseCsvMarkers(text: string, isReaper: boolean) {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter =
+    firstLine.includes(";") && !firstLine.includes(",") ? ";" : ",";
+  const [header = [], ...rows] = parseCsvRows(text, delimiter);
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const findColumn = (names: string[]) =>
+    columns.findIndex((column) => names.includes(column));
+
+  const labelColumn = findColumn(CSV_COLUMNS.label);
+  const startColumn = findColumn(CSV_COLUMNS.start);
+  const endColumn = findColumn(CSV_COLUMNS.end);
+  const colorColumn = findColumn(CSV_COLUMNS.color);
+  const notesColumn = findColumn(CSV_COLUMNS.notes);
+  if (labelColumn === -1 || startColumn === -1) {
+    throw new MarkerImportError(
+      "The CSV file needs a label (or name) and a start column",
+    );
+  }
+
+  const markers: ImportedMarker[] = [];
+  let invalid = 0;
+  for (const row of rows) {
+    // Measures and beats cannot be converted without the tempo of the project
+    const timestamp = parseTime(row[startColumn] ?? "");
+    if (timestamp === null) {
+      invalid++;
+      continue;
+    }
+    const end = endColumn === -1 ? "" : (row[endColumn] ?? "");
+    const color = colorColumn === -1 ? "" : (row[colorColumn] ?? "").trim();
+    markers.push(
+      createMarker(
+        row[labelColumn] ?? "",
+        timestamp,
+        end.trim() ? parseTime(end) : null,
+        // Reaper writes 0 or an empty value for markers without color
+        color && !(isReaper && !color.startsWith("#")) ? color : null,
+        notesColumn === -1 ? "" : row[notesColumn],
+      ),
+    );
+  }
+  return { markers, invalid };
+}
+
+/** CUE sheet position mm:ss:ff */
+function parseCueTime(value: string): number | null {
+  const match = /^(\d+):(\d{2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const [, minutes = "0", seconds = "0", frames = "0"] = match;
+  return (
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(frames) / CUE_FRAMES_PER_SECOND
+  );
+}
+
+/** Unquote a CUE string value */
+function cueValue(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.startsWith('"') && trimmed.endsWith('"')
+    ? trimmed.slice(1, -1)
+    : trimmed;
+}
+
+/**
+ * CUE sheet: every track becomes a marker at its INDEX 01 position, named
+ * after its TITLE. "REM END" (written by the export) makes it a section.
+ */
+function parseCue(text: string) {
+  const markers: ImportedMarker[] = [];
+  let invalid = 0;
+  let track: {
+    number: string;
+    title: string;
+    start: number | null;
+    end: number | null;
+  } | null = null;
+
+  const finishTrack = () => {
+    if (!track) return;
+    if (track.start === null) {
+      invalid++;
+    } else {
+      markers.push(
+        createMarker(
+          track.title || `Track ${track.number}`,
+          track.start,
+          track.end,
+        ),
+      );
+    }
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const [command = "", ...args] = line.trim().split(/\s+/);
+    const rest = line.trim().slice(command.length);
+    switch (command.toUpperCase()) {
+      case "TRACK":
+        finishTrack();
+        track = { number: args[0] ?? "", title: "", start: null, end: null };
+        break;
+      case "TITLE":
+        if (track) track.title = cueValue(rest);
+        break;
+      case "INDEX":
+        if (track && args[0] === "01") {
+          track.start = parseCueTime(args[1] ?? "");
+        }
+        break;
+      case "REM":
+        if (track && args[0]?.toUpperCase() === "END") {
+          track.end = parseCueTime(args[1] ?? "");
+        }
+        break;
+    }
+  }
+  finishTrack();
+  return { markers, invalid };
+}
+
+/** WebVTT: every cue becomes a section covering the cue time range */
+function parseWebVtt(text: string) {
+  const markers: ImportedMarker[] = [];
+  let invalid = 0;
+  // Cues are separated by blank lines, the first block is the header
+  const blocks = text.split(/\r?\n\s*\r?\n/).slice(1);
+  for (const block of blocks) {
+    const lines = block.split(/\r?\n/);
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) continue; // NOTE, STYLE and REGION blocks
+
+    const [start = "", endWithSettings = ""] = (lines[timingIndex] ?? "").split(
+      "-->",
+    );
+    const timestamp = parseTime(start);
+    const end = parseTime(endWithSettings.trim().split(/\s+/)[0] ?? "");
+    if (timestamp === null) {
+      invalid++;
+      continue;
+    }
+    const label = lines
+      .slice(timingIndex + 1)
+      .join(" ")
+      .replace(/<[^>]+>/g, "");
+    markers.push(createMarker(label, timestamp, end));
+  }
+  return { markers, invalid };
+}
+
+/** JSON marker export of this app, or a plain array of markers */
+function parseJson(text: string) {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new MarkerImportError("The JSON file is not valid");
+  }
+
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { markers?: unknown })?.markers)
+      ? (data as { markers: unknown[] }).markers
+      : [];
+
+  const markers: ImportedMarker[] = [];
+  let invalid = 0;
+  for (const entry of entries) {
+    const marker = entry as Partial<Record<keyof ImportedMarker, unknown>>;
+    if (
+      typeof marker?.label !== "string" ||
+      typeof marker.timestamp !== "number" ||
+      marker.timestamp < 0
+    ) {
+      invalid++;
+      continue;
+    }
+    markers.push(
+      createMarker(
+        marker.label,
+        marker.timestamp,
+        typeof marker.endTimestamp === "number" ? marker.endTimestamp : null,
+        typeof marker.color === "string" ? marker.color : null,
+        typeof marker.notes === "string" ? marker.notes : "",
+      ),
+    );
+  }
+  return { markers, invalid };
+}
+
+/**
+ * Find the existing marker at the time of an imported marker. Only one
+ * marker per time is allowed for an audio.
+ */
+export function findConflictingMarker<T extends Pick<AudioMarker, "timestamp">>(
+  existingMarkers: T[],
+  marker: Pick<ImportedMarker, "timestamp">,
+): T | undefined {
+  const key = timeKey(marker.timestamp);
+  return existingMarkers.find(
+    (existing) => timeKey(existing.timestamp) === key,
+  );
+}
+
+export type MarkerImportStatus = "new" | "conflict" | "unchanged";
+
+/**
+ * Compare imported markers with the existing markers of the audio for the
+ * preview: new markers, markers at the time of an existing marker with
+ * different values, and markers equal to an existing one.
+ */
+export function getMarkerImportStatus(
+  existingMarkers: AudioMarker[],
+  marker: ImportedMarker,
+): MarkerImportStatus {
+  const existing = findConflictingMarker(existingMarkers, marker);
+  if (!existing) return "new";
+  const isUnchanged =
+    existing.label === marker.label &&
+    (existing.endTimestamp ?? null) === marker.endTimestamp &&
+    (marker.color === null || existing.color === marker.color) &&
+    (marker.notes === undefined || existing.notes === marker.notes);
+  return isUnchanged ? "unchanged" : "conflict";
+}
+
+export interface MarkerImportPlan<T> {
+  /** Remove all existing markers before creating the imported ones */
+  deleteExisting: boolean;
+  create: ImportedMarker[];
+  /** Existing markers overwritten with the values of an imported marker */
+  update: { existing: T; marker: ImportedMarker }[];
+  skipped: number;
+}
+
+/**
+ * Decide what happens to every imported marker:
+ * - merge: new markers are added, existing markers at the same time are
+ *   overwritten with the imported label, end and color
+ * - skip: new markers are added, existing markers at the same time are kept
+ * - replace: all existing markers are removed and the imported ones added
+ */
+export function planMarkerImport<T extends Pick<AudioMarker, "timestamp">>(
+  existingMarkers: T[],
+  markers: ImportedMarker[],
+  mode: MarkerImportMode,
+): MarkerImportPlan<T> {
+  if (mode === "replace") {
+    return { deleteExisting: true, create: markers, update: [], skipped: 0 };
+  }
+
+  const plan: MarkerImportPlan<T> = {
+    deleteExisting: false,
+    create: [],
+    update: [],
+    skipped: 0,
+  };
+  for (const marker of markers) {
+    const existing = findConflictingMarker(existingMarkers, marker);
+    if (!existing) {
+      plan.create.push(marker);
+    } else if (mode === "merge") {
+      plan.update.push({ existing, marker });
+    } else {
+      plan.skipped++;
+    }
+  }
+  return plan;
+}
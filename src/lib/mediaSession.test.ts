@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  getMediaPositionState,
+  getNextMarkerTime,
+  getPlaylistNeighbors,
+  getPreviousMarkerTime,
+} from "./mediaSession";
+
+const markers = [{ timestamp: 60 }, { timestamp: 10 }, { timestamp: 30 }];
+
+describe("Media Session", () => {
+  describe("getNextMarkerTime", () => {
+    it("should find the next marker in any order", () => {
+      expect(getNextMarkerTime(markers, 0)).toBe(10);
+      expect(getNextMarkerTime(markers, 15)).toBe(30);
+    });
+
+    it("should skip the marker at the playback position", () => {
+      expect(getNextMarkerTime(markers, 30)).toBe(60);
+    });
+
+    it("should return null after the last marker", () => {
+      expect(getNextMarkerTime(markers, 61)).toBeNull();
+      expect(getNextMarkerTime([], 0)).toBeNull();
+    });
+  });
+
+  describe("getPreviousMarkerTime", () => {
+    it("should go to the start of the current marker", () => {
+      expect(getPreviousMarkerTime(markers, 45)).toBe(30);
+    });
+
+    it("should go to the marker before shortly after a marker", () => {
+      expect(getPreviousMarkerTime(markers, 31)).toBe(10);
+    });
+
+    it("should return null before the first marker", () => {
+      expect(getPreviousMarkerTime(markers, 12)).toBeNull();
+    });
+  });
+
+  describe("getPlaylistNeighbors", () => {
+    const audios = [
+      { audio: { id: "a1" } },
+      { audio: { id: "a2" } },
+      { audio: { id: "a3" } },
+    ];
+
+    it("should return the audios before and after", () => {
+      expect(getPlaylistNeighbors(audios, "a2")).toEqual({
+        previous: { audio: { id: "a1" } },
+        next: { audio: { id: "a3" } },
+      });
+    });
+
+    it("should have no neighbor at the ends", () => {
+      expect(getPlaylistNeighbors(audios, "a1").previous).toBeNull();
+      expect(getPlaylistNeighbors(audios, "a3").next).toBeNull();
+    });
+
+    it("should have no neighbors for audios outside the playlist", () => {
+      expect(getPlaylistNeighbors(audios, "x")).toEqual({
+        previous: null,
+        next: null,
+      });
+    });
+  });
+
+  describe("getMediaPositionState", () => {
+    it("should clamp the position to the audio", () => {
+      expect(getMediaPositionState(100, 120, 1.5)).toEqual({
+        duration: 100,
+        position: 100,
+        playbackRate: 1.5,
+      });
+    });
+
+    it("should return null without duration", () => {
+      expect(getMediaPositionState(0, 0, 1)).toBeNull();
+      expect(getMediaPositionState(Number.NaN, 0, 1)).toBeNull();
+    });
+  });
+});
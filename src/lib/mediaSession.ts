@@ -0,0 +1,92 @@
+/**
+ * Lock screen and hardware media keys through the Media Session API. The
+ * previous and next track keys jump between the markers of an audio and to
+ * the neighbouring audios of a playlist after the first or last marker.
+ */
+
+/** Seconds to skip with the seek backward and forward actions */
+export const MEDIA_SEEK_OFFSET = 10;
+
+/** Within this many seconds after a marker, "previous" goes to the one before */
+export const PREVIOUS_MARKER_THRESHOLD = 3;
+
+/** Markers this close to the playback position count as the current one */
+const MARKER_EPSILON = 0.05;
+
+/**
+ * Start of the next marker after the playback position
+ * @param markers - Markers of the audio, in any order
+ * @param time - Playback position in seconds
+ * @returns The time in seconds, null after the last marker
+ */
+export function getNextMarkerTime(
+  markers: { timestamp: number }[],
+  time: number,
+): number | null {
+  let next: number | null = null;
+  for (const { timestamp } of markers) {
+    if (
+      timestamp > time + MARKER_EPSILON &&
+      (next === null || timestamp < next)
+    )
+      next = timestamp;
+  }
+  return next;
+}
+
+/**
+ * Start of the current marker, or the one before shortly after a marker
+ * started, like the previous button of a CD player
+ * @param markers - Markers of the audio, in any order
+ * @param time - Playback position in seconds
+ * @returns The time in seconds, null before the first marker
+ */
+export function getPreviousMarkerTime(
+  markers: { timestamp: number }[],
+  time: number,
+): number | null {
+  let previous: number | null = null;
+  for (const { timestamp } of markers) {
+    if (
+      timestamp < time - PREVIOUS_MARKER_THRESHOLD &&
+      (previous === null || timestamp > previous)
+    )
+      previous = timestamp;
+  }
+  return previous;
+}
+
+/**
+ * Previous and next audio of a playlist
+ * @param audios - Audios of the playlist in playlist order
+ * @param currentAudioId - The audio being played
+ */
+export function getPlaylistNeighbors<T extends { audio: { id: string } }>(
+  audios: T[],
+  currentAudioId: string,
+): { previous: T | null; next: T | null } {
+  const index = audios.findIndex((entry) => entry.audio.id === currentAudioId);
+  if (index === -1) return { previous: null, next: null };
+  return {
+    previous: audios[index - 1] ?? null,
+    next: audios[index + 1] ?? null,
+  };
+}
+
+/**
+ * Position for the lock screen progress bar
+ * @returns The state, null while the duration is unknown
+ */
+export function getMediaPositionState(
+  duration: number,
+  position: number,
+  playbackRate: number,
+): MediaPositionState | null {
+  if (!Number.isFinite(duration) || duration <= 0) return null;
+  return {
+    duration,
+    // The browser rejects positions outside the audio
+    position: Math.min(Math.max(position, 0), duration),
+    playbackRate: playbackRate > 0 ? playbackRate : 1,
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  getMarkerTicks,
+  getPreviewDescription,
+  getWaveformBars,
+} from "./openGraph";
+
+describe("Open Graph Utilities", () => {
+  describe("getPreviewDescription", () => {
+    it("should use the fallback for empty descriptions", () => {
+      expect(getPreviewDescription(null, "Listen")).toBe("Listen");
+      expect(getPreviewDescription("  \n ", "Listen")).toBe("Listen");
+    });
+
+    it("should put the description on one line", () => {
+      expect(getPreviewDescription("Live\n\nrecording  2026", "")).toBe(
+        "Live recording 2026",
+      );
+    });
+
+    it("should cut long descriptions at a word", () => {
+      const description = getPreviewDescription("word ".repeat(60), "");
+      expect(description.length).toBeLessThanOrEqual(201);
+      expect(description.endsWith("word…")).toBe(true);
+    });
+  });
+
+  describe("getWaveformBars", () => {
+    it("should return no bars without peaks", () => {
+      expect(getWaveformBars([], 10)).toEqual([]);
+    });
+
+    it("should keep the highest peak of each bar and scale to 1", () => {
+      expect(getWaveformBars([0.1, -0.5, 0.2, 0.25], 2)).toEqual([1, 0.5]);
+    });
+
+    it("should repeat peaks when there are fewer peaks than bars", () => {
+      expect(getWaveformBars([0.5, 1], 4)).toEqual([0.5, 0.5, 1, 1]);
+    });
+
+    it("should keep silent audios flat", () => {
+      expect(getWaveformBars([0, 0, 0], 3)).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe("getMarkerTicks", () => {
+    it("should place markers and sections relative to the duration", () => {
+      expect(
+        getMarkerTicks(
+          [
+            { timestamp: 25, color: "#ff0000" },
+            { timestamp: 50, endTimestamp: 75, color: null },
+          ],
+          100,
+          "#006FEE",
+        ),
+      ).toEqual([
+        { start: 0.25, end: null, color: "#ff0000" },
+        { start: 0.5, end: 0.75, color: "#006FEE" },
+      ]);
+    });
+
+    it("should skip markers after the end and clamp sections", () => {
+      expect(
+        getMarkerTicks(
+          [
+            { timestamp: 120, color: "#ff0000" },
+            { timestamp: 90, endTimestamp: 150, color: "#00ff00" },
+          ],
+          100,
+          "#006FEE",
+        ),
+      ).toEqual([{ start: 0.9, end: 1, color: "#00ff00" }]);
+    });
+
+    it("should return no ticks without duration", () => {
+      expect(getMarkerTicks([{ timestamp: 0 }], 0, "#006FEE")).toEqual([]);
+    });
+  });
+});
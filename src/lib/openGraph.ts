@@ -0,0 +1,93 @@
+/**
+ * Link previews of listen pages. The Open Graph image of public audios and
+ * playlists shows the waveform from the stored peaks with the markers.
+ */
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+/** Number of waveform bars in the image */
+export const OG_WAVEFORM_BARS = 120;
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+export interface MarkerTick {
+  /** Start of the marker, as fraction of the duration */
+  start: number;
+  /** End of a section marker as fraction of the duration, null for points */
+  end: number | null;
+  color: string;
+}
+
+/**
+ * Description for link previews, on one line and cut at a word
+ * @param text - Description of the audio or playlist
+ * @param fallback - Used when the description is empty
+ */
+export function getPreviewDescription(
+  text: string | null | undefined,
+  fallback: string,
+): string {
+  const singleLine = (text ?? "").replace(/\s+/g, " ").trim();
+  if (!singleLine) return fallback;
+  if (singleLine.length <= MAX_DESCRIPTION_LENGTH) return singleLine;
+
+  const cut = singleLine.slice(0, MAX_DESCRIPTION_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+/**
+ * Reduce the peaks to a number of bars, scaled so the highest bar is 1
+ * @param peaks - Stored peaks in the range [-1, 1]
+ * @param count - Number of bars
+ * @returns Bar heights in the range [0, 1], empty without peaks
+ */
+export function getWaveformBars(peaks: number[], count: number): number[] {
+  if (peaks.length === 0 || count <= 0) return [];
+
+  const bars = Array.from({ length: count }, (_, index) => {
+    const from = Math.floor((index * peaks.length) / count);
+    const to = Math.max(
+      from + 1,
+      Math.floor(((index + 1) * peaks.length) / count),
+    );
+    let max = 0;
+    for (let i = from; i < to && i < peaks.length; i++) {
+      max = Math.max(max, Math.abs(peaks[i] ?? 0));
+    }
+    return max;
+  });
+
+  const highest = Math.max(...bars);
+  return highest > 0 ? bars.map((bar) => bar / highest) : bars;
+}
+
+/**
+ * Positions of the markers on the waveform
+ * @param markers - Stored markers of the audio
+ * @param duration - Duration of the audio in seconds
+ * @param defaultColor - Color of markers without own color
+ * @returns Ticks of the markers within the audio
+ */
+export function getMarkerTicks(
+  markers: {
+    timestamp: number;
+    endTimestamp?: number | null;
+    color?: string | null;
+  }[],
+  duration: number,
+  defaultColor: string,
+): MarkerTick[] {
+  if (duration <= 0) return [];
+
+  return markers
+    .filter((marker) => marker.timestamp >= 0 && marker.timestamp <= duration)
+    .map((marker) => ({
+      start: marker.timestamp / duration,
+      end:
+        marker.endTimestamp != null && marker.endTimestamp > marker.timestamp
+          ? Math.min(marker.endTimestamp, duration) / duration
+          : null,
+      color: marker.color ?? defaultColor,
+    }));
+}
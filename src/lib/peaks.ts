@@ -1,6 +1,6 @@
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
-import { writeFile } from "node:fs/promises";
+import { readFile, writeFile } from "node:fs/promises";
 import path from "node:path";
 
 const execFileAsync = promisify(execFile);
@@ -82,6 +82,29 @@ export async function generateAndSavePeaks(
   return jsonPath;
 }
 
+/**
+ * Read the stored peaks of an audio file in the uploads directory.
+ *
+ * @param fileName - File name of the audio, as stored on the audio or version
+ * @returns The peaks data, or null if the peaks were not generated yet
+ */
+export async function readStoredPeaks(
+  fileName: string,
+): Promise<PeaksData | null> {
+  const parsed = path.parse(fileName);
+  const peaksPath = path.join(
+    process.cwd(),
+    "data",
+    "uploads",
+    `${parsed.name}.json`,
+  );
+  try {
+    return JSON.parse(await readFile(peaksPath, "utf-8")) as PeaksData;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Interface for audiowaveform JSON output.
  */
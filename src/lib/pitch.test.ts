@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  getPitchRatio,
+  isPitchShifted,
+  normalizePitch,
+  NO_PITCH_SHIFT,
+  parseStoredPitch,
+} from "./pitch";
+
+describe("Pitch Shift", () => {
+  describe("getPitchRatio", () => {
+    it("should keep the frequency without shift", () => {
+      expect(getPitchRatio(NO_PITCH_SHIFT)).toBe(1);
+    });
+
+    it("should double the frequency an octave up and halve it an octave down", () => {
+      expect(getPitchRatio({ semitones: 12, cents: 0 })).toBe(2);
+      expect(getPitchRatio({ semitones: -12, cents: 0 })).toBe(0.5);
+    });
+
+    it("should combine semitones and cents", () => {
+      expect(getPitchRatio({ semitones: 1, cents: -50 })).toBeCloseTo(
+        2 ** (50 / 1200),
+      );
+    });
+  });
+
+  describe("normalizePitch", () => {
+    it("should round and clamp semitones and cents", () => {
+      expect(normalizePitch({ semitones: 14.2, cents: -73 })).toEqual({
+        semitones: 12,
+        cents: -50,
+      });
+      expect(normalizePitch({ semitones: -2.6 })).toEqual({
+        semitones: -3,
+        cents: 0,
+      });
+    });
+
+    it("should drop invalid numbers", () => {
+      expect(normalizePitch({ semitones: Number.NaN, cents: 10 })).toEqual({
+        semitones: 0,
+        cents: 10,
+      });
+    });
+  });
+
+  describe("isPitchShifted", () => {
+    it("should detect a shift in semitones or cents", () => {
+      expect(isPitchShifted(NO_PITCH_SHIFT)).toBe(false);
+      expect(isPitchShifted({ semitones: 0, cents: 5 })).toBe(true);
+      expect(isPitchShifted({ semitones: -1, cents: 0 })).toBe(true);
+    });
+  });
+
+  describe("parseStoredPitch", () => {
+    it("should read a stored pitch", () => {
+      expect(parseStoredPitch('{"semitones":-2,"cents":15}')).toEqual({
+        semitones: -2,
+        cents: 15,
+      });
+    });
+
+    it("should fall back to no shift for missing or invalid values", () => {
+      expect(parseStoredPitch(null)).toEqual(NO_PITCH_SHIFT);
+      expect(parseStoredPitch("not json")).toEqual(NO_PITCH_SHIFT);
+      expect(parseStoredPitch('{"semitones":"up"}')).toEqual(NO_PITCH_SHIFT);
+      expect(parseStoredPitch("null")).toEqual(NO_PITCH_SHIFT);
+    });
+  });
+});
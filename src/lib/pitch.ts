@@ -0,0 +1,67 @@
+/**
+ * Pitch shift of the audio player in semitones and cents. The shift is done
+ * in the browser and does not change the tempo; the playback rate keeps the
+ * pitch on its own.
+ */
+
+export interface Pitch {
+  semitones: number;
+  cents: number;
+}
+
+export const NO_PITCH_SHIFT: Pitch = { semitones: 0, cents: 0 };
+
+/** Largest shift up or down in semitones */
+export const MAX_PITCH_SEMITONES = 12;
+
+/** Largest fine tuning up or down in cents */
+export const MAX_PITCH_CENTS = 50;
+
+function clampInteger(value: number, limit: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(Math.max(Math.round(value), -limit), limit);
+}
+
+/**
+ * Round and clamp a pitch to the supported range
+ * @param pitch - Pitch from a control or storage
+ */
+export function normalizePitch(pitch: Partial<Pitch>): Pitch {
+  return {
+    semitones: clampInteger(pitch.semitones ?? 0, MAX_PITCH_SEMITONES),
+    cents: clampInteger(pitch.cents ?? 0, MAX_PITCH_CENTS),
+  };
+}
+
+/**
+ * Frequency ratio of a pitch shift
+ * @param pitch - The shift
+ * @returns 1 without shift, 2 for an octave up
+ */
+export function getPitchRatio(pitch: Pitch): number {
+  return 2 ** ((pitch.semitones * 100 + pitch.cents) / 1200);
+}
+
+export function isPitchShifted(pitch: Pitch): boolean {
+  return pitch.semitones !== 0 || pitch.cents !== 0;
+}
+
+/**
+ * Read a pitch stored in the browser
+ * @param value - JSON from localStorage
+ * @returns The pitch, no shift for missing or invalid values
+ */
+export function parseStoredPitch(value: string | null): Pitch {
+  if (!value) return NO_PITCH_SHIFT;
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    if (typeof parsed !== "object" || parsed === null) return NO_PITCH_SHIFT;
+    const { semitones, cents } = parsed as Record<string, unknown>;
+    return normalizePitch({
+      semitones: typeof semitones === "number" ? semitones : 0,
+      cents: typeof cents === "number" ? cents : 0,
+    });
+  } catch {
+    return NO_PITCH_SHIFT;
+  }
+}
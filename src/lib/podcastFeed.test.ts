@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildPodcastFeed,
+  getFeedPath,
+  isFeedAudio,
+  withFeedToken,
+  type PodcastChannel,
+  type PodcastEpisode,
+} from "./podcastFeed";
+
+const channel: PodcastChannel = {
+  title: "Rehearsals & Gigs",
+  description: "Weekly <rehearsal> recordings",
+  link: "https://example.com/playlists/p1/listen",
+  feedUrl: "https://example.com/playlists/p1/feed.xml",
+  author: "Band",
+  isPrivate: false,
+  lastBuildDate: new Date("2026-10-20T12:00:00Z"),
+};
+
+const episode: PodcastEpisode = {
+  guid: "pa1",
+  title: "Take 1",
+  description: "First take",
+  link: "https://example.com/audios/a1/listen?playlistId=p1",
+  pubDate: new Date("2026-10-19T08:30:00Z"),
+  episode: 1,
+  enclosure: {
+    url: "https://example.com/api/audio/a1/file?version=v1&token=abc",
+    length: 123456,
+    type: "audio/mpeg",
+  },
+  duration: 215.6,
+  chaptersUrl: "https://example.com/api/audio/a1/markers?format=chapters",
+};
+
+describe("Podcast Feed", () => {
+  describe("getFeedPath", () => {
+    it("should build public and private feed paths", () => {
+      expect(getFeedPath("p1", null)).toBe("/playlists/p1/feed.xml");
+      expect(getFeedPath("p1", "a-b_c")).toBe(
+        "/playlists/p1/feed.xml?token=a-b_c",
+      );
+    });
+  });
+
+  describe("isFeedAudio", () => {
+    const audio = { isPublic: false, createdById: "owner", teamId: null };
+
+    it("should open public audios of any owner", () => {
+      expect(
+        isFeedAudio(
+          { ...audio, isPublic: true, createdById: "other" },
+          { createdById: "owner", teamId: null },
+        ),
+      ).toBe(true);
+    });
+
+    it("should open private audios of the playlist owner", () => {
+      expect(isFeedAudio(audio, { createdById: "owner", teamId: null })).toBe(
+        true,
+      );
+    });
+
+    it("should keep private audios of other users closed", () => {
+      expect(
+        isFeedAudio(
+          { ...audio, createdById: "other" },
+          { createdById: "owner", teamId: null },
+        ),
+      ).toBe(false);
+    });
+
+    it("should open private audios of the team of a team playlist", () => {
+      const playlist = { createdById: "owner", teamId: "team-1" };
+      expect(isFeedAudio({ ...audio, teamId: "team-1" }, playlist)).toBe(true);
+      expect(isFeedAudio(audio, playlist)).toBe(false);
+      expect(isFeedAudio({ ...audio, teamId: "team-2" }, playlist)).toBe(false);
+    });
+  });
+
+  describe("withFeedToken", () => {
+    it("should append the token to URLs with and without query", () => {
+      expect(withFeedToken("https://example.com/file", "t1")).toBe(
+        "https://example.com/file?token=t1",
+      );
+      expect(withFeedToken("/api/audio/a1/file?version=v1", "t1")).toBe(
+        "/api/audio/a1/file?version=v1&token=t1",
+      );
+    });
+
+    it("should keep URLs without token", () => {
+      expect(withFeedToken("/file", null)).toBe("/file");
+    });
+  });
+
+  describe("buildPodcastFeed", () => {
+    const feed = buildPodcastFeed(channel, [episode]);
+
+    it("should declare RSS 2.0 with the iTunes and Podcasting 2.0 namespaces", () => {
+      expect(feed.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(
+        true,
+      );
+      expect(feed).toContain('<rss version="2.0"');
+      expect(feed).toContain(
+        'xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"',
+      );
+      expect(feed).toContain(
+        'xmlns:podcast="https://podcastindex.org/namespace/1.0"',
+      );
+    });
+
+    it("should escape the channel fields", () => {
+      expect(feed).toContain("<title>Rehearsals &amp; Gigs</title>");
+      expect(feed).toContain(
+        "<description>Weekly &lt;rehearsal&gt; recordings</description>",
+      );
+      expect(feed).toContain("<podcast:locked>no</podcast:locked>");
+      expect(feed).toContain("<itunes:author>Band</itunes:author>");
+    });
+
+    it("should write the enclosure, date, duration and chapters of episodes", () => {
+      expect(feed).toContain(
+        '<enclosure url="https://example.com/api/audio/a1/file?version=v1&amp;token=abc" length="123456" type="audio/mpeg"/>',
+      );
+      expect(feed).toContain(
+        "<pubDate>Mon, 19 Oct 2026 08:30:00 GMT</pubDate>",
+      );
+      expect(feed).toContain('<guid isPermaLink="false">pa1</guid>');
+      expect(feed).toContain("<itunes:duration>216</itunes:duration>");
+      expect(feed).toContain("<itunes:episode>1</itunes:episode>");
+      expect(feed).toContain(
+        '<podcast:chapters url="https://example.com/api/audio/a1/markers?format=chapters" type="application/json+chapters"/>',
+      );
+    });
+
+    it("should leave out unknown durations and missing chapters", () => {
+      const privateFeed = buildPodcastFeed(
+        { ...channel, isPrivate: true, author: null },
+        [{ ...episode, duration: null, chaptersUrl: null }],
+      );
+      expect(privateFeed).toContain("<podcast:locked>yes</podcast:locked>");
+      expect(privateFeed).not.toContain("itunes:author");
+      expect(privateFeed).not.toContain("itunes:duration");
+      expect(privateFeed).not.toContain("podcast:chapters");
+    });
+  });
+});
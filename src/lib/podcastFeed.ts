@@ -0,0 +1,155 @@
+/**
+ * Podcast feeds of playlists: RSS 2.0 with the iTunes and Podcasting 2.0
+ * namespaces. Private playlists have a feed token that podcast apps send as
+ * `?token=` to the feed, the audio files and the chapters, since they have no
+ * session.
+ */
+
+export const FEED_TOKEN_PARAM = "token";
+
+export interface PodcastChannel {
+  title: string;
+  description: string;
+  /** Listen page of the playlist */
+  link: string;
+  /** URL of the feed itself */
+  feedUrl: string;
+  author: string | null;
+  /** Private feeds ask podcast apps not to import them into directories */
+  isPrivate: boolean;
+  lastBuildDate: Date;
+}
+
+export interface PodcastEpisode {
+  guid: string;
+  title: string;
+  description: string;
+  /** Listen page of the audio */
+  link: string;
+  pubDate: Date;
+  /** Position in the playlist, starting at 1 */
+  episode: number;
+  enclosure: { url: string; length: number; type: string };
+  /** Duration in seconds, null if unknown */
+  duration: number | null;
+  /** URL of the Podcasting 2.0 chapters, null without markers */
+  chaptersUrl: string | null;
+}
+
+/**
+ * Whether the feed token of a playlist gives access to one of its audios.
+ * Playlists may contain private audios of other users, the token only opens
+ * public audios and those owned by the owner of the playlist or its team.
+ * @param audio - Audio of the playlist
+ * @param playlist - Owner and team of the playlist
+ */
+export function isFeedAudio(
+  audio: { isPublic: boolean; createdById: string; teamId: string | null },
+  playlist: { createdById: string; teamId: string | null },
+): boolean {
+  if (audio.isPublic) return true;
+  return playlist.teamId
+    ? audio.teamId === playlist.teamId
+    : audio.teamId === null && audio.createdById === playlist.createdById;
+}
+
+/**
+ * Path of the feed of a playlist
+ * @param playlistId - The playlist
+ * @param feedToken - Token of a private feed, null for public playlists
+ */
+export function getFeedPath(
+  playlistId: string,
+  feedToken: string | null,
+): string {
+  const path = `/playlists/${playlistId}/feed.xml`;
+  return feedToken ? withFeedToken(path, feedToken) : path;
+}
+
+/**
+ * Add the feed token to a URL or path of the app
+ * @param url - Absolute URL or path, with or without query
+ * @param feedToken - Token of a private feed, null keeps the URL
+ */
+export function withFeedToken(url: string, feedToken: string | null): string {
+  if (!feedToken) return url;
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}${FEED_TOKEN_PARAM}=${encodeURIComponent(feedToken)}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function element(name: string, value: string): string {
+  return `<${name}>${escapeXml(value)}</${name}>`;
+}
+
+function renderEpisode(episode: PodcastEpisode): string {
+  const lines = [
+    element("title", episode.title),
+    element("description", episode.description),
+    element("link", episode.link),
+    `<guid isPermaLink="false">${escapeXml(episode.guid)}</guid>`,
+    element("pubDate", episode.pubDate.toUTCString()),
+    `<enclosure url="${escapeXml(episode.enclosure.url)}" length="${episode.enclosure.length}" type="${escapeXml(episode.enclosure.type)}"/>`,
+    element("itunes:title", episode.title),
+    element("itunes:episode", String(episode.episode)),
+    element("itunes:episodeType", "full"),
+  ];
+  if (episode.duration !== null) {
+    lines.push(
+      element("itunes:duration", String(Math.round(episode.duration))),
+    );
+  }
+  if (episode.chaptersUrl) {
+    lines.push(
+      `<podcast:chapters url="${escapeXml(episode.chaptersUrl)}" type="application/json+chapters"/>`,
+    );
+  }
+  return `    <item>\n${lines.map((line) => `      ${line}`).join("\n")}\n    </item>`;
+}
+
+/**
+ * Render the RSS feed of a playlist
+ * @param channel - The playlist
+ * @param episodes - The audios of the playlist in playlist order
+ * @returns The feed XML
+ */
+export function buildPodcastFeed(
+  channel: PodcastChannel,
+  episodes: PodcastEpisode[],
+): string {
+  const lines = [
+    element("title", channel.title),
+    element("description", channel.description),
+    element("link", channel.link),
+    `<atom:link href="${escapeXml(channel.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    element("generator", "Audio Marker"),
+    element("lastBuildDate", channel.lastBuildDate.toUTCString()),
+    element("itunes:summary", channel.description),
+    // Episodes are meant to be heard in playlist order
+    element("itunes:type", "serial"),
+    element("itunes:explicit", "false"),
+    element("podcast:locked", channel.isPrivate ? "yes" : "no"),
+  ];
+  if (channel.author) {
+    lines.push(element("itunes:author", channel.author));
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    "  <channel>",
+    ...lines.map((line) => `    ${line}`),
+    ...episodes.map(renderEpisode),
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
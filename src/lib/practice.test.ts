@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PRACTICE_SETTINGS,
+  getCountInClicks,
+  getLeadInSeconds,
+  getPracticeRange,
+  getRepetitionRate,
+  isPracticeFinished,
+  type PracticeSettings,
+} from "./practice";
+
+const trainer: PracticeSettings = {
+  ...DEFAULT_PRACTICE_SETTINGS,
+  speedTrainer: true,
+  startRate: 0.6,
+  endRate: 1,
+  rateStep: 0.1,
+};
+
+describe("Practice Mode", () => {
+  describe("getPracticeRange", () => {
+    it("should order the points of the range", () => {
+      expect(getPracticeRange(30, 10, 60)).toEqual({ start: 10, end: 30 });
+    });
+
+    it("should clamp the range to the audio", () => {
+      expect(getPracticeRange(-5, 90, 60)).toEqual({ start: 0, end: 60 });
+    });
+
+    it("should reject ranges that are too short", () => {
+      expect(getPracticeRange(10, 10.2, 60)).toBeNull();
+      expect(getPracticeRange(70, 80, 60)).toBeNull();
+    });
+  });
+
+  describe("getRepetitionRate", () => {
+    it("should keep the player's rate without speed trainer", () => {
+      expect(getRepetitionRate(DEFAULT_PRACTICE_SETTINGS, 3)).toBeNull();
+    });
+
+    it("should raise the rate by one step per repetition", () => {
+      expect(
+        [1, 2, 3, 4, 5].map((repetition) =>
+          getRepetitionRate(trainer, repetition),
+        ),
+      ).toEqual([0.6, 0.7, 0.8, 0.9, 1]);
+    });
+
+    it("should stay at the end rate", () => {
+      expect(getRepetitionRate(trainer, 9)).toBe(1);
+    });
+
+    it("should lower the rate when the end rate is slower", () => {
+      const slower = { ...trainer, startRate: 1, endRate: 0.75, rateStep: 0.1 };
+      expect(getRepetitionRate(slower, 2)).toBe(0.9);
+      expect(getRepetitionRate(slower, 5)).toBe(0.75);
+    });
+  });
+
+  describe("isPracticeFinished", () => {
+    it("should finish after the number of repetitions", () => {
+      const settings = { ...DEFAULT_PRACTICE_SETTINGS, repetitions: 3 };
+      expect(isPracticeFinished(settings, 2)).toBe(false);
+      expect(isPracticeFinished(settings, 3)).toBe(true);
+    });
+
+    it("should never finish without a number of repetitions", () => {
+      const settings = { ...DEFAULT_PRACTICE_SETTINGS, repetitions: 0 };
+      expect(isPracticeFinished(settings, 100)).toBe(false);
+    });
+  });
+
+  describe("count-in", () => {
+    const settings = {
+      ...DEFAULT_PRACTICE_SETTINGS,
+      gapSeconds: 2,
+      countInBeats: 4,
+      bpm: 120,
+    };
+
+    it("should place the clicks after the gap at the tempo", () => {
+      expect(getCountInClicks(settings)).toEqual([2, 2.5, 3, 3.5]);
+    });
+
+    it("should wait for the gap and all beats", () => {
+      expect(getLeadInSeconds(settings)).toBe(4);
+      expect(getLeadInSeconds(DEFAULT_PRACTICE_SETTINGS)).toBe(0);
+    });
+
+    it("should have no clicks without beats", () => {
+      expect(getCountInClicks({ ...settings, countInBeats: 0 })).toEqual([]);
+    });
+  });
+});
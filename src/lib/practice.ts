@@ -0,0 +1,117 @@
+/**
+ * Practice mode of the audio player: an A-B range is looped a number of
+ * times, optionally getting faster after each repetition, with a silent gap
+ * and a metronome count-in before each repetition.
+ */
+
+/** Shortest range that can be practised, in seconds */
+export const MIN_PRACTICE_RANGE = 0.5;
+
+export interface PracticeRange {
+  start: number;
+  end: number;
+}
+
+export interface PracticeSettings {
+  /** Number of repetitions, 0 loops until practice is stopped */
+  repetitions: number;
+  /** Raise the playback rate after each repetition */
+  speedTrainer: boolean;
+  startRate: number;
+  endRate: number;
+  /** Increase of the playback rate per repetition */
+  rateStep: number;
+  /** Silence before each repetition, in seconds */
+  gapSeconds: number;
+  /** Metronome clicks before each repetition, 0 for none */
+  countInBeats: number;
+  bpm: number;
+}
+
+export const DEFAULT_PRACTICE_SETTINGS: PracticeSettings = {
+  repetitions: 5,
+  speedTrainer: false,
+  startRate: 0.6,
+  endRate: 1,
+  rateStep: 0.1,
+  gapSeconds: 0,
+  countInBeats: 0,
+  bpm: 100,
+};
+
+/**
+ * Order and clamp the two points of an A-B range
+ * @param a - First point in seconds
+ * @param b - Second point in seconds
+ * @param duration - Duration of the audio in seconds
+ * @returns The range, null if it is too short to practise
+ */
+export function getPracticeRange(
+  a: number,
+  b: number,
+  duration: number,
+): PracticeRange | null {
+  const start = Math.max(0, Math.min(a, b));
+  const end = Math.min(duration, Math.max(a, b));
+  return end - start >= MIN_PRACTICE_RANGE ? { start, end } : null;
+}
+
+/**
+ * Playback rate of a repetition
+ * @param settings - Practice settings
+ * @param repetition - Repetition starting at 1
+ * @returns The rate, null when the speed trainer is off and the player's
+ * rate is kept
+ */
+export function getRepetitionRate(
+  settings: PracticeSettings,
+  repetition: number,
+): number | null {
+  if (!settings.speedTrainer) return null;
+
+  const { startRate, endRate } = settings;
+  const step = Math.abs(settings.rateStep);
+  const direction = endRate >= startRate ? 1 : -1;
+  const rate = startRate + direction * step * Math.max(0, repetition - 1);
+  const clamped =
+    direction > 0 ? Math.min(rate, endRate) : Math.max(rate, endRate);
+  // Avoid floating point noise like 0.7000000000000001
+  return Math.round(clamped * 100) / 100;
+}
+
+/**
+ * Whether the practice is done after a repetition
+ * @param settings - Practice settings
+ * @param completed - Number of completed repetitions
+ */
+export function isPracticeFinished(
+  settings: PracticeSettings,
+  completed: number,
+): boolean {
+  return settings.repetitions > 0 && completed >= settings.repetitions;
+}
+
+/**
+ * Times of the metronome clicks before a repetition, after the gap
+ * @param settings - Practice settings
+ * @returns Offsets in seconds from the end of the previous repetition
+ */
+export function getCountInClicks(settings: PracticeSettings): number[] {
+  if (settings.countInBeats <= 0 || settings.bpm <= 0) return [];
+  const gap = Math.max(0, settings.gapSeconds);
+  const interval = 60 / settings.bpm;
+  return Array.from(
+    { length: settings.countInBeats },
+    (_, beat) => gap + beat * interval,
+  );
+}
+
+/**
+ * Time between the end of a repetition and the start of the next one
+ * @param settings - Practice settings
+ * @returns Seconds of gap and count-in
+ */
+export function getLeadInSeconds(settings: PracticeSettings): number {
+  const clicks = settings.bpm > 0 ? Math.max(0, settings.countInBeats) : 0;
+  return Math.max(0, settings.gapSeconds) + (clicks * 60) / (settings.bpm || 1);
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  getAudioIdFromBrowserMarkersKey,
+  getBrowserMarkerBatches,
+  getBrowserMarkersKey,
+  getNewPrivateMarkers,
+  parseBrowserMarkers,
+} from "./privateMarker";
+
+const intro = {
+  label: "Intro",
+  timestamp: 0,
+  endTimestamp: null,
+  color: "#ff0000",
+  notes: null,
+};
+const chorus = {
+  label: "Chorus",
+  timestamp: 42,
+  endTimestamp: 60,
+  color: null,
+  notes: "Louder",
+};
+
+describe("Private Marker Utilities", () => {
+  describe("browser marker keys", () => {
+    it("should map audio ids to localStorage keys and back", () => {
+      expect(getBrowserMarkersKey("audio1")).toBe("audioMarkers_audio1");
+      expect(getAudioIdFromBrowserMarkersKey("audioMarkers_audio1")).toBe(
+        "audio1",
+      );
+    });
+
+    it("should ignore other keys", () => {
+      expect(getAudioIdFromBrowserMarkersKey("markerCategories")).toBe(null);
+      expect(getAudioIdFromBrowserMarkersKey("audioMarkers_")).toBe(null);
+    });
+  });
+
+  describe("parseBrowserMarkers", () => {
+    it("should read saved markers", () => {
+      const saved = JSON.stringify([
+        { id: "marker_1", label: "Intro", timestamp: 0, color: "#ff0000" },
+        {
+          id: "marker_2",
+          label: "Chorus",
+          timestamp: 42,
+          endTimestamp: 60,
+          notes: "Louder",
+        },
+      ]);
+      expect(parseBrowserMarkers(saved)).toEqual([intro, chorus]);
+    });
+
+    it("should skip invalid entries", () => {
+      const saved = JSON.stringify([
+        { label: "", timestamp: 1 },
+        { label: "Negative", timestamp: -1 },
+        { label: "No time" },
+        null,
+        { label: "Reversed", timestamp: 10, endTimestamp: 5 },
+      ]);
+      expect(parseBrowserMarkers(saved)).toEqual([
+        {
+          label: "Reversed",
+          timestamp: 10,
+          endTimestamp: null,
+          color: null,
+          notes: null,
+        },
+      ]);
+    });
+
+    it("should return nothing for missing or broken data", () => {
+      expect(parseBrowserMarkers(null)).toEqual([]);
+      expect(parseBrowserMarkers("not json")).toEqual([]);
+      expect(parseBrowserMarkers('{"label":"Intro"}')).toEqual([]);
+    });
+  });
+
+  describe("getNewPrivateMarkers", () => {
+    it("should skip markers already in the account", () => {
+      expect(
+        getNewPrivateMarkers(
+          [{ label: "Intro", timestamp: 0 }],
+          [intro, chorus],
+        ),
+      ).toEqual([chorus]);
+    });
+
+    it("should skip duplicates among the moved markers", () => {
+      expect(getNewPrivateMarkers([], [chorus, chorus])).toEqual([chorus]);
+    });
+  });
+
+  describe("getBrowserMarkerBatches", () => {
+    it("should send audios within the limit in one request", () => {
+      const audios = [
+        { audioId: "a1", markers: [intro] },
+        { audioId: "a2", markers: [chorus] },
+      ];
+      expect(getBrowserMarkerBatches(audios, 2)).toEqual([audios]);
+    });
+
+    it("should start a new request at the limit", () => {
+      expect(
+        getBrowserMarkerBatches(
+          [
+            { audioId: "a1", markers: [intro, chorus] },
+            { audioId: "a2", markers: [chorus] },
+          ],
+          2,
+        ),
+      ).toEqual([
+        [{ audioId: "a1", markers: [intro, chorus] }],
+        [{ audioId: "a2", markers: [chorus] }],
+      ]);
+    });
+
+    it("should spread the markers of a large audio over requests", () => {
+      expect(
+        getBrowserMarkerBatches(
+          [
+            { audioId: "a1", markers: [intro] },
+            { audioId: "a2", markers: [intro, chorus, intro] },
+          ],
+          2,
+        ),
+      ).toEqual([
+        [
+          { audioId: "a1", markers: [intro] },
+          { audioId: "a2", markers: [intro] },
+        ],
+        [{ audioId: "a2", markers: [chorus, intro] }],
+      ]);
+    });
+
+    it("should keep audios without markers", () => {
+      expect(getBrowserMarkerBatches([{ audioId: "a1", markers: [] }])).toEqual(
+        [[{ audioId: "a1", markers: [] }]],
+      );
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import type { AudioMarker } from "~/types/Audio";
+import { MAX_MARKER_NOTES_LENGTH } from "~/lib/marker";
+
+/** Prefix of the localStorage keys of browser markers, followed by the audio id */
+export const BROWSER_MARKERS_KEY_PREFIX = "audioMarkers_";
+
+/** Upper limit for the number of browser markers moved to an account at once */
+export const MAX_MIGRATED_MARKERS = 1000;
+
+/** A browser marker as sent to the server when moving it to an account */
+export interface BrowserMarkerInput {
+  label: string;
+  timestamp: number;
+  endTimestamp: number | null;
+  color: string | null;
+  notes: string | null;
+}
+
+/** Browser markers of one audio as sent to the server */
+export interface BrowserMarkerAudioInput {
+  audioId: string;
+  markers: BrowserMarkerInput[];
+}
+
+/**
+ * localStorage key of the browser markers of an audio
+ * @param audioId - The audio
+ */
+export function getBrowserMarkersKey(audioId: string): string {
+  return `${BROWSER_MARKERS_KEY_PREFIX}${audioId}`;
+}
+
+/**
+ * Audio of a localStorage key of browser markers
+ * @param key - Any localStorage key
+ * @returns The audio id, or null if the key holds no browser markers
+ */
+export function getAudioIdFromBrowserMarkersKey(key: string): string | null {
+  if (!key.startsWith(BROWSER_MARKERS_KEY_PREFIX)) return null;
+  return key.slice(BROWSER_MARKERS_KEY_PREFIX.length) || null;
+}
+
+/**
+ * Reads browser markers saved in localStorage, skipping invalid entries
+ * @param value - The saved JSON, or null if nothing was saved
+ * @returns The markers to move to the account
+ */
+export function parseBrowserMarkers(
+  value: string | null,
+): BrowserMarkerInput[] {
+  if (!value) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  return parsed.flatMap((entry: Partial<AudioMarker>) => {
+    if (
+      typeof entry?.label !== "string" ||
+      !entry.label.trim() ||
+      typeof entry.timestamp !== "number" ||
+      !Number.isFinite(entry.timestamp) ||
+      entry.timestamp < 0
+    ) {
+      return [];
+    }
+    const endTimestamp =
+      typeof entry.endTimestamp === "number" &&
+      entry.endTimestamp > entry.timestamp
+        ? entry.endTimestamp
+        : null;
+    return [
+      {
+        label: entry.label.trim(),
+        timestamp: entry.timestamp,
+        endTimestamp,
+        color: typeof entry.color === "string" ? entry.color : null,
+        notes:
+          typeof entry.notes === "string" && entry.notes
+            ? entry.notes.slice(0, MAX_MARKER_NOTES_LENGTH)
+            : null,
+      },
+    ];
+  });
+}
+
+/**
+ * Browser markers not yet in the account, so moving them again, e.g. from
+ * a second tab, does not duplicate them
+ * @param existing - Private markers of the user on the audio
+ * @param markers - Browser markers to move
+ * @returns The markers to create
+ */
+export function getNewPrivateMarkers<T extends BrowserMarkerInput>(
+  existing: Pick<AudioMarker, "label" | "timestamp">[],
+  markers: T[],
+): T[] {
+  const keyOf = (marker: Pick<AudioMarker, "label" | "timestamp">) =>
+    `${marker.timestamp}|${marker.label}`;
+  const seen = new Set(existing.map(keyOf));
+  return markers.filter((marker) => {
+    const key = keyOf(marker);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Splits browser markers into requests within the limit of the server. The
+ * markers of an audio with more than the limit are spread over consecutive
+ * requests, the server skips the ones already moved.
+ * @param audios - Browser markers per audio
+ * @param limit - Upper limit for the number of markers per request
+ * @returns The requests in the order to send them
+ */
+export function getBrowserMarkerBatches(
+  audios: BrowserMarkerAudioInput[],
+  limit = MAX_MIGRATED_MARKERS,
+): BrowserMarkerAudioInput[][] {
+  const batches: BrowserMarkerAudioInput[][] = [];
+  let batch: BrowserMarkerAudioInput[] = [];
+  let size = 0;
+  for (const { audioId, markers } of audios) {
+    let offset = 0;
+    do {
+      if (size === limit) {
+        batches.push(batch);
+        batch = [];
+        size = 0;
+      }
+      const part = markers.slice(offset, offset + limit - size);
+      batch.push({ audioId, markers: part });
+      size += part.length;
+      offset += part.length;
+    } while (offset < markers.length);
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { isSameFile, uploadFileResumable } from "./resumableUpload";
+import type { PendingUpload } from "./resumableUpload";
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Minimal in-memory version of the upload API.
+ * Records the offsets of all chunk requests.
+ */
+function createFakeServer(initialOffset = 0) {
+  const upload: PendingUpload = {
+    id: "upload-1",
+    name: "Session",
+    description: null,
+    fileName: "session.wav",
+    fileSize: 10,
+    audioId: null,
+    offset: initialOffset,
+    chunkSize: 4,
+  };
+  const chunkOffsets: number[] = [];
+
+  const fetchMock = vi.fn(async (input: string, init?: RequestInit) => {
+    const method = init?.method ?? "GET";
+    if (input === "/api/upload" && method === "POST") {
+      return json(upload, 201);
+    }
+    if (input === "/api/upload/upload-1" && method === "GET") {
+      return json(upload);
+    }
+    if (input === "/api/upload/upload-1" && method === "PATCH") {
+      const offset = Number(
+        (init?.headers as Record<string, string>)["Upload-Offset"],
+      );
+      chunkOffsets.push(offset);
+      if (offset !== upload.offset) {
+        return json({ error: "mismatch", offset: upload.offset }, 409);
+      }
+      upload.offset += (init?.body as Blob).size;
+      return json({ offset: upload.offset });
+    }
+    if (input === "/api/upload/upload-1/complete" && method === "POST") {
+      return json({ success: true, id: "audio-1" });
+    }
+    return json({ error: "Not found" }, 404);
+  });
+
+  return { upload, chunkOffsets, fetchMock };
+}
+
+const file = new File(["0123456789"], "session.wav", { type: "audio/wav" });
+
+describe("Resumable Upload Utilities", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("isSameFile", () => {
+    it("should match files by name and size", () => {
+      const { upload } = createFakeServer();
+      expect(isSameFile(upload, file)).toBe(true);
+      expect(isSameFile(upload, new File(["012"], "session.wav"))).toBe(false);
+      expect(isSameFile(upload, new File(["0123456789"], "other.wav"))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("uploadFileResumable", () => {
+    it("should upload a new file in chunks and complete it", async () => {
+      const { chunkOffsets, fetchMock } = createFakeServer();
+      vi.stubGlobal("fetch", fetchMock);
+      const onProgress = vi.fn();
+      const onProcessing = vi.fn();
+
+      const result = await uploadFileResumable(file, {
+        name: "Session",
+        onProgress,
+        onProcessing,
+      });
+
+      expect(result.id).toBe("audio-1");
+      expect(chunkOffsets).toEqual([0, 4, 8]);
+      expect(onProgress).toHaveBeenLastCalledWith(10, 10);
+      expect(onProcessing).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledWith(
+        "/api/upload",
+        expect.objectContaining({ method: "POST" }),
+      );
+    });
+
+    it("should resume a pending upload from the server offset", async () => {
+      const { chunkOffsets, fetchMock } = createFakeServer(8);
+      vi.stubGlobal("fetch", fetchMock);
+
+      await uploadFileResumable(file, {
+        name: "Session",
+        resumeUploadId: "upload-1",
+      });
+
+      expect(chunkOffsets).toEqual([8]);
+      expect(fetchMock).not.toHaveBeenCalledWith(
+        "/api/upload",
+        expect.anything(),
+      );
+    });
+
+    it("should continue from the offset reported on a mismatch", async () => {
+      const { upload, chunkOffsets, fetchMock } = createFakeServer();
+      const original = fetchMock.getMockImplementation();
+      fetchMock.mockImplementation(async (input, init) => {
+        // The server already received the first chunk, but its response was lost
+        if (init?.method === "PATCH" && chunkOffsets.length === 0) {
+          upload.offset = 4;
+        }
+        return (original as typeof fetchMock)(input, init);
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      await uploadFileResumable(file, { name: "Session" });
+
+      expect(chunkOffsets).toEqual([0, 4, 8]);
+    });
+
+    it("should retry chunks after network errors", async () => {
+      const { chunkOffsets, fetchMock } = createFakeServer();
+      const original = fetchMock.getMockImplementation();
+      let failures = 0;
+      fetchMock.mockImplementation(async (input, init) => {
+        if (init?.method === "PATCH" && failures < 2) {
+          failures++;
+          throw new TypeError("Failed to fetch");
+        }
+        return (original as typeof fetchMock)(input, init);
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      await uploadFileResumable(file, { name: "Session", retryDelays: [0, 0] });
+
+      expect(failures).toBe(2);
+      expect(chunkOffsets).toEqual([0, 4, 8]);
+    });
+
+    it("should give up when retries are exhausted", async () => {
+      const { fetchMock } = createFakeServer();
+      const original = fetchMock.getMockImplementation();
+      fetchMock.mockImplementation(async (input, init) => {
+        if (init?.method === "PATCH") throw new TypeError("Failed to fetch");
+        return (original as typeof fetchMock)(input, init);
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      await expect(
+        uploadFileResumable(file, { name: "Session", retryDelays: [0] }),
+      ).rejects.toThrow("Failed to fetch");
+    });
+
+    it("should replace the file of an audio with a marker offset", async () => {
+      const { fetchMock } = createFakeServer();
+      vi.stubGlobal("fetch", fetchMock);
+
+      await uploadFileResumable(file, {
+        name: "Session",
+        audioId: "audio-1",
+        markerOffset: -1.5,
+      });
+
+      const requestBody = (url: string) =>
+        JSON.parse(
+          fetchMock.mock.calls.find(([input]) => input === url)?.[1]
+            ?.body as string,
+        ) as Record<string, unknown>;
+      expect(requestBody("/api/upload")).toMatchObject({ audioId: "audio-1" });
+      expect(requestBody("/api/upload/upload-1/complete")).toEqual({
+        markerOffset: -1.5,
+      });
+    });
+
+    it("should create the audio for a team", async () => {
+      const { fetchMock } = createFakeServer();
+      vi.stubGlobal("fetch", fetchMock);
+
+      await uploadFileResumable(file, { name: "Session", teamId: "team-1" });
+
+      const body = JSON.parse(
+        fetchMock.mock.calls.find(([input]) => input === "/api/upload")?.[1]
+          ?.body as string,
+      ) as Record<string, unknown>;
+      expect(body).toMatchObject({ teamId: "team-1", audioId: null });
+    });
+
+    it("should report server errors with their message", async () => {
+      const fetchMock = vi.fn(async () =>
+        json({ error: "File size must be less than 1024MB" }, 413),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      await expect(
+        uploadFileResumable(file, { name: "Session" }),
+      ).rejects.toThrow("File size must be less than 1024MB");
+    });
+  });
+});
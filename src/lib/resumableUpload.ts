@@ -0,0 +1,177 @@
+/** Upload session as returned by the upload API */
+export interface PendingUpload {
+  id: string;
+  name: string;
+  description: string | null;
+  fileName: string;
+  fileSize: number;
+  /** Audio whose file is replaced, null for a new audio */
+  audioId: string | null;
+  offset: number;
+  chunkSize: number;
+}
+
+export interface PendingUploadList {
+  maxFileSize: number;
+  uploads: PendingUpload[];
+}
+
+interface UploadOptions {
+  name: string;
+  description?: string;
+  /** Replace the file of this audio instead of creating a new audio */
+  audioId?: string;
+  /** Team the new audio is created for */
+  teamId?: string | null;
+  /** Seconds added to all markers of the replaced audio */
+  markerOffset?: number;
+  /** Continue this upload session instead of starting a new one */
+  resumeUploadId?: string;
+  /** Called after every chunk with the number of bytes received by the server */
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  /** Called when all bytes are uploaded and the server starts processing */
+  onProcessing?: () => void;
+  /** Delays in ms before retrying a chunk after a network error */
+  retryDelays?: number[];
+}
+
+const DEFAULT_RETRY_DELAYS = [1000, 3000, 10000];
+
+/**
+ * Whether a selected file is the one an unfinished upload was started with.
+ * The browser cannot reopen a file after a page reload, so the user has to
+ * select it again.
+ */
+export function isSameFile(upload: PendingUpload, file: File): boolean {
+  return upload.fileName === file.name && upload.fileSize === file.size;
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  const body = (await response.json().catch(() => ({}))) as T & {
+    error?: string;
+  };
+  if (!response.ok) {
+    throw new Error(body.error ?? "Upload failed");
+  }
+  return body;
+}
+
+async function fetchWithRetry(
+  input: string,
+  init: RequestInit,
+  retryDelays: number[],
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetch(input, init);
+    } catch (error) {
+      // fetch only throws on network errors, HTTP errors are handled by the caller
+      const delay = retryDelays[attempt];
+      if (delay === undefined) throw error;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Fetch the unfinished uploads of new audios, or with `audioId` the ones
+ * replacing the file of that audio.
+ */
+export async function fetchPendingUploads(
+  audioId?: string,
+): Promise<PendingUploadList> {
+  const query = audioId ? `?audioId=${encodeURIComponent(audioId)}` : "";
+  return readJson<PendingUploadList>(await fetch(`/api/upload${query}`));
+}
+
+export async function discardPendingUpload(uploadId: string): Promise<void> {
+  await readJson(await fetch(`/api/upload/${uploadId}`, { method: "DELETE" }));
+}
+
+/**
+ * Upload a file in chunks and create an audio from it, or replace the file
+ * of the audio given as `audioId`.
+ *
+ * Every chunk is sent with its offset, so an interrupted upload continues
+ * where the server stopped receiving: either after a retry or, after a page
+ * reload, by passing the id of the pending upload as `resumeUploadId`.
+ *
+ * @returns The id of the created or updated audio, and for a replaced file
+ * the number of markers after the end of the new file
+ */
+export async function uploadFileResumable(
+  file: File,
+  {
+    name,
+    description,
+    audioId,
+    teamId,
+    markerOffset,
+    resumeUploadId,
+    onProgress,
+    onProcessing,
+    retryDelays = DEFAULT_RETRY_DELAYS,
+  }: UploadOptions,
+): Promise<{ id: string; markersBeyondEnd?: number }> {
+  const upload = resumeUploadId
+    ? await readJson<PendingUpload>(
+        await fetch(`/api/upload/${resumeUploadId}`),
+      )
+    : await readJson<PendingUpload>(
+        await fetch("/api/upload", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name,
+            description: description || null,
+            fileName: file.name,
+            fileSize: file.size,
+            audioId: audioId ?? null,
+            teamId: teamId ?? null,
+          }),
+        }),
+      );
+
+  let offset = upload.offset;
+  onProgress?.(offset, file.size);
+
+  while (offset < file.size) {
+    const response = await fetchWithRetry(
+      `/api/upload/${upload.id}`,
+      {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/offset+octet-stream",
+          "Upload-Offset": offset.toString(),
+        },
+        body: file.slice(offset, offset + upload.chunkSize),
+      },
+      retryDelays,
+    );
+
+    const result = (await response.json().catch(() => ({}))) as {
+      offset?: number;
+      error?: string;
+    };
+    // On an offset mismatch the server tells where to continue
+    if (
+      (response.ok || response.status === 409) &&
+      result.offset !== undefined
+    ) {
+      offset = result.offset;
+      onProgress?.(offset, file.size);
+      continue;
+    }
+    throw new Error(result.error ?? "Upload failed");
+  }
+
+  onProcessing?.();
+
+  return readJson<{ id: string; markersBeyondEnd?: number }>(
+    await fetch(`/api/upload/${upload.id}/complete`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ markerOffset }),
+    }),
+  );
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  getListenProgress,
+  getPositionStorageKey,
+  getResumePosition,
+  parseStoredPosition,
+} from "./resume";
+
+describe("Resume Position", () => {
+  describe("getResumePosition", () => {
+    it("should offer positions in the middle of the audio", () => {
+      expect(getResumePosition(1394, 3600)).toBe(1394);
+      expect(getResumePosition(1394)).toBe(1394);
+    });
+
+    it("should not offer positions near the start", () => {
+      expect(getResumePosition(4, 3600)).toBeNull();
+      expect(getResumePosition(null, 3600)).toBeNull();
+    });
+
+    it("should not offer positions near the end", () => {
+      expect(getResumePosition(3595, 3600)).toBeNull();
+    });
+  });
+
+  describe("parseStoredPosition", () => {
+    it("should read stored positions", () => {
+      expect(parseStoredPosition("1394.5")).toBe(1394.5);
+    });
+
+    it("should ignore missing and invalid values", () => {
+      expect(parseStoredPosition(null)).toBeNull();
+      expect(parseStoredPosition("later")).toBeNull();
+      expect(parseStoredPosition("-3")).toBeNull();
+    });
+  });
+
+  describe("getListenProgress", () => {
+    it("should return the listened fraction", () => {
+      expect(getListenProgress(900, 3600)).toBe(0.25);
+      expect(getListenProgress(4000, 3600)).toBe(1);
+    });
+
+    it("should return 0 without duration", () => {
+      expect(getListenProgress(900, null)).toBe(0);
+    });
+  });
+
+  it("should store positions next to the listen timestamps", () => {
+    expect(getPositionStorageKey("a1")).toBe("audio_position_a1");
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Last playback position per audio, to resume long recordings. Signed-in
+ * users keep it on the server, anonymous listeners in localStorage next to
+ * the listen count timestamps.
+ */
+
+/** Positions closer to the start are not worth resuming */
+export const MIN_RESUME_POSITION = 10;
+
+/** Positions this close to the end count as listened to the end */
+export const RESUME_END_MARGIN = 10;
+
+/** Minimum time between saves during playback */
+export const POSITION_SAVE_INTERVAL_MS = 10_000;
+
+/** Number of audios in the continue listening row */
+export const CONTINUE_LISTENING_LIMIT = 6;
+
+export function getPositionStorageKey(audioId: string): string {
+  return `audio_position_${audioId}`;
+}
+
+/**
+ * Position to offer for resuming
+ * @param position - Saved position in seconds
+ * @param duration - Duration of the audio in seconds, if known
+ * @returns The position, null near the start or the end
+ */
+export function getResumePosition(
+  position: number | null | undefined,
+  duration?: number | null,
+): number | null {
+  if (position == null || !Number.isFinite(position)) return null;
+  if (position < MIN_RESUME_POSITION) return null;
+  if (duration && position >= duration - RESUME_END_MARGIN) return null;
+  return position;
+}
+
+/**
+ * Read a position stored in the browser
+ * @param value - Value from localStorage
+ * @returns The position in seconds, null for missing or invalid values
+ */
+export function parseStoredPosition(value: string | null): number | null {
+  if (!value) return null;
+  const position = Number.parseFloat(value);
+  return Number.isFinite(position) && position >= 0 ? position : null;
+}
+
+/**
+ * Share of the audio that was listened to
+ * @returns A fraction between 0 and 1, 0 without duration
+ */
+export function getListenProgress(
+  position: number,
+  duration: number | null | undefined,
+): number {
+  if (!duration || duration <= 0) return 0;
+  return Math.min(Math.max(position / duration, 0), 1);
+}
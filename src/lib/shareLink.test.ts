@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  addShareGrant,
+  getCookieValue,
+  getShareLinkStatus,
+  getSharePath,
+  MAX_SHARE_GRANTS,
+  readShareGrants,
+} from "./shareLink";
+
+describe("Share Link Utilities", () => {
+  describe("getShareLinkStatus", () => {
+    const now = new Date("2026-10-20T12:00:00Z");
+    const link = {
+      expiresAt: null,
+      maxUses: null,
+      useCount: 0,
+      revokedAt: null,
+    };
+
+    it("should keep links without limits active", () => {
+      expect(getShareLinkStatus({ ...link, useCount: 100 }, now)).toBe(
+        "active",
+      );
+    });
+
+    it("should expire links after their expiry date", () => {
+      expect(
+        getShareLinkStatus(
+          { ...link, expiresAt: new Date("2026-10-21T00:00:00Z") },
+          now,
+        ),
+      ).toBe("active");
+      expect(
+        getShareLinkStatus(
+          { ...link, expiresAt: new Date("2026-10-20T11:59:59Z") },
+          now,
+        ),
+      ).toBe("expired");
+    });
+
+    it("should use up links after their last use", () => {
+      expect(
+        getShareLinkStatus({ ...link, maxUses: 3, useCount: 2 }, now),
+      ).toBe("active");
+      expect(
+        getShareLinkStatus({ ...link, maxUses: 3, useCount: 3 }, now),
+      ).toBe("exhausted");
+    });
+
+    it("should prefer revoked over the other states", () => {
+      expect(
+        getShareLinkStatus(
+          {
+            expiresAt: new Date("2026-10-01T00:00:00Z"),
+            maxUses: 1,
+            useCount: 1,
+            revokedAt: new Date("2026-10-02T00:00:00Z"),
+          },
+          now,
+        ),
+      ).toBe("revoked");
+    });
+  });
+
+  describe("getSharePath", () => {
+    it("should build the path of the share page", () => {
+      expect(getSharePath("abc_123")).toBe("/share/abc_123");
+    });
+  });
+
+  describe("readShareGrants", () => {
+    it("should read the grants of the cookie", () => {
+      expect(readShareGrants("link1.sig-1~link2.sig_2")).toEqual([
+        { linkId: "link1", signature: "sig-1" },
+        { linkId: "link2", signature: "sig_2" },
+      ]);
+    });
+
+    it("should skip malformed grants", () => {
+      expect(readShareGrants("link1~.sig~link2.sig.extra~link3.sig")).toEqual([
+        { linkId: "link3", signature: "sig" },
+      ]);
+      expect(readShareGrants(undefined)).toEqual([]);
+      expect(readShareGrants("")).toEqual([]);
+    });
+  });
+
+  describe("addShareGrant", () => {
+    it("should append a grant", () => {
+      expect(addShareGrant(undefined, "link1", "sig1")).toBe("link1.sig1");
+      expect(addShareGrant("link1.sig1", "link2", "sig2")).toBe(
+        "link1.sig1~link2.sig2",
+      );
+    });
+
+    it("should replace the grant of the same link", () => {
+      expect(addShareGrant("link1.old~link2.sig2", "link1", "new")).toBe(
+        "link2.sig2~link1.new",
+      );
+    });
+
+    it("should drop the oldest grants over the limit", () => {
+      let cookie: string | undefined;
+      for (let i = 0; i <= MAX_SHARE_GRANTS; i++) {
+        cookie = addShareGrant(cookie, `link${i}`, "sig");
+      }
+      const grants = readShareGrants(cookie);
+      expect(grants).toHaveLength(MAX_SHARE_GRANTS);
+      expect(grants[0]?.linkId).toBe("link1");
+      expect(grants.at(-1)?.linkId).toBe(`link${MAX_SHARE_GRANTS}`);
+    });
+  });
+
+  describe("getCookieValue", () => {
+    it("should find a cookie in the header", () => {
+      expect(
+        getCookieValue(
+          "locale=de; share_links=a.b%7Ec.d; other=1",
+          "share_links",
+        ),
+      ).toBe("a.b~c.d");
+    });
+
+    it("should return undefined for missing cookies", () => {
+      expect(getCookieValue("locale=de", "share_links")).toBeUndefined();
+      expect(getCookieValue(null, "share_links")).toBeUndefined();
+    });
+
+    it("should treat a malformed cookie as missing", () => {
+      expect(
+        getCookieValue("share_links=%E0%A4%A; locale=de", "share_links"),
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/** Cookie with the share links a listener opened, see `addShareGrant()` */
+export const SHARE_COOKIE = "share_links";
+
+/** Upper limit for the share links remembered in the cookie */
+export const MAX_SHARE_GRANTS = 20;
+
+/** Separates the grants in the cookie, signatures are base64url */
+const GRANT_SEPARATOR = "~";
+
+export type ShareLinkStatus = "active" | "expired" | "exhausted" | "revoked";
+
+/**
+ * Whether a share link may still be used
+ * @param link - The share link
+ * @param now - The current time
+ * @returns "active", or why the link no longer grants access
+ */
+export function getShareLinkStatus(
+  link: {
+    expiresAt: Date | null;
+    maxUses: number | null;
+    useCount: number;
+    revokedAt: Date | null;
+  },
+  now: Date = new Date(),
+): ShareLinkStatus {
+  if (link.revokedAt) return "revoked";
+  if (link.expiresAt && link.expiresAt <= now) return "expired";
+  if (link.maxUses !== null && link.useCount >= link.maxUses) {
+    return "exhausted";
+  }
+  return "active";
+}
+
+/** Path of the page that opens a share link */
+export function getSharePath(token: string): string {
+  return `/share/${token}`;
+}
+
+/**
+ * Grants of the share cookie
+ * @param cookieValue - The value of the share cookie
+ * @returns The share links with the signature proving they were opened
+ */
+export function readShareGrants(
+  cookieValue: string | undefined,
+): { linkId: string; signature: string }[] {
+  if (!cookieValue) return [];
+  return cookieValue.split(GRANT_SEPARATOR).flatMap((grant) => {
+    const [linkId, signature, ...rest] = grant.split(".");
+    return linkId && signature && rest.length === 0
+      ? [{ linkId, signature }]
+      : [];
+  });
+}
+
+/**
+ * Adds a grant to the share cookie, dropping the oldest ones over the limit
+ * @param cookieValue - The current value of the share cookie
+ * @param linkId - The share link that was opened
+ * @param signature - The signature of the link id
+ * @returns The new value of the share cookie
+ */
+export function addShareGrant(
+  cookieValue: string | undefined,
+  linkId: string,
+  signature: string,
+): string {
+  const grants = readShareGrants(cookieValue).filter(
+    (grant) => grant.linkId !== linkId,
+  );
+  return [...grants, { linkId, signature }]
+    .slice(-MAX_SHARE_GRANTS)
+    .map((grant) => `${grant.linkId}.${grant.signature}`)
+    .join(GRANT_SEPARATOR);
+}
+
+/**
+ * Value of a cookie in a Cookie request header
+ * @param cookieHeader - The header, or null if the request has no cookies
+ * @param name - The name of the cookie
+ * @returns The decoded value, or undefined if the cookie is missing or not
+ * validly encoded
+ */
+export function getCookieValue(
+  cookieHeader: string | null,
+  name: string,
+): string | undefined {
+  if (!cookieHeader) return undefined;
+  for (const cookie of cookieHeader.split(";")) {
+    const index = cookie.indexOf("=");
+    if (index !== -1 && cookie.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(cookie.slice(index + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import {
+  canCreateInTeam,
+  getTeamAccessRole,
+  getWorkspaceTeamId,
+  isTeamRole,
+} from "./team";
+
+describe("Team Utilities", () => {
+  describe("isTeamRole", () => {
+    it("should accept the team roles", () => {
+      expect(isTeamRole("viewer")).toBe(true);
+      expect(isTeamRole("member")).toBe(true);
+      expect(isTeamRole("admin")).toBe(true);
+    });
+
+    it("should reject other values", () => {
+      expect(isTeamRole("owner")).toBe(false);
+      expect(isTeamRole("")).toBe(false);
+    });
+  });
+
+  describe("getTeamAccessRole", () => {
+    it("should map team roles to roles on the team content", () => {
+      expect(getTeamAccessRole("viewer")).toBe("viewer");
+      expect(getTeamAccessRole("member")).toBe("editor");
+      expect(getTeamAccessRole("admin")).toBe("owner");
+    });
+
+    it("should give no role to non-members", () => {
+      expect(getTeamAccessRole(null)).toBe(null);
+      expect(getTeamAccessRole(undefined)).toBe(null);
+      expect(getTeamAccessRole("guest")).toBe(null);
+    });
+  });
+
+  describe("canCreateInTeam", () => {
+    it("should let members and admins create content", () => {
+      expect(canCreateInTeam("member")).toBe(true);
+      expect(canCreateInTeam("admin")).toBe(true);
+    });
+
+    it("should not let viewers and non-members create content", () => {
+      expect(canCreateInTeam("viewer")).toBe(false);
+      expect(canCreateInTeam(null)).toBe(false);
+    });
+  });
+
+  describe("getWorkspaceTeamId", () => {
+    const teams = [{ id: "band" }, { id: "podcast" }];
+
+    it("should use the team of the cookie", () => {
+      expect(getWorkspaceTeamId("podcast", teams)).toBe("podcast");
+    });
+
+    it("should fall back to the personal library", () => {
+      expect(getWorkspaceTeamId(undefined, teams)).toBe(null);
+      expect(getWorkspaceTeamId("", teams)).toBe(null);
+      // The user may have left the team in the meantime
+      expect(getWorkspaceTeamId("former", teams)).toBe(null);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import type { AccessRole } from "~/lib/collaboration";
+
+/** Roles of team members, each includes the ones before it */
+export const TEAM_ROLES = ["viewer", "member", "admin"] as const;
+
+export type TeamRole = (typeof TEAM_ROLES)[number];
+
+/** Team roles that may upload audios and create playlists for the team */
+export const TEAM_CREATOR_ROLES: readonly TeamRole[] = ["member", "admin"];
+
+/** Cookie with the id of the team whose library the dashboard shows */
+export const WORKSPACE_COOKIE = "workspace";
+
+/**
+ * Role of team members on the audios and playlists of their team: admins
+ * manage the content like its owner, members edit it and viewers listen
+ */
+const TEAM_ACCESS_ROLES: Record<TeamRole, AccessRole> = {
+  viewer: "viewer",
+  member: "editor",
+  admin: "owner",
+};
+
+export function isTeamRole(value: string): value is TeamRole {
+  return (TEAM_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Role on the content of a team
+ * @param teamRole - The role of the user in the team, if they are a member
+ * @returns The role on the audios and playlists of the team, or null
+ */
+export function getTeamAccessRole(
+  teamRole: string | null | undefined,
+): AccessRole | null {
+  return teamRole && isTeamRole(teamRole) ? TEAM_ACCESS_ROLES[teamRole] : null;
+}
+
+/** Checks if a team member may upload audios and create playlists for the team */
+export function canCreateInTeam(teamRole: string | null | undefined): boolean {
+  return TEAM_CREATOR_ROLES.some((role) => role === teamRole);
+}
+
+/**
+ * Team whose library the dashboard shows
+ * @param cookieValue - The value of the workspace cookie
+ * @param teams - The teams of the user
+ * @returns The id of the team, or null for the personal library
+ */
+export function getWorkspaceTeamId(
+  cookieValue: string | undefined,
+  teams: { id: string }[],
+): string | null {
+  return teams.some((team) => team.id === cookieValue)
+    ? (cookieValue ?? null)
+    : null;
+}
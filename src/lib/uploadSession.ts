@@ -0,0 +1,204 @@
+import { appendFile, mkdir, readdir, stat, unlink } from "node:fs/promises";
+import path from "node:path";
+import type { UploadSession } from "@prisma/client";
+import { db } from "~/server/db";
+
+/**
+ * Maximum size of a single chunk request.
+ * Stays below the default `client_max_body_size` of nginx (1 MB),
+ * so no reverse proxy configuration is needed for large uploads.
+ */
+export const UPLOAD_CHUNK_SIZE = 768 * 1024;
+
+/** Upload sessions without activity for this long are removed */
+const ABANDONED_UPLOAD_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const uploadTempDir = path.join(process.cwd(), "data", "uploads", "tmp");
+
+/** Sessions currently receiving a chunk, to reject concurrent appends */
+const activeAppends = new Set<string>();
+
+/** Upload session as returned by the upload API */
+export interface UploadSessionInfo {
+  id: string;
+  name: string;
+  description: string | null;
+  fileName: string;
+  fileSize: number;
+  /** Audio whose file is replaced, null for a new audio */
+  audioId: string | null;
+  offset: number;
+  chunkSize: number;
+}
+
+export function getUploadTempPath(uploadId: string): string {
+  return path.join(uploadTempDir, `${uploadId}.part`);
+}
+
+/** Number of bytes received so far, taken from the temporary file */
+export async function getUploadOffset(uploadId: string): Promise<number> {
+  try {
+    return (await stat(getUploadTempPath(uploadId))).size;
+  } catch {
+    return 0;
+  }
+}
+
+export async function toUploadSessionInfo(
+  session: UploadSession,
+): Promise<UploadSessionInfo> {
+  return {
+    id: session.id,
+    name: session.name,
+    description: session.description,
+    fileName: session.fileName,
+    fileSize: session.fileSize,
+    audioId: session.audioId,
+    offset: await getUploadOffset(session.id),
+    chunkSize: UPLOAD_CHUNK_SIZE,
+  };
+}
+
+/** Find an upload session belonging to the given user */
+export async function findUserUploadSession(
+  uploadId: string,
+  userId: string,
+): Promise<UploadSession | null> {
+  return db.uploadSession.findFirst({
+    where: { id: uploadId, createdById: userId },
+  });
+}
+
+export async function createUploadSession(data: {
+  name: string;
+  description?: string | null;
+  fileName: string;
+  fileSize: number;
+  audioId?: string | null;
+  teamId?: string | null;
+  createdById: string;
+}): Promise<UploadSession> {
+  await mkdir(uploadTempDir, { recursive: true });
+  const session = await db.uploadSession.create({ data });
+  await appendFile(getUploadTempPath(session.id), new Uint8Array(0));
+  return session;
+}
+
+/** Remove an upload session together with its temporary file */
+export async function deleteUploadSession(uploadId: string): Promise<void> {
+  await db.uploadSession.deleteMany({ where: { id: uploadId } });
+  await unlink(getUploadTempPath(uploadId)).catch(() => undefined);
+}
+
+/**
+ * Read the body of a chunk request as a stream, stopping as soon as more
+ * than `limit` bytes arrived, whatever length the client announced.
+ * @returns The bytes, or null if the body is larger than the limit
+ */
+export async function readChunkBody(
+  body: ReadableStream<Uint8Array> | null,
+  limit: number,
+): Promise<Uint8Array | null> {
+  if (!body) return new Uint8Array();
+  const reader = body.getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > limit) {
+      await reader.cancel();
+      return null;
+    }
+    parts.push(value);
+  }
+
+  const chunk = new Uint8Array(length);
+  let position = 0;
+  for (const part of parts) {
+    chunk.set(part, position);
+    position += part.length;
+  }
+  return chunk;
+}
+
+export type AppendChunkResult =
+  | { status: "ok"; offset: number }
+  | { status: "offset-mismatch"; offset: number }
+  | { status: "too-large" }
+  | { status: "busy" };
+
+/**
+ * Append a chunk to the temporary file of an upload session.
+ *
+ * The chunk is only written if `offset` matches the number of bytes already
+ * received, so a chunk that was sent twice (e.g. after a dropped connection)
+ * is never appended twice. The caller resumes from the returned offset.
+ */
+export async function appendUploadChunk(
+  session: UploadSession,
+  offset: number,
+  chunk: Uint8Array,
+): Promise<AppendChunkResult> {
+  if (activeAppends.has(session.id)) {
+    return { status: "busy" };
+  }
+  activeAppends.add(session.id);
+
+  try {
+    const currentOffset = await getUploadOffset(session.id);
+    if (offset !== currentOffset) {
+      return { status: "offset-mismatch", offset: currentOffset };
+    }
+    if (
+      chunk.length > UPLOAD_CHUNK_SIZE ||
+      offset + chunk.length > session.fileSize
+    ) {
+      return { status: "too-large" };
+    }
+
+    await appendFile(getUploadTempPath(session.id), chunk);
+    await db.uploadSession.update({
+      where: { id: session.id },
+      data: { updatedAt: new Date() },
+    });
+
+    return { status: "ok", offset: offset + chunk.length };
+  } finally {
+    activeAppends.delete(session.id);
+  }
+}
+
+/**
+ * Remove upload sessions without activity for a day, and temporary files
+ * that no longer belong to a session (e.g. after a user was deleted).
+ */
+export async function cleanupAbandonedUploads(): Promise<void> {
+  const cutoff = new Date(Date.now() - ABANDONED_UPLOAD_MAX_AGE_MS);
+  const abandoned = await db.uploadSession.findMany({
+    where: { updatedAt: { lt: cutoff } },
+    select: { id: true },
+  });
+  for (const { id } of abandoned) {
+    await deleteUploadSession(id);
+  }
+
+  let fileNames: string[];
+  try {
+    fileNames = await readdir(uploadTempDir);
+  } catch {
+    return;
+  }
+  const sessionIds = new Set(
+    (await db.uploadSession.findMany({ select: { id: true } })).map(
+      (session) => session.id,
+    ),
+  );
+  for (const fileName of fileNames) {
+    const uploadId = path.basename(fileName, ".part");
+    if (!sessionIds.has(uploadId)) {
+      await unlink(path.join(uploadTempDir, fileName)).catch(() => undefined);
+    }
+  }
+}
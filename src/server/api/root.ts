@@ -1,6 +1,14 @@
 import { audioRouter } from "./routers/audio";
+import { audioVersionRouter } from "./routers/audioVersion";
+import { collaboratorRouter } from "./routers/collaborator";
+import { commentRouter } from "./routers/comment";
 import { markerRouter } from "./routers/marker";
+import { markerCategoryRouter } from "./routers/markerCategory";
 import { playlistRouter } from "./routers/playlist";
+import { privateMarkerRouter } from "./routers/privateMarker";
+import { playbackRouter } from "./routers/playback";
+import { teamRouter } from "./routers/team";
+import { shareLinkRouter } from "./routers/shareLink";
 import { adminRouter } from "./routers/admin";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
@@ -11,8 +19,16 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  */
 export const appRouter = createTRPCRouter({
   audio: audioRouter,
+  audioVersion: audioVersionRouter,
+  collaborator: collaboratorRouter,
+  comment: commentRouter,
   marker: markerRouter,
+  markerCategory: markerCategoryRouter,
   playlist: playlistRouter,
+  privateMarker: privateMarkerRouter,
+  playback: playbackRouter,
+  team: teamRouter,
+  shareLink: shareLinkRouter,
   admin: adminRouter,
 });
 
@@ -1,14 +1,18 @@
 import { createTRPCRouter } from "~/server/api/trpc";
 import { userManagementRouter } from "./userManagement";
+import { teamManagementRouter } from "./teamManagement";
 import { systemSettingsRouter } from "./systemSettings";
 import { softDeletedContentRouter } from "./softDeletedContent";
 import { legalInformationRouter } from "./legalInformation";
 import { statisticsRouter } from "./statistics";
+import { jobsRouter } from "./jobs";
 
 export const adminRouter = createTRPCRouter({
   userManagement: userManagementRouter,
+  teamManagement: teamManagementRouter,
   systemSettings: systemSettingsRouter,
   softDeletedContent: softDeletedContentRouter,
   legalInformation: legalInformationRouter,
   statistics: statisticsRouter,
+  jobs: jobsRouter,
 });
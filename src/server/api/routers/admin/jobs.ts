@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { requeueJob } from "~/lib/jobs/queue";
+import { setVersionProcessingStatus } from "~/lib/audioVersions";
+import { requireAdmin } from "./utils";
+
+export const jobsRouter = createTRPCRouter({
+  getJobCounts: protectedProcedure.query(async ({ ctx }) => {
+    requireAdmin(ctx.session);
+
+    const groups = await ctx.db.job.groupBy({
+      by: ["status"],
+      _count: { _all: true },
+    });
+    const count = (status: string) =>
+      groups.find((group) => group.status === status)?._count._all ?? 0;
+
+    return {
+      pending: count("pending"),
+      running: count("running"),
+      completed: count("completed"),
+      failed: count("failed"),
+    };
+  }),
+
+  getFailedJobs: protectedProcedure.query(async ({ ctx }) => {
+    requireAdmin(ctx.session);
+
+    return ctx.db.job.findMany({
+      where: { status: "failed" },
+      select: {
+        id: true,
+        type: true,
+        attempts: true,
+        error: true,
+        finishedAt: true,
+        audio: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        version: {
+          select: {
+            number: true,
+          },
+        },
+      },
+      orderBy: { finishedAt: "desc" },
+    });
+  }),
+
+  requeueJob: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      requireAdmin(ctx.session);
+
+      const job = await ctx.db.job.findUnique({
+        where: { id: input.id },
+        select: { status: true },
+      });
+
+      if (!job) {
+        throw new Error("Job not found");
+      }
+
+      if (job.status !== "failed") {
+        throw new Error("Only failed jobs can be re-queued");
+      }
+
+      const requeued = await requeueJob(input.id);
+
+      // The version is shown as processing again until the job succeeds
+      if (requeued.type === "process-audio" && requeued.versionId) {
+        await setVersionProcessingStatus(requeued.versionId, "processing");
+      }
+
+      return { success: true };
+    }),
+});
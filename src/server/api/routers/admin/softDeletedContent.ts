@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { deleteAudioVersionFiles } from "~/lib/audioVersions";
 import { requireAdmin } from "./utils";
 
 export const softDeletedContentRouter = createTRPCRouter({
@@ -25,6 +26,35 @@ export const softDeletedContentRouter = createTRPCRouter({
     });
   }),
 
+  getSoftDeletedAudioVersions: protectedProcedure.query(async ({ ctx }) => {
+    // Check if user is admin
+    requireAdmin(ctx.session);
+
+    return ctx.db.audioVersion.findMany({
+      where: { deletedAt: { not: null } },
+      select: {
+        id: true,
+        number: true,
+        note: true,
+        originalFileName: true,
+        filePath: true,
+        deletedAt: true,
+        audio: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        createdBy: {
+          select: {
+            name: true,
+          },
+        },
+      },
+      orderBy: { deletedAt: "desc" },
+    });
+  }),
+
   getSoftDeletedPlaylists: protectedProcedure.query(async ({ ctx }) => {
     // Check if user is admin
     requireAdmin(ctx.session);
@@ -48,6 +78,18 @@ export const softDeletedContentRouter = createTRPCRouter({
       });
     }),
 
+  recoverAudioVersion: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      // Check if user is admin
+      requireAdmin(ctx.session);
+
+      return ctx.db.audioVersion.update({
+        where: { id: input.id },
+        data: { deletedAt: null },
+      });
+    }),
+
   recoverPlaylist: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
@@ -66,31 +108,22 @@ export const softDeletedContentRouter = createTRPCRouter({
       // Check if user is admin
       requireAdmin(ctx.session);
 
-      // First get the audio record to retrieve the file path
+      // First get the files of all versions of the audio
       const audio = await ctx.db.audio.findUnique({
         where: { id: input.id },
-        select: { filePath: true },
+        select: {
+          versions: { select: { filePath: true, masterFilePath: true } },
+        },
       });
 
       if (!audio) {
         throw new Error("Audio not found");
       }
 
-      try {
-        // Delete the physical file from the file system
-        const { unlink } = await import("fs/promises");
-        const path = await import("path");
-
-        // Convert the database filePath (e.g., "/uploads/filename.mp3") to absolute path
-        const absolutePath = path.join(process.cwd(), "public", audio.filePath);
-        await unlink(absolutePath);
-      } catch (fileError) {
-        // Log the error but don't throw - we still want to delete the database record
-        // even if the file doesn't exist or can't be deleted
-        console.error(
-          `Failed to delete audio file: ${audio.filePath}`,
-          fileError,
-        );
+      // Delete the physical files, a missing file does not prevent deleting
+      // the database record
+      for (const version of audio.versions) {
+        await deleteAudioVersionFiles(version);
       }
 
       // Delete the database record
@@ -99,6 +132,33 @@ export const softDeletedContentRouter = createTRPCRouter({
       });
     }),
 
+  permanentlyDeleteAudioVersion: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      // Check if user is admin
+      requireAdmin(ctx.session);
+
+      const version = await ctx.db.audioVersion.findUnique({
+        where: { id: input.id },
+        select: { filePath: true, masterFilePath: true, deletedAt: true },
+      });
+
+      if (!version) {
+        throw new Error("Audio version not found");
+      }
+
+      // Only versions deleted by their owner can be purged, never the current one
+      if (!version.deletedAt) {
+        throw new Error("Only deleted audio versions can be purged");
+      }
+
+      await deleteAudioVersionFiles(version);
+
+      return ctx.db.audioVersion.delete({
+        where: { id: input.id },
+      });
+    }),
+
   permanentlyDeletePlaylist: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
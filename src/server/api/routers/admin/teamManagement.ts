@@ -0,0 +1,176 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { TEAM_ROLES } from "~/lib/team";
+import { requireAdminForUserManagement } from "./utils";
+
+const teamNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name is required")
+  .max(100, "Name is too long");
+
+export const teamManagementRouter = createTRPCRouter({
+  getAllTeams: protectedProcedure.query(async ({ ctx }) => {
+    // Check if user is admin
+    requireAdminForUserManagement(ctx.session, "access this resource");
+
+    const teams = await ctx.db.team.findMany({
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+        members: {
+          select: {
+            id: true,
+            role: true,
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                image: true,
+              },
+            },
+          },
+          orderBy: { createdAt: "asc" },
+        },
+        _count: {
+          select: {
+            audios: { where: { deletedAt: null } },
+            playlists: { where: { deletedAt: null } },
+          },
+        },
+      },
+      orderBy: {
+        name: "asc",
+      },
+    });
+
+    return teams;
+  }),
+
+  createTeam: protectedProcedure
+    .input(z.object({ name: teamNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      // Check if user is admin
+      requireAdminForUserManagement(ctx.session, "create teams");
+
+      return ctx.db.team.create({
+        data: { name: input.name },
+      });
+    }),
+
+  updateTeam: protectedProcedure
+    .input(z.object({ id: z.string(), name: teamNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      // Check if user is admin
+      requireAdminForUserManagement(ctx.session, "update teams");
+
+      const existingTeam = await ctx.db.team.findUnique({
+        where: { id: input.id },
+      });
+
+      if (!existingTeam) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Team not found",
+        });
+      }
+
+      return ctx.db.team.update({
+        where: { id: input.id },
+        data: { name: input.name },
+      });
+    }),
+
+  deleteTeam: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      // Check if user is admin
+      requireAdminForUserManagement(ctx.session, "delete teams");
+
+      const existingTeam = await ctx.db.team.findUnique({
+        where: { id: input.id },
+      });
+
+      if (!existingTeam) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Team not found",
+        });
+      }
+
+      // Audios and playlists of the team go back to their creators
+      await ctx.db.team.delete({
+        where: { id: input.id },
+      });
+
+      return { success: true };
+    }),
+
+  addTeamMember: protectedProcedure
+    .input(
+      z.object({
+        teamId: z.string(),
+        email: z.string().email("Invalid email address"),
+        role: z.enum(TEAM_ROLES),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Check if user is admin
+      requireAdminForUserManagement(ctx.session, "manage teams");
+
+      const user = await ctx.db.user.findUnique({
+        where: { email: input.email.trim() },
+        select: { id: true },
+      });
+
+      if (!user) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "No user with this email exists",
+        });
+      }
+
+      const existingMember = await ctx.db.teamMember.findUnique({
+        where: { teamId_userId: { teamId: input.teamId, userId: user.id } },
+      });
+
+      if (existingMember) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "This user is already a member of the team",
+        });
+      }
+
+      return ctx.db.teamMember.create({
+        data: { teamId: input.teamId, userId: user.id, role: input.role },
+      });
+    }),
+
+  updateTeamMember: protectedProcedure
+    .input(z.object({ id: z.string(), role: z.enum(TEAM_ROLES) }))
+    .mutation(async ({ ctx, input }) => {
+      // Check if user is admin
+      requireAdminForUserManagement(ctx.session, "manage teams");
+
+      return ctx.db.teamMember.update({
+        where: { id: input.id },
+        data: { role: input.role },
+      });
+    }),
+
+  removeTeamMember: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      // Check if user is admin
+      requireAdminForUserManagement(ctx.session, "manage teams");
+
+      await ctx.db.teamMember.delete({
+        where: { id: input.id },
+      });
+
+      return { success: true };
+    }),
+});
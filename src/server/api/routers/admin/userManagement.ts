@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
+import { linkPendingInvitations } from "~/server/collaboration";
 import { requireAdminForUserManagement } from "./utils";
 
 export const userManagementRouter = createTRPCRouter({
@@ -68,6 +69,7 @@ export const userManagementRouter = createTRPCRouter({
           isDisabled: input.isDisabled,
         },
       });
+      await linkPendingInvitations(ctx.db, user);
 
       return user;
     }),
@@ -130,6 +132,9 @@ export const userManagementRouter = createTRPCRouter({
         where: { id },
         data: updateData,
       });
+      if (updateData.email) {
+        await linkPendingInvitations(ctx.db, user);
+      }
 
       return user;
     }),
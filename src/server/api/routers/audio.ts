@@ -5,58 +5,108 @@ import {
   protectedProcedure,
   publicProcedure,
 } from "~/server/api/trpc";
+import { hasRole } from "~/lib/collaboration";
+import {
+  assertAudioRole,
+  assertCanViewAudio,
+  getAudioAccess,
+  getLibraryScope,
+  hasViewAccess,
+} from "~/server/permissions";
 
 export const audioRouter = createTRPCRouter({
-  getUserAudios: protectedProcedure.query(async ({ ctx }) => {
-    const audios = await ctx.db.audio.findMany({
+  /** Audios of the personal library of the user or of one of their teams */
+  getUserAudios: protectedProcedure
+    .input(z.object({ teamId: z.string().nullish() }).optional())
+    .query(async ({ ctx, input }) => {
+      const { where, role } = await getLibraryScope(
+        ctx.db,
+        ctx.session.user.id,
+        input?.teamId,
+      );
+      const audios = await ctx.db.audio.findMany({
+        where: {
+          ...where,
+          deletedAt: null, // Only fetch non-deleted audios
+        },
+        orderBy: { createdAt: "desc" },
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          originalFileName: true,
+          filePath: true,
+          processingStatus: true,
+          createdAt: true,
+          isPublic: true,
+          listenRecords: {
+            orderBy: { listenedAt: "desc" },
+            take: 1,
+            select: { listenedAt: true },
+          },
+          _count: {
+            select: {
+              markers: true,
+              listenRecords: true,
+            },
+          },
+        },
+      });
+
+      // Transform the result to include markerCount, listenCounter, and lastListenAt
+      const audiosWithMarkerCount = audios.map((audio) => ({
+        ...audio,
+        markerCount: audio._count.markers,
+        listenCounter: audio._count.listenRecords,
+        lastListenAt: audio.listenRecords[0]?.listenedAt ?? null,
+        role,
+        listenRecords: undefined,
+        _count: undefined, // Remove the _count object
+      }));
+
+      return audiosWithMarkerCount;
+    }),
+
+  /** Audios other users shared with the user, with the granted role */
+  getSharedAudios: protectedProcedure.query(async ({ ctx }) => {
+    const collaborations = await ctx.db.audioCollaborator.findMany({
       where: {
-        createdById: ctx.session.user.id,
-        deletedAt: null, // Only fetch non-deleted audios
+        userId: ctx.session.user.id,
+        audio: { deletedAt: null },
       },
       orderBy: { createdAt: "desc" },
       select: {
-        id: true,
-        name: true,
-        description: true,
-        originalFileName: true,
-        filePath: true,
-        createdAt: true,
-        isPublic: true,
-        listenRecords: {
-          orderBy: { listenedAt: "desc" },
-          take: 1,
-          select: { listenedAt: true },
-        },
-        _count: {
+        role: true,
+        audio: {
           select: {
-            markers: true,
-            listenRecords: true,
+            id: true,
+            name: true,
+            description: true,
+            isPublic: true,
+            createdAt: true,
+            createdBy: { select: { name: true, email: true } },
           },
         },
       },
     });
 
-    // Transform the result to include markerCount, listenCounter, and lastListenAt
-    const audiosWithMarkerCount = audios.map((audio) => ({
-      ...audio,
-      markerCount: audio._count.markers,
-      listenCounter: audio._count.listenRecords,
-      lastListenAt: audio.listenRecords[0]?.listenedAt ?? null,
-      listenRecords: undefined,
-      _count: undefined, // Remove the _count object
-    }));
-
-    return audiosWithMarkerCount;
+    return collaborations.map(({ role, audio }) => ({ ...audio, role }));
   }),
 
+  /** An audio of the user or shared with them, with their role */
   getUserAudioById: protectedProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
+      const { role } = await assertAudioRole(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+        "viewer",
+      );
+
       const audio = await ctx.db.audio.findUnique({
         where: {
           id: input.id,
-          createdById: ctx.session.user.id,
-          deletedAt: null,
         },
         select: {
           id: true,
@@ -64,9 +114,15 @@ export const audioRouter = createTRPCRouter({
           description: true,
           originalFileName: true,
           filePath: true,
+          masterFilePath: true,
+          format: true,
+          processingStatus: true,
+          duration: true,
+          currentVersionId: true,
           createdAt: true,
           updatedAt: true,
           isPublic: true,
+          allowAnonymousComments: true,
           createdById: true,
         },
       });
@@ -75,17 +131,26 @@ export const audioRouter = createTRPCRouter({
         throw new Error("Audio not found");
       }
 
-      return audio;
+      return { ...audio, role };
     }),
 
+  /** A public audio, or a private one opened through a share link */
   getPublicAudioById: publicProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
-      const audio = await ctx.db.audio.findFirst({
+      const access = await getAudioAccess(
+        ctx.db,
+        input.id,
+        null,
+        ctx.shareLinkIds,
+      );
+      if (!access || !hasViewAccess(access.audio, access)) {
+        throw new Error("Audio not found");
+      }
+
+      const audio = await ctx.db.audio.findUnique({
         where: {
           id: input.id,
-          isPublic: true,
-          deletedAt: null,
         },
         select: {
           id: true,
@@ -93,6 +158,8 @@ export const audioRouter = createTRPCRouter({
           description: true,
           originalFileName: true,
           filePath: true,
+          processingStatus: true,
+          currentVersionId: true,
           createdAt: true,
           isPublic: true,
           createdById: true,
@@ -103,29 +170,14 @@ export const audioRouter = createTRPCRouter({
         throw new Error("Audio not found");
       }
 
-      return audio;
+      return { ...audio, shareLink: access.shareLink };
     }),
 
   deleteAudio: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      // First check if the audio belongs to the user and is not already deleted
-      const audio = await ctx.db.audio.findUnique({
-        where: { id: input.id },
-        select: { createdById: true, filePath: true, deletedAt: true },
-      });
-
-      if (!audio) {
-        throw new Error("Audio not found");
-      }
-
-      if (audio.createdById !== ctx.session.user.id) {
-        throw new Error("Unauthorized");
-      }
-
-      if (audio.deletedAt) {
-        throw new Error("Audio already deleted");
-      }
+      // Only the owner deletes an audio, deleted audios are not found
+      await assertAudioRole(ctx.db, input.id, ctx.session.user.id, "owner");
 
       // Perform soft delete by setting deletedAt timestamp
       await ctx.db.audio.update({
@@ -146,19 +198,19 @@ export const audioRouter = createTRPCRouter({
           .max(100, "Name is too long"),
         description: z.string().max(500, "Description is too long").optional(),
         isPublic: z.boolean(),
+        allowAnonymousComments: z.boolean().optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const audio = await ctx.db.audio.findUnique({
-        where: { id: input.id },
-        select: { createdById: true },
-      });
-
-      if (!audio) {
-        throw new Error("Audio not found");
-      }
-
-      if (audio.createdById !== ctx.session.user.id) {
+      const { audio, role } = await assertAudioRole(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+        "editor",
+      );
+
+      // Who can listen to the audio is decided by co-owners
+      if (input.isPublic !== audio.isPublic && !hasRole(role, "co-owner")) {
         throw new Error("Unauthorized");
       }
 
@@ -168,6 +220,7 @@ export const audioRouter = createTRPCRouter({
           name: input.name,
           description: input.description,
           isPublic: input.isPublic,
+          allowAnonymousComments: input.allowAnonymousComments,
         },
         select: {
           id: true,
@@ -183,26 +236,13 @@ export const audioRouter = createTRPCRouter({
   incrementListenCount: publicProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      const audio = await ctx.db.audio.findUnique({
-        where: { id: input.id },
-        select: {
-          id: true,
-          isPublic: true,
-          deletedAt: true,
-          createdById: true,
-        },
-      });
-
-      if (!audio || audio.deletedAt) {
-        throw new Error("Audio not found");
-      }
-
-      // Check if user has access (public or owner)
-      const hasAccess =
-        audio.isPublic || ctx.session?.user?.id === audio.createdById;
-      if (!hasAccess) {
-        throw new Error("Unauthorized");
-      }
+      // Public audios, audios of the user or shared with them, and share links
+      await assertCanViewAudio(
+        ctx.db,
+        input.id,
+        ctx.session?.user?.id ?? null,
+        ctx.shareLinkIds,
+      );
 
       // Create a listen record
       await ctx.db.audioListenRecord.create({
@@ -223,12 +263,11 @@ export const audioRouter = createTRPCRouter({
       }),
     )
     .query(async ({ ctx, input }) => {
-      // Verify user owns this audio
+      // Statistics are shown to the owner and editors
+      await assertAudioRole(ctx.db, input.id, ctx.session.user.id, "editor");
       const audio = await ctx.db.audio.findUnique({
         where: {
           id: input.id,
-          createdById: ctx.session.user.id,
-          deletedAt: null,
         },
         select: {
           id: true,
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { setCurrentAudioVersion } from "~/lib/audioVersions";
+import { assertAudioRole } from "~/server/permissions";
+
+export const audioVersionRouter = createTRPCRouter({
+  getAudioVersions: protectedProcedure
+    .input(z.object({ audioId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      // Versions are managed by the owner, admins for audios of a team
+      await assertAudioRole(
+        ctx.db,
+        input.audioId,
+        ctx.session.user.id,
+        "owner",
+      );
+
+      const audio = await ctx.db.audio.findUniqueOrThrow({
+        where: { id: input.audioId },
+        select: { currentVersionId: true },
+      });
+
+      const versions = await ctx.db.audioVersion.findMany({
+        where: { audioId: input.audioId, deletedAt: null },
+        select: {
+          id: true,
+          number: true,
+          note: true,
+          originalFileName: true,
+          format: true,
+          duration: true,
+          processingStatus: true,
+          createdAt: true,
+          createdBy: {
+            select: {
+              name: true,
+            },
+          },
+        },
+        orderBy: { number: "desc" },
+      });
+
+      return versions.map((version) => ({
+        ...version,
+        isCurrent: version.id === audio.currentVersionId,
+      }));
+    }),
+
+  setCurrentVersion: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const version = await ctx.db.audioVersion.findUnique({
+        where: { id: input.id },
+        include: {
+          audio: { select: { deletedAt: true } },
+        },
+      });
+
+      if (!version || version.deletedAt || version.audio.deletedAt) {
+        throw new Error("Audio version not found");
+      }
+
+      await assertAudioRole(
+        ctx.db,
+        version.audioId,
+        ctx.session.user.id,
+        "owner",
+      );
+
+      if (version.processingStatus === "failed") {
+        throw new Error("A failed version cannot become the current version");
+      }
+
+      await setCurrentAudioVersion(ctx.db, version);
+
+      return { success: true };
+    }),
+
+  deleteAudioVersion: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const version = await ctx.db.audioVersion.findUnique({
+        where: { id: input.id },
+        select: {
+          audioId: true,
+          deletedAt: true,
+          audio: { select: { currentVersionId: true } },
+        },
+      });
+
+      if (!version) {
+        throw new Error("Audio version not found");
+      }
+
+      await assertAudioRole(
+        ctx.db,
+        version.audioId,
+        ctx.session.user.id,
+        "owner",
+      );
+
+      if (version.audio.currentVersionId === input.id) {
+        throw new Error("The current version cannot be deleted");
+      }
+
+      if (version.deletedAt) {
+        throw new Error("Audio version already deleted");
+      }
+
+      // Perform soft delete, the files are removed when an admin purges the version
+      await ctx.db.audioVersion.update({
+        where: { id: input.id },
+        data: { deletedAt: new Date() },
+      });
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,281 @@
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  type AccessRole,
+  COLLABORATOR_ROLES,
+  type CollaboratorRole,
+  getAssignableRoles,
+  normalizeEmail,
+  PLAYLIST_COLLABORATOR_ROLES,
+} from "~/lib/collaboration";
+import { findUserIdByEmail } from "~/server/collaboration";
+import { assertAudioRole, assertPlaylistRole } from "~/server/permissions";
+
+const resourceSchema = z.enum(["audio", "playlist"]);
+type Resource = z.infer<typeof resourceSchema>;
+
+const roleSchema = z.enum(COLLABORATOR_ROLES);
+
+const collaboratorSelect = {
+  id: true,
+  email: true,
+  role: true,
+  createdAt: true,
+  userId: true,
+  user: {
+    select: {
+      name: true,
+      image: true,
+    },
+  },
+} as const;
+
+function getResourceRoles(resource: Resource): readonly CollaboratorRole[] {
+  return resource === "audio"
+    ? COLLABORATOR_ROLES
+    : PLAYLIST_COLLABORATOR_ROLES;
+}
+
+/**
+ * Verify that a user may manage the collaborators of an audio or playlist
+ * @returns The creator of the resource and the role of the user
+ */
+async function assertCanManage(
+  db: Prisma.TransactionClient,
+  resource: Resource,
+  resourceId: string,
+  userId: string,
+): Promise<{ createdById: string; role: AccessRole }> {
+  if (resource === "audio") {
+    const { audio, role } = await assertAudioRole(
+      db,
+      resourceId,
+      userId,
+      "co-owner",
+    );
+    return { createdById: audio.createdById, role };
+  }
+  const { playlist, role } = await assertPlaylistRole(
+    db,
+    resourceId,
+    userId,
+    "co-owner",
+  );
+  return { createdById: playlist.createdById, role };
+}
+
+/** A collaborator with the audio or playlist it belongs to */
+async function getCollaborator(
+  db: Prisma.TransactionClient,
+  resource: Resource,
+  id: string,
+) {
+  const collaborator =
+    resource === "audio"
+      ? await db.audioCollaborator
+          .findUnique({ where: { id } })
+          .then((found) => found && { ...found, resourceId: found.audioId })
+      : await db.playlistCollaborator
+          .findUnique({ where: { id } })
+          .then((found) => found && { ...found, resourceId: found.playlistId });
+  if (!collaborator) {
+    throw new Error("Collaborator not found");
+  }
+  return collaborator;
+}
+
+/**
+ * Verify that a user may change or remove a collaborator: co-owners only
+ * manage collaborators with a lower role than their own
+ */
+async function assertCanManageCollaborator(
+  db: Prisma.TransactionClient,
+  resource: Resource,
+  id: string,
+  userId: string,
+) {
+  const collaborator = await getCollaborator(db, resource, id);
+  const { role } = await assertCanManage(
+    db,
+    resource,
+    collaborator.resourceId,
+    userId,
+  );
+  const assignableRoles = getAssignableRoles(role, getResourceRoles(resource));
+  if (!assignableRoles.some((candidate) => candidate === collaborator.role)) {
+    throw new Error("Unauthorized");
+  }
+  return { collaborator, assignableRoles };
+}
+
+export const collaboratorRouter = createTRPCRouter({
+  getCollaborators: protectedProcedure
+    .input(z.object({ resource: resourceSchema, resourceId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { role } = await assertCanManage(
+        ctx.db,
+        input.resource,
+        input.resourceId,
+        ctx.session.user.id,
+      );
+
+      const collaborators =
+        input.resource === "audio"
+          ? await ctx.db.audioCollaborator.findMany({
+              where: { audioId: input.resourceId },
+              select: collaboratorSelect,
+              orderBy: { createdAt: "asc" },
+            })
+          : await ctx.db.playlistCollaborator.findMany({
+              where: { playlistId: input.resourceId },
+              select: collaboratorSelect,
+              orderBy: { createdAt: "asc" },
+            });
+
+      return {
+        collaborators,
+        assignableRoles: getAssignableRoles(
+          role,
+          getResourceRoles(input.resource),
+        ),
+      };
+    }),
+
+  /**
+   * Shares an audio or playlist with an email address. Accounts that do not
+   * exist yet are linked when they are created.
+   */
+  inviteCollaborator: protectedProcedure
+    .input(
+      z.object({
+        resource: resourceSchema,
+        resourceId: z.string(),
+        email: z.string().email(),
+        role: roleSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { createdById, role } = await assertCanManage(
+        ctx.db,
+        input.resource,
+        input.resourceId,
+        ctx.session.user.id,
+      );
+      const assignableRoles: readonly CollaboratorRole[] = getAssignableRoles(
+        role,
+        getResourceRoles(input.resource),
+      );
+      if (!assignableRoles.includes(input.role)) {
+        throw new Error("Unauthorized");
+      }
+
+      const email = normalizeEmail(input.email);
+      const userId = await findUserIdByEmail(ctx.db, email);
+      if (userId === createdById) {
+        throw new Error("The owner cannot be invited");
+      }
+      if (userId === ctx.session.user.id) {
+        throw new Error("You cannot invite yourself");
+      }
+
+      if (input.resource === "audio") {
+        const existing = await ctx.db.audioCollaborator.findUnique({
+          where: { audioId_email: { audioId: input.resourceId, email } },
+          select: { role: true },
+        });
+        if (existing && !assignableRoles.some((r) => r === existing.role)) {
+          throw new Error("Unauthorized");
+        }
+        return ctx.db.audioCollaborator.upsert({
+          where: { audioId_email: { audioId: input.resourceId, email } },
+          create: {
+            audioId: input.resourceId,
+            email,
+            userId,
+            role: input.role,
+          },
+          update: { role: input.role, userId },
+          select: collaboratorSelect,
+        });
+      }
+
+      const existing = await ctx.db.playlistCollaborator.findUnique({
+        where: { playlistId_email: { playlistId: input.resourceId, email } },
+        select: { role: true },
+      });
+      if (existing && !assignableRoles.some((r) => r === existing.role)) {
+        throw new Error("Unauthorized");
+      }
+      return ctx.db.playlistCollaborator.upsert({
+        where: { playlistId_email: { playlistId: input.resourceId, email } },
+        create: {
+          playlistId: input.resourceId,
+          email,
+          userId,
+          role: input.role,
+        },
+        update: { role: input.role, userId },
+        select: collaboratorSelect,
+      });
+    }),
+
+  updateCollaboratorRole: protectedProcedure
+    .input(
+      z.object({
+        resource: resourceSchema,
+        id: z.string(),
+        role: roleSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { assignableRoles } = await assertCanManageCollaborator(
+        ctx.db,
+        input.resource,
+        input.id,
+        ctx.session.user.id,
+      );
+      if (!assignableRoles.includes(input.role)) {
+        throw new Error("Unauthorized");
+      }
+
+      if (input.resource === "audio") {
+        return ctx.db.audioCollaborator.update({
+          where: { id: input.id },
+          data: { role: input.role },
+          select: collaboratorSelect,
+        });
+      }
+      return ctx.db.playlistCollaborator.update({
+        where: { id: input.id },
+        data: { role: input.role },
+        select: collaboratorSelect,
+      });
+    }),
+
+  /** Removes a collaborator, collaborators may also leave on their own */
+  removeCollaborator: protectedProcedure
+    .input(z.object({ resource: resourceSchema, id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const collaborator = await getCollaborator(
+        ctx.db,
+        input.resource,
+        input.id,
+      );
+      if (collaborator.userId !== ctx.session.user.id) {
+        await assertCanManageCollaborator(
+          ctx.db,
+          input.resource,
+          input.id,
+          ctx.session.user.id,
+        );
+      }
+
+      if (input.resource === "audio") {
+        await ctx.db.audioCollaborator.delete({ where: { id: input.id } });
+      } else {
+        await ctx.db.playlistCollaborator.delete({ where: { id: input.id } });
+      }
+      return { success: true };
+    }),
+});
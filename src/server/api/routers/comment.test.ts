@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("~/server/auth", () => ({ auth: vi.fn() }));
+vi.mock("~/server/db", () => ({ db: {} }));
+vi.mock("~/server/shareLink", () => ({ getShareLinkIds: () => [] }));
+vi.mock("~/env", () => ({
+  env: { REQUIRE_AUTH_FOR_PUBLIC_CONTENT: false },
+}));
+
+import { createCallerFactory } from "~/server/api/trpc";
+import { commentRouter } from "./comment";
+
+/**
+ * Tests for the owner badge of comment authors, with the database replaced
+ * by the queries of the permission checks
+ */
+describe("Comment Router owners", () => {
+  const createCaller = createCallerFactory(commentRouter);
+
+  /** Team roles of the users, the audio was uploaded by "uploader" */
+  const teamRoles: Record<string, string> = {
+    uploader: "member",
+    admin: "admin",
+  };
+
+  const db = {
+    audio: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn() },
+    comment: { findMany: vi.fn() },
+  };
+
+  const comment = (id: string, authorId: string | null) => ({
+    id,
+    content: "Nice",
+    timestamp: 0,
+    endTimestamp: null,
+    parentId: null,
+    authorId,
+    authorName: authorId ? null : "Guest",
+    author: authorId ? { name: authorId, image: null } : null,
+    resolvedAt: null,
+    editedAt: null,
+    createdAt: new Date(),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    db.audio.findUnique.mockImplementation(
+      (args: {
+        select: {
+          team: { select: { members: { where: { userId: string } } } };
+        };
+      }) => {
+        const role = teamRoles[args.select.team.select.members.where.userId];
+        return Promise.resolve({
+          id: "audio-1",
+          createdById: "uploader",
+          teamId: "team-1",
+          isPublic: true,
+          deletedAt: null,
+          collaborators: [],
+          team: { members: role ? [{ role }] : [] },
+        });
+      },
+    );
+    db.audio.findUniqueOrThrow.mockResolvedValue({
+      allowAnonymousComments: true,
+    });
+    db.comment.findMany.mockResolvedValue([
+      comment("c1", "uploader"),
+      comment("c2", "admin"),
+      comment("c3", null),
+    ]);
+  });
+
+  it("should mark the authors owning a team audio through their team role", async () => {
+    const { threads } = await createCaller({
+      db: db as never,
+      session: null,
+      shareLinkIds: [],
+      headers: new Headers(),
+    } as never).getComments({ audioId: "audio-1" });
+
+    expect(threads.map((thread) => [thread.id, thread.isAudioOwner])).toEqual([
+      ["c1", false],
+      ["c2", true],
+      ["c3", false],
+    ]);
+  });
+});
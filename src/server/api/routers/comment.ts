@@ -0,0 +1,338 @@
+import { z } from "zod";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  publicProcedure,
+} from "~/server/api/trpc";
+import type { Prisma } from "@prisma/client";
+import { env } from "~/env";
+import {
+  canCommentOnAudio,
+  getCommentAuthorName,
+  getCommentPermissions,
+  MAX_COMMENT_AUTHOR_NAME_LENGTH,
+  MAX_COMMENT_LENGTH,
+} from "~/lib/comment";
+import { type AccessRole, hasRole } from "~/lib/collaboration";
+import { getAudioAccess, hasViewAccess } from "~/server/permissions";
+
+const contentSchema = z.string().trim().min(1).max(MAX_COMMENT_LENGTH);
+const authorNameSchema = z
+  .string()
+  .trim()
+  .max(MAX_COMMENT_AUTHOR_NAME_LENGTH)
+  .optional();
+
+const commentSelect = {
+  id: true,
+  content: true,
+  timestamp: true,
+  endTimestamp: true,
+  parentId: true,
+  authorId: true,
+  authorName: true,
+  author: { select: { name: true, image: true } },
+  resolvedAt: true,
+  editedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * The audio of comments and the role of the user, if they may listen to it:
+ * public audios, their own, audios shared with them and share links
+ */
+async function getAccessibleAudio(
+  db: Prisma.TransactionClient,
+  audioId: string,
+  userId: string | null,
+  shareLinkIds: readonly string[],
+) {
+  const access = await getAudioAccess(db, audioId, userId, shareLinkIds);
+  if (env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT && !userId && !access?.shareLink) {
+    throw new Error("Unauthorized");
+  }
+  if (!access || !hasViewAccess(access.audio, access)) {
+    throw new Error("Audio not found");
+  }
+
+  const { allowAnonymousComments } = await db.audio.findUniqueOrThrow({
+    where: { id: audioId },
+    select: { allowAnonymousComments: true },
+  });
+
+  return { ...access.audio, allowAnonymousComments, role: access.role };
+}
+
+/**
+ * Authors with owner rights on the audio, as its creator or through the team
+ * the audio belongs to
+ */
+async function getOwnerAuthorIds(
+  db: Prisma.TransactionClient,
+  audioId: string,
+  authorIds: readonly (string | null)[],
+): Promise<Set<string>> {
+  const ownerIds = new Set<string>();
+  for (const authorId of new Set(authorIds)) {
+    if (!authorId) continue;
+    const access = await getAudioAccess(db, audioId, authorId);
+    if (hasRole(access?.role ?? null, "owner")) ownerIds.add(authorId);
+  }
+  return ownerIds;
+}
+
+/** Name of anonymous authors, comments of signed-in users use their account */
+function getAnonymousAuthorName(
+  audio: {
+    isPublic: boolean;
+    allowAnonymousComments: boolean;
+    role: AccessRole | null;
+  },
+  userId: string | null,
+  authorName: string | undefined,
+): string | null {
+  if (!canCommentOnAudio(audio, userId, audio.role)) {
+    throw new Error("Sign in to comment on this audio");
+  }
+  if (userId) return null;
+  if (!authorName) {
+    throw new Error("Name is required");
+  }
+  return authorName;
+}
+
+/** A comment and what the user may do with it */
+async function getCommentPermissionsForUser(
+  db: Prisma.TransactionClient,
+  id: string,
+  userId: string,
+) {
+  const comment = await db.comment.findUnique({
+    where: { id },
+    select: {
+      authorId: true,
+      parentId: true,
+      audioId: true,
+    },
+  });
+
+  if (!comment) {
+    throw new Error("Comment not found");
+  }
+
+  const access = await getAudioAccess(db, comment.audioId, userId);
+  return getCommentPermissions(comment, {
+    userId,
+    canModerate: hasRole(access?.role ?? null, "editor"),
+  });
+}
+
+export const commentRouter = createTRPCRouter({
+  /** Threads of an audio with their replies and what the user may do */
+  getComments: publicProcedure
+    .input(z.object({ audioId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session?.user.id ?? null;
+      const audio = await getAccessibleAudio(
+        ctx.db,
+        input.audioId,
+        userId,
+        ctx.shareLinkIds,
+      );
+
+      const comments = await ctx.db.comment.findMany({
+        where: { audioId: input.audioId },
+        select: commentSelect,
+        orderBy: { createdAt: "asc" },
+      });
+
+      const ownerIds = await getOwnerAuthorIds(
+        ctx.db,
+        input.audioId,
+        comments.map((comment) => comment.authorId),
+      );
+      const viewer = { userId, canModerate: hasRole(audio.role, "editor") };
+      const toView = (comment: (typeof comments)[number]) => ({
+        id: comment.id,
+        content: comment.content,
+        timestamp: comment.timestamp,
+        endTimestamp: comment.endTimestamp,
+        authorName: getCommentAuthorName(comment),
+        authorImage: comment.author?.image ?? null,
+        isAnonymous: comment.authorId === null,
+        isAudioOwner:
+          comment.authorId !== null && ownerIds.has(comment.authorId),
+        resolvedAt: comment.resolvedAt,
+        createdAt: comment.createdAt,
+        editedAt: comment.editedAt,
+        ...getCommentPermissions(comment, viewer),
+      });
+
+      const threads = comments
+        .filter((comment) => comment.parentId === null)
+        .map((thread) => ({
+          ...toView(thread),
+          replies: comments
+            .filter((comment) => comment.parentId === thread.id)
+            .map(toView),
+        }));
+
+      return {
+        threads,
+        canComment: canCommentOnAudio(audio, userId, audio.role),
+        isSignedIn: userId !== null,
+      };
+    }),
+
+  createComment: publicProcedure
+    .input(
+      z
+        .object({
+          audioId: z.string(),
+          timestamp: z.number().min(0),
+          endTimestamp: z.number().nullable().optional(),
+          content: contentSchema,
+          authorName: authorNameSchema,
+        })
+        .refine(
+          (data) =>
+            data.endTimestamp === undefined ||
+            data.endTimestamp === null ||
+            data.endTimestamp > data.timestamp,
+          {
+            message: "End time must be after start time",
+            path: ["endTimestamp"],
+          },
+        ),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session?.user.id ?? null;
+      const audio = await getAccessibleAudio(
+        ctx.db,
+        input.audioId,
+        userId,
+        ctx.shareLinkIds,
+      );
+      const authorName = getAnonymousAuthorName(
+        audio,
+        userId,
+        input.authorName,
+      );
+
+      return ctx.db.comment.create({
+        data: {
+          audioId: input.audioId,
+          timestamp: input.timestamp,
+          endTimestamp: input.endTimestamp ?? null,
+          content: input.content,
+          authorId: userId,
+          authorName,
+        },
+        select: { id: true },
+      });
+    }),
+
+  /** Replies always belong to the first comment of the thread */
+  replyToComment: publicProcedure
+    .input(
+      z.object({
+        parentId: z.string(),
+        content: contentSchema,
+        authorName: authorNameSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session?.user.id ?? null;
+      const parent = await ctx.db.comment.findUnique({
+        where: { id: input.parentId },
+        select: { id: true, parentId: true, audioId: true },
+      });
+
+      if (!parent) {
+        throw new Error("Comment not found");
+      }
+
+      const audio = await getAccessibleAudio(
+        ctx.db,
+        parent.audioId,
+        userId,
+        ctx.shareLinkIds,
+      );
+      const authorName = getAnonymousAuthorName(
+        audio,
+        userId,
+        input.authorName,
+      );
+
+      return ctx.db.comment.create({
+        data: {
+          audioId: parent.audioId,
+          parentId: parent.parentId ?? parent.id,
+          content: input.content,
+          authorId: userId,
+          authorName,
+        },
+        select: { id: true },
+      });
+    }),
+
+  updateComment: protectedProcedure
+    .input(z.object({ id: z.string(), content: contentSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { canEdit } = await getCommentPermissionsForUser(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+      );
+
+      if (!canEdit) {
+        throw new Error("Unauthorized");
+      }
+
+      return ctx.db.comment.update({
+        where: { id: input.id },
+        data: { content: input.content, editedAt: new Date() },
+        select: { id: true },
+      });
+    }),
+
+  /** Deleting the first comment of a thread deletes its replies */
+  deleteComment: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { canDelete } = await getCommentPermissionsForUser(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+      );
+
+      if (!canDelete) {
+        throw new Error("Unauthorized");
+      }
+
+      await ctx.db.comment.delete({
+        where: { id: input.id },
+      });
+      return { success: true };
+    }),
+
+  setCommentResolved: protectedProcedure
+    .input(z.object({ id: z.string(), resolved: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const { canResolve } = await getCommentPermissionsForUser(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+      );
+
+      if (!canResolve) {
+        throw new Error("Unauthorized");
+      }
+
+      return ctx.db.comment.update({
+        where: { id: input.id },
+        data: { resolvedAt: input.resolved ? new Date() : null },
+        select: { id: true, resolvedAt: true },
+      });
+    }),
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("~/server/auth", () => ({ auth: vi.fn() }));
+vi.mock("~/server/db", () => ({ db: {} }));
+vi.mock("~/server/shareLink", () => ({ getShareLinkIds: () => [] }));
+
+import { createCallerFactory } from "~/server/api/trpc";
+import { markerRouter } from "./marker";
+
+/**
+ * Tests for the access checks of the marker router, with the database
+ * replaced by the queries the checks run
+ */
+describe("Marker Router access", () => {
+  const createCaller = createCallerFactory(markerRouter);
+
+  const audio = {
+    id: "audio-1",
+    createdById: "owner",
+    teamId: null,
+    isPublic: false,
+    deletedAt: null,
+    collaborators: [] as { role: string }[],
+    team: null,
+  };
+  const db = {
+    audio: { findUnique: vi.fn() },
+    shareLink: { findFirst: vi.fn(), findMany: vi.fn() },
+    marker: { findMany: vi.fn() },
+  };
+
+  const callerFor = (userId: string | null, shareLinkIds: string[] = []) =>
+    createCaller({
+      db: db as never,
+      session: userId
+        ? { user: { id: userId }, expires: "2099-01-01T00:00:00.000Z" }
+        : null,
+      shareLinkIds,
+      headers: new Headers(),
+    } as never);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    db.audio.findUnique.mockResolvedValue(audio);
+    db.shareLink.findFirst.mockResolvedValue(null);
+    db.shareLink.findMany.mockResolvedValue([]);
+    db.marker.findMany.mockResolvedValue([{ id: "marker-1" }]);
+  });
+
+  describe("getMarkers", () => {
+    it("should refuse the markers of a private audio to a non-collaborator", async () => {
+      await expect(
+        callerFor("stranger").getMarkers({ audioId: "audio-1" }),
+      ).rejects.toThrow("Audio not found");
+      expect(db.marker.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should refuse the markers of a private audio without a session", async () => {
+      await expect(
+        callerFor(null).getMarkers({ audioId: "audio-1" }),
+      ).rejects.toThrow("Audio not found");
+      expect(db.marker.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should return the markers of a private audio to a collaborator", async () => {
+      db.audio.findUnique.mockResolvedValue({
+        ...audio,
+        collaborators: [{ role: "viewer" }],
+      });
+
+      await expect(
+        callerFor("collaborator").getMarkers({ audioId: "audio-1" }),
+      ).resolves.toEqual([{ id: "marker-1" }]);
+    });
+
+    it("should return the markers of a private audio through a share link", async () => {
+      db.shareLink.findFirst.mockResolvedValue({ allowBrowserMarkers: false });
+
+      await expect(
+        callerFor(null, ["link-1"]).getMarkers({ audioId: "audio-1" }),
+      ).resolves.toEqual([{ id: "marker-1" }]);
+    });
+
+    it("should refuse a private audio of another user through a playlist link", async () => {
+      db.shareLink.findMany.mockResolvedValue([
+        { allowBrowserMarkers: false, createdById: "playlist-owner" },
+      ]);
+
+      await expect(
+        callerFor(null, ["link-1"]).getMarkers({ audioId: "audio-1" }),
+      ).rejects.toThrow("Audio not found");
+    });
+
+    it("should open a private audio through a playlist link of its owner", async () => {
+      db.shareLink.findMany.mockResolvedValue([
+        { allowBrowserMarkers: false, createdById: "owner" },
+      ]);
+
+      await expect(
+        callerFor(null, ["link-1"]).getMarkers({ audioId: "audio-1" }),
+      ).resolves.toEqual([{ id: "marker-1" }]);
+    });
+
+    it("should return the markers of a public audio to anyone", async () => {
+      db.audio.findUnique.mockResolvedValue({ ...audio, isPublic: true });
+
+      await expect(
+        callerFor(null).getMarkers({ audioId: "audio-1" }),
+      ).resolves.toEqual([{ id: "marker-1" }]);
+    });
+  });
+});
@@ -1,14 +1,50 @@
 import { z } from "zod";
+import type { Prisma } from "@prisma/client";
 import {
   createTRPCRouter,
   protectedProcedure,
   publicProcedure,
 } from "~/server/api/trpc";
+import { MAX_MARKER_NOTES_LENGTH } from "~/lib/marker";
+import { isCategoryAvailable } from "~/lib/markerCategory";
+import { planMarkerImport } from "~/lib/markerImport";
+import {
+  applyBulkMarkerEdit,
+  hasTimeCollision,
+  saveMarkerTimes,
+} from "~/lib/markerBulk";
+import { assertAudioRole, assertCanViewAudio } from "~/server/permissions";
+
+/** Upper limit for the number of markers imported at once */
+const MAX_IMPORTED_MARKERS = 1000;
+
+/** Verify that a category can be assigned to the markers of an audio */
+async function assertCategoryAvailable(
+  db: Prisma.TransactionClient,
+  categoryId: string | null | undefined,
+  audio: { id: string; createdById: string },
+) {
+  if (!categoryId) return;
+  const category = await db.markerCategory.findUnique({
+    where: { id: categoryId },
+    select: { audioId: true, createdById: true },
+  });
+  if (!category || !isCategoryAvailable(category, audio)) {
+    throw new Error("Marker category not found");
+  }
+}
 
 export const markerRouter = createTRPCRouter({
   getMarkers: publicProcedure
     .input(z.object({ audioId: z.string() }))
     .query(async ({ ctx, input }) => {
+      await assertCanViewAudio(
+        ctx.db,
+        input.audioId,
+        ctx.session?.user.id ?? null,
+        ctx.shareLinkIds,
+      );
+
       const markers = await ctx.db.marker.findMany({
         where: {
           audioId: input.audioId,
@@ -28,22 +64,20 @@ export const markerRouter = createTRPCRouter({
         timestamp: z.number().min(0),
         endTimestamp: z.number().min(0).optional().nullable(),
         color: z.string().optional(),
+        notes: z.string().max(MAX_MARKER_NOTES_LENGTH).optional().nullable(),
+        categoryId: z.string().optional().nullable(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      // First verify the user owns the audio
-      const audio = await ctx.db.audio.findUnique({
-        where: {
-          id: input.audioId,
-        },
-        select: {
-          createdById: true,
-        },
-      });
+      // Markers are changed by the owner and collaborators editing markers
+      const { audio } = await assertAudioRole(
+        ctx.db,
+        input.audioId,
+        ctx.session.user.id,
+        "marker-editor",
+      );
 
-      if (audio?.createdById !== ctx.session.user.id) {
-        throw new Error("Unauthorized");
-      }
+      await assertCategoryAvailable(ctx.db, input.categoryId, audio);
 
       const marker = await ctx.db.marker.create({
         data: {
@@ -52,6 +86,8 @@ export const markerRouter = createTRPCRouter({
           timestamp: input.timestamp,
           endTimestamp: input.endTimestamp,
           color: input.color,
+          notes: input.notes || null,
+          categoryId: input.categoryId,
         },
       });
       return marker;
@@ -64,24 +100,26 @@ export const markerRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      // First verify the user owns the associated audio
       const marker = await ctx.db.marker.findUnique({
         where: {
           id: input.id,
         },
-        include: {
-          audio: {
-            select: {
-              createdById: true,
-            },
-          },
+        select: {
+          audioId: true,
         },
       });
 
-      if (marker?.audio.createdById !== ctx.session.user.id) {
-        throw new Error("Unauthorized");
+      if (!marker) {
+        throw new Error("Marker not found");
       }
 
+      await assertAudioRole(
+        ctx.db,
+        marker.audioId,
+        ctx.session.user.id,
+        "marker-editor",
+      );
+
       await ctx.db.marker.delete({
         where: {
           id: input.id,
@@ -98,27 +136,33 @@ export const markerRouter = createTRPCRouter({
         endTimestamp: z.number().min(0).optional().nullable(),
         label: z.string().min(1).optional(),
         color: z.string().optional(),
+        notes: z.string().max(MAX_MARKER_NOTES_LENGTH).optional().nullable(),
+        categoryId: z.string().optional().nullable(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      // First verify the user owns the associated audio
       const marker = await ctx.db.marker.findUnique({
         where: {
           id: input.id,
         },
-        include: {
-          audio: {
-            select: {
-              createdById: true,
-            },
-          },
+        select: {
+          audioId: true,
         },
       });
 
-      if (marker?.audio.createdById !== ctx.session.user.id) {
-        throw new Error("Unauthorized");
+      if (!marker) {
+        throw new Error("Marker not found");
       }
 
+      const { audio } = await assertAudioRole(
+        ctx.db,
+        marker.audioId,
+        ctx.session.user.id,
+        "marker-editor",
+      );
+
+      await assertCategoryAvailable(ctx.db, input.categoryId, audio);
+
       const updatedMarker = await ctx.db.marker.update({
         where: {
           id: input.id,
@@ -130,8 +174,187 @@ export const markerRouter = createTRPCRouter({
           }),
           ...(input.label !== undefined && { label: input.label }),
           ...(input.color !== undefined && { color: input.color }),
+          ...(input.notes !== undefined && { notes: input.notes || null }),
+          ...(input.categoryId !== undefined && {
+            categoryId: input.categoryId,
+          }),
         },
       });
       return updatedMarker;
     }),
+
+  importMarkers: protectedProcedure
+    .input(
+      z.object({
+        audioId: z.string(),
+        mode: z.enum(["merge", "skip", "replace"]),
+        markers: z
+          .array(
+            z.object({
+              label: z.string().min(1),
+              timestamp: z.number().min(0),
+              endTimestamp: z.number().min(0).nullable(),
+              color: z.string().nullable(),
+              notes: z.string().max(MAX_MARKER_NOTES_LENGTH).optional(),
+            }),
+          )
+          .min(1)
+          .max(MAX_IMPORTED_MARKERS),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Markers are changed by the owner and collaborators editing markers
+      await assertAudioRole(
+        ctx.db,
+        input.audioId,
+        ctx.session.user.id,
+        "marker-editor",
+      );
+
+      // All markers are imported or none
+      return ctx.db.$transaction(async (tx) => {
+        const existingMarkers = await tx.marker.findMany({
+          where: { audioId: input.audioId },
+          select: { id: true, timestamp: true },
+        });
+        const plan = planMarkerImport(
+          existingMarkers,
+          input.markers,
+          input.mode,
+        );
+
+        if (plan.deleteExisting) {
+          await tx.marker.deleteMany({ where: { audioId: input.audioId } });
+        }
+        for (const { existing, marker } of plan.update) {
+          await tx.marker.update({
+            where: { id: existing.id },
+            data: {
+              label: marker.label,
+              endTimestamp: marker.endTimestamp,
+              ...(marker.color !== null && { color: marker.color }),
+              ...(marker.notes !== undefined && { notes: marker.notes }),
+            },
+          });
+        }
+        await tx.marker.createMany({
+          data: plan.create.map((marker) => ({
+            audioId: input.audioId,
+            label: marker.label,
+            timestamp: marker.timestamp,
+            endTimestamp: marker.endTimestamp,
+            notes: marker.notes ?? null,
+            ...(marker.color !== null && { color: marker.color }),
+          })),
+        });
+
+        return {
+          created: plan.create.length,
+          updated: plan.update.length,
+          skipped: plan.skipped,
+          deleted: plan.deleteExisting ? existingMarkers.length : 0,
+        };
+      });
+    }),
+
+  bulkUpdateMarkers: protectedProcedure
+    .input(
+      z.object({
+        audioId: z.string(),
+        markerIds: z.array(z.string()).min(1),
+        operation: z.discriminatedUnion("type", [
+          z.object({ type: z.literal("shift"), offset: z.number().finite() }),
+          z.object({
+            type: z.literal("scale"),
+            factor: z.number().positive().finite(),
+            anchor: z.number().min(0),
+          }),
+          z.object({ type: z.literal("recolor"), color: z.string().min(1) }),
+          z.object({
+            type: z.literal("rename"),
+            labels: z.array(
+              z.object({ id: z.string(), label: z.string().trim().min(1) }),
+            ),
+          }),
+          z.object({
+            type: z.literal("categorize"),
+            categoryId: z.string().nullable(),
+          }),
+          z.object({ type: z.literal("delete") }),
+        ]),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Markers are changed by the owner and collaborators editing markers
+      const { audio } = await assertAudioRole(
+        ctx.db,
+        input.audioId,
+        ctx.session.user.id,
+        "marker-editor",
+      );
+
+      const { operation } = input;
+
+      // All selected markers are changed or none
+      return ctx.db.$transaction(async (tx) => {
+        const markers = await tx.marker.findMany({
+          where: { audioId: input.audioId },
+        });
+        const selectedIds = new Set(input.markerIds);
+        const selected = markers.filter((marker) => selectedIds.has(marker.id));
+
+        if (selected.length !== selectedIds.size) {
+          throw new Error("Marker not found");
+        }
+
+        if (operation.type === "delete") {
+          await tx.marker.deleteMany({
+            where: { id: { in: input.markerIds }, audioId: input.audioId },
+          });
+          return { count: selected.length };
+        }
+
+        if (operation.type === "categorize") {
+          await assertCategoryAvailable(tx, operation.categoryId, audio);
+          await tx.marker.updateMany({
+            where: { id: { in: input.markerIds }, audioId: input.audioId },
+            data: { categoryId: operation.categoryId },
+          });
+          return { count: selected.length };
+        }
+
+        if (operation.type === "rename") {
+          if (operation.labels.some(({ id }) => !selectedIds.has(id))) {
+            throw new Error("Marker not found");
+          }
+          for (const { id, label } of operation.labels) {
+            await tx.marker.update({ where: { id }, data: { label } });
+          }
+          return { count: operation.labels.length };
+        }
+
+        const changed = applyBulkMarkerEdit(selected, operation);
+
+        if (operation.type === "shift" || operation.type === "scale") {
+          const unchanged = markers.filter(
+            (marker) => !selectedIds.has(marker.id),
+          );
+          if (hasTimeCollision(changed, unchanged)) {
+            throw new Error(
+              "Markers would end up at the same time as another marker",
+            );
+          }
+          await saveMarkerTimes(tx, changed);
+        } else {
+          for (const marker of changed) {
+            await tx.marker.update({
+              where: { id: marker.id },
+              data: { color: marker.color },
+            });
+          }
+        }
+
+        return { count: changed.length };
+      });
+    }),
 });
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  publicProcedure,
+} from "~/server/api/trpc";
+import {
+  MARKER_CATEGORY_ICONS,
+  MAX_CATEGORY_NAME_LENGTH,
+} from "~/lib/markerCategory";
+import { assertAudioRole } from "~/server/permissions";
+
+const categoryFields = {
+  name: z.string().trim().min(1).max(MAX_CATEGORY_NAME_LENGTH),
+  color: z.string().min(1),
+  icon: z.enum(MARKER_CATEGORY_ICONS),
+};
+
+const categorySelect = {
+  id: true,
+  name: true,
+  color: true,
+  icon: true,
+  audioId: true,
+} as const;
+
+export const markerCategoryRouter = createTRPCRouter({
+  /** Categories of an audio and the categories of all audios of its creator */
+  getCategories: publicProcedure
+    .input(z.object({ audioId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const audio = await ctx.db.audio.findUnique({
+        where: {
+          id: input.audioId,
+        },
+        select: {
+          createdById: true,
+        },
+      });
+
+      if (!audio) {
+        return [];
+      }
+
+      return ctx.db.markerCategory.findMany({
+        where: {
+          OR: [
+            { audioId: input.audioId },
+            { audioId: null, createdById: audio.createdById },
+          ],
+        },
+        select: categorySelect,
+        orderBy: [{ name: "asc" }, { createdAt: "asc" }],
+      });
+    }),
+
+  createCategory: protectedProcedure
+    .input(
+      z.object({
+        /** Null creates a category for all audios of the user */
+        audioId: z.string().nullable(),
+        ...categoryFields,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.audioId) {
+        // Categories of an audio are added by whoever edits its markers
+        await assertAudioRole(
+          ctx.db,
+          input.audioId,
+          ctx.session.user.id,
+          "marker-editor",
+        );
+      }
+
+      return ctx.db.markerCategory.create({
+        data: {
+          name: input.name,
+          color: input.color,
+          icon: input.icon,
+          audioId: input.audioId,
+          createdById: ctx.session.user.id,
+        },
+        select: categorySelect,
+      });
+    }),
+
+  updateCategory: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        name: categoryFields.name.optional(),
+        color: categoryFields.color.optional(),
+        icon: categoryFields.icon.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const category = await ctx.db.markerCategory.findUnique({
+        where: { id: input.id },
+        select: { createdById: true },
+      });
+
+      if (category?.createdById !== ctx.session.user.id) {
+        throw new Error("Unauthorized");
+      }
+
+      return ctx.db.markerCategory.update({
+        where: { id: input.id },
+        data: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.color !== undefined && { color: input.color }),
+          ...(input.icon !== undefined && { icon: input.icon }),
+        },
+        select: categorySelect,
+      });
+    }),
+
+  /** Markers of a deleted category keep existing without category */
+  deleteCategory: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const category = await ctx.db.markerCategory.findUnique({
+        where: { id: input.id },
+        select: { createdById: true },
+      });
+
+      if (category?.createdById !== ctx.session.user.id) {
+        throw new Error("Unauthorized");
+      }
+
+      await ctx.db.markerCategory.delete({
+        where: { id: input.id },
+      });
+      return { success: true };
+    }),
+});
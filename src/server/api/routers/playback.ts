@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { MAX_PITCH_CENTS, MAX_PITCH_SEMITONES } from "~/lib/pitch";
+import {
+  CONTINUE_LISTENING_LIMIT,
+  getResumePosition,
+  MIN_RESUME_POSITION,
+} from "~/lib/resume";
+import { accessibleAudioWhere, assertCanViewAudio } from "~/server/permissions";
+
+export const playbackRouter = createTRPCRouter({
+  /** Player settings of the user for an audio, null before the first change */
+  getPlaybackState: protectedProcedure
+    .input(z.object({ audioId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await assertCanViewAudio(
+        ctx.db,
+        input.audioId,
+        ctx.session.user.id,
+        ctx.shareLinkIds,
+      );
+
+      return ctx.db.audioPlaybackState.findUnique({
+        where: {
+          userId_audioId: {
+            userId: ctx.session.user.id,
+            audioId: input.audioId,
+          },
+        },
+        select: { pitchSemitones: true, pitchCents: true, position: true },
+      });
+    }),
+
+  setPitch: protectedProcedure
+    .input(
+      z.object({
+        audioId: z.string(),
+        semitones: z
+          .number()
+          .int()
+          .min(-MAX_PITCH_SEMITONES)
+          .max(MAX_PITCH_SEMITONES),
+        cents: z.number().int().min(-MAX_PITCH_CENTS).max(MAX_PITCH_CENTS),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertCanViewAudio(
+        ctx.db,
+        input.audioId,
+        ctx.session.user.id,
+        ctx.shareLinkIds,
+      );
+
+      const pitch = {
+        pitchSemitones: input.semitones,
+        pitchCents: input.cents,
+      };
+      return ctx.db.audioPlaybackState.upsert({
+        where: {
+          userId_audioId: {
+            userId: ctx.session.user.id,
+            audioId: input.audioId,
+          },
+        },
+        create: {
+          userId: ctx.session.user.id,
+          audioId: input.audioId,
+          ...pitch,
+        },
+        update: pitch,
+        select: { pitchSemitones: true, pitchCents: true },
+      });
+    }),
+
+  /** Save where the user stopped listening, null once the audio was finished */
+  savePosition: protectedProcedure
+    .input(
+      z.object({
+        audioId: z.string(),
+        position: z.number().min(0).nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertCanViewAudio(
+        ctx.db,
+        input.audioId,
+        ctx.session.user.id,
+        ctx.shareLinkIds,
+      );
+
+      const progress = {
+        position: input.position,
+        positionUpdatedAt: new Date(),
+      };
+      await ctx.db.audioPlaybackState.upsert({
+        where: {
+          userId_audioId: {
+            userId: ctx.session.user.id,
+            audioId: input.audioId,
+          },
+        },
+        create: {
+          userId: ctx.session.user.id,
+          audioId: input.audioId,
+          ...progress,
+        },
+        update: progress,
+      });
+    }),
+
+  /** Audios the user stopped listening to, most recent first */
+  getContinueListening: protectedProcedure.query(async ({ ctx }) => {
+    const states = await ctx.db.audioPlaybackState.findMany({
+      where: {
+        userId: ctx.session.user.id,
+        position: { gte: MIN_RESUME_POSITION },
+        audio: accessibleAudioWhere(ctx.session.user.id),
+      },
+      orderBy: { positionUpdatedAt: "desc" },
+      take: CONTINUE_LISTENING_LIMIT,
+      select: {
+        position: true,
+        positionUpdatedAt: true,
+        audio: { select: { id: true, name: true, duration: true } },
+      },
+    });
+
+    return states.flatMap(({ position, positionUpdatedAt, audio }) => {
+      const resumePosition = getResumePosition(position, audio.duration);
+      return resumePosition === null
+        ? []
+        : [{ ...audio, position: resumePosition, positionUpdatedAt }];
+    });
+  }),
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("~/server/auth", () => ({ auth: vi.fn() }));
+vi.mock("~/server/db", () => ({ db: {} }));
+vi.mock("~/server/shareLink", () => ({ getShareLinkIds: () => [] }));
+
+import { createCallerFactory } from "~/server/api/trpc";
+import { playlistRouter } from "./playlist";
+
+/**
+ * Tests for the audios a share link of a playlist opens, with the database
+ * replaced by the queries of the permission checks
+ */
+describe("Playlist Router share links", () => {
+  const createCaller = createCallerFactory(playlistRouter);
+
+  const playlistAudio = (id: string, isPublic: boolean) => ({
+    id: `entry-${id}`,
+    order: 0,
+    addedAt: new Date(),
+    audio: { id, name: id, isPublic, deletedAt: null, _count: { markers: 0 } },
+  });
+
+  /** Owners of the audios, the link was created by "sharer" */
+  const audioOwners: Record<string, string> = {
+    own: "sharer",
+    foreign: "stranger",
+  };
+
+  const db = {
+    playlist: { findUnique: vi.fn() },
+    audio: { findUnique: vi.fn() },
+    shareLink: { findFirst: vi.fn(), findMany: vi.fn() },
+  };
+
+  const caller = createCaller({
+    db: db as never,
+    session: null,
+    shareLinkIds: ["link-1"],
+    headers: new Headers(),
+  } as never);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    db.playlist.findUnique.mockResolvedValue({
+      id: "playlist-1",
+      name: "Playlist",
+      createdById: "sharer",
+      teamId: null,
+      isPublic: false,
+      deletedAt: null,
+      collaborators: [],
+      team: null,
+      audios: [
+        playlistAudio("public", true),
+        playlistAudio("own", false),
+        playlistAudio("foreign", false),
+      ],
+    });
+    db.shareLink.findFirst.mockResolvedValue({ allowBrowserMarkers: false });
+    db.shareLink.findMany.mockResolvedValue([
+      { allowBrowserMarkers: false, createdById: "sharer" },
+    ]);
+    db.audio.findUnique.mockImplementation(
+      async ({ where }: { where: { id: string } }) => ({
+        id: where.id,
+        createdById: audioOwners[where.id] ?? "sharer",
+        teamId: null,
+        isPublic: false,
+        deletedAt: null,
+        collaborators: [],
+        team: null,
+      }),
+    );
+  });
+
+  describe("getPublicPlaylistById", () => {
+    it("should keep private audios of other users hidden", async () => {
+      const playlist = await caller.getPublicPlaylistById({ id: "playlist-1" });
+
+      expect(playlist.audios.map(({ audio }) => audio.id)).toEqual([
+        "public",
+        "own",
+      ]);
+    });
+
+    it("should show private audios the creator of the link co-owns", async () => {
+      db.audio.findUnique.mockImplementation(
+        async ({ where }: { where: { id: string } }) => ({
+          id: where.id,
+          createdById: "stranger",
+          teamId: null,
+          isPublic: false,
+          deletedAt: null,
+          collaborators: [{ role: "co-owner" }],
+          team: null,
+        }),
+      );
+
+      const playlist = await caller.getPublicPlaylistById({ id: "playlist-1" });
+
+      expect(playlist.audios).toHaveLength(3);
+    });
+  });
+});
@@ -1,67 +1,132 @@
 import { z } from "zod";
+import { randomBytes } from "node:crypto";
+import type { Prisma } from "@prisma/client";
 
 import {
   createTRPCRouter,
   protectedProcedure,
   publicProcedure,
 } from "~/server/api/trpc";
+import { hasRole } from "~/lib/collaboration";
+import { TEAM_CREATOR_ROLES } from "~/lib/team";
+import {
+  accessibleAudioWhere,
+  assertAudioRole,
+  assertCanCreateInTeam,
+  assertPlaylistRole,
+  getLibraryScope,
+  getPlaylistAccess,
+  getPlaylistShareLinkForAudio,
+  hasViewAccess,
+} from "~/server/permissions";
+
+/** Audios that can be added to a playlist: those of the same library */
+function playlistLibraryWhere(
+  playlist: { teamId: string | null },
+  userId: string,
+): Prisma.AudioWhereInput {
+  return playlist.teamId
+    ? { teamId: playlist.teamId }
+    : { createdById: userId, teamId: null };
+}
 
 export const playlistRouter = createTRPCRouter({
-  getUserPlaylists: protectedProcedure.query(async ({ ctx }) => {
-    const playlists = await ctx.db.playlist.findMany({
+  /** Playlists of the personal library of the user or of one of their teams */
+  getUserPlaylists: protectedProcedure
+    .input(z.object({ teamId: z.string().nullish() }).optional())
+    .query(async ({ ctx, input }) => {
+      const { where, role } = await getLibraryScope(
+        ctx.db,
+        ctx.session.user.id,
+        input?.teamId,
+      );
+      const playlists = await ctx.db.playlist.findMany({
+        where: {
+          ...where,
+          deletedAt: null,
+        },
+        orderBy: { createdAt: "desc" },
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          isPublic: true,
+          createdAt: true,
+          updatedAt: true,
+          listenRecords: {
+            orderBy: { listenedAt: "desc" },
+            take: 1,
+            select: { listenedAt: true },
+          },
+          _count: {
+            select: {
+              audios: {
+                where: {
+                  audio: {
+                    deletedAt: null,
+                  },
+                },
+              },
+              listenRecords: true,
+            },
+          },
+        },
+      });
+
+      // Transform the result to include audioCount, listenCounter, and lastListenAt
+      const playlistsWithAudioCount = playlists.map((playlist) => ({
+        ...playlist,
+        audioCount: playlist._count.audios,
+        listenCounter: playlist._count.listenRecords,
+        lastListenAt: playlist.listenRecords[0]?.listenedAt ?? null,
+        role,
+        listenRecords: undefined,
+        _count: undefined,
+      }));
+
+      return playlistsWithAudioCount;
+    }),
+
+  /** Playlists other users shared with the user, with the granted role */
+  getSharedPlaylists: protectedProcedure.query(async ({ ctx }) => {
+    const collaborations = await ctx.db.playlistCollaborator.findMany({
       where: {
-        createdById: ctx.session.user.id,
-        deletedAt: null,
+        userId: ctx.session.user.id,
+        playlist: { deletedAt: null },
       },
       orderBy: { createdAt: "desc" },
       select: {
-        id: true,
-        name: true,
-        description: true,
-        isPublic: true,
-        createdAt: true,
-        updatedAt: true,
-        listenRecords: {
-          orderBy: { listenedAt: "desc" },
-          take: 1,
-          select: { listenedAt: true },
-        },
-        _count: {
+        role: true,
+        playlist: {
           select: {
-            audios: {
-              where: {
-                audio: {
-                  deletedAt: null,
-                },
-              },
-            },
-            listenRecords: true,
+            id: true,
+            name: true,
+            description: true,
+            isPublic: true,
+            createdAt: true,
+            createdBy: { select: { name: true, email: true } },
           },
         },
       },
     });
 
-    // Transform the result to include audioCount, listenCounter, and lastListenAt
-    const playlistsWithAudioCount = playlists.map((playlist) => ({
-      ...playlist,
-      audioCount: playlist._count.audios,
-      listenCounter: playlist._count.listenRecords,
-      lastListenAt: playlist.listenRecords[0]?.listenedAt ?? null,
-      listenRecords: undefined,
-      _count: undefined,
-    }));
-
-    return playlistsWithAudioCount;
+    return collaborations.map(({ role, playlist }) => ({ ...playlist, role }));
   }),
 
+  /** A playlist of the user or shared with them, with their role */
   getUserPlaylistById: protectedProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
+      const { role } = await assertPlaylistRole(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+        "viewer",
+      );
+
       const playlist = await ctx.db.playlist.findUnique({
         where: {
           id: input.id,
-          createdById: ctx.session.user.id,
-          deletedAt: null,
         },
         select: {
           id: true,
@@ -73,10 +138,12 @@ export const playlistRouter = createTRPCRouter({
           updatedAt: true,
           audios: {
             orderBy: { order: "asc" },
+            // Collaborators only get the audios they can listen to
             where: {
-              audio: {
-                deletedAt: null,
-              },
+              audio:
+                role === "owner"
+                  ? { deletedAt: null }
+                  : accessibleAudioWhere(ctx.session.user.id),
             },
             select: {
               id: true,
@@ -109,6 +176,7 @@ export const playlistRouter = createTRPCRouter({
       // Transform the result to include markerCount at the audio level
       const playlistWithMarkerCount = {
         ...playlist,
+        role,
         audios: playlist.audios.map((playlistAudio) => ({
           ...playlistAudio,
           audio: {
@@ -122,14 +190,26 @@ export const playlistRouter = createTRPCRouter({
       return playlistWithMarkerCount;
     }),
 
+  /**
+   * A public playlist with its public audios, or a private one opened through
+   * a share link with the audios the link opens
+   */
   getPublicPlaylistById: publicProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
+      const access = await getPlaylistAccess(
+        ctx.db,
+        input.id,
+        null,
+        ctx.shareLinkIds,
+      );
+      if (!access || !hasViewAccess(access.playlist, access)) {
+        throw new Error("Playlist not found");
+      }
+
       const playlist = await ctx.db.playlist.findUnique({
         where: {
           id: input.id,
-          isPublic: true,
-          deletedAt: null,
         },
         select: {
           id: true,
@@ -176,19 +256,34 @@ export const playlistRouter = createTRPCRouter({
         throw new Error("Playlist not found");
       }
 
+      // The link only opens the private audios its creator may share
+      const audios: typeof playlist.audios = [];
+      for (const playlistAudio of playlist.audios) {
+        if (
+          playlistAudio.audio.isPublic ||
+          (access.shareLink !== null &&
+            (await getPlaylistShareLinkForAudio(
+              ctx.db,
+              playlistAudio.audio.id,
+              ctx.shareLinkIds,
+            )))
+        ) {
+          audios.push(playlistAudio);
+        }
+      }
+
       // Transform the result to include markerCount at the audio level
       const playlistWithMarkerCount = {
         ...playlist,
-        audios: playlist.audios
-          .filter((playlistAudio) => playlistAudio.audio.isPublic)
-          .map((playlistAudio) => ({
-            ...playlistAudio,
-            audio: {
-              ...playlistAudio.audio,
-              markerCount: playlistAudio.audio._count.markers,
-              _count: undefined,
-            },
-          })),
+        shareLink: access.shareLink,
+        audios: audios.map((playlistAudio) => ({
+          ...playlistAudio,
+          audio: {
+            ...playlistAudio.audio,
+            markerCount: playlistAudio.audio._count.markers,
+            _count: undefined,
+          },
+        })),
       };
 
       return playlistWithMarkerCount;
@@ -203,15 +298,21 @@ export const playlistRouter = createTRPCRouter({
           .max(100, "Name is too long"),
         description: z.string().max(500, "Description is too long").optional(),
         isPublic: z.boolean().default(false),
+        teamId: z.string().nullish(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      if (input.teamId) {
+        await assertCanCreateInTeam(ctx.db, input.teamId, ctx.session.user.id);
+      }
+
       const playlist = await ctx.db.playlist.create({
         data: {
           name: input.name,
           description: input.description,
           isPublic: input.isPublic,
           createdById: ctx.session.user.id,
+          teamId: input.teamId ?? null,
         },
         select: {
           id: true,
@@ -237,16 +338,15 @@ export const playlistRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const playlist = await ctx.db.playlist.findUnique({
-        where: { id: input.id },
-        select: { createdById: true, deletedAt: true },
-      });
-
-      if (!playlist || playlist.deletedAt) {
-        throw new Error("Playlist not found");
-      }
+      const { playlist, role } = await assertPlaylistRole(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+        "editor",
+      );
 
-      if (playlist.createdById !== ctx.session.user.id) {
+      // Who can open the playlist is decided by co-owners
+      if (input.isPublic !== playlist.isPublic && !hasRole(role, "co-owner")) {
         throw new Error("Unauthorized");
       }
 
@@ -271,25 +371,69 @@ export const playlistRouter = createTRPCRouter({
   deletePlaylist: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      // Only the owner deletes a playlist
+      await assertPlaylistRole(ctx.db, input.id, ctx.session.user.id, "owner");
+
+      // Perform soft delete by setting deletedAt timestamp
+      await ctx.db.playlist.update({
+        where: { id: input.id },
+        data: { deletedAt: new Date() },
+      });
+
+      return { success: true };
+    }),
+
+  /** Token of the podcast feed of a private playlist, managed by co-owners */
+  getFeedToken: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await assertPlaylistRole(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+        "co-owner",
+      );
+
       const playlist = await ctx.db.playlist.findUnique({
         where: { id: input.id },
-        select: { createdById: true, deletedAt: true },
+        select: { feedToken: true },
       });
+      return { feedToken: playlist?.feedToken ?? null };
+    }),
 
-      if (!playlist || playlist.deletedAt) {
-        throw new Error("Playlist not found");
-      }
+  /** A new token makes the previous feed URL of the playlist invalid */
+  regenerateFeedToken: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertPlaylistRole(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+        "co-owner",
+      );
 
-      if (playlist.createdById !== ctx.session.user.id) {
-        throw new Error("Unauthorized");
-      }
+      const playlist = await ctx.db.playlist.update({
+        where: { id: input.id },
+        data: { feedToken: randomBytes(24).toString("base64url") },
+        select: { feedToken: true },
+      });
+      return { feedToken: playlist.feedToken };
+    }),
+
+  disableFeedToken: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertPlaylistRole(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+        "co-owner",
+      );
 
-      // Perform soft delete by setting deletedAt timestamp
       await ctx.db.playlist.update({
         where: { id: input.id },
-        data: { deletedAt: new Date() },
+        data: { feedToken: null },
       });
-
       return { success: true };
     }),
 
@@ -301,33 +445,21 @@ export const playlistRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      // Check if playlist exists and belongs to user
-      const playlist = await ctx.db.playlist.findUnique({
-        where: { id: input.playlistId },
-        select: { createdById: true, deletedAt: true },
-      });
-
-      if (!playlist || playlist.deletedAt) {
-        throw new Error("Playlist not found");
-      }
-
-      if (playlist.createdById !== ctx.session.user.id) {
-        throw new Error("Unauthorized");
-      }
-
-      // Check if audio exists and belongs to user
-      const audio = await ctx.db.audio.findUnique({
-        where: { id: input.audioId },
-        select: { createdById: true, deletedAt: true },
-      });
-
-      if (!audio || audio.deletedAt) {
-        throw new Error("Audio not found");
-      }
+      // The owner and editors change the audios of a playlist
+      await assertPlaylistRole(
+        ctx.db,
+        input.playlistId,
+        ctx.session.user.id,
+        "editor",
+      );
 
-      if (audio.createdById !== ctx.session.user.id) {
-        throw new Error("Unauthorized");
-      }
+      // Audios of the user or shared with them can be added
+      await assertAudioRole(
+        ctx.db,
+        input.audioId,
+        ctx.session.user.id,
+        "viewer",
+      );
 
       // Check if audio is already in playlist
       const existingPlaylistAudio = await ctx.db.playlistAudio.findUnique({
@@ -386,19 +518,13 @@ export const playlistRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      // Check if playlist exists and belongs to user
-      const playlist = await ctx.db.playlist.findUnique({
-        where: { id: input.playlistId },
-        select: { createdById: true, deletedAt: true },
-      });
-
-      if (!playlist || playlist.deletedAt) {
-        throw new Error("Playlist not found");
-      }
-
-      if (playlist.createdById !== ctx.session.user.id) {
-        throw new Error("Unauthorized");
-      }
+      // The owner and editors change the audios of a playlist
+      await assertPlaylistRole(
+        ctx.db,
+        input.playlistId,
+        ctx.session.user.id,
+        "editor",
+      );
 
       // Remove audio from playlist
       await ctx.db.playlistAudio.delete({
@@ -426,19 +552,13 @@ export const playlistRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      // Check if playlist exists and belongs to user
-      const playlist = await ctx.db.playlist.findUnique({
-        where: { id: input.playlistId },
-        select: { createdById: true, deletedAt: true },
-      });
-
-      if (!playlist || playlist.deletedAt) {
-        throw new Error("Playlist not found");
-      }
-
-      if (playlist.createdById !== ctx.session.user.id) {
-        throw new Error("Unauthorized");
-      }
+      // The owner and editors change the audios of a playlist
+      await assertPlaylistRole(
+        ctx.db,
+        input.playlistId,
+        ctx.session.user.id,
+        "editor",
+      );
 
       // Update the order of each audio in the playlist
       await Promise.all(
@@ -461,24 +581,18 @@ export const playlistRouter = createTRPCRouter({
   getAvailableAudiosForPlaylist: protectedProcedure
     .input(z.object({ playlistId: z.string() }))
     .query(async ({ ctx, input }) => {
-      // Check if playlist exists and belongs to user
-      const playlist = await ctx.db.playlist.findUnique({
-        where: { id: input.playlistId },
-        select: { createdById: true, deletedAt: true },
-      });
-
-      if (!playlist || playlist.deletedAt) {
-        throw new Error("Playlist not found");
-      }
-
-      if (playlist.createdById !== ctx.session.user.id) {
-        throw new Error("Unauthorized");
-      }
+      // The owner and editors change the audios of a playlist
+      const { playlist } = await assertPlaylistRole(
+        ctx.db,
+        input.playlistId,
+        ctx.session.user.id,
+        "editor",
+      );
 
       // Get all user's audios that are not in this playlist
       const availableAudios = await ctx.db.audio.findMany({
         where: {
-          createdById: ctx.session.user.id,
+          ...playlistLibraryWhere(playlist, ctx.session.user.id),
           deletedAt: null,
           playlistAudios: {
             none: {
@@ -517,8 +631,21 @@ export const playlistRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       const playlists = await ctx.db.playlist.findMany({
         where: {
-          createdById: ctx.session.user.id,
           deletedAt: null,
+          // Personal playlists and those of teams the user creates content in
+          OR: [
+            { createdById: ctx.session.user.id, teamId: null },
+            {
+              team: {
+                members: {
+                  some: {
+                    userId: ctx.session.user.id,
+                    role: { in: [...TEAM_CREATOR_ROLES] },
+                  },
+                },
+              },
+            },
+          ],
         },
         orderBy: { createdAt: "desc" },
         select: {
@@ -565,24 +692,18 @@ export const playlistRouter = createTRPCRouter({
   getUserAudiosForPlaylist: protectedProcedure
     .input(z.object({ playlistId: z.string() }))
     .query(async ({ ctx, input }) => {
-      // Check if playlist exists and belongs to user
-      const playlist = await ctx.db.playlist.findUnique({
-        where: { id: input.playlistId },
-        select: { createdById: true, deletedAt: true },
-      });
-
-      if (!playlist || playlist.deletedAt) {
-        throw new Error("Playlist not found");
-      }
-
-      if (playlist.createdById !== ctx.session.user.id) {
-        throw new Error("Unauthorized");
-      }
+      // The owner and editors change the audios of a playlist
+      const { playlist } = await assertPlaylistRole(
+        ctx.db,
+        input.playlistId,
+        ctx.session.user.id,
+        "editor",
+      );
 
       // Get all user's audios with information about whether they're in this playlist
       const allAudios = await ctx.db.audio.findMany({
         where: {
-          createdById: ctx.session.user.id,
+          ...playlistLibraryWhere(playlist, ctx.session.user.id),
           deletedAt: null,
         },
         orderBy: { createdAt: "desc" },
@@ -624,24 +745,19 @@ export const playlistRouter = createTRPCRouter({
   incrementListenCount: publicProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      const playlist = await ctx.db.playlist.findUnique({
-        where: { id: input.id },
-        select: {
-          id: true,
-          isPublic: true,
-          deletedAt: true,
-          createdById: true,
-        },
-      });
+      const access = await getPlaylistAccess(
+        ctx.db,
+        input.id,
+        ctx.session?.user?.id ?? null,
+        ctx.shareLinkIds,
+      );
 
-      if (!playlist || playlist.deletedAt) {
+      if (!access) {
         throw new Error("Playlist not found");
       }
 
-      // Check if user has access (public or owner)
-      const hasAccess =
-        playlist.isPublic || ctx.session?.user?.id === playlist.createdById;
-      if (!hasAccess) {
+      // Public playlists, playlists of the user or shared with them, and share links
+      if (!hasViewAccess(access.playlist, access)) {
         throw new Error("Unauthorized");
       }
 
@@ -664,12 +780,11 @@ export const playlistRouter = createTRPCRouter({
       }),
     )
     .query(async ({ ctx, input }) => {
-      // Verify user owns this playlist
+      // Statistics are shown to the owner and editors
+      await assertPlaylistRole(ctx.db, input.id, ctx.session.user.id, "editor");
       const playlist = await ctx.db.playlist.findUnique({
         where: {
           id: input.id,
-          createdById: ctx.session.user.id,
-          deletedAt: null,
         },
         select: {
           id: true,
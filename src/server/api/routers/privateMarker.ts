@@ -0,0 +1,243 @@
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { MAX_MARKER_NOTES_LENGTH } from "~/lib/marker";
+import {
+  getNewPrivateMarkers,
+  MAX_MIGRATED_MARKERS,
+} from "~/lib/privateMarker";
+import {
+  accessibleAudioWhere,
+  assertAudioRole,
+  assertCanViewAudio,
+} from "~/server/permissions";
+
+/** A private marker of the user, or an error if it belongs to someone else */
+async function getOwnPrivateMarker(
+  db: Prisma.TransactionClient,
+  id: string,
+  userId: string,
+) {
+  const marker = await db.privateMarker.findUnique({
+    where: { id },
+  });
+  if (marker?.userId !== userId) {
+    throw new Error("Unauthorized");
+  }
+  return marker;
+}
+
+export const privateMarkerRouter = createTRPCRouter({
+  getPrivateMarkers: protectedProcedure
+    .input(z.object({ audioId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await assertCanViewAudio(
+        ctx.db,
+        input.audioId,
+        ctx.session.user.id,
+        ctx.shareLinkIds,
+      );
+
+      return ctx.db.privateMarker.findMany({
+        where: {
+          audioId: input.audioId,
+          userId: ctx.session.user.id,
+        },
+        orderBy: {
+          timestamp: "asc",
+        },
+      });
+    }),
+
+  createPrivateMarker: protectedProcedure
+    .input(
+      z.object({
+        audioId: z.string(),
+        label: z.string().min(1),
+        timestamp: z.number().min(0),
+        endTimestamp: z.number().min(0).optional().nullable(),
+        color: z.string().optional(),
+        notes: z.string().max(MAX_MARKER_NOTES_LENGTH).optional().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertCanViewAudio(
+        ctx.db,
+        input.audioId,
+        ctx.session.user.id,
+        ctx.shareLinkIds,
+      );
+
+      return ctx.db.privateMarker.create({
+        data: {
+          audioId: input.audioId,
+          userId: ctx.session.user.id,
+          label: input.label,
+          timestamp: input.timestamp,
+          endTimestamp: input.endTimestamp,
+          color: input.color,
+          notes: input.notes || null,
+        },
+      });
+    }),
+
+  updatePrivateMarker: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        timestamp: z.number().min(0).optional(),
+        endTimestamp: z.number().min(0).optional().nullable(),
+        label: z.string().min(1).optional(),
+        color: z.string().optional(),
+        notes: z.string().max(MAX_MARKER_NOTES_LENGTH).optional().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await getOwnPrivateMarker(ctx.db, input.id, ctx.session.user.id);
+
+      return ctx.db.privateMarker.update({
+        where: {
+          id: input.id,
+        },
+        data: {
+          ...(input.timestamp !== undefined && { timestamp: input.timestamp }),
+          ...(input.endTimestamp !== undefined && {
+            endTimestamp: input.endTimestamp,
+          }),
+          ...(input.label !== undefined && { label: input.label }),
+          ...(input.color !== undefined && { color: input.color }),
+          ...(input.notes !== undefined && { notes: input.notes || null }),
+        },
+      });
+    }),
+
+  deletePrivateMarker: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnPrivateMarker(ctx.db, input.id, ctx.session.user.id);
+
+      await ctx.db.privateMarker.delete({
+        where: {
+          id: input.id,
+        },
+      });
+      return { success: true };
+    }),
+
+  /**
+   * Moves the browser markers of a listener to their account after signing
+   * in. Markers of audios the user cannot access are left out.
+   */
+  importBrowserMarkers: protectedProcedure
+    .input(
+      z.object({
+        audios: z
+          .array(
+            z.object({
+              audioId: z.string(),
+              markers: z.array(
+                z.object({
+                  label: z.string().min(1),
+                  timestamp: z.number().min(0),
+                  endTimestamp: z.number().min(0).nullable(),
+                  color: z.string().nullable(),
+                  notes: z.string().max(MAX_MARKER_NOTES_LENGTH).nullable(),
+                }),
+              ),
+            }),
+          )
+          .refine(
+            (audios) =>
+              audios.reduce((sum, audio) => sum + audio.markers.length, 0) <=
+              MAX_MIGRATED_MARKERS,
+            { message: "Too many markers" },
+          ),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const accessibleAudios = await ctx.db.audio.findMany({
+        where: {
+          id: { in: input.audios.map((audio) => audio.audioId) },
+          ...accessibleAudioWhere(userId),
+        },
+        select: { id: true },
+      });
+      const accessibleIds = new Set(accessibleAudios.map((audio) => audio.id));
+      const audios = input.audios.filter((audio) =>
+        accessibleIds.has(audio.audioId),
+      );
+
+      return ctx.db.$transaction(async (tx) => {
+        let created = 0;
+        for (const audio of audios) {
+          const existing = await tx.privateMarker.findMany({
+            where: { audioId: audio.audioId, userId },
+            select: { label: true, timestamp: true },
+          });
+          const markers = getNewPrivateMarkers(existing, audio.markers);
+          await tx.privateMarker.createMany({
+            data: markers.map((marker) => ({
+              audioId: audio.audioId,
+              userId,
+              label: marker.label,
+              timestamp: marker.timestamp,
+              endTimestamp: marker.endTimestamp,
+              notes: marker.notes,
+              ...(marker.color !== null && { color: marker.color }),
+            })),
+          });
+          created += markers.length;
+        }
+
+        return {
+          created,
+          importedAudioIds: audios.map((audio) => audio.audioId),
+        };
+      });
+    }),
+
+  /** Turns a private marker into a stored marker of the audio for everyone */
+  promoteToStoredMarker: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const privateMarker = await getOwnPrivateMarker(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+      );
+
+      await assertAudioRole(
+        ctx.db,
+        privateMarker.audioId,
+        ctx.session.user.id,
+        "marker-editor",
+      );
+
+      return ctx.db.$transaction(async (tx) => {
+        const existing = await tx.marker.findFirst({
+          where: {
+            audioId: privateMarker.audioId,
+            timestamp: privateMarker.timestamp,
+          },
+          select: { id: true },
+        });
+        if (existing) {
+          throw new Error("A stored marker already exists at this time");
+        }
+
+        const marker = await tx.marker.create({
+          data: {
+            audioId: privateMarker.audioId,
+            label: privateMarker.label,
+            timestamp: privateMarker.timestamp,
+            endTimestamp: privateMarker.endTimestamp,
+            color: privateMarker.color,
+            notes: privateMarker.notes,
+          },
+        });
+        await tx.privateMarker.delete({ where: { id: privateMarker.id } });
+        return marker;
+      });
+    }),
+});
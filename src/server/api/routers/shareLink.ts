@@ -0,0 +1,157 @@
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { getShareLinkStatus } from "~/lib/shareLink";
+import { assertAudioRole, assertPlaylistRole } from "~/server/permissions";
+import { generateShareToken, hashSharePassword } from "~/server/shareLink";
+
+const resourceSchema = z.enum(["audio", "playlist"]);
+type Resource = z.infer<typeof resourceSchema>;
+
+const shareLinkSelect = {
+  id: true,
+  token: true,
+  label: true,
+  expiresAt: true,
+  passwordHash: true,
+  maxUses: true,
+  useCount: true,
+  allowBrowserMarkers: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+type ShareLinkRecord = Prisma.ShareLinkGetPayload<{
+  select: typeof shareLinkSelect;
+}>;
+
+/** A share link without its password hash */
+function toShareLinkView({ passwordHash, ...link }: ShareLinkRecord) {
+  return {
+    ...link,
+    hasPassword: passwordHash !== null,
+    status: getShareLinkStatus(link),
+  };
+}
+
+/** Share links decide who can listen, like the visibility: co-owners only */
+async function assertCanShare(
+  db: Prisma.TransactionClient,
+  resource: Resource,
+  resourceId: string,
+  userId: string,
+) {
+  if (resource === "audio") {
+    await assertAudioRole(db, resourceId, userId, "co-owner");
+  } else {
+    await assertPlaylistRole(db, resourceId, userId, "co-owner");
+  }
+}
+
+export const shareLinkRouter = createTRPCRouter({
+  /** Share links of an audio or playlist that were not revoked */
+  getShareLinks: protectedProcedure
+    .input(z.object({ resource: resourceSchema, resourceId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await assertCanShare(
+        ctx.db,
+        input.resource,
+        input.resourceId,
+        ctx.session.user.id,
+      );
+
+      const links = await ctx.db.shareLink.findMany({
+        where: {
+          ...(input.resource === "audio"
+            ? { audioId: input.resourceId }
+            : { playlistId: input.resourceId }),
+          revokedAt: null,
+        },
+        select: shareLinkSelect,
+        orderBy: { createdAt: "desc" },
+      });
+
+      return links.map(toShareLinkView);
+    }),
+
+  createShareLink: protectedProcedure
+    .input(
+      z.object({
+        resource: resourceSchema,
+        resourceId: z.string(),
+        label: z.string().trim().max(100, "Label is too long").optional(),
+        expiresAt: z.date().nullish(),
+        password: z.string().max(200).nullish(),
+        maxUses: z.number().int().min(1).nullish(),
+        allowBrowserMarkers: z.boolean().default(false),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertCanShare(
+        ctx.db,
+        input.resource,
+        input.resourceId,
+        ctx.session.user.id,
+      );
+
+      if (input.expiresAt && input.expiresAt <= new Date()) {
+        throw new Error("The expiry date must be in the future");
+      }
+
+      const link = await ctx.db.shareLink.create({
+        data: {
+          token: generateShareToken(),
+          ...(input.resource === "audio"
+            ? { audioId: input.resourceId }
+            : { playlistId: input.resourceId }),
+          createdById: ctx.session.user.id,
+          label: input.label || null,
+          expiresAt: input.expiresAt ?? null,
+          passwordHash: input.password
+            ? await hashSharePassword(input.password)
+            : null,
+          maxUses: input.maxUses ?? null,
+          allowBrowserMarkers: input.allowBrowserMarkers,
+        },
+        select: shareLinkSelect,
+      });
+
+      return toShareLinkView(link);
+    }),
+
+  /** Revoked links no longer give access, also to listeners who opened them */
+  revokeShareLink: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const link = await ctx.db.shareLink.findUnique({
+        where: { id: input.id },
+        select: { audioId: true, playlistId: true },
+      });
+      if (!link) {
+        throw new Error("Share link not found");
+      }
+
+      if (link.audioId) {
+        await assertCanShare(
+          ctx.db,
+          "audio",
+          link.audioId,
+          ctx.session.user.id,
+        );
+      } else if (link.playlistId) {
+        await assertCanShare(
+          ctx.db,
+          "playlist",
+          link.playlistId,
+          ctx.session.user.id,
+        );
+      }
+
+      await ctx.db.shareLink.update({
+        where: { id: input.id },
+        data: { revokedAt: new Date() },
+      });
+      return { success: true };
+    }),
+});
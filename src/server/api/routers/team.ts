@@ -0,0 +1,22 @@
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+
+export const teamRouter = createTRPCRouter({
+  /** Teams of the user with their role, for the workspace switcher */
+  getMyTeams: protectedProcedure.query(async ({ ctx }) => {
+    const memberships = await ctx.db.teamMember.findMany({
+      where: { userId: ctx.session.user.id },
+      select: {
+        role: true,
+        team: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { team: { name: "asc" } },
+    });
+
+    return memberships.map(({ role, team }) => ({ ...team, role }));
+  }),
+});
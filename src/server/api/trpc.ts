@@ -13,6 +13,8 @@ import { ZodError } from "zod";
 
 import { auth } from "~/server/auth";
 import { db } from "~/server/db";
+import { getShareLinkIds } from "~/server/shareLink";
+import { getCookieValue, SHARE_COOKIE } from "~/lib/shareLink";
 
 /**
  * 1. CONTEXT
@@ -28,10 +30,15 @@ import { db } from "~/server/db";
  */
 export const createTRPCContext = async (opts: { headers: Headers }) => {
   const session = await auth();
+  // Share links opened by the listener give access to private content
+  const shareLinkIds = getShareLinkIds(
+    getCookieValue(opts.headers.get("cookie"), SHARE_COOKIE),
+  );
 
   return {
     db,
     session,
+    shareLinkIds,
     ...opts,
   };
 };
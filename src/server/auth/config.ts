@@ -6,6 +6,7 @@ import Authentik from "next-auth/providers/authentik";
 import Nodemailer from "next-auth/providers/nodemailer";
 
 import { db } from "~/server/db";
+import { linkPendingInvitations } from "~/server/collaboration";
 
 /**
  * Module augmentation for `next-auth` types. Allows us to add custom properties to the `session`
@@ -73,6 +74,13 @@ export const authConfig = {
       : []),
   ],
   adapter: PrismaAdapter(db) as Adapter,
+  events: {
+    // Link invitations sent before the account existed
+    createUser: async ({ user }) => {
+      if (!user.id) return;
+      await linkPendingInvitations(db, { id: user.id, email: user.email });
+    },
+  },
   callbacks: {
     session: ({ session, user }) => {
       // Block disabled users from creating sessions
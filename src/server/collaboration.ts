@@ -0,0 +1,44 @@
+import type { Prisma } from "@prisma/client";
+import { normalizeEmail } from "~/lib/collaboration";
+
+/**
+ * Matching collaborator invitations to accounts. Invitations store the
+ * lowercase address, accounts keep the address as it was entered, so both
+ * sides are compared in lowercase.
+ */
+
+/**
+ * Account with an email address, ignoring case
+ * @returns The user id, or null without an account
+ */
+export async function findUserIdByEmail(
+  db: Prisma.TransactionClient,
+  email: string,
+): Promise<string | null> {
+  // SQLite compares case-sensitively and Prisma has no insensitive mode for it
+  const users = await db.$queryRaw<{ id: string }[]>`
+    SELECT id FROM "User" WHERE lower(trim(email)) = ${normalizeEmail(email)}
+    LIMIT 1`;
+  return users[0]?.id ?? null;
+}
+
+/**
+ * Link invitations sent to an address before it belonged to the user, after
+ * signing up or when an administrator creates the account or changes its
+ * address
+ */
+export async function linkPendingInvitations(
+  db: Prisma.TransactionClient,
+  user: { id: string; email: string | null | undefined },
+) {
+  if (!user.email) return;
+  const email = normalizeEmail(user.email);
+  await db.audioCollaborator.updateMany({
+    where: { email, userId: null },
+    data: { userId: user.id },
+  });
+  await db.playlistCollaborator.updateMany({
+    where: { email, userId: null },
+    data: { userId: user.id },
+  });
+}
@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+import { getOEmbedDiscoveryUrl, type EmbedResource } from "~/lib/embed";
+import { getRequestOrigin } from "~/server/requestOrigin";
+
+/**
+ * Alternate link of a listen page to the oEmbed endpoint, so that CMSs can
+ * discover the embed. Only public audios and playlists can be embedded.
+ */
+export async function getOEmbedAlternates(
+  resource: EmbedResource & { isPublic: boolean },
+): Promise<Metadata["alternates"]> {
+  if (!resource.isPublic) {
+    return undefined;
+  }
+  const origin = await getRequestOrigin();
+  const listenPath =
+    resource.type === "audio"
+      ? `/audios/${resource.id}/listen`
+      : `/playlists/${resource.id}/listen`;
+  return {
+    types: {
+      "application/json+oembed": getOEmbedDiscoveryUrl(
+        origin,
+        `${origin}${listenPath}`,
+      ),
+    },
+  };
+}
@@ -0,0 +1,229 @@
+import { ImageResponse } from "next/og";
+import { db } from "~/server/db";
+import { env } from "~/env";
+import { readStoredPeaks } from "~/lib/peaks";
+import {
+  getMarkerTicks,
+  getWaveformBars,
+  OG_IMAGE_SIZE,
+  OG_WAVEFORM_BARS,
+  type MarkerTick,
+} from "~/lib/openGraph";
+
+const PRIMARY_COLOR = "#006FEE";
+const WAVEFORM_WIDTH = 1040;
+const WAVEFORM_HEIGHT = 240;
+const BAR_GAP = 3;
+
+interface OpenGraphCard {
+  title: string;
+  subtitle: string;
+  bars: number[];
+  ticks: MarkerTick[];
+}
+
+/** Public content only, private items and instances that require sign-in get the app card */
+function isPreviewAllowed(item: { isPublic: boolean } | null) {
+  return !!item?.isPublic && !env.REQUIRE_AUTH_FOR_PUBLIC_CONTENT;
+}
+
+/** Waveform and marker ticks of the current file of a public audio */
+async function getAudioWaveform(audio: {
+  filePath: string;
+  markers: {
+    timestamp: number;
+    endTimestamp: number | null;
+    color: string | null;
+  }[];
+}) {
+  const peaks = await readStoredPeaks(audio.filePath);
+  if (!peaks) {
+    return { bars: [], ticks: [] };
+  }
+  return {
+    bars: getWaveformBars(peaks.peaks, OG_WAVEFORM_BARS),
+    ticks: getMarkerTicks(audio.markers, peaks.duration, PRIMARY_COLOR),
+  };
+}
+
+const audioPreviewSelect = {
+  name: true,
+  isPublic: true,
+  filePath: true,
+  createdBy: { select: { name: true } },
+  markers: {
+    select: { timestamp: true, endTimestamp: true, color: true },
+    orderBy: { timestamp: "asc" },
+  },
+} as const;
+
+/**
+ * Card of an audio for link previews
+ * @param audioId - The audio of the listen page
+ * @returns The card, or null if the audio may not be previewed
+ */
+export async function getAudioOpenGraphCard(
+  audioId: string,
+): Promise<OpenGraphCard | null> {
+  const audio = await db.audio.findUnique({
+    where: { id: audioId, deletedAt: null },
+    select: audioPreviewSelect,
+  });
+  if (!audio || !isPreviewAllowed(audio)) {
+    return null;
+  }
+
+  return {
+    title: audio.name,
+    subtitle: [
+      audio.createdBy.name,
+      `${audio.markers.length} ${audio.markers.length === 1 ? "marker" : "markers"}`,
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    ...(await getAudioWaveform(audio)),
+  };
+}
+
+/**
+ * Card of a playlist for link previews, with the waveform of its first
+ * public audio
+ * @param playlistId - The playlist of the listen page
+ * @returns The card, or null if the playlist may not be previewed
+ */
+export async function getPlaylistOpenGraphCard(
+  playlistId: string,
+): Promise<OpenGraphCard | null> {
+  const playlist = await db.playlist.findUnique({
+    where: { id: playlistId, deletedAt: null },
+    select: {
+      name: true,
+      isPublic: true,
+      createdBy: { select: { name: true } },
+      audios: {
+        where: { audio: { isPublic: true, deletedAt: null } },
+        select: { audio: { select: audioPreviewSelect } },
+        orderBy: { order: "asc" },
+      },
+    },
+  });
+  if (!playlist || !isPreviewAllowed(playlist)) {
+    return null;
+  }
+
+  const firstAudio = playlist.audios[0]?.audio;
+  const count = playlist.audios.length;
+  return {
+    title: playlist.name,
+    subtitle: [
+      playlist.createdBy.name,
+      `${count} ${count === 1 ? "audio" : "audios"}`,
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    ...(firstAudio
+      ? await getAudioWaveform(firstAudio)
+      : { bars: [], ticks: [] }),
+  };
+}
+
+function Waveform({ bars, ticks }: Pick<OpenGraphCard, "bars" | "ticks">) {
+  const barWidth = WAVEFORM_WIDTH / bars.length;
+  const barRects = bars.map((bar, index) => {
+    const height = Math.max(4, bar * WAVEFORM_HEIGHT);
+    return {
+      x: index * barWidth + BAR_GAP / 2,
+      y: (WAVEFORM_HEIGHT - height) / 2,
+      height,
+    };
+  });
+
+  return (
+    <svg
+      width={WAVEFORM_WIDTH}
+      height={WAVEFORM_HEIGHT}
+      viewBox={`0 0 ${WAVEFORM_WIDTH} ${WAVEFORM_HEIGHT}`}
+    >
+      {ticks
+        .filter((tick) => tick.end !== null)
+        .map((tick) => (
+          <rect
+            key={`section-${tick.start}`}
+            x={tick.start * WAVEFORM_WIDTH}
+            y={0}
+            width={((tick.end ?? tick.start) - tick.start) * WAVEFORM_WIDTH}
+            height={WAVEFORM_HEIGHT}
+            fill={tick.color}
+            opacity={0.2}
+          />
+        ))}
+      {barRects.map((rect) => (
+        <rect
+          key={rect.x}
+          x={rect.x}
+          y={rect.y}
+          width={Math.max(1, barWidth - BAR_GAP)}
+          height={rect.height}
+          rx={2}
+          fill="#A1A1AA"
+        />
+      ))}
+      {ticks.map((tick) => (
+        <rect
+          key={`tick-${tick.start}`}
+          x={tick.start * WAVEFORM_WIDTH - 2}
+          y={0}
+          width={4}
+          height={WAVEFORM_HEIGHT}
+          fill={tick.color}
+        />
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Render the Open Graph image of a listen page
+ * @param card - Title, subtitle and waveform, null for the card of the app
+ */
+export function renderOpenGraphImage(card: OpenGraphCard | null) {
+  return new ImageResponse(
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        padding: 80,
+        background: "linear-gradient(135deg, #18181B 0%, #27272A 100%)",
+        color: "#FAFAFA",
+      }}
+    >
+      <div style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+        <div style={{ display: "flex", fontSize: 28, color: PRIMARY_COLOR }}>
+          Audio Marker
+        </div>
+        <div
+          style={{
+            display: "flex",
+            fontSize: 60,
+            fontWeight: 700,
+            lineHeight: 1.1,
+          }}
+        >
+          {card?.title ?? "Upload, mark, and share your audio files"}
+        </div>
+        {card?.subtitle && (
+          <div style={{ display: "flex", fontSize: 30, color: "#A1A1AA" }}>
+            {card.subtitle}
+          </div>
+        )}
+      </div>
+      {card && card.bars.length > 0 && (
+        <Waveform bars={card.bars} ticks={card.ticks} />
+      )}
+    </div>,
+    OG_IMAGE_SIZE,
+  );
+}
@@ -0,0 +1,361 @@
+import type { Prisma } from "@prisma/client";
+import {
+  type AccessRole,
+  canView,
+  getAccessRole,
+  getHigherRole,
+  hasRole,
+} from "~/lib/collaboration";
+import { isFeedAudio } from "~/lib/podcastFeed";
+import { canCreateInTeam, getTeamAccessRole } from "~/lib/team";
+
+/**
+ * Shared permission checks for audios and playlists, used by the tRPC
+ * routers and the file routes. The creator is the owner, collaborators have
+ * the role they were granted and team members the role of their team.
+ * Listeners without a role may open private content through share links.
+ */
+
+/** Audios a user can listen to: public, their own and shared with them */
+export function accessibleAudioWhere(userId: string): Prisma.AudioWhereInput {
+  return {
+    deletedAt: null,
+    OR: [
+      { isPublic: true },
+      { createdById: userId, teamId: null },
+      { collaborators: { some: { userId } } },
+      { team: { members: { some: { userId } } } },
+    ],
+  };
+}
+
+/** Share links that were not revoked and did not expire */
+function activeShareLinkWhere(
+  shareLinkIds: readonly string[],
+): Prisma.ShareLinkWhereInput {
+  return {
+    id: { in: [...shareLinkIds] },
+    revokedAt: null,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+  };
+}
+
+/**
+ * Share link a listener opened for private content, a link allowing browser
+ * markers wins over a view-only one
+ */
+async function getShareLink(
+  db: Prisma.TransactionClient,
+  where: Prisma.ShareLinkWhereInput,
+  shareLinkIds: readonly string[],
+): Promise<{ allowBrowserMarkers: boolean } | null> {
+  if (shareLinkIds.length === 0) return null;
+  return db.shareLink.findFirst({
+    where: { AND: [activeShareLinkWhere(shareLinkIds), where] },
+    select: { allowBrowserMarkers: true },
+    orderBy: { allowBrowserMarkers: "desc" },
+  });
+}
+
+/** Role of a user from a grant and from the team of the content */
+function getResourceRole(
+  resource: {
+    createdById: string;
+    teamId: string | null;
+    collaborators: { role: string }[];
+    team: { members: { role: string }[] } | null;
+  },
+  userId: string | null,
+): AccessRole | null {
+  if (!userId) return null;
+  return getHigherRole(
+    getAccessRole(resource, userId, resource.collaborators[0]?.role),
+    getTeamAccessRole(resource.team?.members[0]?.role),
+  );
+}
+
+/**
+ * Role of a user on an audio
+ * @param db - Database client or transaction
+ * @param audioId - The audio
+ * @param userId - The signed-in user, or null
+ * @param shareLinkIds - Share links the listener opened
+ * @returns The audio, the role and the share link granting access to private
+ * audios without a role, or null if it does not exist or was deleted
+ */
+export async function getAudioAccess(
+  db: Prisma.TransactionClient,
+  audioId: string,
+  userId: string | null,
+  shareLinkIds: readonly string[] = [],
+) {
+  const audio = await db.audio.findUnique({
+    where: { id: audioId },
+    select: {
+      id: true,
+      createdById: true,
+      teamId: true,
+      isPublic: true,
+      deletedAt: true,
+      // Without a user no collaborator or team member matches
+      collaborators: {
+        where: { userId: userId ?? "" },
+        select: { role: true },
+      },
+      team: {
+        select: {
+          members: {
+            where: { userId: userId ?? "" },
+            select: { role: true },
+          },
+        },
+      },
+    },
+  });
+  if (!audio || audio.deletedAt) return null;
+
+  const { collaborators: _, team: __, ...rest } = audio;
+  const role = getResourceRole(audio, userId);
+  let shareLink: { allowBrowserMarkers: boolean } | null = null;
+  if (role === null && !audio.isPublic) {
+    const links = [
+      await getShareLink(db, { audioId }, shareLinkIds),
+      await getPlaylistShareLinkForAudio(db, audioId, shareLinkIds),
+    ];
+    shareLink =
+      links.find((link) => link?.allowBrowserMarkers) ??
+      links.find((link) => link !== null) ??
+      null;
+  }
+  return { audio: rest, role, shareLink };
+}
+
+/**
+ * Share link of a playlist opening one of its private audios. Co-owners of a
+ * playlist may add audios they can only listen to, so a link only opens the
+ * audios its creator may share as co-owner.
+ * @param db - Database client or transaction
+ * @param audioId - The audio
+ * @param shareLinkIds - Share links the listener opened
+ */
+export async function getPlaylistShareLinkForAudio(
+  db: Prisma.TransactionClient,
+  audioId: string,
+  shareLinkIds: readonly string[],
+): Promise<{ allowBrowserMarkers: boolean } | null> {
+  if (shareLinkIds.length === 0) return null;
+  const links = await db.shareLink.findMany({
+    where: {
+      AND: [
+        activeShareLinkWhere(shareLinkIds),
+        { playlist: { deletedAt: null, audios: { some: { audioId } } } },
+      ],
+    },
+    select: { allowBrowserMarkers: true, createdById: true },
+    orderBy: { allowBrowserMarkers: "desc" },
+  });
+  for (const { allowBrowserMarkers, createdById } of links) {
+    const access = await getAudioAccess(db, audioId, createdById);
+    if (hasRole(access?.role ?? null, "co-owner")) {
+      return { allowBrowserMarkers };
+    }
+  }
+  return null;
+}
+
+/** Whether a user may listen: with a role, to public content or via a share link */
+export function hasViewAccess(
+  resource: { isPublic: boolean },
+  access: { role: AccessRole | null; shareLink: object | null },
+): boolean {
+  return canView(resource, access.role) || access.shareLink !== null;
+}
+
+/**
+ * Whether an audio belongs to a playlist with the given feed token. Podcast
+ * apps have no session or share cookie, they get the audios of a private feed
+ * with its token, as far as the token opens them.
+ */
+export async function isAudioInFeed(
+  db: Prisma.TransactionClient,
+  audioId: string,
+  feedToken: string | null,
+): Promise<boolean> {
+  if (!feedToken) return false;
+  const playlist = await db.playlist.findUnique({
+    where: { feedToken },
+    select: {
+      createdById: true,
+      teamId: true,
+      deletedAt: true,
+      audios: {
+        where: { audioId, audio: { deletedAt: null } },
+        select: {
+          audio: {
+            select: { isPublic: true, createdById: true, teamId: true },
+          },
+        },
+      },
+    },
+  });
+  const entry = playlist?.audios[0];
+  return (
+    !!playlist &&
+    !playlist.deletedAt &&
+    !!entry &&
+    isFeedAudio(entry.audio, playlist)
+  );
+}
+
+/**
+ * Verify that a user may listen to an audio
+ * @returns The role of the user, null for public audios they have no role on
+ */
+export async function assertCanViewAudio(
+  db: Prisma.TransactionClient,
+  audioId: string,
+  userId: string | null,
+  shareLinkIds: readonly string[] = [],
+): Promise<AccessRole | null> {
+  const access = await getAudioAccess(db, audioId, userId, shareLinkIds);
+  if (!access || !hasViewAccess(access.audio, access)) {
+    throw new Error("Audio not found");
+  }
+  return access.role;
+}
+
+/**
+ * Verify that a user has at least a role on an audio
+ * @returns The audio and the role of the user
+ */
+export async function assertAudioRole(
+  db: Prisma.TransactionClient,
+  audioId: string,
+  userId: string,
+  required: AccessRole,
+) {
+  const access = await getAudioAccess(db, audioId, userId);
+  if (!access) {
+    throw new Error("Audio not found");
+  }
+  if (access.role === null || !hasRole(access.role, required)) {
+    throw new Error("Unauthorized");
+  }
+  return { audio: access.audio, role: access.role };
+}
+
+/**
+ * Role of a user on a playlist
+ * @returns The playlist, the role and the share link granting access to
+ * private playlists without a role, or null if it does not exist or was
+ * deleted
+ */
+export async function getPlaylistAccess(
+  db: Prisma.TransactionClient,
+  playlistId: string,
+  userId: string | null,
+  shareLinkIds: readonly string[] = [],
+) {
+  const playlist = await db.playlist.findUnique({
+    where: { id: playlistId },
+    select: {
+      id: true,
+      createdById: true,
+      teamId: true,
+      isPublic: true,
+      deletedAt: true,
+      // Without a user no collaborator or team member matches
+      collaborators: {
+        where: { userId: userId ?? "" },
+        select: { role: true },
+      },
+      team: {
+        select: {
+          members: {
+            where: { userId: userId ?? "" },
+            select: { role: true },
+          },
+        },
+      },
+    },
+  });
+  if (!playlist || playlist.deletedAt) return null;
+
+  const { collaborators: _, team: __, ...rest } = playlist;
+  const role = getResourceRole(playlist, userId);
+  const shareLink =
+    role === null && !playlist.isPublic
+      ? await getShareLink(db, { playlistId }, shareLinkIds)
+      : null;
+  return { playlist: rest, role, shareLink };
+}
+
+/**
+ * Verify that a user has at least a role on a playlist
+ * @returns The playlist and the role of the user
+ */
+export async function assertPlaylistRole(
+  db: Prisma.TransactionClient,
+  playlistId: string,
+  userId: string,
+  required: AccessRole,
+) {
+  const access = await getPlaylistAccess(db, playlistId, userId);
+  if (!access) {
+    throw new Error("Playlist not found");
+  }
+  if (access.role === null || !hasRole(access.role, required)) {
+    throw new Error("Unauthorized");
+  }
+  return { playlist: access.playlist, role: access.role };
+}
+
+/**
+ * Role of a user in a team
+ * @returns The role, or null if they are no member
+ */
+export async function getTeamRole(
+  db: Prisma.TransactionClient,
+  teamId: string,
+  userId: string,
+): Promise<string | null> {
+  const membership = await db.teamMember.findUnique({
+    where: { teamId_userId: { teamId, userId } },
+    select: { role: true },
+  });
+  return membership?.role ?? null;
+}
+
+/** Verify that a user may upload audios and create playlists for a team */
+export async function assertCanCreateInTeam(
+  db: Prisma.TransactionClient,
+  teamId: string,
+  userId: string,
+) {
+  if (!canCreateInTeam(await getTeamRole(db, teamId, userId))) {
+    throw new Error("Unauthorized");
+  }
+}
+
+/**
+ * Content of a library: the personal one of a user or the one of a team
+ * @param teamId - The team, null or undefined for the personal library
+ * @returns The filter for audios and playlists and the role of the user on them
+ */
+export async function getLibraryScope(
+  db: Prisma.TransactionClient,
+  userId: string,
+  teamId: string | null | undefined,
+): Promise<{
+  where: { createdById?: string; teamId: string | null };
+  role: AccessRole;
+}> {
+  if (!teamId) {
+    return { where: { createdById: userId, teamId: null }, role: "owner" };
+  }
+  const role = getTeamAccessRole(await getTeamRole(db, teamId, userId));
+  if (role === null) {
+    throw new Error("Unauthorized");
+  }
+  return { where: { teamId }, role };
+}
@@ -0,0 +1,16 @@
+import { headers } from "next/headers";
+import { env } from "~/env";
+
+/**
+ * Public origin of the app for absolute links, from `AUTH_URL`. The headers
+ * of a request are chosen by the client, so the host header is only used
+ * in development when no URL is configured.
+ */
+export async function getRequestOrigin(): Promise<string> {
+  if (env.AUTH_URL) {
+    return new URL(env.AUTH_URL).origin;
+  }
+  const host = (await headers()).get("host") ?? "localhost:3000";
+  const protocol = host.startsWith("localhost") ? "http" : "https";
+  return `${protocol}://${host}`;
+}
@@ -0,0 +1,71 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { env } from "~/env";
+import { readShareGrants } from "~/lib/shareLink";
+
+/**
+ * Tokens, passwords and grants of share links. Opening a share link stores a
+ * grant signed with AUTH_SECRET in the share cookie, so the password and the
+ * remaining uses are only checked once per listener.
+ */
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+/** Random token of a new share link, used in its URL */
+export function generateShareToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/** Hashes the password of a share link as `salt:hash` */
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt.toString("base64url")}:${hash.toString("base64url")}`;
+}
+
+/** Checks a password against the hash of a share link */
+export async function verifySharePassword(
+  password: string,
+  passwordHash: string,
+): Promise<boolean> {
+  const [salt, hash] = passwordHash.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "base64url"),
+    expected.length,
+  );
+  return timingSafeEqual(actual, expected);
+}
+
+/** Signature of a grant, proving that the listener opened the share link */
+export function signShareGrant(linkId: string): string {
+  // AUTH_SECRET is only optional outside of production
+  return createHmac("sha256", env.AUTH_SECRET ?? "")
+    .update(linkId)
+    .digest("base64url");
+}
+
+/**
+ * Share links the listener opened
+ * @param cookieValue - The value of the share cookie
+ * @returns The ids of the share links with a valid signature
+ */
+export function getShareLinkIds(cookieValue: string | undefined): string[] {
+  return readShareGrants(cookieValue)
+    .filter((grant) => {
+      const expected = Buffer.from(signShareGrant(grant.linkId));
+      const actual = Buffer.from(grant.signature);
+      return (
+        actual.length === expected.length && timingSafeEqual(actual, expected)
+      );
+    })
+    .map((grant) => grant.linkId);
+}
@@ -4,4 +4,26 @@ export interface AudioMarker {
   endTimestamp?: number | null; // if set, this is a section; otherwise a point marker
   label: string;
   color?: string;
+  notes?: string | null; // long-form notes as Markdown
+  categoryId?: string | null;
 }
+
+/** Comment thread shown as pin on the waveform */
+export interface CommentPin {
+  id: string;
+  timestamp: number;
+  endTimestamp?: number | null; // set for comments on a range
+  resolved: boolean;
+}
+
+/** User-defined meaning of markers, for one audio or all audios of a user */
+export interface MarkerCategory {
+  id: string;
+  name: string;
+  color: string;
+  icon: string;
+  audioId: string | null; // null if the category is available in all audios
+}
+
+/** Processing state of an uploaded audio, updated by the background jobs */
+export type AudioProcessingStatus = "processing" | "ready" | "failed";